@@ -0,0 +1,202 @@
+/**
+ * Live enforcement of `max_cost_usd` and `max_tokens`.
+ *
+ * Claude Code only reports the total cost in its final result message, so
+ * while the run is in progress the cost is estimated from the token usage
+ * of each assistant message and the model's list price. Once the result
+ * message arrives its `total_cost_usd` replaces the estimate.
+ */
+
+export type RunBudget = {
+  maxCostUsd?: number;
+  maxTokens?: number;
+};
+
+export type BudgetUsage = {
+  costUsd: number;
+  tokens: number;
+  /**
+   * Whether the cost is Claude Code's reported total rather than an estimate
+   */
+  costReported?: boolean;
+};
+
+type TokenUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+};
+
+/**
+ * USD per million tokens
+ */
+type ModelPricing = {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+};
+
+const OPUS_PRICING: ModelPricing = {
+  input: 15,
+  output: 75,
+  cacheWrite: 18.75,
+  cacheRead: 1.5,
+};
+
+const SONNET_PRICING: ModelPricing = {
+  input: 3,
+  output: 15,
+  cacheWrite: 3.75,
+  cacheRead: 0.3,
+};
+
+const HAIKU_PRICING: ModelPricing = {
+  input: 0.8,
+  output: 4,
+  cacheWrite: 1,
+  cacheRead: 0.08,
+};
+
+/**
+ * Result subtype written to the execution file when a run is stopped for
+ * exceeding its budget (alongside Claude Code's own `error_max_turns`).
+ * The main action reads it back from here through comment-logic.ts.
+ */
+export const BUDGET_EXCEEDED_SUBTYPE = "error_max_budget";
+
+function parseLimit(name: string, value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const limit = Number(value);
+  if (isNaN(limit) || limit <= 0) {
+    throw new Error(`${name} must be a positive number, got: ${value}`);
+  }
+  return limit;
+}
+
+export function parseBudget(
+  maxCostUsd?: string,
+  maxTokens?: string,
+): RunBudget {
+  return {
+    maxCostUsd: parseLimit("maxCostUsd", maxCostUsd),
+    maxTokens: parseLimit("maxTokens", maxTokens),
+  };
+}
+
+/**
+ * Unknown models are priced like Opus so the estimate errs on the high side
+ */
+export function getModelPricing(model?: string): ModelPricing {
+  const name = model?.toLowerCase() ?? "";
+  if (name.includes("haiku")) {
+    return HAIKU_PRICING;
+  }
+  if (name.includes("sonnet")) {
+    return SONNET_PRICING;
+  }
+  return OPUS_PRICING;
+}
+
+function countTokens(usage: TokenUsage): number {
+  return (
+    (usage.input_tokens ?? 0) +
+    (usage.output_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0)
+  );
+}
+
+function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (
+    ((usage.input_tokens ?? 0) * pricing.input +
+      (usage.output_tokens ?? 0) * pricing.output +
+      (usage.cache_creation_input_tokens ?? 0) * pricing.cacheWrite +
+      (usage.cache_read_input_tokens ?? 0) * pricing.cacheRead) /
+    1_000_000
+  );
+}
+
+function formatUsage(usage: BudgetUsage): string {
+  const cost = usage.costReported ? "" : "estimated ";
+  return `${cost}$${usage.costUsd.toFixed(2)}, ${usage.tokens.toLocaleString("en-US")} tokens`;
+}
+
+/**
+ * Tracks the usage reported in Claude's stream-json output against a budget
+ */
+export class BudgetTracker {
+  // Claude Code emits one message per content block, each repeating the usage
+  // of the API response it belongs to, so usage is counted per message ID
+  private messages = new Map<string, BudgetUsage>();
+  private fallbackId = 0;
+  private reportedCostUsd?: number;
+
+  constructor(private budget: RunBudget) {}
+
+  get enabled(): boolean {
+    return (
+      this.budget.maxCostUsd !== undefined ||
+      this.budget.maxTokens !== undefined
+    );
+  }
+
+  get usage(): BudgetUsage {
+    const total = { costUsd: 0, tokens: 0 };
+    for (const usage of this.messages.values()) {
+      total.costUsd += usage.costUsd;
+      total.tokens += usage.tokens;
+    }
+    if (this.reportedCostUsd !== undefined) {
+      return { ...total, costUsd: this.reportedCostUsd, costReported: true };
+    }
+    return total;
+  }
+
+  /**
+   * Records the usage of one stream-json message
+   * @returns A description of the exceeded limit, or undefined while within budget
+   */
+  record(message: any): string | undefined {
+    if (
+      message?.type === "result" &&
+      typeof message.total_cost_usd === "number"
+    ) {
+      this.reportedCostUsd = message.total_cost_usd;
+      return this.check();
+    }
+
+    const usage: TokenUsage | undefined = message?.message?.usage;
+    if (message?.type !== "assistant" || !usage) {
+      return undefined;
+    }
+
+    const id = message.message.id ?? `message-${this.fallbackId++}`;
+    this.messages.set(id, {
+      costUsd: estimateCost(usage, getModelPricing(message.message.model)),
+      tokens: countTokens(usage),
+    });
+
+    return this.check();
+  }
+
+  check(): string | undefined {
+    const usage = this.usage;
+    if (
+      this.budget.maxCostUsd !== undefined &&
+      usage.costUsd >= this.budget.maxCostUsd
+    ) {
+      return `Cost budget of $${this.budget.maxCostUsd.toFixed(2)} exhausted (${formatUsage(usage)})`;
+    }
+    if (
+      this.budget.maxTokens !== undefined &&
+      usage.tokens >= this.budget.maxTokens
+    ) {
+      return `Token budget of ${this.budget.maxTokens.toLocaleString("en-US")} exhausted (${formatUsage(usage)})`;
+    }
+    return undefined;
+  }
+}
@@ -27,6 +27,13 @@ async function run() {
       claudeEnv: process.env.INPUT_CLAUDE_ENV,
       fallbackModel: process.env.INPUT_FALLBACK_MODEL,
       model: process.env.ANTHROPIC_MODEL,
+      sessionDir: process.env.INPUT_SESSION_DIR,
+      sessionKey: process.env.INPUT_SESSION_KEY,
+      maxSessionAgeHours: process.env.INPUT_MAX_SESSION_AGE_HOURS,
+      maxCostUsd: process.env.INPUT_MAX_COST_USD,
+      maxTokens: process.env.INPUT_MAX_TOKENS,
+      progressCommand: process.env.INPUT_PROGRESS_COMMAND,
+      progressIntervalSeconds: process.env.INPUT_PROGRESS_INTERVAL_SECONDS,
     });
   } catch (error) {
     core.setFailed(`Action failed with error: ${error}`);
@@ -0,0 +1,262 @@
+import { spawn } from "child_process";
+import { writeFile } from "fs/promises";
+import { BudgetTracker } from "./budget";
+
+/**
+ * Snapshot of a running session, written as JSON for the progress command.
+ * The main action reads it back in src/entrypoints/update-progress.ts.
+ */
+export type RunProgress = {
+  startedAt: string;
+  updatedAt: string;
+  elapsedMs: number;
+  currentTool?: {
+    name: string;
+    summary?: string;
+    startedAt: string;
+  };
+  toolCalls: number;
+  filesRead: string[];
+  filesEdited: string[];
+  tokens: number;
+  costUsd: number;
+};
+
+export const DEFAULT_PROGRESS_INTERVAL_SECONDS = 15;
+
+// Report at least every few intervals so the elapsed time keeps moving while
+// a long tool call (such as a test run) is in progress
+const HEARTBEAT_INTERVALS = 4;
+
+// A progress command that hangs must not hold up the next update
+const PROGRESS_COMMAND_TIMEOUT_MS = 30 * 1000;
+
+const EDIT_TOOLS = ["Edit", "MultiEdit", "Write", "NotebookEdit"];
+const READ_TOOLS = ["Read", "NotebookRead"];
+const SUMMARY_LENGTH = 80;
+
+function truncate(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > SUMMARY_LENGTH
+    ? `${line.slice(0, SUMMARY_LENGTH)}…`
+    : line;
+}
+
+/**
+ * Short description of what a tool call does, e.g. the command for Bash
+ */
+export function summarizeToolInput(
+  name: string,
+  input: any,
+): string | undefined {
+  if (!input || typeof input !== "object") {
+    return undefined;
+  }
+  const value =
+    name === "Bash"
+      ? input.command
+      : (input.file_path ??
+        input.notebook_path ??
+        input.pattern ??
+        input.url ??
+        input.query ??
+        input.description ??
+        input.path);
+  return typeof value === "string" && value.trim()
+    ? truncate(value)
+    : undefined;
+}
+
+/**
+ * Follows Claude's stream-json output to describe what it is doing
+ */
+export class ProgressTracker {
+  private startedAt: Date;
+  private usage = new BudgetTracker({});
+  private currentTool?: RunProgress["currentTool"] & { id: string };
+  private toolCalls = 0;
+  private filesRead = new Set<string>();
+  private filesEdited = new Set<string>();
+  private changed = true;
+
+  constructor(startedAt: Date = new Date()) {
+    this.startedAt = startedAt;
+  }
+
+  /**
+   * Whether anything was recorded since the last snapshot
+   */
+  get hasChanges(): boolean {
+    return this.changed;
+  }
+
+  record(message: any, now: Date = new Date()): void {
+    if (message?.type === "assistant") {
+      this.usage.record(message);
+      this.changed = true;
+
+      for (const block of message.message?.content ?? []) {
+        if (block?.type !== "tool_use" || typeof block.name !== "string") {
+          continue;
+        }
+        this.toolCalls++;
+        this.currentTool = {
+          id: block.id,
+          name: block.name,
+          summary: summarizeToolInput(block.name, block.input),
+          startedAt: now.toISOString(),
+        };
+
+        const file = block.input?.file_path ?? block.input?.notebook_path;
+        if (typeof file === "string") {
+          if (EDIT_TOOLS.includes(block.name)) {
+            this.filesEdited.add(file);
+          } else if (READ_TOOLS.includes(block.name)) {
+            this.filesRead.add(file);
+          }
+        }
+      }
+    }
+
+    if (message?.type === "user" && this.currentTool) {
+      const content = message.message?.content;
+      const finished =
+        Array.isArray(content) &&
+        content.some(
+          (block: any) =>
+            block?.type === "tool_result" &&
+            block.tool_use_id === this.currentTool?.id,
+        );
+      if (finished) {
+        this.currentTool = undefined;
+        this.changed = true;
+      }
+    }
+  }
+
+  snapshot(now: Date = new Date()): RunProgress {
+    this.changed = false;
+    const usage = this.usage.usage;
+    const currentTool = this.currentTool && {
+      name: this.currentTool.name,
+      summary: this.currentTool.summary,
+      startedAt: this.currentTool.startedAt,
+    };
+    return {
+      startedAt: this.startedAt.toISOString(),
+      updatedAt: now.toISOString(),
+      elapsedMs: now.getTime() - this.startedAt.getTime(),
+      currentTool,
+      toolCalls: this.toolCalls,
+      filesRead: [...this.filesRead].filter((f) => !this.filesEdited.has(f)),
+      filesEdited: [...this.filesEdited],
+      tokens: usage.tokens,
+      costUsd: usage.costUsd,
+    };
+  }
+}
+
+export function parseProgressInterval(value?: string): number {
+  if (!value) {
+    return DEFAULT_PROGRESS_INTERVAL_SECONDS;
+  }
+  const seconds = Number(value);
+  if (isNaN(seconds) || seconds <= 0) {
+    throw new Error(
+      `progressIntervalSeconds must be a positive number, got: ${value}`,
+    );
+  }
+  return seconds;
+}
+
+function runProgressCommand(
+  command: string,
+  env: Record<string, string | undefined>,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ["ignore", "ignore", "inherit"],
+      env,
+    });
+    const timeoutId = setTimeout(() => {
+      child.kill("SIGKILL");
+    }, PROGRESS_COMMAND_TIMEOUT_MS);
+    child.on("error", (error) => {
+      clearTimeout(timeoutId);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timeoutId);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`exited with code ${code}`));
+      }
+    });
+  });
+}
+
+export type ProgressReporter = {
+  /**
+   * Stops reporting and waits for an update that is still running
+   */
+  stop(): Promise<void>;
+};
+
+/**
+ * Periodically writes the progress to `progressFile` and runs `command`
+ * (with `CLAUDE_PROGRESS_FILE` set) when something changed. Updates never
+ * overlap: an interval is skipped while the previous command is running.
+ */
+export function startProgressReporter(
+  command: string,
+  tracker: ProgressTracker,
+  options: {
+    intervalSeconds: number;
+    progressFile: string;
+    env?: Record<string, string | undefined>;
+  },
+): ProgressReporter {
+  const intervalMs = options.intervalSeconds * 1000;
+  let running: Promise<void> | undefined;
+  let lastReport = Date.now();
+
+  const report = () => {
+    const now = Date.now();
+    if (
+      running ||
+      (!tracker.hasChanges &&
+        now - lastReport < intervalMs * HEARTBEAT_INTERVALS)
+    ) {
+      return;
+    }
+    lastReport = now;
+    running = (async () => {
+      try {
+        await writeFile(
+          options.progressFile,
+          JSON.stringify(tracker.snapshot(), null, 2),
+        );
+        await runProgressCommand(command, {
+          ...process.env,
+          ...options.env,
+          CLAUDE_PROGRESS_FILE: options.progressFile,
+        });
+      } catch (error) {
+        console.warn(`Failed to report progress: ${error}`);
+      } finally {
+        running = undefined;
+      }
+    })();
+  };
+
+  const timer = setInterval(report, intervalMs);
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await running;
+    },
+  };
+}
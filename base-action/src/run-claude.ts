@@ -4,6 +4,18 @@ import { promisify } from "util";
 import { unlink, writeFile, stat } from "fs/promises";
 import { createWriteStream } from "fs";
 import { spawn } from "child_process";
+import {
+  extractSessionId,
+  parseMaxSessionAge,
+  restoreSession,
+  saveSession,
+} from "./session";
+import { BUDGET_EXCEEDED_SUBTYPE, BudgetTracker, parseBudget } from "./budget";
+import {
+  parseProgressInterval,
+  ProgressTracker,
+  startProgressReporter,
+} from "./progress";
 
 const execAsync = promisify(exec);
 
@@ -11,6 +23,7 @@ const execAsync = promisify(exec);
 const TEMP_DIR = process.env.RUNNER_TEMP || process.env.CI_BUILDS_DIR || "/tmp";
 const PIPE_PATH = `${TEMP_DIR}/claude_prompt_pipe`;
 const EXECUTION_FILE = `${TEMP_DIR}/claude-execution-output.json`;
+const PROGRESS_FILE = `${TEMP_DIR}/claude-progress.json`;
 const BASE_ARGS = ["-p", "--verbose", "--output-format", "stream-json"];
 
 export type ClaudeOptions = {
@@ -24,6 +37,15 @@ export type ClaudeOptions = {
   fallbackModel?: string;
   timeoutMinutes?: string;
   model?: string;
+  sessionDir?: string;
+  // Secret the saved session is encrypted with; required with sessionDir
+  sessionKey?: string;
+  maxSessionAgeHours?: string;
+  resumeSessionId?: string;
+  maxCostUsd?: string;
+  maxTokens?: string;
+  progressCommand?: string;
+  progressIntervalSeconds?: string;
 };
 
 type PreparedConfig = {
@@ -100,6 +122,9 @@ export function prepareRunConfig(
   if (options.model) {
     claudeArgs.push("--model", options.model);
   }
+  if (options.resumeSessionId) {
+    claudeArgs.push("--resume", options.resumeSessionId);
+  }
   if (options.timeoutMinutes) {
     const timeoutMinutesNum = parseInt(options.timeoutMinutes, 10);
     if (isNaN(timeoutMinutesNum) || timeoutMinutesNum <= 0) {
@@ -108,6 +133,9 @@ export function prepareRunConfig(
       );
     }
   }
+  // Budgets are enforced while reading Claude's output, not by the CLI
+  parseBudget(options.maxCostUsd, options.maxTokens);
+  parseProgressInterval(options.progressIntervalSeconds);
 
   // Parse custom environment variables
   const customEnv = parseCustomEnvVars(options.claudeEnv);
@@ -120,7 +148,29 @@ export function prepareRunConfig(
 }
 
 export async function runClaude(promptPath: string, options: ClaudeOptions) {
-  const config = prepareRunConfig(promptPath, options);
+  // Resume the session saved by an earlier run on the same PR or issue
+  let resumeSessionId = options.resumeSessionId;
+  let sessionDir = options.sessionDir;
+  if (sessionDir && !options.sessionKey) {
+    core.warning(
+      "session_dir is set without session_key, so the session is neither resumed nor saved",
+    );
+    sessionDir = undefined;
+  }
+  if (sessionDir && !resumeSessionId) {
+    resumeSessionId = await restoreSession(
+      sessionDir,
+      parseMaxSessionAge(options.maxSessionAgeHours),
+      options.sessionKey!,
+    );
+  }
+
+  const config = prepareRunConfig(promptPath, { ...options, resumeSessionId });
+  const budget = new BudgetTracker(
+    parseBudget(options.maxCostUsd, options.maxTokens),
+  );
+  const startTime = Date.now();
+  const progress = new ProgressTracker(new Date(startTime));
 
   // Create a named pipe
   try {
@@ -178,6 +228,52 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     pipeStream.destroy();
   });
 
+  // Report what Claude is doing while it runs
+  const progressReporter = options.progressCommand
+    ? startProgressReporter(options.progressCommand, progress, {
+        intervalSeconds: parseProgressInterval(options.progressIntervalSeconds),
+        progressFile: PROGRESS_FILE,
+        env: config.env,
+      })
+    : undefined;
+
+  // Follow Claude's output line by line for the progress report, and stop
+  // Claude as soon as the reported usage exceeds the budget
+  let budgetExceeded: string | undefined;
+  let pendingLine = "";
+  const processLines = (text: string) => {
+    const lines = (pendingLine + text).split("\n");
+    pendingLine = lines.pop() ?? "";
+    for (const line of lines) {
+      let message;
+      try {
+        message = JSON.parse(line);
+      } catch (e) {
+        // Not a JSON line
+        continue;
+      }
+      if (progressReporter) {
+        progress.record(message);
+      }
+      if (budget.enabled && !budgetExceeded) {
+        budgetExceeded = budget.record(message);
+      }
+      if (budgetExceeded) {
+        console.error(`Stopping Claude: ${budgetExceeded}`);
+        claudeProcess.kill("SIGTERM");
+        // Give it 5 seconds to terminate gracefully, then force kill
+        setTimeout(() => {
+          try {
+            claudeProcess.kill("SIGKILL");
+          } catch (e) {
+            // Process may already be dead
+          }
+        }, 5000);
+        return;
+      }
+    }
+  };
+
   // Capture output for parsing execution metrics
   let output = "";
   claudeProcess.stdout.on("data", (data) => {
@@ -206,6 +302,10 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     });
 
     output += text;
+
+    if (progressReporter || (budget.enabled && !budgetExceeded)) {
+      processLines(text);
+    }
   });
 
   // Handle stdout errors
@@ -263,7 +363,7 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
       if (!resolved) {
         clearTimeout(timeoutId);
         resolved = true;
-        resolve(code || 0);
+        resolve(budgetExceeded ? 1 : code || 0);
       }
     });
 
@@ -277,6 +377,8 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     });
   });
 
+  await progressReporter?.stop();
+
   // Clean up processes
   try {
     catProcess.kill("SIGTERM");
@@ -315,7 +417,9 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
           jsonArray.push(obj);
         } catch (parseError) {
           // Skip invalid JSON lines
-          console.warn(`Skipping invalid JSON line: ${line.substring(0, 100)}...`);
+          console.warn(
+            `Skipping invalid JSON line: ${line.substring(0, 100)}...`,
+          );
         }
       }
 
@@ -323,6 +427,39 @@ export async function runClaude(promptPath: string, options: ClaudeOptions) {
     }
   }
 
+  // Claude was stopped before it could report its result, so record one
+  // that the comment update can show
+  if (budgetExceeded) {
+    const usage = budget.usage;
+    const result = {
+      type: "result",
+      subtype: BUDGET_EXCEEDED_SUBTYPE,
+      is_error: true,
+      duration_ms: Date.now() - startTime,
+      cost_usd: usage.costUsd,
+      total_cost_usd: usage.costUsd,
+      num_tokens: usage.tokens,
+      result: budgetExceeded,
+    };
+    if (output && !output.endsWith("\n")) {
+      output += "\n";
+    }
+    output += `${JSON.stringify(result)}\n`;
+    core.warning(budgetExceeded);
+    core.setOutput("budget_exceeded", budgetExceeded);
+  }
+
+  if (sessionDir) {
+    const sessionId = extractSessionId(output);
+    if (sessionId) {
+      try {
+        await saveSession(sessionDir, sessionId, options.sessionKey!);
+      } catch (e) {
+        core.warning(`Failed to save session ${sessionId}: ${e}`);
+      }
+    }
+  }
+
   // Set conclusion based on exit code
   if (exitCode === 0) {
     // Try to process the output and save execution metrics
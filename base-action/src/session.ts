@@ -0,0 +1,189 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+/**
+ * Encrypted file holding the saved session in the session directory
+ */
+export const SESSION_FILE = "session.enc";
+
+export const DEFAULT_MAX_SESSION_AGE_HOURS = 24;
+
+export type StoredSession = {
+  sessionId: string;
+  updatedAt: string;
+  // Contents of the session's transcript file
+  transcript: string;
+};
+
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+function deriveKey(secret: string): Buffer {
+  return Buffer.from(
+    hkdfSync("sha256", secret, "", "claude-code-action session", 32),
+  );
+}
+
+/**
+ * Encrypts a session with a key derived from `secret`. The transcript holds
+ * everything Claude read, and the session directory usually lives in a cache
+ * other workflows can read and write.
+ */
+export function encryptSession(session: StoredSession, secret: string): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, deriveKey(secret), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(session), "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]);
+}
+
+/**
+ * Decrypts a session saved by `encryptSession`
+ * @throws when the secret is wrong or the data was tampered with
+ */
+export function decryptSession(data: Buffer, secret: string): StoredSession {
+  const decipher = createDecipheriv(
+    CIPHER,
+    deriveKey(secret),
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  const json = Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]).toString("utf8");
+  return JSON.parse(json);
+}
+
+/**
+ * Directory where Claude Code keeps the transcripts of sessions started in
+ * `cwd`. Claude Code names it after the working directory with every
+ * non-alphanumeric character replaced by a dash.
+ */
+export function getTranscriptDirectory(cwd: string): string {
+  const configDir = process.env.CLAUDE_CONFIG_DIR || join(homedir(), ".claude");
+  return join(configDir, "projects", cwd.replace(/[^a-zA-Z0-9]/g, "-"));
+}
+
+/**
+ * Finds the session ID in Claude's stream-json output (reported by the init
+ * message and repeated on the result message)
+ */
+export function extractSessionId(output: string): string | undefined {
+  for (const line of output.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const message = JSON.parse(line);
+      if (typeof message.session_id === "string" && message.session_id) {
+        return message.session_id;
+      }
+    } catch (e) {
+      // Not a JSON line
+    }
+  }
+  return undefined;
+}
+
+export function parseMaxSessionAge(value?: string): number {
+  if (!value) {
+    return DEFAULT_MAX_SESSION_AGE_HOURS;
+  }
+  const hours = Number(value);
+  if (isNaN(hours) || hours < 0) {
+    throw new Error(
+      `maxSessionAgeHours must be a non-negative number, got: ${value}`,
+    );
+  }
+  return hours;
+}
+
+/**
+ * Restores the session saved in `sessionDir` so it can be resumed with
+ * `--resume`. Returns undefined when there is no saved session, when it can't
+ * be decrypted with `secret` or when it is older than `maxAgeHours`.
+ */
+export async function restoreSession(
+  sessionDir: string,
+  maxAgeHours: number,
+  secret: string,
+  cwd: string = process.cwd(),
+  now: Date = new Date(),
+): Promise<string | undefined> {
+  let data: Buffer;
+  try {
+    data = await readFile(join(sessionDir, SESSION_FILE));
+  } catch (e) {
+    console.log("No previous session found, starting a new one");
+    return undefined;
+  }
+
+  let stored: StoredSession;
+  try {
+    stored = decryptSession(data, secret);
+  } catch (e) {
+    console.log(
+      "Saved session could not be decrypted with the session key, starting a new one",
+    );
+    return undefined;
+  }
+
+  if (!stored.sessionId || !/^[a-zA-Z0-9-]+$/.test(stored.sessionId)) {
+    console.log("Saved session is invalid, starting a new one");
+    return undefined;
+  }
+
+  const ageHours =
+    (now.getTime() - new Date(stored.updatedAt).getTime()) / (60 * 60 * 1000);
+  if (isNaN(ageHours) || ageHours > maxAgeHours) {
+    console.log(
+      `Previous session ${stored.sessionId} is older than ${maxAgeHours} hours, starting a new one`,
+    );
+    return undefined;
+  }
+
+  const transcriptDir = getTranscriptDirectory(cwd);
+  await mkdir(transcriptDir, { recursive: true });
+  await writeFile(
+    join(transcriptDir, `${stored.sessionId}.jsonl`),
+    stored.transcript,
+  );
+
+  console.log(`Resuming session ${stored.sessionId}`);
+  return stored.sessionId;
+}
+
+/**
+ * Encrypts the transcript of a finished session into `sessionDir` so a later
+ * run can resume it
+ */
+export async function saveSession(
+  sessionDir: string,
+  sessionId: string,
+  secret: string,
+  cwd: string = process.cwd(),
+  now: Date = new Date(),
+): Promise<void> {
+  const transcript = await readFile(
+    join(getTranscriptDirectory(cwd), `${sessionId}.jsonl`),
+    "utf8",
+  );
+  await mkdir(sessionDir, { recursive: true });
+  await writeFile(
+    join(sessionDir, SESSION_FILE),
+    encryptSession(
+      { sessionId, updatedAt: now.toISOString(), transcript },
+      secret,
+    ),
+  );
+  console.log(`Saved session ${sessionId} to ${sessionDir}`);
+}
@@ -0,0 +1,143 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import { BudgetTracker, getModelPricing, parseBudget } from "../src/budget";
+
+function assistantMessage(
+  id: string,
+  usage: Record<string, number>,
+  model = "claude-sonnet-4-20250514",
+) {
+  return {
+    type: "assistant",
+    message: { id, model, usage, content: [] },
+  };
+}
+
+describe("parseBudget", () => {
+  test("should leave unset limits undefined", () => {
+    expect(parseBudget(undefined, "")).toEqual({
+      maxCostUsd: undefined,
+      maxTokens: undefined,
+    });
+  });
+
+  test("should parse numeric limits", () => {
+    expect(parseBudget("1.5", "200000")).toEqual({
+      maxCostUsd: 1.5,
+      maxTokens: 200000,
+    });
+  });
+
+  test("should reject non-positive limits", () => {
+    expect(() => parseBudget("-1")).toThrow(
+      "maxCostUsd must be a positive number, got: -1",
+    );
+    expect(() => parseBudget(undefined, "many")).toThrow(
+      "maxTokens must be a positive number, got: many",
+    );
+  });
+});
+
+describe("getModelPricing", () => {
+  test("should price models by family and unknown models like Opus", () => {
+    expect(getModelPricing("claude-3-5-haiku-20241022").input).toBe(0.8);
+    expect(getModelPricing("claude-sonnet-4-20250514").input).toBe(3);
+    expect(getModelPricing("claude-opus-4-20250514").input).toBe(15);
+    expect(getModelPricing("custom-model").input).toBe(15);
+    expect(getModelPricing(undefined).input).toBe(15);
+  });
+});
+
+describe("BudgetTracker", () => {
+  test("should be disabled without limits", () => {
+    expect(new BudgetTracker({}).enabled).toBe(false);
+    expect(new BudgetTracker({ maxTokens: 10 }).enabled).toBe(true);
+  });
+
+  test("should estimate cost from token usage", () => {
+    const tracker = new BudgetTracker({ maxCostUsd: 100 });
+    tracker.record(
+      assistantMessage("msg_1", {
+        input_tokens: 1_000_000,
+        output_tokens: 100_000,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 1_000_000,
+      }),
+    );
+
+    // $3 input + $1.50 output + $0.30 cache reads
+    expect(tracker.usage.costUsd).toBeCloseTo(4.8);
+    expect(tracker.usage.tokens).toBe(2_100_000);
+  });
+
+  test("should count usage repeated for the same message once", () => {
+    const tracker = new BudgetTracker({ maxTokens: 1_000 });
+    tracker.record(assistantMessage("msg_1", { input_tokens: 300 }));
+    tracker.record(
+      assistantMessage("msg_1", { input_tokens: 300, output_tokens: 50 }),
+    );
+    tracker.record(assistantMessage("msg_2", { input_tokens: 400 }));
+
+    expect(tracker.usage.tokens).toBe(750);
+  });
+
+  test("should ignore messages without usage", () => {
+    const tracker = new BudgetTracker({ maxTokens: 1 });
+    expect(
+      tracker.record({ type: "system", subtype: "init", session_id: "abc" }),
+    ).toBeUndefined();
+    expect(
+      tracker.record({ type: "user", message: { content: [] } }),
+    ).toBeUndefined();
+    expect(tracker.usage.tokens).toBe(0);
+  });
+
+  test("should report the token limit once it is reached", () => {
+    const tracker = new BudgetTracker({ maxTokens: 1_000 });
+    expect(
+      tracker.record(assistantMessage("msg_1", { input_tokens: 999 })),
+    ).toBeUndefined();
+    expect(
+      tracker.record(assistantMessage("msg_2", { output_tokens: 1 })),
+    ).toBe("Token budget of 1,000 exhausted (estimated $0.00, 1,000 tokens)");
+  });
+
+  test("should report the cost limit once it is reached", () => {
+    const tracker = new BudgetTracker({ maxCostUsd: 1 });
+    expect(
+      tracker.record(
+        assistantMessage(
+          "msg_1",
+          { output_tokens: 20_000 },
+          "claude-opus-4-20250514",
+        ),
+      ),
+    ).toBe("Cost budget of $1.00 exhausted (estimated $1.50, 20,000 tokens)");
+  });
+
+  test("should use the reported total cost over the estimate", () => {
+    const tracker = new BudgetTracker({ maxCostUsd: 1 });
+    tracker.record(
+      assistantMessage(
+        "msg_1",
+        { output_tokens: 10_000 },
+        "claude-opus-4-20250514",
+      ),
+    );
+    expect(tracker.usage.costUsd).toBeCloseTo(0.75);
+
+    expect(
+      tracker.record({
+        type: "result",
+        subtype: "success",
+        total_cost_usd: 1.2,
+      }),
+    ).toBe("Cost budget of $1.00 exhausted ($1.20, 10,000 tokens)");
+    expect(tracker.usage).toEqual({
+      costUsd: 1.2,
+      tokens: 10_000,
+      costReported: true,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, afterEach } from "bun:test";
+import {
+  parseProgressInterval,
+  ProgressTracker,
+  startProgressReporter,
+  summarizeToolInput,
+} from "../src/progress";
+import { tmpdir } from "os";
+import { mkdir, readFile, rm } from "fs/promises";
+import { join } from "path";
+
+const start = new Date("2025-01-01T12:00:00Z");
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+function toolUse(id: string, name: string, input: Record<string, unknown>) {
+  return {
+    type: "assistant",
+    message: {
+      id: `msg_${id}`,
+      model: "claude-sonnet-4-20250514",
+      usage: { input_tokens: 100, output_tokens: 10 },
+      content: [{ type: "tool_use", id, name, input }],
+    },
+  };
+}
+
+function toolResult(id: string) {
+  return {
+    type: "user",
+    message: { content: [{ type: "tool_result", tool_use_id: id }] },
+  };
+}
+
+describe("summarizeToolInput", () => {
+  test("should describe common tool inputs", () => {
+    expect(summarizeToolInput("Bash", { command: "npm  test\n" })).toBe(
+      "npm test",
+    );
+    expect(summarizeToolInput("Read", { file_path: "src/a.ts" })).toBe(
+      "src/a.ts",
+    );
+    expect(summarizeToolInput("Grep", { pattern: "TODO" })).toBe("TODO");
+    expect(summarizeToolInput("mcp__github__get_issue", {})).toBeUndefined();
+    expect(summarizeToolInput("Bash", { command: "x".repeat(100) })).toBe(
+      `${"x".repeat(80)}…`,
+    );
+  });
+});
+
+describe("parseProgressInterval", () => {
+  test("should default to 15 seconds and reject invalid values", () => {
+    expect(parseProgressInterval(undefined)).toBe(15);
+    expect(parseProgressInterval("5")).toBe(5);
+    expect(() => parseProgressInterval("0")).toThrow(
+      "progressIntervalSeconds must be a positive number, got: 0",
+    );
+  });
+});
+
+describe("ProgressTracker", () => {
+  test("should follow tool calls, files and usage", () => {
+    const tracker = new ProgressTracker(start);
+    tracker.record(toolUse("t1", "Read", { file_path: "src/a.ts" }), at(1));
+    tracker.record(toolResult("t1"), at(2));
+    tracker.record(toolUse("t2", "Edit", { file_path: "src/b.ts" }), at(3));
+    tracker.record(toolResult("t2"), at(4));
+    tracker.record(toolUse("t3", "Bash", { command: "npm test" }), at(5));
+
+    const progress = tracker.snapshot(at(65));
+    expect(progress).toEqual({
+      startedAt: "2025-01-01T12:00:00.000Z",
+      updatedAt: "2025-01-01T12:01:05.000Z",
+      elapsedMs: 65_000,
+      currentTool: {
+        name: "Bash",
+        summary: "npm test",
+        startedAt: "2025-01-01T12:00:05.000Z",
+      },
+      toolCalls: 3,
+      filesRead: ["src/a.ts"],
+      filesEdited: ["src/b.ts"],
+      tokens: 330,
+      costUsd: expect.any(Number),
+    });
+  });
+
+  test("should clear the current tool when its result arrives", () => {
+    const tracker = new ProgressTracker(start);
+    tracker.record(toolUse("t1", "Bash", { command: "ls" }), at(1));
+    tracker.record(toolResult("other"), at(2));
+    expect(tracker.snapshot(at(3)).currentTool?.name).toBe("Bash");
+
+    tracker.record(toolResult("t1"), at(4));
+    expect(tracker.snapshot(at(5)).currentTool).toBeUndefined();
+  });
+
+  test("should list files that were read and then edited only as edited", () => {
+    const tracker = new ProgressTracker(start);
+    tracker.record(toolUse("t1", "Read", { file_path: "src/a.ts" }));
+    tracker.record(toolUse("t2", "Write", { file_path: "src/a.ts" }));
+
+    const progress = tracker.snapshot();
+    expect(progress.filesRead).toEqual([]);
+    expect(progress.filesEdited).toEqual(["src/a.ts"]);
+  });
+
+  test("should track whether anything changed since the last snapshot", () => {
+    const tracker = new ProgressTracker(start);
+    expect(tracker.hasChanges).toBe(true);
+    tracker.snapshot();
+    expect(tracker.hasChanges).toBe(false);
+    tracker.record({ type: "system", subtype: "init" });
+    expect(tracker.hasChanges).toBe(false);
+    tracker.record(toolUse("t1", "Bash", { command: "ls" }));
+    expect(tracker.hasChanges).toBe(true);
+  });
+});
+
+describe("startProgressReporter", () => {
+  const testDir = join(tmpdir(), "claude-progress-test", Date.now().toString());
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should write the progress file and run the command", async () => {
+    await mkdir(testDir, { recursive: true });
+    const progressFile = join(testDir, "progress.json");
+    const copy = join(testDir, "copy.json");
+
+    const tracker = new ProgressTracker(start);
+    tracker.record(toolUse("t1", "Bash", { command: "npm test" }));
+
+    const reporter = startProgressReporter(
+      `cp "$CLAUDE_PROGRESS_FILE" "${copy}"`,
+      tracker,
+      { intervalSeconds: 0.05, progressFile },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await reporter.stop();
+
+    const progress = JSON.parse(await readFile(copy, "utf8"));
+    expect(progress.currentTool.summary).toBe("npm test");
+  });
+});
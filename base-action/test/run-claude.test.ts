@@ -96,6 +96,18 @@ describe("prepareRunConfig", () => {
     expect(prepared.claudeArgs).toContain("claude-sonnet-4-20250514");
   });
 
+  test("should include resume session in command arguments", () => {
+    const options: ClaudeOptions = {
+      resumeSessionId: "0b6e7a5c-1f7e-4d2a-9c51-3f0d2e8a9b10",
+    };
+    const prepared = prepareRunConfig("/tmp/test-prompt.txt", options);
+
+    expect(prepared.claudeArgs).toContain("--resume");
+    expect(prepared.claudeArgs).toContain(
+      "0b6e7a5c-1f7e-4d2a-9c51-3f0d2e8a9b10",
+    );
+  });
+
   test("should use provided prompt path", () => {
     const options: ClaudeOptions = {};
     const prepared = prepareRunConfig("/custom/prompt/path.txt", options);
@@ -114,6 +126,7 @@ describe("prepareRunConfig", () => {
     expect(prepared.claudeArgs).not.toContain("--system-prompt");
     expect(prepared.claudeArgs).not.toContain("--append-system-prompt");
     expect(prepared.claudeArgs).not.toContain("--fallback-model");
+    expect(prepared.claudeArgs).not.toContain("--resume");
   });
 
   test("should preserve order of claude arguments", () => {
@@ -229,6 +242,29 @@ describe("prepareRunConfig", () => {
     });
   });
 
+  describe("budget validation", () => {
+    test("should accept valid budgets without passing them to Claude", () => {
+      const options: ClaudeOptions = { maxCostUsd: "2.50", maxTokens: "1000" };
+      const prepared = prepareRunConfig("/tmp/test-prompt.txt", options);
+      expect(prepared.claudeArgs).not.toContain("2.50");
+      expect(prepared.claudeArgs).not.toContain("1000");
+    });
+
+    test("should throw error for invalid maxCostUsd", () => {
+      const options: ClaudeOptions = { maxCostUsd: "free" };
+      expect(() => prepareRunConfig("/tmp/test-prompt.txt", options)).toThrow(
+        "maxCostUsd must be a positive number, got: free",
+      );
+    });
+
+    test("should throw error for zero maxTokens", () => {
+      const options: ClaudeOptions = { maxTokens: "0" };
+      expect(() => prepareRunConfig("/tmp/test-prompt.txt", options)).toThrow(
+        "maxTokens must be a positive number, got: 0",
+      );
+    });
+  });
+
   describe("custom environment variables", () => {
     test("should parse empty claudeEnv correctly", () => {
       const options: ClaudeOptions = { claudeEnv: "" };
@@ -0,0 +1,170 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  encryptSession,
+  extractSessionId,
+  getTranscriptDirectory,
+  parseMaxSessionAge,
+  restoreSession,
+  saveSession,
+  SESSION_FILE,
+  type StoredSession,
+} from "../src/session";
+import { tmpdir } from "os";
+import { mkdir, writeFile, readFile, rm } from "fs/promises";
+import { join } from "path";
+
+const testDir = join(tmpdir(), "claude-session-test", Date.now().toString());
+const configDir = join(testDir, "config");
+const sessionDir = join(testDir, "session");
+const cwd = "/home/runner/work/repo/repo";
+const sessionId = "0b6e7a5c-1f7e-4d2a-9c51-3f0d2e8a9b10";
+const key = "session-secret";
+
+async function writeStoredSession(
+  session: StoredSession,
+  secret: string = key,
+): Promise<void> {
+  await mkdir(sessionDir, { recursive: true });
+  await writeFile(
+    join(sessionDir, SESSION_FILE),
+    encryptSession(session, secret),
+  );
+}
+
+describe("session resume", () => {
+  const originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+
+  beforeEach(async () => {
+    process.env.CLAUDE_CONFIG_DIR = configDir;
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    if (originalConfigDir === undefined) {
+      delete process.env.CLAUDE_CONFIG_DIR;
+    } else {
+      process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    }
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("should name the transcript directory after the working directory", () => {
+    expect(getTranscriptDirectory(cwd)).toBe(
+      join(configDir, "projects", "-home-runner-work-repo-repo"),
+    );
+  });
+
+  test("should extract the session ID from stream-json output", () => {
+    const output = [
+      "not json",
+      JSON.stringify({
+        type: "system",
+        subtype: "init",
+        session_id: sessionId,
+      }),
+      JSON.stringify({ type: "result", session_id: sessionId }),
+    ].join("\n");
+
+    expect(extractSessionId(output)).toBe(sessionId);
+    expect(extractSessionId("")).toBeUndefined();
+  });
+
+  test("should validate the max session age", () => {
+    expect(parseMaxSessionAge(undefined)).toBe(24);
+    expect(parseMaxSessionAge("0.5")).toBe(0.5);
+    expect(() => parseMaxSessionAge("-1")).toThrow(
+      "maxSessionAgeHours must be a non-negative number, got: -1",
+    );
+    expect(() => parseMaxSessionAge("abc")).toThrow();
+  });
+
+  test("should save a session and restore it on the next run", async () => {
+    const transcriptDir = getTranscriptDirectory(cwd);
+    await mkdir(transcriptDir, { recursive: true });
+    await writeFile(join(transcriptDir, `${sessionId}.jsonl`), '{"a":1}\n');
+
+    await saveSession(
+      sessionDir,
+      sessionId,
+      key,
+      cwd,
+      new Date("2025-01-01T00:00:00Z"),
+    );
+
+    // Nothing readable is left in the session directory
+    const saved = await readFile(join(sessionDir, SESSION_FILE));
+    expect(saved.toString("latin1")).not.toContain(sessionId);
+    expect(saved.toString("latin1")).not.toContain('{"a":1}');
+
+    // A fresh runner has no transcript until the session is restored
+    await rm(configDir, { recursive: true, force: true });
+
+    const restored = await restoreSession(
+      sessionDir,
+      24,
+      key,
+      cwd,
+      new Date("2025-01-01T12:00:00Z"),
+    );
+    expect(restored).toBe(sessionId);
+    expect(
+      await readFile(join(transcriptDir, `${sessionId}.jsonl`), "utf8"),
+    ).toBe('{"a":1}\n');
+  });
+
+  test("should not resume a session encrypted with another key", async () => {
+    await writeStoredSession(
+      { sessionId, updatedAt: new Date().toISOString(), transcript: "{}\n" },
+      "attacker-secret",
+    );
+
+    expect(await restoreSession(sessionDir, 24, key, cwd)).toBeUndefined();
+  });
+
+  test("should not resume a tampered session", async () => {
+    await writeStoredSession({
+      sessionId,
+      updatedAt: new Date().toISOString(),
+      transcript: "{}\n",
+    });
+    const file = join(sessionDir, SESSION_FILE);
+    const data = await readFile(file);
+    data[data.length - 1]! ^= 1;
+    await writeFile(file, data);
+
+    expect(await restoreSession(sessionDir, 24, key, cwd)).toBeUndefined();
+  });
+
+  test("should not resume a session older than the max age", async () => {
+    await writeStoredSession({
+      sessionId,
+      updatedAt: "2025-01-01T00:00:00Z",
+      transcript: "{}\n",
+    });
+
+    expect(
+      await restoreSession(
+        sessionDir,
+        24,
+        key,
+        cwd,
+        new Date("2025-01-02T00:00:01Z"),
+      ),
+    ).toBeUndefined();
+  });
+
+  test("should not resume without a saved session", async () => {
+    expect(await restoreSession(sessionDir, 24, key, cwd)).toBeUndefined();
+  });
+
+  test("should reject session IDs that are not safe file names", async () => {
+    await writeStoredSession({
+      sessionId: "../../etc/passwd",
+      updatedAt: new Date().toISOString(),
+      transcript: "{}\n",
+    });
+    expect(await restoreSession(sessionDir, 24, key, cwd)).toBeUndefined();
+  });
+});
@@ -0,0 +1,222 @@
+import { Hono } from "hono";
+import { basicAuth } from "hono/basic-auth";
+import { bearerAuth } from "hono/bearer-auth";
+import { some } from "hono/combine";
+import { csrf } from "hono/csrf";
+import { HTTPException } from "hono/http-exception";
+import {
+  GLOBAL_CONFIG_PATH,
+  deleteStoredSettings,
+  getDisabledPaths,
+  getProjectSettings,
+  getStoredSettings,
+  setDisabled,
+  setStoredSettings,
+  validateSettings,
+} from "./config";
+import { renderDashboard } from "./dashboard";
+import { getPipeline } from "./gitlab";
+import { listTriggers } from "./history";
+import { getRateLimits, resetRateLimits } from "./limiter";
+import { logger } from "./logger";
+import { getJob, listJobs } from "./queue";
+
+export const admin = new Hono();
+
+const token = process.env.ADMIN_TOKEN!;
+const requireToken = bearerAuth({ token });
+
+// Browsers get a login prompt for the dashboard, where the username is
+// "admin" and the password the token. The dashboard routes are registered
+// before the middleware below, so they are the only ones that accept the login.
+const requireLogin = some(
+  requireToken,
+  basicAuth({ username: "admin", password: token, realm: "Claude admin" }),
+);
+
+// Browsers resend the login with cross-site form posts, so the dashboard's
+// forms are only accepted from pages served by this host. The scheme isn't
+// compared since TLS usually ends at a proxy in front of the server.
+const sameOrigin = csrf({
+  origin: (origin, c) =>
+    origin.replace(/^https?:\/\//, "") === new URL(c.req.url).host,
+});
+
+admin.get("/dashboard", requireLogin, async (c) => {
+  const [disabledPaths, jobs, triggers, rateLimits, settings] =
+    await Promise.all([
+      getDisabledPaths(),
+      listJobs(),
+      listTriggers(),
+      getRateLimits(),
+      getStoredSettings(),
+    ]);
+
+  return c.html(
+    renderDashboard({ disabledPaths, jobs, triggers, rateLimits, settings }),
+  );
+});
+
+// The dashboard's kill switch for all projects
+admin.post("/dashboard/disable", sameOrigin, requireLogin, async (c) => {
+  await setDisabled(GLOBAL_CONFIG_PATH, true);
+  return c.redirect("/admin/dashboard");
+});
+
+admin.post("/dashboard/enable", sameOrigin, requireLogin, async (c) => {
+  await setDisabled(GLOBAL_CONFIG_PATH, false);
+  return c.redirect("/admin/dashboard");
+});
+
+admin.get("/", (c) => c.redirect("/admin/dashboard"));
+
+// Everything else takes the token as a bearer token only, which browsers
+// never send on their own
+admin.use("*", requireToken);
+
+admin.onError((error, c) => {
+  if (error instanceof HTTPException) {
+    return error.getResponse();
+  }
+  logger.error("Admin request failed", {
+    path: c.req.path,
+    error: error.message,
+  });
+  return c.json({ error: error.message }, 500);
+});
+
+// Kill switch, for all projects or a group or project. The global switch
+// also answers GET, which scripts used before it was persisted.
+admin.on(["GET", "POST"], "/disable", async (c) => {
+  await setDisabled(GLOBAL_CONFIG_PATH, true);
+  return c.text("disabled");
+});
+
+admin.on(["GET", "POST"], "/enable", async (c) => {
+  await setDisabled(GLOBAL_CONFIG_PATH, false);
+  return c.text("enabled");
+});
+
+admin.post("/disable/:path{.+}", async (c) => {
+  await setDisabled(c.req.param("path"), true);
+  return c.text("disabled");
+});
+
+admin.post("/enable/:path{.+}", async (c) => {
+  await setDisabled(c.req.param("path"), false);
+  return c.text("enabled");
+});
+
+admin.get("/status", async (c) => {
+  const [disabledPaths, jobs] = await Promise.all([
+    getDisabledPaths(),
+    listJobs(),
+  ]);
+  return c.json({
+    disabled:
+      process.env.CLAUDE_DISABLED === "true" ||
+      disabledPaths.includes(GLOBAL_CONFIG_PATH),
+    disabledPaths,
+    queued: jobs.queued.length,
+    running: jobs.running.length,
+  });
+});
+
+// Queued, running and recently finished pipeline jobs
+admin.get("/jobs", async (c) => {
+  return c.json(await listJobs());
+});
+
+admin.get("/jobs/:id", async (c) => {
+  const job = await getJob(c.req.param("id"));
+  return job ? c.json(job) : c.json({ error: "Job not found" }, 404);
+});
+
+// Recent triggers and what happened to them, optionally for one group or
+// project: /admin/triggers?project=group/project&limit=100
+admin.get("/triggers", async (c) => {
+  const limit = Number(c.req.query("limit")) || 50;
+  return c.json(await listTriggers(limit, c.req.query("project")));
+});
+
+admin.get("/ratelimits", async (c) => {
+  return c.json(await getRateLimits());
+});
+
+admin.delete("/ratelimits", async (c) => {
+  const cleared = await resetRateLimits();
+  logger.info("Rate limits reset", { cleared });
+  return c.json({ cleared });
+});
+
+// Keys look like author:projectId:resourceId
+admin.delete("/ratelimits/:key{.+}", async (c) => {
+  const key = c.req.param("key");
+  const cleared = await resetRateLimits(key);
+  logger.info("Rate limit reset", { key, cleared });
+  return cleared > 0
+    ? c.json({ cleared })
+    : c.json({ error: "No rate limit window for this key" }, 404);
+});
+
+// A pipeline and its jobs, by project ID or URL-encoded path
+admin.get("/pipelines/:project/:id", async (c) => {
+  const project = c.req.param("project");
+  const pipelineId = Number(c.req.param("id"));
+  if (!Number.isInteger(pipelineId)) {
+    return c.json({ error: "Invalid pipeline ID" }, 400);
+  }
+
+  try {
+    const projectId = /^\d+$/.test(project) ? Number(project) : project;
+    return c.json(await getPipeline(projectId, pipelineId));
+  } catch (error) {
+    logger.warn("Failed to fetch pipeline", {
+      project,
+      pipelineId,
+      error: error instanceof Error ? error.message : error,
+    });
+    return c.json({ error: "Pipeline not found" }, 404);
+  }
+});
+
+// Settings stored per group or project ("*" for all projects)
+admin.get("/config", async (c) => {
+  return c.json(await getStoredSettings());
+});
+
+// Stored and resolved (inherited) settings for a group or project
+admin.get("/config/:path{.+}", async (c) => {
+  const path = c.req.param("path");
+  const stored = await getStoredSettings();
+  return c.json({
+    path,
+    stored: stored[path] || null,
+    resolved: await getProjectSettings(path === GLOBAL_CONFIG_PATH ? "" : path),
+  });
+});
+
+admin.put("/config/:path{.+}", async (c) => {
+  const path = c.req.param("path");
+  let input: unknown;
+  try {
+    input = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const result = validateSettings(input);
+  if ("error" in result) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  await setStoredSettings(path, result.settings);
+  return c.json({ path, stored: result.settings });
+});
+
+admin.delete("/config/:path{.+}", async (c) => {
+  const deleted = await deleteStoredSettings(c.req.param("path"));
+  return deleted
+    ? c.text("deleted")
+    : c.json({ error: "No settings stored for this path" }, 404);
+});
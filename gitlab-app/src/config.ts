@@ -0,0 +1,263 @@
+import { readFileSync } from "fs";
+import { getRedis } from "./limiter";
+import { logger } from "./logger";
+import type { ClaudeEvent } from "./events";
+import { redisErrors } from "./metrics";
+
+/**
+ * Settings for a project or group. Any field left out is inherited from the
+ * parent group, then from the global entry ("*"), then from env vars.
+ */
+export interface ProjectSettings {
+  triggerPhrase?: string;
+  allowedUsers?: string[];
+  allowedGroups?: string[];
+  rateLimitMax?: number;
+  rateLimitWindow?: number;
+  model?: string;
+  discordWebhookUrl?: string;
+  events?: ClaudeEvent[];
+  cancelOldPipelines?: boolean;
+}
+
+export type ResolvedSettings = Required<
+  Omit<ProjectSettings, "model" | "discordWebhookUrl">
+> &
+  Pick<ProjectSettings, "model" | "discordWebhookUrl">;
+
+export const GLOBAL_CONFIG_PATH = "*";
+
+const CONFIG_KEY = "claude:config";
+const DISABLED_KEY = "claude:disabled";
+
+const EVENTS: ClaudeEvent[] = ["note", "merge_request", "issue", "pipeline"];
+
+// The parsed CONFIG_FILE, and the path it was read from
+let fileConfig: Record<string, ProjectSettings> | null = null;
+let fileConfigPath: string | undefined;
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function getDefaults(): ResolvedSettings {
+  return {
+    triggerPhrase: process.env.TRIGGER_PHRASE || "@claude",
+    allowedUsers: parseList(process.env.ALLOWED_USERS || ""),
+    allowedGroups: parseList(process.env.ALLOWED_GROUPS || ""),
+    rateLimitMax: Number(process.env.RATE_LIMIT_MAX) || 3,
+    rateLimitWindow: Number(process.env.RATE_LIMIT_WINDOW) || 60 * 15, // 15 minutes
+    model: process.env.CLAUDE_MODEL || undefined,
+    discordWebhookUrl: process.env.DISCORD_WEBHOOK_URL || undefined,
+    events: parseList(process.env.CLAUDE_EVENTS || "note").filter(
+      (event): event is ClaudeEvent => EVENTS.includes(event as ClaudeEvent),
+    ),
+    cancelOldPipelines: process.env.CANCEL_OLD_PIPELINES === "true",
+  };
+}
+
+/**
+ * Checks settings from the admin API or config file, returning an error
+ * message for the first invalid field
+ */
+export function validateSettings(
+  input: unknown,
+): { settings: ProjectSettings } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Settings must be an object" };
+  }
+
+  const settings = input as Record<string, unknown>;
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+  const isPositiveNumber = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && value > 0;
+
+  const checks: Record<keyof ProjectSettings, (value: unknown) => boolean> = {
+    triggerPhrase: (value) => typeof value === "string" && value.length > 0,
+    allowedUsers: isStringList,
+    allowedGroups: isStringList,
+    rateLimitMax: isPositiveNumber,
+    rateLimitWindow: isPositiveNumber,
+    model: (value) => typeof value === "string",
+    discordWebhookUrl: (value) =>
+      typeof value === "string" && value.startsWith("https://"),
+    events: (value) =>
+      isStringList(value) &&
+      (value as string[]).every((event) =>
+        EVENTS.includes(event as ClaudeEvent),
+      ),
+    cancelOldPipelines: (value) => typeof value === "boolean",
+  };
+
+  for (const [key, value] of Object.entries(settings)) {
+    const check = checks[key as keyof ProjectSettings];
+    if (!check) {
+      return { error: `Unknown setting '${key}'` };
+    }
+    if (!check(value)) {
+      return { error: `Invalid value for '${key}'` };
+    }
+  }
+
+  return { settings: settings as ProjectSettings };
+}
+
+/**
+ * Settings from the JSON file at CONFIG_FILE, keyed by group or project path.
+ * The file is read once, and again only if CONFIG_FILE changes.
+ */
+function getFileConfig(): Record<string, ProjectSettings> {
+  const configFile = process.env.CONFIG_FILE;
+  if (fileConfig && fileConfigPath === configFile) {
+    return fileConfig;
+  }
+
+  fileConfig = {};
+  fileConfigPath = configFile;
+  if (!configFile) {
+    return fileConfig;
+  }
+
+  try {
+    const entries = JSON.parse(readFileSync(configFile, "utf-8"));
+    for (const [path, value] of Object.entries(entries)) {
+      const result = validateSettings(value);
+      if ("error" in result) {
+        logger.error("Ignoring invalid config file entry", {
+          path,
+          error: result.error,
+        });
+        continue;
+      }
+      fileConfig[path] = result.settings;
+    }
+    logger.info("Loaded config file", {
+      configFile,
+      entries: Object.keys(fileConfig).length,
+    });
+  } catch (error) {
+    logger.error("Failed to load config file", {
+      configFile,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  return fileConfig;
+}
+
+/**
+ * Settings stored through the admin API, keyed by group or project path
+ */
+export async function getStoredSettings(): Promise<
+  Record<string, ProjectSettings>
+> {
+  const client = await getRedis();
+  const entries = await client.hGetAll(CONFIG_KEY);
+  return Object.fromEntries(
+    Object.entries(entries).map(([path, value]) => [path, JSON.parse(value)]),
+  );
+}
+
+export async function setStoredSettings(
+  path: string,
+  settings: ProjectSettings,
+): Promise<void> {
+  const client = await getRedis();
+  await client.hSet(CONFIG_KEY, path, JSON.stringify(settings));
+  logger.info("Settings updated", { path });
+}
+
+export async function deleteStoredSettings(path: string): Promise<boolean> {
+  const client = await getRedis();
+  const deleted = await client.hDel(CONFIG_KEY, path);
+  logger.info("Settings deleted", { path });
+  return deleted > 0;
+}
+
+/**
+ * Config entries that apply to a project, from the global entry down to the
+ * project itself: "*", "group", "group/subgroup", "group/subgroup/project"
+ */
+function getInheritancePaths(projectPath: string): string[] {
+  const parts = projectPath.split("/");
+  return [
+    GLOBAL_CONFIG_PATH,
+    ...parts.map((_, index) => parts.slice(0, index + 1).join("/")),
+  ];
+}
+
+/**
+ * Resolves a project's settings: env defaults, overridden by the config file
+ * and then by stored settings, each applied from the global entry down
+ */
+export async function getProjectSettings(
+  projectPath: string,
+): Promise<ResolvedSettings> {
+  let stored: Record<string, ProjectSettings> = {};
+  try {
+    stored = await getStoredSettings();
+  } catch (error) {
+    redisErrors.inc({ operation: "settings" });
+    // If Redis fails, use the config file and env defaults
+    logger.error("Failed to read stored settings", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  const file = getFileConfig();
+  const settings = getDefaults();
+  for (const path of getInheritancePaths(projectPath)) {
+    Object.assign(settings, file[path], stored[path]);
+  }
+  return settings;
+}
+
+/**
+ * Paths disabled with the kill switch; "*" disables every project
+ */
+export async function getDisabledPaths(): Promise<string[]> {
+  const client = await getRedis();
+  return (await client.sMembers(DISABLED_KEY)).sort();
+}
+
+export async function setDisabled(
+  path: string,
+  disabled: boolean,
+): Promise<void> {
+  const client = await getRedis();
+  if (disabled) {
+    await client.sAdd(DISABLED_KEY, path);
+    logger.warn("Bot disabled", { path });
+  } else {
+    await client.sRem(DISABLED_KEY, path);
+    logger.info("Bot enabled", { path });
+  }
+}
+
+/**
+ * Whether the kill switch is on for a project, globally or for one of its
+ * groups. CLAUDE_DISABLED=true disables every project regardless.
+ */
+export async function isDisabled(projectPath: string): Promise<boolean> {
+  if (process.env.CLAUDE_DISABLED === "true") {
+    return true;
+  }
+
+  try {
+    const client = await getRedis();
+    const paths = getInheritancePaths(projectPath);
+    const flags = await client.smIsMember(DISABLED_KEY, paths);
+    return flags.some(Boolean);
+  } catch (error) {
+    redisErrors.inc({ operation: "kill_switch" });
+    logger.error("Failed to check kill switch", {
+      error: error instanceof Error ? error.message : error,
+    });
+    // If Redis fails, keep serving like the rate limiter does
+    return false;
+  }
+}
@@ -0,0 +1,213 @@
+import { html, raw } from "hono/html";
+import type { ProjectSettings } from "./config";
+import type { TriggerRecord } from "./history";
+import type { RateLimitState } from "./limiter";
+import type { PipelineJob } from "./queue";
+
+export interface DashboardData {
+  disabledPaths: string[];
+  jobs: {
+    queued: PipelineJob[];
+    running: PipelineJob[];
+    finished: PipelineJob[];
+  };
+  triggers: TriggerRecord[];
+  rateLimits: RateLimitState[];
+  settings: Record<string, ProjectSettings>;
+}
+
+const REFRESH_SECONDS = 30;
+// Finished jobs shown on the page; the jobs API returns all of them
+const FINISHED_JOBS_SHOWN = 20;
+
+const styles = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; border-bottom: 1px solid #ddd; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #eee; }
+  th { background: #f6f6f6; }
+  code, pre { font-size: 0.85rem; }
+  .muted { color: #777; }
+  .status { font-weight: bold; }
+  .ok { color: #1a7f37; }
+  .warn { color: #9a6700; }
+  .bad { color: #cf222e; }
+`;
+
+const OUTCOME_CLASSES: Record<string, string> = {
+  queued: "ok",
+  running: "ok",
+  finished: "ok",
+  duplicate: "muted",
+  "rate-limited": "warn",
+  disabled: "warn",
+  forbidden: "bad",
+  failed: "bad",
+};
+
+function pipelineUrl(projectPath: string, pipelineId: number): string {
+  const gitlabUrl = process.env.GITLAB_URL || "https://gitlab.com";
+  return `${gitlabUrl}/${projectPath}/-/pipelines/${pipelineId}`;
+}
+
+function jobsTable(jobs: PipelineJob[]) {
+  if (jobs.length === 0) {
+    return html`<p class="muted">None</p>`;
+  }
+
+  return html`<table>
+    <tr>
+      <th>Job</th>
+      <th>Status</th>
+      <th>Event</th>
+      <th>Project</th>
+      <th>Ref</th>
+      <th>Author</th>
+      <th>Pipeline</th>
+      <th>Attempts</th>
+      <th>Updated</th>
+    </tr>
+    ${jobs.map(
+      (job) =>
+        html`<tr>
+          <td><code>${job.id.slice(0, 8)}</code></td>
+          <td class="status ${OUTCOME_CLASSES[job.status] || ""}">
+            ${job.status}${job.error
+              ? html` <span title="${job.error}">⚠</span>`
+              : ""}
+          </td>
+          <td>${job.event}</td>
+          <td>${job.projectPath}</td>
+          <td><code>${job.ref}</code></td>
+          <td>@${job.author}</td>
+          <td>
+            ${job.pipelineId
+              ? html`<a href="${pipelineUrl(job.projectPath, job.pipelineId)}"
+                    >#${job.pipelineId}</a
+                  >
+                  ${job.pipelineStatus || ""}`
+              : ""}
+          </td>
+          <td>${job.attempts}</td>
+          <td class="muted">${job.updatedAt}</td>
+        </tr>`,
+    )}
+  </table>`;
+}
+
+/**
+ * Overview of the server for operators: kill switch, queue, recent
+ * triggers, rate limits and stored settings, with a button for the global
+ * kill switch
+ */
+export function renderDashboard(data: DashboardData) {
+  const { disabledPaths, jobs, triggers, rateLimits, settings } = data;
+  const globallyDisabled =
+    process.env.CLAUDE_DISABLED === "true" || disabledPaths.includes("*");
+
+  return html`<!doctype html>
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta http-equiv="refresh" content="${REFRESH_SECONDS}" />
+        <title>Claude Webhook Admin</title>
+        <style>
+          ${raw(styles)}
+        </style>
+      </head>
+      <body>
+        <h1>Claude Webhook Admin</h1>
+        <p class="muted">
+          Refreshes every ${REFRESH_SECONDS}s · ${new Date().toISOString()}
+        </p>
+
+        <h2>Status</h2>
+        <p
+          class="status ${globallyDisabled
+            ? "bad"
+            : disabledPaths.length > 0
+              ? "warn"
+              : "ok"}"
+        >
+          ${globallyDisabled
+            ? "Disabled for all projects"
+            : disabledPaths.length > 0
+              ? `Disabled for ${disabledPaths.join(", ")}`
+              : "Enabled"}
+        </p>
+        <form
+          method="post"
+          action="/admin/dashboard/${disabledPaths.includes("*")
+            ? "enable"
+            : "disable"}"
+        >
+          <button type="submit">
+            ${disabledPaths.includes("*")
+              ? "Enable for all projects"
+              : "Disable for all projects"}
+          </button>
+        </form>
+
+        <h2>Running (${jobs.running.length})</h2>
+        ${jobsTable(jobs.running)}
+
+        <h2>Queued (${jobs.queued.length})</h2>
+        ${jobsTable(jobs.queued)}
+
+        <h2>Recently finished</h2>
+        ${jobsTable(jobs.finished.slice(0, FINISHED_JOBS_SHOWN))}
+
+        <h2>Recent triggers</h2>
+        ${triggers.length === 0
+          ? html`<p class="muted">None</p>`
+          : html`<table>
+              <tr>
+                <th>Time</th>
+                <th>Outcome</th>
+                <th>Event</th>
+                <th>Project</th>
+                <th>Resource</th>
+                <th>Author</th>
+              </tr>
+              ${triggers.map(
+                (trigger) =>
+                  html`<tr>
+                    <td class="muted">${trigger.at}</td>
+                    <td class="status ${OUTCOME_CLASSES[trigger.outcome]}">
+                      ${trigger.outcome}
+                    </td>
+                    <td>${trigger.event}</td>
+                    <td>${trigger.projectPath}</td>
+                    <td>${trigger.resourceType} ${trigger.resourceId}</td>
+                    <td>@${trigger.author}</td>
+                  </tr>`,
+              )}
+            </table>`}
+
+        <h2>Rate limits</h2>
+        ${rateLimits.length === 0
+          ? html`<p class="muted">No active windows</p>`
+          : html`<table>
+              <tr>
+                <th>Author:project:resource</th>
+                <th>Triggers</th>
+                <th>Expires in</th>
+              </tr>
+              ${rateLimits.map(
+                (state) =>
+                  html`<tr>
+                    <td><code>${state.key}</code></td>
+                    <td>${state.count}</td>
+                    <td>${state.expiresIn}s</td>
+                  </tr>`,
+              )}
+            </table>`}
+
+        <h2>Stored settings</h2>
+        ${Object.keys(settings).length === 0
+          ? html`<p class="muted">None</p>`
+          : html`<pre>${JSON.stringify(settings, null, 2)}</pre>`}
+      </body>
+    </html>`;
+}
@@ -11,6 +11,8 @@ interface DiscordNotificationOptions {
   triggerPhrase: string;
   directPrompt: string;
   issueTitle?: string;
+  // Project-specific webhook; defaults to DISCORD_WEBHOOK_URL
+  webhookUrl?: string;
 }
 
 /**
@@ -20,7 +22,8 @@ interface DiscordNotificationOptions {
 export function sendPipelineNotification(
   options: DiscordNotificationOptions,
 ): void {
-  const discordWebhookUrl = process.env.DISCORD_WEBHOOK_URL;
+  const discordWebhookUrl =
+    options.webhookUrl || process.env.DISCORD_WEBHOOK_URL;
 
   if (!discordWebhookUrl) {
     // Discord notifications are optional
@@ -163,8 +166,9 @@ export function sendRateLimitNotification(
   authorUsername: string,
   resourceType: string,
   resourceId: string,
+  webhookUrl?: string,
 ): void {
-  const discordWebhookUrl = process.env.DISCORD_WEBHOOK_URL;
+  const discordWebhookUrl = webhookUrl || process.env.DISCORD_WEBHOOK_URL;
 
   if (!discordWebhookUrl) {
     return;
@@ -0,0 +1,276 @@
+import type {
+  HookUser,
+  IssueHookPayload,
+  MergeRequestHookPayload,
+  PipelineHookPayload,
+  WebhookPayload,
+} from "./types";
+
+export type ClaudeEvent = "note" | "merge_request" | "issue" | "pipeline";
+
+// Maps the X-Gitlab-Event header to the event it carries
+export const HOOK_EVENTS: Record<string, ClaudeEvent> = {
+  "Note Hook": "note",
+  "Merge Request Hook": "merge_request",
+  "Issue Hook": "issue",
+  "Pipeline Hook": "pipeline",
+};
+
+// Branches the server creates for issues: claude/issue-<iid>-<title>-<timestamp>
+const CLAUDE_BRANCH_PREFIX = "claude/";
+const CLAUDE_ISSUE_BRANCH = /^claude\/issue-(\d+)-/;
+
+/**
+ * A pipeline to start for a webhook event. Without a `ref`, a branch is
+ * created for the issue first.
+ */
+export interface EventTrigger {
+  event: ClaudeEvent;
+  resourceType: "merge_request" | "issue";
+  resourceId: number;
+  ref?: string;
+  baseBranch?: string;
+  issueTitle?: string;
+  directPrompt: string;
+  // Event-specific pipeline variables
+  variables: Record<string, string>;
+  // Trimmed payload passed as GITLAB_WEBHOOK_PAYLOAD (10KB variable limit)
+  payload: Record<string, unknown>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Comments on merge requests and issues that mention the trigger phrase.
+ * The text after the phrase becomes the prompt.
+ */
+export function getNoteTrigger(
+  body: WebhookPayload,
+  triggerPhrase: string,
+): EventTrigger | null {
+  const note = body.object_attributes?.note || "";
+  const mrIid = body.merge_request?.iid;
+  const issueIid = body.issue?.iid;
+
+  if (!new RegExp(`${escapeRegExp(triggerPhrase)}\\b`, "i").test(note)) {
+    return null;
+  }
+  if (!mrIid && !issueIid) {
+    return null;
+  }
+
+  const promptMatch = note.match(
+    new RegExp(`${escapeRegExp(triggerPhrase)}\\s+(.*)`, "is"),
+  );
+
+  return {
+    event: "note",
+    resourceType: mrIid ? "merge_request" : "issue",
+    resourceId: (mrIid || issueIid)!,
+    ref: body.merge_request?.source_branch,
+    baseBranch: body.merge_request?.target_branch,
+    issueTitle: body.issue?.title,
+    directPrompt: promptMatch ? promptMatch[1].trim() : "",
+    variables: {
+      CLAUDE_NOTE: note,
+    },
+    payload: {
+      object_kind: body.object_kind,
+      project: body.project,
+      user: body.user,
+      object_attributes: body.object_attributes
+        ? {
+            note: body.object_attributes.note,
+            noteable_type: body.object_attributes.noteable_type,
+          }
+        : undefined,
+      merge_request: body.merge_request
+        ? {
+            iid: body.merge_request.iid,
+            title: body.merge_request.title,
+            state: body.merge_request.state,
+          }
+        : undefined,
+      issue: body.issue
+        ? {
+            iid: body.issue.iid,
+            title: body.issue.title,
+            state: body.issue.state,
+          }
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Merge requests are reviewed when opened or reopened and when new commits
+ * are pushed; drafts and edits to the title or description are skipped, as
+ * are commits the bot user pushed so Claude doesn't review its own fixes
+ */
+export function getMergeRequestTrigger(
+  body: MergeRequestHookPayload,
+  botUsername: string,
+): EventTrigger | null {
+  const mr = body.object_attributes;
+  const action = mr.action;
+
+  if (mr.draft || mr.work_in_progress) {
+    return null;
+  }
+  const isNewCommits = action === "update" && !!mr.oldrev;
+  if (action !== "open" && action !== "reopen" && !isNewCommits) {
+    return null;
+  }
+  if (isNewCommits && body.user.username === botUsername) {
+    return null;
+  }
+
+  return {
+    event: "merge_request",
+    resourceType: "merge_request",
+    resourceId: mr.iid,
+    ref: mr.source_branch,
+    baseBranch: mr.target_branch,
+    directPrompt: "",
+    variables: {
+      MODE: "review",
+      CLAUDE_MR_ACTION: action,
+    },
+    payload: {
+      object_kind: body.object_kind,
+      project: body.project,
+      user: body.user,
+      object_attributes: {
+        iid: mr.iid,
+        title: mr.title,
+        state: mr.state,
+        action,
+      },
+    },
+  };
+}
+
+function includesUser(users: HookUser[] | undefined, username: string) {
+  return (users || []).some((user) => user.username === username);
+}
+
+/**
+ * Issues are implemented when assigned to the bot user or given the trigger
+ * label, either when opened that way or by an update
+ */
+export function getIssueTrigger(
+  body: IssueHookPayload,
+  botUsername: string,
+  triggerLabel: string,
+): EventTrigger | null {
+  const issue = body.object_attributes;
+  if (issue.state !== "opened") {
+    return null;
+  }
+
+  let reason: "assigned" | "labeled" | null = null;
+  if (issue.action === "open") {
+    if (includesUser(body.assignees, botUsername)) {
+      reason = "assigned";
+    } else if (body.labels?.some((label) => label.title === triggerLabel)) {
+      reason = "labeled";
+    }
+  } else if (issue.action === "update") {
+    const assignees = body.changes?.assignees;
+    const labels = body.changes?.labels;
+    if (
+      assignees &&
+      includesUser(assignees.current, botUsername) &&
+      !includesUser(assignees.previous, botUsername)
+    ) {
+      reason = "assigned";
+    } else if (
+      labels &&
+      labels.current.some((label) => label.title === triggerLabel) &&
+      !labels.previous.some((label) => label.title === triggerLabel)
+    ) {
+      reason = "labeled";
+    }
+  }
+
+  if (!reason) {
+    return null;
+  }
+
+  return {
+    event: "issue",
+    resourceType: "issue",
+    resourceId: issue.iid,
+    issueTitle: issue.title,
+    directPrompt:
+      "Implement the changes described in this issue and open a merge request with them.",
+    variables: {
+      CLAUDE_ISSUE_ACTION: reason,
+    },
+    payload: {
+      object_kind: body.object_kind,
+      project: body.project,
+      user: body.user,
+      object_attributes: {
+        iid: issue.iid,
+        title: issue.title,
+        state: issue.state,
+        action: issue.action,
+      },
+    },
+  };
+}
+
+/**
+ * Failed pipelines on Claude's branches are handed back to Claude to fix.
+ * Pipelines the server started itself are skipped so a failing Claude job
+ * doesn't trigger another one, and the webhook caps the fix attempts per
+ * branch with limitPipelineFixes and recordPipelineFix.
+ */
+export function getPipelineTrigger(
+  body: PipelineHookPayload,
+): EventTrigger | null {
+  const pipeline = body.object_attributes;
+  if (
+    pipeline.status !== "failed" ||
+    pipeline.tag ||
+    !pipeline.ref.startsWith(CLAUDE_BRANCH_PREFIX) ||
+    pipeline.variables?.some((variable) => variable.key === "CLAUDE_TRIGGER")
+  ) {
+    return null;
+  }
+
+  // Prefer the merge request; otherwise report on the issue the branch is for
+  const mr = body.merge_request;
+  const issueIid = pipeline.ref.match(CLAUDE_ISSUE_BRANCH)?.[1];
+  if (!mr && !issueIid) {
+    return null;
+  }
+
+  return {
+    event: "pipeline",
+    resourceType: mr ? "merge_request" : "issue",
+    resourceId: mr ? mr.iid : Number(issueIid),
+    ref: pipeline.ref,
+    ...(mr && { baseBranch: mr.target_branch }),
+    directPrompt: `Pipeline #${pipeline.id} failed on branch ${pipeline.ref}. Find out why the failing jobs failed, fix the cause and push the fix to this branch.`,
+    variables: {
+      CLAUDE_PIPELINE_ID: String(pipeline.id),
+      CLAUDE_PIPELINE_SHA: pipeline.sha,
+    },
+    payload: {
+      object_kind: body.object_kind,
+      project: body.project,
+      user: body.user,
+      object_attributes: {
+        id: pipeline.id,
+        ref: pipeline.ref,
+        sha: pipeline.sha,
+        status: pipeline.status,
+      },
+      ...(mr && { merge_request: { iid: mr.iid, title: mr.title } }),
+    },
+  };
+}
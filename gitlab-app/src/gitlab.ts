@@ -1,5 +1,6 @@
 import { Gitlab } from "@gitbeaker/rest";
 import { logger } from "./logger";
+import { pipelineTriggerDuration, pipelineTriggerFailures } from "./metrics";
 
 // Initialize GitLab client
 const gitlab = new Gitlab({
@@ -12,6 +13,7 @@ export async function triggerPipeline(
   ref: string,
   variables?: Record<string, string>,
 ): Promise<number> {
+  const observeDuration = pipelineTriggerDuration.startTimer();
   try {
     logger.debug("Creating pipeline", {
       projectId,
@@ -90,8 +92,11 @@ export async function triggerPipeline(
       status: responseData.status,
     });
 
+    observeDuration({ result: "success" });
     return responseData.id;
   } catch (error) {
+    observeDuration({ result: "failure" });
+    pipelineTriggerFailures.inc();
     logger.error("Failed to create pipeline", {
       error: error instanceof Error ? error.message : error,
       projectId,
@@ -136,6 +141,63 @@ export async function cancelOldPipelines(
   }
 }
 
+// Get the status of a pipeline (created, pending, running, success, failed, ...)
+// Returns null when the pipeline no longer exists, e.g. after it or its
+// project was deleted
+export async function getPipelineStatus(
+  projectId: number,
+  pipelineId: number,
+): Promise<string | null> {
+  try {
+    const pipeline = await gitlab.Pipelines.show(projectId, pipelineId);
+    return pipeline.status;
+  } catch (error: any) {
+    if (error.cause?.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Get a pipeline with its jobs, for the admin API
+export async function getPipeline(
+  projectId: number | string,
+  pipelineId: number,
+): Promise<{
+  id: number;
+  status: string;
+  ref: string;
+  sha: string;
+  web_url: string;
+  created_at: string;
+  finished_at: string | null;
+  duration: number | null;
+  jobs: { id: number; name: string; stage: string; status: string }[];
+}> {
+  logger.debug("Fetching pipeline", { projectId, pipelineId });
+  const [pipeline, jobs] = await Promise.all([
+    gitlab.Pipelines.show(projectId, pipelineId),
+    gitlab.Jobs.all(projectId, { pipelineId }),
+  ]);
+
+  return {
+    id: pipeline.id,
+    status: pipeline.status,
+    ref: pipeline.ref,
+    sha: pipeline.sha,
+    web_url: pipeline.web_url,
+    created_at: pipeline.created_at,
+    finished_at: pipeline.finished_at ?? null,
+    duration: pipeline.duration ?? null,
+    jobs: jobs.map((job) => ({
+      id: job.id,
+      name: job.name,
+      stage: job.stage,
+      status: job.status,
+    })),
+  };
+}
+
 // Get project details including default branch
 export async function getProject(projectId: number): Promise<{
   id: number;
@@ -160,6 +222,40 @@ export async function getProject(projectId: number): Promise<{
   }
 }
 
+let botUsername: string | null = null;
+
+// Username of the token's user, which issues are assigned to for Claude
+export async function getBotUsername(): Promise<string> {
+  if (process.env.BOT_USERNAME) {
+    return process.env.BOT_USERNAME;
+  }
+
+  if (!botUsername) {
+    logger.debug("Fetching bot user");
+    const user = await gitlab.Users.showCurrentUser();
+    botUsername = user.username;
+  }
+  return botUsername;
+}
+
+// Check if a user is a member of a group, directly or through a parent group
+export async function isGroupMember(
+  group: string,
+  userId: number,
+): Promise<boolean> {
+  try {
+    await gitlab.GroupMembers.show(group, userId, { includeInherited: true });
+    return true;
+  } catch (error) {
+    logger.debug("User is not a group member", {
+      group,
+      userId,
+      error: error instanceof Error ? error.message : error,
+    });
+    return false;
+  }
+}
+
 // Check if a branch exists
 export async function branchExists(
   projectId: number,
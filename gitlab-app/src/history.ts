@@ -0,0 +1,69 @@
+import { getRedis } from "./limiter";
+import { logger } from "./logger";
+import type { ClaudeEvent } from "./events";
+import { redisErrors } from "./metrics";
+
+export type TriggerOutcome =
+  | "queued"
+  | "disabled"
+  | "forbidden"
+  | "duplicate"
+  | "rate-limited"
+  | "failed";
+
+export interface TriggerRecord {
+  at: string;
+  event: ClaudeEvent;
+  projectId: number;
+  projectPath: string;
+  author: string;
+  resourceType: string;
+  resourceId: string;
+  outcome: TriggerOutcome;
+  jobId?: string;
+  error?: string;
+}
+
+const HISTORY_KEY = "claude:triggers";
+const HISTORY_SIZE = Number(process.env.TRIGGER_HISTORY) || 500;
+
+/**
+ * Records what happened to an event that would have started Claude. Errors
+ * are logged and never fail the webhook.
+ */
+export async function recordTrigger(
+  record: Omit<TriggerRecord, "at">,
+): Promise<void> {
+  try {
+    const client = await getRedis();
+    const entry: TriggerRecord = { at: new Date().toISOString(), ...record };
+    await client.lPush(HISTORY_KEY, JSON.stringify(entry));
+    await client.lTrim(HISTORY_KEY, 0, HISTORY_SIZE - 1);
+  } catch (error) {
+    redisErrors.inc({ operation: "trigger_history" });
+    logger.error("Failed to record trigger", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+/**
+ * Most recent triggers first, optionally for one project or group
+ */
+export async function listTriggers(
+  limit = 50,
+  projectPath?: string,
+): Promise<TriggerRecord[]> {
+  const client = await getRedis();
+  const entries = (await client.lRange(HISTORY_KEY, 0, -1)).map(
+    (entry) => JSON.parse(entry) as TriggerRecord,
+  );
+  return entries
+    .filter(
+      (entry) =>
+        !projectPath ||
+        entry.projectPath === projectPath ||
+        entry.projectPath.startsWith(`${projectPath}/`),
+    )
+    .slice(0, limit);
+}
@@ -1,17 +1,39 @@
+import { createHash } from "crypto";
 import { Hono } from "hono";
-import { bearerAuth } from "hono/bearer-auth";
 import {
-  triggerPipeline,
-  cancelOldPipelines,
   getProject,
   branchExists,
   createBranch,
   sanitizeBranchName,
+  getBotUsername,
+  isGroupMember,
 } from "./gitlab";
-import { limitByUser } from "./limiter";
+import { limitByUser, limitPipelineFixes, recordPipelineFix } from "./limiter";
 import { logger } from "./logger";
-import type { WebhookPayload } from "./types";
-import { sendPipelineNotification, sendRateLimitNotification } from "./discord";
+import {
+  HOOK_EVENTS,
+  getNoteTrigger,
+  getMergeRequestTrigger,
+  getIssueTrigger,
+  getPipelineTrigger,
+  type EventTrigger,
+} from "./events";
+import type {
+  WebhookPayload,
+  MergeRequestHookPayload,
+  IssueHookPayload,
+  PipelineHookPayload,
+} from "./types";
+import { sendRateLimitNotification } from "./discord";
+import {
+  getProjectSettings,
+  isDisabled,
+  type ResolvedSettings,
+} from "./config";
+import { enqueueJob, isDuplicate, startQueueWorker } from "./queue";
+import { recordTrigger, type TriggerOutcome } from "./history";
+import { admin } from "./admin";
+import { renderMetrics, triggers, webhooksReceived } from "./metrics";
 
 const app = new Hono();
 
@@ -41,26 +63,46 @@ app.use("*", async (c, next) => {
 });
 app.get("/health", (c) => c.text("ok"));
 
-// Optional admin endpoint to disable bot
-app.get(
-  "/admin/disable",
-  bearerAuth({ token: process.env.ADMIN_TOKEN! }),
-  (c) => {
-    process.env.CLAUDE_DISABLED = "true";
-    logger.warn("Bot disabled via admin endpoint");
-    return c.text("disabled");
-  },
-);
-
-app.get(
-  "/admin/enable",
-  bearerAuth({ token: process.env.ADMIN_TOKEN! }),
-  (c) => {
-    process.env.CLAUDE_DISABLED = "false";
-    logger.info("Bot enabled via admin endpoint");
-    return c.text("enabled");
-  },
-);
+app.route("/admin", admin);
+
+// Prometheus metrics, behind METRICS_TOKEN when set
+app.get("/metrics", (c) => {
+  const metricsToken = process.env.METRICS_TOKEN;
+  if (
+    metricsToken &&
+    c.req.header("authorization") !== `Bearer ${metricsToken}`
+  ) {
+    return c.text("unauthorized", 401);
+  }
+  return c.text(renderMetrics(), 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+});
+
+// Whether the author may trigger Claude; without allowed users or groups,
+// everyone who can comment may
+async function isAllowedAuthor(
+  settings: ResolvedSettings,
+  username: string,
+  userId: number | undefined,
+): Promise<boolean> {
+  const { allowedUsers, allowedGroups } = settings;
+  if (allowedUsers.length === 0 && allowedGroups.length === 0) {
+    return true;
+  }
+  if (allowedUsers.includes(username)) {
+    return true;
+  }
+  if (!userId) {
+    return false;
+  }
+  for (const group of allowedGroups) {
+    if (await isGroupMember(group, userId)) {
+      return true;
+    }
+  }
+  return false;
+}
 
 // Single webhook endpoint for all projects
 app.post("/webhook", async (c) => {
@@ -72,82 +114,190 @@ app.post("/webhook", async (c) => {
     hasToken: !!gitlabToken,
   });
 
+  // Only handle note, merge request, issue and pipeline events
+  const event = gitlabEvent ? HOOK_EVENTS[gitlabEvent] : undefined;
+  webhooksReceived.inc({ event: event || "unsupported" });
+
   // Verify webhook secret
   if (gitlabToken !== process.env.WEBHOOK_SECRET) {
     logger.warn("Webhook unauthorized - invalid token");
+    triggers.inc({ outcome: "unauthorized" });
     return c.text("unauthorized", 401);
   }
 
-  // Only handle Note Hook events
-  if (gitlabEvent !== "Note Hook") {
-    logger.debug("Ignoring non-Note Hook event", { event: gitlabEvent });
+  if (!event) {
+    logger.debug("Ignoring unsupported event", { event: gitlabEvent });
+    triggers.inc({ outcome: "ignored" });
     return c.text("ignored");
   }
 
-  const body = await c.req.json<WebhookPayload>();
+  const body = await c.req.json();
 
   // Log webhook payload (with sensitive data masked)
   logger.debug("Webhook payload received", {
     payload: logger.maskSensitive(body),
   });
 
-  const note = body.object_attributes?.note || "";
-  const projectId = body.project?.id;
-  const projectPath = body.project?.path_with_namespace;
-  const mrIid = body.merge_request?.iid;
-  const issueIid = body.issue?.iid;
-  const issueTitle = body.issue?.title;
-  const authorUsername = body.user?.username;
-
-  // Get trigger phrase from environment or use default
-  const triggerPhrase = process.env.TRIGGER_PHRASE || "@claude";
-  const triggerRegex = new RegExp(
-    `${triggerPhrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
-    "i",
-  );
-
-  // Check for trigger phrase mention
-  if (!triggerRegex.test(note)) {
-    logger.debug(`No ${triggerPhrase} mention found in note`);
+  const projectId: number = body.project?.id;
+  const projectPath: string = body.project?.path_with_namespace;
+  const authorUsername: string = body.user?.username;
+  const authorId: number | undefined = body.user?.id;
+
+  const settings = await getProjectSettings(projectPath || "");
+
+  if (!settings.events.includes(event)) {
+    logger.debug("Event not enabled for project", {
+      event,
+      project: projectPath,
+    });
+    triggers.inc({ outcome: "ignored" });
+    return c.text("ignored");
+  }
+
+  const { triggerPhrase } = settings;
+
+  let trigger: EventTrigger | null;
+  try {
+    switch (event) {
+      case "note":
+        trigger = getNoteTrigger(body as WebhookPayload, triggerPhrase);
+        break;
+      case "merge_request":
+        trigger = getMergeRequestTrigger(
+          body as MergeRequestHookPayload,
+          await getBotUsername(),
+        );
+        break;
+      case "issue":
+        trigger = getIssueTrigger(
+          body as IssueHookPayload,
+          await getBotUsername(),
+          process.env.ISSUE_TRIGGER_LABEL || "claude",
+        );
+        break;
+      case "pipeline":
+        trigger = getPipelineTrigger(body as PipelineHookPayload);
+        break;
+    }
+  } catch (error) {
+    logger.error("Failed to evaluate webhook event", {
+      event,
+      error: error instanceof Error ? error.message : error,
+    });
+    triggers.inc({ outcome: "failed" });
+    return c.text("event-check-failed", 500);
+  }
+
+  if (!trigger) {
+    logger.debug("Event does not trigger Claude", { event });
+    triggers.inc({ outcome: "skipped" });
     return c.text("skipped");
   }
 
-  if (process.env.CLAUDE_DISABLED === "true") {
-    logger.warn("Bot is disabled, skipping trigger");
+  const { resourceType, resourceId, issueTitle, directPrompt } = trigger;
+
+  // Keep the outcome for metrics and the admin API's trigger history
+  const record = (
+    outcome: TriggerOutcome,
+    details: { jobId?: string; error?: string } = {},
+  ) => {
+    triggers.inc({ outcome });
+    // Fire-and-forget
+    recordTrigger({
+      event,
+      projectId,
+      projectPath,
+      author: authorUsername,
+      resourceType,
+      resourceId: String(resourceId),
+      outcome,
+      ...details,
+    });
+  };
+
+  if (await isDisabled(projectPath || "")) {
+    logger.warn("Bot is disabled, skipping trigger", { project: projectPath });
+    record("disabled");
     return c.text("disabled");
   }
 
-  // Rate limit: 3 triggers per author per MR/issue per 15 min
-  const resourceId = mrIid || issueIid || "general";
+  if (!(await isAllowedAuthor(settings, authorUsername, authorId))) {
+    logger.warn("Author not allowed to trigger Claude", {
+      project: projectPath,
+      author: authorUsername,
+    });
+    record("forbidden");
+    return c.text("forbidden", 403);
+  }
+
+  // Drop repeated notes and webhooks GitLab delivers more than once
+  const dedupKey =
+    event === "note"
+      ? [
+          "note",
+          projectId,
+          resourceType,
+          resourceId,
+          authorUsername,
+          createHash("sha256")
+            .update(trigger.variables.CLAUDE_NOTE)
+            .digest("hex"),
+        ].join(":")
+      : c.req.header("idempotency-key") || c.req.header("x-gitlab-event-uuid");
+  if (dedupKey && (await isDuplicate(dedupKey))) {
+    logger.info("Duplicate event skipped", { event, dedupKey });
+    record("duplicate");
+    return c.text("duplicate");
+  }
+
+  // Rate limit: 3 triggers per author per MR/issue per 15 min by default
   const key = `${authorUsername}:${projectId}:${resourceId}`;
 
-  if (!(await limitByUser(key))) {
+  if (
+    !(await limitByUser(key, settings.rateLimitMax, settings.rateLimitWindow))
+  ) {
     logger.warn("Rate limit exceeded", { key, author: authorUsername });
 
     // Send Discord notification for rate limit
     sendRateLimitNotification(
       projectPath,
       authorUsername,
-      mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
-      String(mrIid || issueIid || ""),
+      resourceType,
+      String(resourceId),
+      settings.discordWebhookUrl,
     );
 
+    record("rate-limited");
     return c.text("rate-limited", 429);
   }
 
-  logger.info(`${triggerPhrase} triggered`, {
+  // Stop handing a branch's failed pipelines back to Claude after a few tries
+  if (
+    event === "pipeline" &&
+    !(await limitPipelineFixes(projectId, trigger.ref!))
+  ) {
+    logger.warn("Pipeline fix attempts exhausted", {
+      project: projectPath,
+      ref: trigger.ref,
+    });
+    record("rate-limited");
+    return c.text("rate-limited", 429);
+  }
+
+  logger.info("Claude triggered", {
+    event,
     project: projectPath,
     author: authorUsername,
-    resourceType: mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
-    resourceId: mrIid || issueIid,
+    resourceType,
+    resourceId,
   });
 
   // Determine branch ref and base branch
-  let ref = body.merge_request?.source_branch;
-  let baseBranch = body.merge_request?.target_branch; // For MRs, use the MR's target branch
+  let ref = trigger.ref;
+  let baseBranch = trigger.baseBranch; // For MRs, use the MR's target branch
 
   // For issues, create a branch
-  if (issueIid && !mrIid) {
+  if (!ref && resourceType === "issue") {
     try {
       // Get project details for default branch
       const project = await getProject(projectId);
@@ -156,10 +306,10 @@ app.post("/webhook", async (c) => {
 
       // Generate branch name with timestamp to ensure uniqueness
       const timestamp = Date.now();
-      const branchName = `claude/issue-${issueIid}-${sanitizeBranchName(issueTitle || "")}-${timestamp}`;
+      const branchName = `claude/issue-${resourceId}-${sanitizeBranchName(issueTitle || "")}-${timestamp}`;
 
       logger.info("Creating branch for issue", {
-        issueIid,
+        issueIid: resourceId,
         branchName,
         fromBranch: defaultBranch,
       });
@@ -169,16 +319,18 @@ app.post("/webhook", async (c) => {
       ref = branchName;
     } catch (error) {
       logger.error("Failed to create branch for issue", {
-        issueIid,
+        issueIid: resourceId,
         error: error instanceof Error ? error.message : error,
       });
 
       // Don't fall back to main - fail the request
+      record("failed", { error: "Branch creation failed" });
       return c.text("branch-creation-failed", 500);
     }
   } else if (!ref) {
     // For merge requests without a source branch, fail
     logger.error("No branch ref determined for merge request");
+    record("failed", { error: "No branch ref" });
     return c.text("no-branch-ref", 400);
   }
 
@@ -193,104 +345,67 @@ app.post("/webhook", async (c) => {
     }
   }
 
-  // Extract the prompt after the trigger phrase
-  const promptMatch = note.match(
-    new RegExp(
-      `${triggerPhrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s+(.*)`,
-      "is",
-    ),
-  );
-  const directPrompt = promptMatch ? promptMatch[1].trim() : "";
-
-  // Create minimal webhook payload for CI/CD variable (10KB limit)
-  const minimalPayload = {
-    object_kind: body.object_kind,
-    project: body.project,
-    user: body.user,
-    object_attributes: body.object_attributes
-      ? {
-          note: body.object_attributes.note,
-          noteable_type: body.object_attributes.noteable_type,
-        }
-      : undefined,
-    merge_request: body.merge_request
-      ? {
-          iid: body.merge_request.iid,
-          title: body.merge_request.title,
-          state: body.merge_request.state,
-        }
-      : undefined,
-    issue: body.issue
-      ? {
-          iid: body.issue.iid,
-          title: body.issue.title,
-          state: body.issue.state,
-        }
-      : undefined,
-  };
-
-  // Trigger pipeline with variables
+  // Pipeline variables
   const variables = {
     CLAUDE_TRIGGER: "true",
+    CLAUDE_EVENT: event,
     CLAUDE_AUTHOR: authorUsername,
-    CLAUDE_RESOURCE_TYPE: mrIid ? "merge_request" : "issue",
-    CLAUDE_RESOURCE_ID: String(mrIid || issueIid || ""),
-    CLAUDE_NOTE: note,
+    CLAUDE_RESOURCE_TYPE: resourceType,
+    CLAUDE_RESOURCE_ID: String(resourceId),
     CLAUDE_PROJECT_PATH: projectPath,
     CLAUDE_BRANCH: ref,
     CLAUDE_BASE_BRANCH: baseBranch, // The target/base branch for MRs and diffs
     TRIGGER_PHRASE: triggerPhrase,
     DIRECT_PROMPT: directPrompt,
-    GITLAB_WEBHOOK_PAYLOAD: JSON.stringify(minimalPayload),
+    // Minimal webhook payload for CI/CD variable (10KB limit)
+    GITLAB_WEBHOOK_PAYLOAD: JSON.stringify(trigger.payload),
+    ...(settings.model && { CLAUDE_MODEL: settings.model }),
+    ...trigger.variables,
   };
 
-  logger.info("Triggering pipeline", {
-    projectId,
-    ref,
-    variables: logger.maskSensitive(variables),
-  });
-
+  // Queue the pipeline; the worker starts it when a runner slot is free
   try {
-    const pipelineId = await triggerPipeline(projectId, ref, variables);
-
-    logger.info("Pipeline triggered successfully", {
-      pipelineId,
+    const job = await enqueueJob({
+      event,
       projectId,
-      ref,
-    });
-
-    // Send Discord notification (fire-and-forget)
-    sendPipelineNotification({
       projectPath,
-      authorUsername,
-      resourceType: mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
-      resourceId: String(mrIid || issueIid || ""),
-      branch: ref,
-      pipelineId,
-      gitlabUrl: process.env.GITLAB_URL || "https://gitlab.com",
+      ref,
+      author: authorUsername,
+      resourceType,
+      resourceId: String(resourceId),
+      issueTitle,
       triggerPhrase,
       directPrompt,
-      issueTitle: issueTitle || undefined,
+      variables,
     });
-
-    // Cancel old pipelines if configured
-    if (process.env.CANCEL_OLD_PIPELINES === "true") {
-      await cancelOldPipelines(projectId, pipelineId, ref);
+    // Only attempts that were queued count towards the branch's limit
+    if (event === "pipeline") {
+      await recordPipelineFix(projectId, ref);
     }
 
-    return c.json({ status: "started", pipelineId, branch: ref });
+    logger.info("Pipeline queued", {
+      jobId: job.id,
+      projectId,
+      ref,
+      variables: logger.maskSensitive(variables),
+    });
+
+    record("queued", { jobId: job.id });
+    return c.json({ status: "queued", jobId: job.id, branch: ref });
   } catch (error) {
-    logger.error("Failed to trigger pipeline", {
+    logger.error("Failed to queue pipeline", {
       error: error instanceof Error ? error.message : error,
       projectId,
       ref,
     });
-    return c.json({ error: "Failed to trigger pipeline" }, 500);
+    record("failed", { error: "Failed to queue pipeline" });
+    return c.json({ error: "Failed to queue pipeline" }, 503);
   }
 });
 
 const port = Number(process.env.PORT) || 3000;
 logger.info(`GitLab Claude Webhook Server starting on port ${port}`);
+startQueueWorker();
 
 export default {
   port,
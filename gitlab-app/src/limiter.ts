@@ -1,14 +1,19 @@
 import { createClient } from "redis";
+import { redisErrors } from "./metrics";
 
 let redis: ReturnType<typeof createClient> | null = null;
 
-async function getRedis() {
+// Shared Redis connection, also used by the job queue
+export async function getRedis() {
   if (!redis) {
     redis = createClient({
       url: process.env.REDIS_URL || "redis://localhost:6379",
     });
 
-    redis.on("error", (err) => console.error("Redis error:", err));
+    redis.on("error", (err) => {
+      redisErrors.inc({ operation: "connection" });
+      console.error("Redis error:", err);
+    });
     redis.on("connect", () => console.log("Connected to Redis"));
 
     await redis.connect();
@@ -19,33 +24,134 @@ async function getRedis() {
 
 const MAX_REQUESTS = Number(process.env.RATE_LIMIT_MAX) || 3;
 const WINDOW_SECONDS = Number(process.env.RATE_LIMIT_WINDOW) || 60 * 15; // 15 minutes
+const KEY_PREFIX = "claude:ratelimit:";
+
+export interface RateLimitState {
+  key: string;
+  count: number;
+  // Seconds until the window's entries expire
+  expiresIn: number;
+}
 
-export async function limitByUser(key: string): Promise<boolean> {
+export async function limitByUser(
+  key: string,
+  maxRequests = MAX_REQUESTS,
+  windowSeconds = WINDOW_SECONDS,
+): Promise<boolean> {
   try {
     const client = await getRedis();
     const now = Math.floor(Date.now() / 1000);
+    const redisKey = KEY_PREFIX + key;
 
     // Remove old entries
-    await client.zRemRangeByScore(key, 0, now - WINDOW_SECONDS);
+    await client.zRemRangeByScore(redisKey, 0, now - windowSeconds);
 
     // Count current entries
-    const count = await client.zCard(key);
+    const count = await client.zCard(redisKey);
 
-    if (count >= MAX_REQUESTS) {
+    if (count >= maxRequests) {
       return false;
     }
 
     // Add new entry
-    await client.zAdd(key, {
+    await client.zAdd(redisKey, {
       score: now,
       value: `${now}-${Math.random()}`,
     });
-    await client.expire(key, WINDOW_SECONDS);
+    await client.expire(redisKey, windowSeconds);
 
     return true;
   } catch (error) {
+    redisErrors.inc({ operation: "rate_limit" });
     console.error("Rate limiting error:", error);
     // If Redis fails, allow the request (fail open)
     return true;
   }
 }
+
+const MAX_PIPELINE_FIXES = Number(process.env.PIPELINE_FIX_MAX_ATTEMPTS) || 3;
+const PIPELINE_FIX_WINDOW_SECONDS = 60 * 60 * 24; // 24 hours
+const PIPELINE_FIX_KEY_PREFIX = "claude:pipeline-fixes:";
+
+function getPipelineFixKey(projectId: number, ref: string): string {
+  return `${PIPELINE_FIX_KEY_PREFIX}${projectId}:${ref}`;
+}
+
+/**
+ * Whether a branch has attempts left to fix its failed pipeline. Returns
+ * false once they are used up, so Claude doesn't keep pushing to a branch
+ * whose pipeline it can't fix. The count is kept per branch because every
+ * fix is a new commit, and only goes up with recordPipelineFix.
+ */
+export async function limitPipelineFixes(
+  projectId: number,
+  ref: string,
+  maxAttempts = MAX_PIPELINE_FIXES,
+): Promise<boolean> {
+  try {
+    const client = await getRedis();
+    const attempts = Number(
+      await client.get(getPipelineFixKey(projectId, ref)),
+    );
+
+    return attempts < maxAttempts;
+  } catch (error) {
+    redisErrors.inc({ operation: "pipeline_fix_limit" });
+    console.error("Pipeline fix limiting error:", error);
+    // If Redis fails, allow the request (fail open)
+    return true;
+  }
+}
+
+/**
+ * Counts an attempt to fix a failed pipeline on a branch, once its job is
+ * queued
+ */
+export async function recordPipelineFix(
+  projectId: number,
+  ref: string,
+): Promise<void> {
+  try {
+    const client = await getRedis();
+    const redisKey = getPipelineFixKey(projectId, ref);
+
+    const attempts = await client.incr(redisKey);
+    if (attempts === 1) {
+      await client.expire(redisKey, PIPELINE_FIX_WINDOW_SECONDS);
+    }
+  } catch (error) {
+    redisErrors.inc({ operation: "pipeline_fix_limit" });
+    console.error("Pipeline fix counting error:", error);
+  }
+}
+
+/**
+ * Current rate-limit windows, keyed like `author:projectId:resourceId`
+ */
+export async function getRateLimits(): Promise<RateLimitState[]> {
+  const client = await getRedis();
+  const states: RateLimitState[] = [];
+  for await (const key of client.scanIterator({
+    MATCH: `${KEY_PREFIX}*`,
+    COUNT: 100,
+  })) {
+    const [count, expiresIn] = await Promise.all([
+      client.zCard(key),
+      client.ttl(key),
+    ]);
+    states.push({ key: key.slice(KEY_PREFIX.length), count, expiresIn });
+  }
+  return states.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Clears one rate-limit window, or all of them without a key. Returns the
+ * number of windows cleared.
+ */
+export async function resetRateLimits(key?: string): Promise<number> {
+  const client = await getRedis();
+  const keys = key
+    ? [KEY_PREFIX + key]
+    : (await getRateLimits()).map((state) => KEY_PREFIX + state.key);
+  return keys.length > 0 ? client.del(keys) : 0;
+}
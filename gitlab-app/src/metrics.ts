@@ -0,0 +1,148 @@
+/**
+ * Prometheus metrics in the text exposition format, served at /metrics
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private name: string,
+    private help: string,
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+      ),
+    ];
+  }
+}
+
+class Histogram implements Metric {
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[],
+  ) {
+    registry.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bucket, index) => {
+      if (value <= bucket) {
+        entry.counts[index]!++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  // Returns a function that observes the seconds elapsed since the call
+  startTimer(): (labels?: Labels) => void {
+    const start = performance.now();
+    return (labels) => this.observe((performance.now() - start) / 1000, labels);
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bucket, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+    return lines;
+  }
+}
+
+// Webhooks received, by event: note, merge_request, issue, pipeline or
+// unsupported
+export const webhooksReceived = new Counter(
+  "claude_webhooks_received_total",
+  "Webhooks received by event type",
+);
+
+// What happened to each webhook: unauthorized, ignored, skipped, or one of
+// the trigger history outcomes (queued, disabled, forbidden, duplicate,
+// rate-limited, failed)
+export const triggers = new Counter(
+  "claude_triggers_total",
+  "Webhook outcomes by result, e.g. queued, skipped, rate-limited or unauthorized",
+);
+
+export const pipelineTriggerDuration = new Histogram(
+  "claude_pipeline_trigger_duration_seconds",
+  "Time taken by GitLab to create a pipeline, by result",
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+);
+
+export const pipelineTriggerFailures = new Counter(
+  "claude_pipeline_trigger_failures_total",
+  "Pipelines GitLab failed to create",
+);
+
+export const redisErrors = new Counter(
+  "claude_redis_errors_total",
+  "Redis errors by operation",
+);
+
+export function renderMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
@@ -0,0 +1,421 @@
+import { randomUUID } from "crypto";
+import { getRedis } from "./limiter";
+import { logger } from "./logger";
+import {
+  triggerPipeline,
+  cancelOldPipelines,
+  getPipelineStatus,
+} from "./gitlab";
+import { sendPipelineNotification } from "./discord";
+import { getProjectSettings } from "./config";
+import type { ClaudeEvent } from "./events";
+import { redisErrors } from "./metrics";
+
+export type JobStatus = "queued" | "running" | "finished" | "failed";
+
+export interface PipelineJob {
+  id: string;
+  status: JobStatus;
+  event: ClaudeEvent;
+  projectId: number;
+  projectPath: string;
+  ref: string;
+  author: string;
+  resourceType: string;
+  resourceId: string;
+  issueTitle?: string;
+  triggerPhrase: string;
+  directPrompt: string;
+  variables: Record<string, string>;
+  attempts: number;
+  nextAttemptAt?: number;
+  pipelineId?: number;
+  pipelineStatus?: string;
+  // Consecutive pipeline status checks that failed
+  statusCheckFailures?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewPipelineJob = Omit<
+  PipelineJob,
+  "id" | "status" | "attempts" | "createdAt" | "updatedAt"
+>;
+
+const QUEUE_KEY = "claude:queue";
+const RUNNING_KEY = "claude:running";
+const FINISHED_KEY = "claude:finished";
+const LOCK_KEY = "claude:queue:lock";
+const jobKey = (id: string) => `claude:job:${id}`;
+
+const MAX_CONCURRENT = Number(process.env.QUEUE_MAX_CONCURRENT) || 5;
+const MAX_PER_PROJECT = Number(process.env.QUEUE_MAX_PER_PROJECT) || 2;
+const MAX_ATTEMPTS = Number(process.env.QUEUE_MAX_ATTEMPTS) || 3;
+const POLL_INTERVAL_SECONDS = Number(process.env.QUEUE_POLL_INTERVAL) || 10;
+const DEDUP_WINDOW_SECONDS = Number(process.env.DEDUP_WINDOW) || 60 * 10; // 10 minutes
+const HISTORY_SIZE = Number(process.env.QUEUE_HISTORY) || 100;
+const MAX_STATUS_CHECK_FAILURES =
+  Number(process.env.QUEUE_MAX_STATUS_CHECK_FAILURES) || 10;
+const RETRY_DELAY_SECONDS = 5;
+const FINISHED_JOB_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const LOCK_TTL_SECONDS = POLL_INTERVAL_SECONDS * 6;
+
+// Extend and release the queue lock only while it still holds this pass's
+// token, so a pass that outlived its lock can't touch another replica's
+const EXTEND_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("expire", KEYS[1], ARGV[2]) else return 0 end`;
+const RELEASE_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+// Pipelines in these states no longer hold a concurrency slot
+const DONE_PIPELINE_STATUSES = [
+  "success",
+  "failed",
+  "canceled",
+  "skipped",
+  "manual",
+];
+
+async function saveJob(job: PipelineJob): Promise<void> {
+  const client = await getRedis();
+  job.updatedAt = new Date().toISOString();
+  const done = job.status === "finished" || job.status === "failed";
+  await client.set(
+    jobKey(job.id),
+    JSON.stringify(job),
+    done ? { EX: FINISHED_JOB_TTL_SECONDS } : {},
+  );
+}
+
+export async function getJob(id: string): Promise<PipelineJob | null> {
+  const client = await getRedis();
+  const data = await client.get(jobKey(id));
+  return data ? (JSON.parse(data) as PipelineJob) : null;
+}
+
+async function getJobs(ids: string[]): Promise<PipelineJob[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  const client = await getRedis();
+  const data = await client.mGet(ids.map(jobKey));
+  return data
+    .filter((item): item is string => !!item)
+    .map((item) => JSON.parse(item) as PipelineJob);
+}
+
+/**
+ * Records a delivery and returns true when the same key was already seen
+ * within the dedup window, e.g. a repeated note or a redelivered webhook
+ */
+export async function isDuplicate(key: string): Promise<boolean> {
+  try {
+    const client = await getRedis();
+    const result = await client.set(`claude:dedup:${key}`, "1", {
+      NX: true,
+      EX: DEDUP_WINDOW_SECONDS,
+    });
+    return result === null;
+  } catch (error) {
+    redisErrors.inc({ operation: "dedup" });
+    logger.error("Deduplication check failed", {
+      error: error instanceof Error ? error.message : error,
+    });
+    // If Redis fails, treat the event as new
+    return false;
+  }
+}
+
+export async function enqueueJob(input: NewPipelineJob): Promise<PipelineJob> {
+  const now = new Date().toISOString();
+  const job: PipelineJob = {
+    ...input,
+    id: randomUUID(),
+    status: "queued",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const client = await getRedis();
+  await saveJob(job);
+  await client.rPush(QUEUE_KEY, job.id);
+
+  logger.info("Job queued", {
+    jobId: job.id,
+    projectId: job.projectId,
+    ref: job.ref,
+    event: job.event,
+  });
+  return job;
+}
+
+export async function listJobs(): Promise<{
+  queued: PipelineJob[];
+  running: PipelineJob[];
+  finished: PipelineJob[];
+}> {
+  const client = await getRedis();
+  const [queuedIds, runningIds, finishedIds] = await Promise.all([
+    client.lRange(QUEUE_KEY, 0, -1),
+    client.sMembers(RUNNING_KEY),
+    client.lRange(FINISHED_KEY, 0, -1),
+  ]);
+
+  const [queued, running, finished] = await Promise.all([
+    getJobs(queuedIds),
+    getJobs(runningIds),
+    getJobs(finishedIds),
+  ]);
+  return { queued, running, finished };
+}
+
+async function finishJob(job: PipelineJob): Promise<void> {
+  const client = await getRedis();
+  await saveJob(job);
+  await client.sRem(RUNNING_KEY, job.id);
+  await client.lPush(FINISHED_KEY, job.id);
+  await client.lTrim(FINISHED_KEY, 0, HISTORY_SIZE - 1);
+}
+
+async function failRunningJob(job: PipelineJob, error: string): Promise<void> {
+  job.status = "failed";
+  job.error = error;
+  await finishJob(job);
+  logger.error("Job failed", {
+    jobId: job.id,
+    pipelineId: job.pipelineId,
+    error,
+  });
+}
+
+// Frees the slots of jobs whose pipelines have completed, or whose pipelines
+// are gone or can't be checked anymore
+async function updateRunningJobs(running: PipelineJob[]): Promise<void> {
+  for (const job of running) {
+    let status: string | null;
+    try {
+      status = await getPipelineStatus(job.projectId, job.pipelineId!);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      job.statusCheckFailures = (job.statusCheckFailures || 0) + 1;
+      logger.warn("Failed to check pipeline status", {
+        jobId: job.id,
+        pipelineId: job.pipelineId,
+        failures: job.statusCheckFailures,
+        error: message,
+      });
+
+      if (job.statusCheckFailures >= MAX_STATUS_CHECK_FAILURES) {
+        await failRunningJob(
+          job,
+          `Pipeline status check failed ${job.statusCheckFailures} times: ${message}`,
+        );
+      } else {
+        await saveJob(job);
+      }
+      continue;
+    }
+
+    if (status === null) {
+      await failRunningJob(job, `Pipeline ${job.pipelineId} no longer exists`);
+      continue;
+    }
+
+    if (status === job.pipelineStatus && !job.statusCheckFailures) {
+      continue;
+    }
+
+    job.pipelineStatus = status;
+    delete job.statusCheckFailures;
+    if (DONE_PIPELINE_STATUSES.includes(status)) {
+      job.status = "finished";
+      await finishJob(job);
+      logger.info("Job finished", {
+        jobId: job.id,
+        pipelineId: job.pipelineId,
+        pipelineStatus: status,
+      });
+    } else {
+      await saveJob(job);
+    }
+  }
+}
+
+// Pipelines started for jobs that aren't in the running set yet. If Redis
+// fails before the job is moved, the next pass finishes the move instead of
+// starting a second pipeline, even when the pipeline ID couldn't be saved.
+const startedPipelines = new Map<string, number>();
+
+async function startJob(job: PipelineJob): Promise<void> {
+  const client = await getRedis();
+
+  let pipelineId = job.pipelineId ?? startedPipelines.get(job.id);
+  if (pipelineId === undefined) {
+    job.attempts++;
+    try {
+      pipelineId = await triggerPipeline(job.projectId, job.ref, job.variables);
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < MAX_ATTEMPTS) {
+        // Back off exponentially: 5s, 10s, 20s, ...
+        job.nextAttemptAt =
+          Date.now() + RETRY_DELAY_SECONDS * 1000 * 2 ** (job.attempts - 1);
+        await saveJob(job);
+        logger.warn("Pipeline trigger failed, will retry", {
+          jobId: job.id,
+          attempts: job.attempts,
+          error: job.error,
+        });
+        return;
+      }
+
+      job.status = "failed";
+      delete job.nextAttemptAt;
+      await client.lRem(QUEUE_KEY, 1, job.id);
+      await finishJob(job);
+      logger.error("Job failed", {
+        jobId: job.id,
+        attempts: job.attempts,
+        error: job.error,
+      });
+      return;
+    }
+    startedPipelines.set(job.id, pipelineId);
+  }
+
+  // The pipeline is running from here on: Redis errors propagate to the
+  // worker, and the job is never triggered again
+  job.status = "running";
+  job.pipelineId = pipelineId;
+  job.pipelineStatus ??= "created";
+  delete job.error;
+  delete job.nextAttemptAt;
+  await saveJob(job);
+  await client.sAdd(RUNNING_KEY, job.id);
+  await client.lRem(QUEUE_KEY, 1, job.id);
+  startedPipelines.delete(job.id);
+
+  logger.info("Job started", {
+    jobId: job.id,
+    pipelineId,
+    projectId: job.projectId,
+    ref: job.ref,
+  });
+
+  const settings = await getProjectSettings(job.projectPath);
+
+  // Send Discord notification (fire-and-forget)
+  sendPipelineNotification({
+    projectPath: job.projectPath,
+    authorUsername: job.author,
+    resourceType: job.resourceType,
+    resourceId: job.resourceId,
+    branch: job.ref,
+    pipelineId,
+    gitlabUrl: process.env.GITLAB_URL || "https://gitlab.com",
+    triggerPhrase: job.triggerPhrase,
+    directPrompt: job.directPrompt,
+    issueTitle: job.issueTitle,
+    webhookUrl: settings.discordWebhookUrl,
+  });
+
+  // Cancel old pipelines if configured
+  if (settings.cancelOldPipelines) {
+    await cancelOldPipelines(job.projectId, pipelineId, job.ref);
+  }
+}
+
+// Renews the lock's TTL, returning false when another replica holds it
+async function extendLock(token: string): Promise<boolean> {
+  const client = await getRedis();
+  const extended = await client.eval(EXTEND_LOCK_SCRIPT, {
+    keys: [LOCK_KEY],
+    arguments: [token, String(LOCK_TTL_SECONDS)],
+  });
+  return extended === 1;
+}
+
+async function releaseLock(token: string): Promise<void> {
+  const client = await getRedis();
+  await client.eval(RELEASE_LOCK_SCRIPT, {
+    keys: [LOCK_KEY],
+    arguments: [token],
+  });
+}
+
+/**
+ * Runs one pass over the queue: frees slots of completed pipelines, then
+ * starts queued jobs in order while the global and per-project limits allow
+ */
+export async function processQueue(): Promise<void> {
+  const client = await getRedis();
+
+  // Only one replica works the queue at a time
+  const token = randomUUID();
+  const lock = await client.set(LOCK_KEY, token, {
+    NX: true,
+    EX: LOCK_TTL_SECONDS,
+  });
+  if (!lock) {
+    return;
+  }
+
+  try {
+    const { queued, running } = await listJobs();
+    await updateRunningJobs(running);
+
+    const active = running.filter((job) => job.status === "running");
+    const perProject = new Map<number, number>();
+    for (const job of active) {
+      perProject.set(job.projectId, (perProject.get(job.projectId) || 0) + 1);
+    }
+    let activeCount = active.length;
+
+    for (const job of queued) {
+      if (activeCount >= MAX_CONCURRENT) {
+        break;
+      }
+      if (
+        (perProject.get(job.projectId) || 0) >= MAX_PER_PROJECT ||
+        (job.nextAttemptAt && job.nextAttemptAt > Date.now())
+      ) {
+        continue;
+      }
+
+      // GitLab calls can be slow, so keep the lock for the rest of the pass
+      if (!(await extendLock(token))) {
+        logger.warn("Queue lock lost, stopping this pass");
+        break;
+      }
+
+      await startJob(job);
+      if (job.status === "running") {
+        activeCount++;
+        perProject.set(job.projectId, (perProject.get(job.projectId) || 0) + 1);
+      }
+    }
+  } finally {
+    await releaseLock(token);
+  }
+}
+
+export function startQueueWorker(): void {
+  const tick = async () => {
+    try {
+      await processQueue();
+    } catch (error) {
+      // GitLab errors are handled per job, so what's left comes from Redis
+      redisErrors.inc({ operation: "queue" });
+      logger.error("Queue processing failed", {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+    setTimeout(tick, POLL_INTERVAL_SECONDS * 1000);
+  };
+
+  logger.info("Queue worker started", {
+    maxConcurrent: MAX_CONCURRENT,
+    maxPerProject: MAX_PER_PROJECT,
+  });
+  tick();
+}
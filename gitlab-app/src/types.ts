@@ -106,3 +106,76 @@ export interface WebhookPayload {
     visibility: string;
   };
 }
+
+export interface HookUser {
+  id: number;
+  username: string;
+  name: string;
+}
+
+export interface HookLabel {
+  id: number;
+  title: string;
+}
+
+export interface MergeRequestHookPayload {
+  object_kind: "merge_request";
+  user: HookUser;
+  project: WebhookPayload["project"];
+  object_attributes: {
+    iid: number;
+    title: string;
+    description?: string;
+    state: string;
+    action?: string;
+    source_branch: string;
+    target_branch: string;
+    draft?: boolean;
+    work_in_progress?: boolean;
+    oldrev?: string;
+    url: string;
+  };
+}
+
+export interface IssueHookPayload {
+  object_kind: "issue";
+  user: HookUser;
+  project: WebhookPayload["project"];
+  object_attributes: {
+    iid: number;
+    title: string;
+    description?: string;
+    state: string;
+    action?: string;
+    url: string;
+  };
+  assignees?: HookUser[];
+  labels?: HookLabel[];
+  changes?: {
+    assignees?: { previous: HookUser[]; current: HookUser[] };
+    labels?: { previous: HookLabel[]; current: HookLabel[] };
+  };
+}
+
+export interface PipelineHookPayload {
+  object_kind: "pipeline";
+  user: HookUser;
+  project: WebhookPayload["project"];
+  object_attributes: {
+    id: number;
+    ref: string;
+    tag: boolean;
+    sha: string;
+    status: string;
+    source?: string;
+    url?: string;
+    variables?: Array<{ key: string; value: string }>;
+  };
+  merge_request?: {
+    iid: number;
+    title: string;
+    source_branch: string;
+    target_branch: string;
+    url: string;
+  } | null;
+}
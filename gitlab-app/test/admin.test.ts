@@ -0,0 +1,110 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import type { Hono } from "hono";
+import * as limiter from "../src/limiter";
+import { FakeRedis } from "./fakes/fake-redis";
+
+const TOKEN = "admin-secret";
+
+describe("admin auth", () => {
+  let admin: Hono;
+  let redis: FakeRedis;
+
+  const bearer = { Authorization: `Bearer ${TOKEN}` };
+  const login = {
+    Authorization: `Basic ${Buffer.from(`admin:${TOKEN}`).toString("base64")}`,
+  };
+
+  beforeAll(async () => {
+    // The token is read when the module loads
+    process.env.ADMIN_TOKEN = TOKEN;
+    ({ admin } = await import("../src/admin"));
+  });
+
+  beforeEach(() => {
+    redis = new FakeRedis().install();
+    spyOn(limiter, "getRateLimits").mockResolvedValue([]);
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("serves the dashboard with the token or the browser login", async () => {
+    expect((await admin.request("/dashboard")).status).toBe(401);
+    expect(
+      (await admin.request("/dashboard", { headers: bearer })).status,
+    ).toBe(200);
+    expect((await admin.request("/dashboard", { headers: login })).status).toBe(
+      200,
+    );
+  });
+
+  it("only accepts the bearer token for changes", async () => {
+    const rejected = await admin.request("/disable", {
+      method: "POST",
+      headers: login,
+    });
+    expect(rejected.status).toBe(400);
+    expect(redis.sets.get("claude:disabled")).toBeUndefined();
+
+    const accepted = await admin.request("/disable", {
+      method: "POST",
+      headers: bearer,
+    });
+    expect(accepted.status).toBe(200);
+    expect([...redis.sets.get("claude:disabled")!]).toEqual(["*"]);
+  });
+
+  it("flips the kill switch on GET with the bearer token only", async () => {
+    const rejected = await admin.request("/disable", { headers: login });
+    expect(rejected.status).toBe(400);
+    expect(redis.sets.get("claude:disabled")).toBeUndefined();
+
+    const disabled = await admin.request("/disable", { headers: bearer });
+    expect(await disabled.text()).toBe("disabled");
+    expect([...redis.sets.get("claude:disabled")!]).toEqual(["*"]);
+
+    const enabled = await admin.request("/enable", { headers: bearer });
+    expect(await enabled.text()).toBe("enabled");
+    expect(redis.sets.get("claude:disabled")?.size).toBe(0);
+  });
+
+  it("accepts the dashboard's forms from its own host only", async () => {
+    const form = {
+      method: "POST",
+      body: new URLSearchParams(),
+    };
+
+    const crossSite = await admin.request(
+      "http://claude.example/dashboard/disable",
+      {
+        ...form,
+        headers: { ...login, Origin: "https://evil.example" },
+      },
+    );
+    expect(crossSite.status).toBe(403);
+    expect(redis.sets.get("claude:disabled")).toBeUndefined();
+
+    const sameSite = await admin.request(
+      "http://claude.example/dashboard/disable",
+      {
+        ...form,
+        headers: { ...login, Origin: "https://claude.example" },
+      },
+    );
+    expect(sameSite.status).toBe(302);
+    expect(sameSite.headers.get("location")).toBe("/admin/dashboard");
+    expect([...redis.sets.get("claude:disabled")!]).toEqual(["*"]);
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  getProjectSettings,
+  setStoredSettings,
+  validateSettings,
+  type ProjectSettings,
+} from "../src/config";
+import * as limiter from "../src/limiter";
+import { FakeRedis } from "./fakes/fake-redis";
+
+describe("validateSettings", () => {
+  it("accepts valid settings", () => {
+    const settings: ProjectSettings = {
+      triggerPhrase: "@bot",
+      allowedUsers: ["jdoe"],
+      allowedGroups: [],
+      rateLimitMax: 10,
+      rateLimitWindow: 60,
+      model: "claude-sonnet",
+      discordWebhookUrl: "https://discord.example.com/hook",
+      events: ["note", "pipeline"],
+      cancelOldPipelines: true,
+    };
+
+    expect(validateSettings(settings)).toEqual({ settings });
+  });
+
+  it("rejects anything but an object", () => {
+    for (const input of [null, "@bot", ["note"]]) {
+      expect(validateSettings(input)).toEqual({
+        error: "Settings must be an object",
+      });
+    }
+  });
+
+  it("rejects unknown settings", () => {
+    expect(validateSettings({ triggerPrase: "@bot" })).toEqual({
+      error: "Unknown setting 'triggerPrase'",
+    });
+  });
+
+  it("rejects invalid values", () => {
+    const invalid: Record<string, unknown> = {
+      triggerPhrase: "",
+      allowedUsers: "jdoe",
+      rateLimitMax: 0,
+      rateLimitWindow: Infinity,
+      discordWebhookUrl: "http://discord.example.com/hook",
+      events: ["note", "push"],
+      cancelOldPipelines: "true",
+    };
+
+    for (const [key, value] of Object.entries(invalid)) {
+      expect(validateSettings({ [key]: value })).toEqual({
+        error: `Invalid value for '${key}'`,
+      });
+    }
+  });
+});
+
+describe("getProjectSettings", () => {
+  const originalEnv = process.env;
+  let dir: string;
+
+  async function useConfigFile(entries: Record<string, unknown>) {
+    const file = path.join(dir, "config.json");
+    await writeFile(file, JSON.stringify(entries));
+    process.env.CONFIG_FILE = file;
+  }
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    delete process.env.TRIGGER_PHRASE;
+    delete process.env.RATE_LIMIT_MAX;
+    delete process.env.CLAUDE_EVENTS;
+    dir = await mkdtemp(path.join(tmpdir(), "gitlab-app-config-"));
+    // A fresh path per test so the file is read again
+    process.env.CONFIG_FILE = path.join(dir, "missing.json");
+
+    new FakeRedis().install();
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    mock.restore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("falls back to env defaults", async () => {
+    process.env.TRIGGER_PHRASE = "@bot";
+    process.env.CLAUDE_EVENTS = "note, issue, push";
+
+    expect(await getProjectSettings("acme/widgets")).toMatchObject({
+      triggerPhrase: "@bot",
+      allowedUsers: [],
+      rateLimitMax: 3,
+      rateLimitWindow: 900,
+      events: ["note", "issue"],
+      cancelOldPipelines: false,
+    });
+  });
+
+  it("applies entries from the global entry down to the project", async () => {
+    await useConfigFile({
+      "*": { triggerPhrase: "@global", rateLimitMax: 5, model: "file-model" },
+      acme: { triggerPhrase: "@acme" },
+      "acme/tools/widgets": { rateLimitMax: 7 },
+      "acme/tools/gadgets": { triggerPhrase: "@gadgets" },
+    });
+
+    expect(await getProjectSettings("acme/tools/widgets")).toMatchObject({
+      triggerPhrase: "@acme",
+      rateLimitMax: 7,
+      model: "file-model",
+    });
+  });
+
+  it("lets stored settings override the config file for the same path", async () => {
+    await useConfigFile({
+      "*": { model: "file-model" },
+      acme: { triggerPhrase: "@file", rateLimitMax: 9 },
+      "acme/widgets": { rateLimitWindow: 60 },
+    });
+    await setStoredSettings("acme", { triggerPhrase: "@stored" });
+    await setStoredSettings("*", { rateLimitWindow: 120 });
+
+    expect(await getProjectSettings("acme/widgets")).toMatchObject({
+      triggerPhrase: "@stored",
+      rateLimitMax: 9,
+      // A more specific path still wins over a stored global setting
+      rateLimitWindow: 60,
+      model: "file-model",
+    });
+  });
+
+  it("skips invalid config file entries", async () => {
+    await useConfigFile({
+      "*": { triggerPhrase: "@global" },
+      acme: { triggerPhrase: 42 },
+    });
+
+    expect((await getProjectSettings("acme/widgets")).triggerPhrase).toBe(
+      "@global",
+    );
+  });
+
+  it("uses the config file when Redis is down", async () => {
+    spyOn(limiter, "getRedis").mockRejectedValue(new Error("ECONNREFUSED"));
+    await useConfigFile({ acme: { triggerPhrase: "@file" } });
+
+    expect((await getProjectSettings("acme/widgets")).triggerPhrase).toBe(
+      "@file",
+    );
+  });
+});
@@ -0,0 +1,387 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import {
+  getIssueTrigger,
+  getMergeRequestTrigger,
+  getNoteTrigger,
+  getPipelineTrigger,
+} from "../src/events";
+import { limitPipelineFixes, recordPipelineFix } from "../src/limiter";
+import type {
+  HookUser,
+  IssueHookPayload,
+  MergeRequestHookPayload,
+  PipelineHookPayload,
+  WebhookPayload,
+} from "../src/types";
+import { FakeRedis } from "./fakes/fake-redis";
+
+const project: WebhookPayload["project"] = {
+  id: 42,
+  name: "widgets",
+  web_url: "https://gitlab.example.com/acme/widgets",
+  git_ssh_url: "git@gitlab.example.com:acme/widgets.git",
+  git_http_url: "https://gitlab.example.com/acme/widgets.git",
+  namespace: "acme",
+  visibility_level: 0,
+  path_with_namespace: "acme/widgets",
+  default_branch: "main",
+};
+
+const jdoe: HookUser = { id: 1, username: "jdoe", name: "Jane Doe" };
+const bot: HookUser = { id: 2, username: "claude-bot", name: "Claude" };
+
+function notePayload(
+  note: string,
+  target: Pick<WebhookPayload, "merge_request" | "issue">,
+): WebhookPayload {
+  return {
+    object_kind: "note",
+    user: jdoe,
+    project,
+    object_attributes: {
+      id: 100,
+      note,
+      noteable_type: target.merge_request ? "MergeRequest" : "Issue",
+      author_id: jdoe.id,
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+      project_id: project.id,
+      system: false,
+    },
+    ...target,
+  };
+}
+
+const mergeRequest: NonNullable<WebhookPayload["merge_request"]> = {
+  id: 700,
+  iid: 7,
+  target_branch: "main",
+  source_branch: "feature/math",
+  source_project_id: project.id,
+  author_id: jdoe.id,
+  title: "Add math helpers",
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  state: "opened",
+  merge_status: "can_be_merged",
+  target_project_id: project.id,
+  source: null,
+  target: null,
+  work_in_progress: false,
+  url: "https://gitlab.example.com/acme/widgets/-/merge_requests/7",
+};
+
+function mergeRequestPayload(
+  attributes: Partial<MergeRequestHookPayload["object_attributes"]>,
+  user = jdoe,
+): MergeRequestHookPayload {
+  return {
+    object_kind: "merge_request",
+    user,
+    project,
+    object_attributes: {
+      iid: 7,
+      title: "Add math helpers",
+      state: "opened",
+      action: "open",
+      source_branch: "feature/math",
+      target_branch: "main",
+      url: "https://gitlab.example.com/acme/widgets/-/merge_requests/7",
+      ...attributes,
+    },
+  };
+}
+
+function issuePayload(
+  payload: Partial<IssueHookPayload>,
+  action = "open",
+): IssueHookPayload {
+  return {
+    object_kind: "issue",
+    user: jdoe,
+    project,
+    object_attributes: {
+      iid: 3,
+      title: "Add a subtract helper",
+      state: "opened",
+      action,
+      url: "https://gitlab.example.com/acme/widgets/-/issues/3",
+    },
+    ...payload,
+  };
+}
+
+function pipelinePayload(
+  attributes: Partial<PipelineHookPayload["object_attributes"]>,
+  mr: PipelineHookPayload["merge_request"] = null,
+): PipelineHookPayload {
+  return {
+    object_kind: "pipeline",
+    user: bot,
+    project,
+    object_attributes: {
+      id: 1001,
+      ref: "claude/issue-3-add-a-subtract-helper-1700000000000",
+      tag: false,
+      sha: "abc123",
+      status: "failed",
+      ...attributes,
+    },
+    merge_request: mr,
+  };
+}
+
+describe("getNoteTrigger", () => {
+  it("uses the text after the trigger phrase as the prompt", () => {
+    const trigger = getNoteTrigger(
+      notePayload("@claude fix the tests\nplease", {
+        merge_request: mergeRequest,
+      }),
+      "@claude",
+    );
+
+    expect(trigger).toMatchObject({
+      event: "note",
+      resourceType: "merge_request",
+      resourceId: 7,
+      ref: "feature/math",
+      baseBranch: "main",
+      directPrompt: "fix the tests\nplease",
+      variables: { CLAUDE_NOTE: "@claude fix the tests\nplease" },
+    });
+  });
+
+  it("triggers on issues without a ref", () => {
+    const trigger = getNoteTrigger(
+      notePayload("@Claude", {
+        issue: {
+          id: 300,
+          iid: 3,
+          project_id: project.id,
+          title: "Add a subtract helper",
+          state: "opened",
+          created_at: "2024-01-01T00:00:00Z",
+          updated_at: "2024-01-01T00:00:00Z",
+          author: jdoe,
+          user_notes_count: 1,
+          upvotes: 0,
+          downvotes: 0,
+          confidential: false,
+          web_url: "https://gitlab.example.com/acme/widgets/-/issues/3",
+        },
+      }),
+      "@claude",
+    );
+
+    expect(trigger).toMatchObject({
+      resourceType: "issue",
+      resourceId: 3,
+      issueTitle: "Add a subtract helper",
+      directPrompt: "",
+    });
+    expect(trigger?.ref).toBeUndefined();
+  });
+
+  it("ignores notes without the trigger phrase as a whole word", () => {
+    const target = { merge_request: mergeRequest };
+    expect(getNoteTrigger(notePayload("thanks!", target), "@claude")).toBe(
+      null,
+    );
+    expect(
+      getNoteTrigger(notePayload("@claudette look", target), "@claude"),
+    ).toBe(null);
+  });
+});
+
+describe("getMergeRequestTrigger", () => {
+  it("reviews opened merge requests", () => {
+    expect(
+      getMergeRequestTrigger(mergeRequestPayload({}), "claude-bot"),
+    ).toMatchObject({
+      event: "merge_request",
+      resourceId: 7,
+      ref: "feature/math",
+      variables: { MODE: "review", CLAUDE_MR_ACTION: "open" },
+    });
+  });
+
+  it("reviews new commits but not other updates", () => {
+    expect(
+      getMergeRequestTrigger(
+        mergeRequestPayload({ action: "update", oldrev: "abc" }),
+        "claude-bot",
+      )?.variables.CLAUDE_MR_ACTION,
+    ).toBe("update");
+    expect(
+      getMergeRequestTrigger(
+        mergeRequestPayload({ action: "update" }),
+        "claude-bot",
+      ),
+    ).toBe(null);
+  });
+
+  it("skips drafts", () => {
+    expect(
+      getMergeRequestTrigger(
+        mergeRequestPayload({ draft: true }),
+        "claude-bot",
+      ),
+    ).toBe(null);
+  });
+
+  it("skips commits pushed by the bot user", () => {
+    expect(
+      getMergeRequestTrigger(
+        mergeRequestPayload({ action: "update", oldrev: "abc" }, bot),
+        "claude-bot",
+      ),
+    ).toBe(null);
+  });
+});
+
+describe("getIssueTrigger", () => {
+  it("implements issues opened with the bot assigned", () => {
+    expect(
+      getIssueTrigger(
+        issuePayload({ assignees: [bot] }),
+        "claude-bot",
+        "claude",
+      ),
+    ).toMatchObject({
+      event: "issue",
+      resourceType: "issue",
+      resourceId: 3,
+      issueTitle: "Add a subtract helper",
+      variables: { CLAUDE_ISSUE_ACTION: "assigned" },
+    });
+  });
+
+  it("implements issues when the trigger label is added", () => {
+    const trigger = getIssueTrigger(
+      issuePayload(
+        {
+          changes: {
+            labels: {
+              previous: [{ id: 1, title: "bug" }],
+              current: [
+                { id: 1, title: "bug" },
+                { id: 2, title: "claude" },
+              ],
+            },
+          },
+        },
+        "update",
+      ),
+      "claude-bot",
+      "claude",
+    );
+    expect(trigger?.variables.CLAUDE_ISSUE_ACTION).toBe("labeled");
+  });
+
+  it("ignores updates that keep an existing assignment", () => {
+    expect(
+      getIssueTrigger(
+        issuePayload(
+          {
+            changes: {
+              assignees: { previous: [bot], current: [bot, jdoe] },
+            },
+          },
+          "update",
+        ),
+        "claude-bot",
+        "claude",
+      ),
+    ).toBe(null);
+  });
+});
+
+describe("getPipelineTrigger", () => {
+  it("reports failed pipelines on an issue branch to the issue", () => {
+    expect(getPipelineTrigger(pipelinePayload({}))).toMatchObject({
+      event: "pipeline",
+      resourceType: "issue",
+      resourceId: 3,
+      ref: "claude/issue-3-add-a-subtract-helper-1700000000000",
+      variables: { CLAUDE_PIPELINE_ID: "1001", CLAUDE_PIPELINE_SHA: "abc123" },
+    });
+  });
+
+  it("prefers the branch's merge request", () => {
+    const trigger = getPipelineTrigger(
+      pipelinePayload(
+        { ref: "claude/fix-math" },
+        {
+          iid: 7,
+          title: "Fix math",
+          source_branch: "claude/fix-math",
+          target_branch: "main",
+          url: "https://gitlab.example.com/acme/widgets/-/merge_requests/7",
+        },
+      ),
+    );
+    expect(trigger).toMatchObject({
+      resourceType: "merge_request",
+      resourceId: 7,
+      baseBranch: "main",
+    });
+  });
+
+  it("skips pipelines it shouldn't fix", () => {
+    expect(getPipelineTrigger(pipelinePayload({ status: "success" }))).toBe(
+      null,
+    );
+    expect(getPipelineTrigger(pipelinePayload({ ref: "feature/math" }))).toBe(
+      null,
+    );
+    expect(
+      getPipelineTrigger(
+        pipelinePayload({
+          variables: [{ key: "CLAUDE_TRIGGER", value: "true" }],
+        }),
+      ),
+    ).toBe(null);
+    // Not an issue branch and no merge request to report on
+    expect(getPipelineTrigger(pipelinePayload({ ref: "claude/fix" }))).toBe(
+      null,
+    );
+  });
+});
+
+describe("limitPipelineFixes", () => {
+  let redis: FakeRedis;
+
+  beforeEach(() => {
+    redis = new FakeRedis().install();
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("allows a few attempts per branch", async () => {
+    const attempts = [];
+    for (let i = 0; i < 4; i++) {
+      const allowed = await limitPipelineFixes(42, "claude/fix", 3);
+      attempts.push(allowed);
+      if (allowed) {
+        await recordPipelineFix(42, "claude/fix");
+      }
+    }
+
+    expect(attempts).toEqual([true, true, true, false]);
+    expect(await limitPipelineFixes(42, "claude/other", 3)).toBe(true);
+    expect(redis.ttls.get("claude:pipeline-fixes:42:claude/fix")).toBe(
+      60 * 60 * 24,
+    );
+  });
+
+  it("doesn't count attempts that were never recorded", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await limitPipelineFixes(42, "claude/fix", 3)).toBe(true);
+    }
+    expect(redis.strings.has("claude:pipeline-fixes:42:claude/fix")).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * In-memory stand-in for the node-redis client, covering the commands the
+ * server uses. Expiry times are recorded in `ttls` but never enforced.
+ */
+
+import { spyOn } from "bun:test";
+import * as limiter from "../../src/limiter";
+
+type RedisClient = Awaited<ReturnType<typeof limiter.getRedis>>;
+
+function range<T>(items: T[], start: number, stop: number): T[] {
+  return items.slice(start, stop === -1 ? undefined : stop + 1);
+}
+
+export class FakeRedis {
+  readonly strings = new Map<string, string>();
+  readonly lists = new Map<string, string[]>();
+  readonly sets = new Map<string, Set<string>>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly ttls = new Map<string, number>();
+
+  /**
+   * Serves this fake from getRedis until `mock.restore()` is called
+   */
+  install(): this {
+    spyOn(limiter, "getRedis").mockResolvedValue(
+      this as unknown as RedisClient,
+    );
+    return this;
+  }
+
+  private listAt(key: string): string[] {
+    const list = this.lists.get(key) || [];
+    this.lists.set(key, list);
+    return list;
+  }
+
+  private setAt(key: string): Set<string> {
+    const set = this.sets.get(key) || new Set<string>();
+    this.sets.set(key, set);
+    return set;
+  }
+
+  private hashAt(key: string): Map<string, string> {
+    const hash = this.hashes.get(key) || new Map<string, string>();
+    this.hashes.set(key, hash);
+    return hash;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async mGet(keys: string[]): Promise<(string | null)[]> {
+    return keys.map((key) => this.strings.get(key) ?? null);
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options: { NX?: boolean; EX?: number } = {},
+  ): Promise<string | null> {
+    if (options.NX && this.strings.has(key)) {
+      return null;
+    }
+    this.strings.set(key, value);
+    if (options.EX) {
+      this.ttls.set(key, options.EX);
+    } else {
+      this.ttls.delete(key);
+    }
+    return "OK";
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      for (const store of [this.strings, this.lists, this.sets, this.hashes]) {
+        if (store.delete(key)) {
+          deleted++;
+        }
+      }
+      this.ttls.delete(key);
+    }
+    return deleted;
+  }
+
+  async incr(key: string): Promise<number> {
+    const value = Number(this.strings.get(key) || 0) + 1;
+    this.strings.set(key, String(value));
+    return value;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    this.ttls.set(key, seconds);
+    return true;
+  }
+
+  /**
+   * Runs the queue lock's compare-and-delete and compare-and-expire scripts
+   */
+  async eval(
+    script: string,
+    options: { keys: string[]; arguments: string[] },
+  ): Promise<number> {
+    const key = options.keys[0]!;
+    const [token, seconds] = options.arguments;
+    if (this.strings.get(key) !== token) {
+      return 0;
+    }
+    if (script.includes('"del"')) {
+      return this.del(key);
+    }
+    if (script.includes('"expire"')) {
+      this.ttls.set(key, Number(seconds));
+      return 1;
+    }
+    throw new Error(`Unsupported script: ${script}`);
+  }
+
+  async rPush(key: string, value: string): Promise<number> {
+    return this.listAt(key).push(value);
+  }
+
+  async lPush(key: string, value: string): Promise<number> {
+    return this.listAt(key).unshift(value);
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    return range(this.lists.get(key) || [], start, stop);
+  }
+
+  async lRem(key: string, count: number, value: string): Promise<number> {
+    const list = this.listAt(key);
+    let removed = 0;
+    for (let index = 0; index < list.length && removed < count; ) {
+      if (list[index] === value) {
+        list.splice(index, 1);
+        removed++;
+      } else {
+        index++;
+      }
+    }
+    return removed;
+  }
+
+  async lTrim(key: string, start: number, stop: number): Promise<string> {
+    this.lists.set(key, range(this.listAt(key), start, stop));
+    return "OK";
+  }
+
+  async sAdd(key: string, member: string): Promise<number> {
+    const set = this.setAt(key);
+    const added = set.has(member) ? 0 : 1;
+    set.add(member);
+    return added;
+  }
+
+  async sRem(key: string, member: string): Promise<number> {
+    return this.setAt(key).delete(member) ? 1 : 0;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) || [])];
+  }
+
+  async smIsMember(key: string, members: string[]): Promise<boolean[]> {
+    const set = this.sets.get(key) || new Set<string>();
+    return members.map((member) => set.has(member));
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) || []);
+  }
+
+  async hSet(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hashAt(key);
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    return added;
+  }
+
+  async hDel(key: string, field: string): Promise<number> {
+    return this.hashAt(key).delete(field) ? 1 : 0;
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { getProjectSettings, isDisabled } from "../src/config";
+import * as limiter from "../src/limiter";
+import {
+  pipelineTriggerDuration,
+  renderMetrics,
+  triggers,
+  webhooksReceived,
+} from "../src/metrics";
+import { isDuplicate } from "../src/queue";
+
+// Metrics are process-wide, so tests read the change in one sample
+function sample(series: string): number {
+  const line = renderMetrics()
+    .split("\n")
+    .find((item) => item.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : 0;
+}
+
+describe("renderMetrics", () => {
+  it("renders counters with help, type and labels", () => {
+    webhooksReceived.inc({ event: "metrics_test" });
+    webhooksReceived.inc({ event: "metrics_test" }, 2);
+
+    const lines = renderMetrics().split("\n");
+    expect(lines).toContain(
+      "# HELP claude_webhooks_received_total Webhooks received by event type",
+    );
+    expect(lines).toContain("# TYPE claude_webhooks_received_total counter");
+    expect(lines).toContain(
+      'claude_webhooks_received_total{event="metrics_test"} 3',
+    );
+    expect(renderMetrics().endsWith("\n")).toBe(true);
+  });
+
+  it("escapes label values", () => {
+    triggers.inc({ result: 'a "quoted"\\path\nline' });
+
+    expect(renderMetrics()).toContain(
+      'claude_triggers_total{result="a \\"quoted\\"\\\\path\\nline"} 1',
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const labels = { result: "metrics_test" };
+    pipelineTriggerDuration.observe(0.3, labels);
+    pipelineTriggerDuration.observe(4, labels);
+    pipelineTriggerDuration.observe(30, labels);
+
+    const name = "claude_pipeline_trigger_duration_seconds";
+    const lines = renderMetrics().split("\n");
+    expect(lines).toContain(`# TYPE ${name} histogram`);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        `${name}_bucket{result="metrics_test",le="0.25"} 0`,
+        `${name}_bucket{result="metrics_test",le="0.5"} 1`,
+        `${name}_bucket{result="metrics_test",le="5"} 2`,
+        `${name}_bucket{result="metrics_test",le="10"} 2`,
+        `${name}_bucket{result="metrics_test",le="+Inf"} 3`,
+        `${name}_sum{result="metrics_test"} 34.3`,
+        `${name}_count{result="metrics_test"} 3`,
+      ]),
+    );
+  });
+});
+
+describe("Redis error fallbacks", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.CLAUDE_DISABLED;
+    spyOn(limiter, "getRedis").mockRejectedValue(new Error("ECONNREFUSED"));
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    mock.restore();
+  });
+
+  it("counts errors by operation while failing open", async () => {
+    const series = (operation: string) =>
+      `claude_redis_errors_total{operation="${operation}"}`;
+    const before = {
+      dedup: sample(series("dedup")),
+      settings: sample(series("settings")),
+      killSwitch: sample(series("kill_switch")),
+    };
+
+    expect(await isDuplicate("note:42:100")).toBe(false);
+    expect(await isDisabled("acme/widgets")).toBe(false);
+    expect((await getProjectSettings("acme/widgets")).triggerPhrase).toBe(
+      process.env.TRIGGER_PHRASE || "@claude",
+    );
+
+    expect(sample(series("dedup"))).toBe(before.dedup + 1);
+    expect(sample(series("kill_switch"))).toBe(before.killSwitch + 1);
+    expect(sample(series("settings"))).toBe(before.settings + 1);
+  });
+});
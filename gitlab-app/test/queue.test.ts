@@ -0,0 +1,257 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import * as discord from "../src/discord";
+import * as gitlab from "../src/gitlab";
+import {
+  enqueueJob,
+  getJob,
+  listJobs,
+  processQueue,
+  type NewPipelineJob,
+} from "../src/queue";
+import { FakeRedis } from "./fakes/fake-redis";
+
+const LOCK_KEY = "claude:queue:lock";
+
+function newJob(overrides: Partial<NewPipelineJob> = {}): NewPipelineJob {
+  return {
+    event: "note",
+    projectId: 42,
+    projectPath: "acme/widgets",
+    ref: "feature/math",
+    author: "jdoe",
+    resourceType: "merge_request",
+    resourceId: "7",
+    triggerPhrase: "@claude",
+    directPrompt: "fix the tests",
+    variables: { CLAUDE_TRIGGER: "true" },
+    ...overrides,
+  };
+}
+
+describe("processQueue", () => {
+  let redis: FakeRedis;
+  let nextPipelineId: number;
+
+  beforeEach(() => {
+    redis = new FakeRedis().install();
+    nextPipelineId = 1000;
+
+    spyOn(gitlab, "triggerPipeline").mockImplementation(
+      async () => ++nextPipelineId,
+    );
+    spyOn(gitlab, "getPipelineStatus").mockResolvedValue("running");
+    spyOn(discord, "sendPipelineNotification").mockImplementation(() => {});
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("starts queued jobs up to the per-project limit", async () => {
+    const jobs = [
+      await enqueueJob(newJob()),
+      await enqueueJob(newJob()),
+      await enqueueJob(newJob()),
+      await enqueueJob(newJob({ projectId: 43, projectPath: "acme/gadgets" })),
+    ];
+
+    await processQueue();
+
+    const { queued, running } = await listJobs();
+    expect(queued.map((job) => job.id)).toEqual([jobs[2]!.id]);
+    expect(running.map((job) => job.id).sort()).toEqual(
+      [jobs[0]!.id, jobs[1]!.id, jobs[3]!.id].sort(),
+    );
+    expect(await getJob(jobs[0]!.id)).toMatchObject({
+      status: "running",
+      pipelineId: 1001,
+      pipelineStatus: "created",
+      attempts: 1,
+    });
+    expect(discord.sendPipelineNotification).toHaveBeenCalledTimes(3);
+    // The pass releases its lock
+    expect(redis.strings.has(LOCK_KEY)).toBe(false);
+  });
+
+  it("frees the slot of a finished pipeline", async () => {
+    const first = await enqueueJob(newJob());
+    await enqueueJob(newJob());
+    const third = await enqueueJob(newJob());
+    await processQueue();
+
+    spyOn(gitlab, "getPipelineStatus").mockImplementation(
+      async (_projectId, pipelineId) =>
+        pipelineId === 1001 ? "success" : "running",
+    );
+    await processQueue();
+
+    expect(await getJob(first.id)).toMatchObject({
+      status: "finished",
+      pipelineStatus: "success",
+    });
+    expect((await getJob(third.id))?.status).toBe("running");
+    const { finished } = await listJobs();
+    expect(finished.map((job) => job.id)).toEqual([first.id]);
+  });
+
+  it("fails jobs whose pipeline no longer exists", async () => {
+    const job = await enqueueJob(newJob());
+    await processQueue();
+
+    spyOn(gitlab, "getPipelineStatus").mockResolvedValue(null);
+    await processQueue();
+
+    expect(await getJob(job.id)).toMatchObject({
+      status: "failed",
+      error: "Pipeline 1001 no longer exists",
+    });
+    expect((await listJobs()).running).toHaveLength(0);
+  });
+
+  it("fails jobs after repeated status check failures", async () => {
+    const job = await enqueueJob(newJob());
+    await processQueue();
+
+    spyOn(gitlab, "getPipelineStatus").mockRejectedValue(
+      new Error("Bad Gateway"),
+    );
+    for (let i = 0; i < 9; i++) {
+      await processQueue();
+    }
+    expect(await getJob(job.id)).toMatchObject({
+      status: "running",
+      statusCheckFailures: 9,
+    });
+
+    await processQueue();
+    expect(await getJob(job.id)).toMatchObject({
+      status: "failed",
+      error: "Pipeline status check failed 10 times: Bad Gateway",
+    });
+  });
+
+  it("resets the failure count once the status can be checked again", async () => {
+    const job = await enqueueJob(newJob());
+    await processQueue();
+
+    spyOn(gitlab, "getPipelineStatus").mockRejectedValueOnce(
+      new Error("Bad Gateway"),
+    );
+    await processQueue();
+    await processQueue();
+
+    const saved = await getJob(job.id);
+    expect(saved?.status).toBe("running");
+    expect(saved?.statusCheckFailures).toBeUndefined();
+  });
+
+  it("retries failed triggers with backoff, then fails the job", async () => {
+    const now = Date.now();
+    const clock = spyOn(Date, "now").mockReturnValue(now);
+    spyOn(gitlab, "triggerPipeline").mockRejectedValue(
+      new Error("Reference not found"),
+    );
+    const job = await enqueueJob(newJob());
+
+    await processQueue();
+    expect(await getJob(job.id)).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      nextAttemptAt: now + 5000,
+      error: "Reference not found",
+    });
+
+    // Not due yet
+    await processQueue();
+    expect((await getJob(job.id))?.attempts).toBe(1);
+
+    clock.mockReturnValue(now + 5000);
+    await processQueue();
+    expect((await getJob(job.id))?.nextAttemptAt).toBe(now + 15000);
+
+    clock.mockReturnValue(now + 15000);
+    await processQueue();
+    expect(await getJob(job.id)).toMatchObject({
+      status: "failed",
+      attempts: 3,
+    });
+    const { queued, finished } = await listJobs();
+    expect(queued).toHaveLength(0);
+    expect(finished.map((item) => item.id)).toEqual([job.id]);
+  });
+
+  it("doesn't trigger a pipeline again when saving the job fails", async () => {
+    spyOn(gitlab, "triggerPipeline").mockImplementation(async () => {
+      spyOn(redis, "set").mockRejectedValueOnce(new Error("Connection lost"));
+      return ++nextPipelineId;
+    });
+    const job = await enqueueJob(newJob());
+
+    await expect(processQueue()).rejects.toThrow("Connection lost");
+    expect((await getJob(job.id))?.status).toBe("queued");
+
+    await processQueue();
+
+    expect(gitlab.triggerPipeline).toHaveBeenCalledTimes(1);
+    expect(await getJob(job.id)).toMatchObject({
+      status: "running",
+      pipelineId: 1001,
+    });
+    const { queued, running } = await listJobs();
+    expect(queued).toHaveLength(0);
+    expect(running.map((item) => item.id)).toEqual([job.id]);
+  });
+
+  it("moves a started job to the running set after Redis failed", async () => {
+    spyOn(redis, "sAdd").mockRejectedValueOnce(new Error("Connection lost"));
+    const job = await enqueueJob(newJob());
+
+    await expect(processQueue()).rejects.toThrow("Connection lost");
+    expect(await getJob(job.id)).toMatchObject({ pipelineId: 1001 });
+
+    await processQueue();
+
+    expect(gitlab.triggerPipeline).toHaveBeenCalledTimes(1);
+    const { queued, running } = await listJobs();
+    expect(queued).toHaveLength(0);
+    expect(running.map((item) => item.id)).toEqual([job.id]);
+  });
+
+  it("skips the pass while another replica holds the lock", async () => {
+    redis.strings.set(LOCK_KEY, "other-replica");
+    await enqueueJob(newJob());
+
+    await processQueue();
+
+    expect(gitlab.triggerPipeline).not.toHaveBeenCalled();
+    expect(redis.strings.get(LOCK_KEY)).toBe("other-replica");
+  });
+
+  it("stops the pass without releasing a lock it lost", async () => {
+    spyOn(gitlab, "triggerPipeline").mockImplementation(async () => {
+      // Another replica takes over after this pass's lock expired
+      redis.strings.set(LOCK_KEY, "other-replica");
+      return ++nextPipelineId;
+    });
+    const first = await enqueueJob(newJob());
+    const second = await enqueueJob(
+      newJob({ projectId: 43, projectPath: "acme/gadgets" }),
+    );
+
+    await processQueue();
+
+    expect((await getJob(first.id))?.status).toBe("running");
+    expect((await getJob(second.id))?.status).toBe("queued");
+    expect(redis.strings.get(LOCK_KEY)).toBe("other-replica");
+  });
+});
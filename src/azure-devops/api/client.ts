@@ -0,0 +1,63 @@
+/**
+ * Minimal Azure DevOps REST client (API 7.1). The official azure-devops-node-api
+ * package pulls in a large dependency tree, so this wraps fetch.
+ */
+
+import { RestApiError, RestClient } from "../../utils/rest-client";
+
+export const AZURE_DEVOPS_API_VERSION = "7.1";
+
+export class AzureDevOpsApiError extends RestApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "AzureDevOpsApiError";
+  }
+}
+
+export class AzureDevOpsClient extends RestClient {
+  protected readonly apiName = "Azure DevOps";
+
+  constructor(
+    readonly collectionUri: string,
+    private token: string,
+  ) {
+    super(collectionUri);
+  }
+
+  /**
+   * Base URL of the identity service, which Azure DevOps Services hosts on a
+   * separate vssps domain and Azure DevOps Server on the collection itself
+   */
+  get identityUrl(): string {
+    const url = new URL(this.collectionUri);
+    if (url.hostname === "dev.azure.com") {
+      url.hostname = "vssps.dev.azure.com";
+    } else if (url.hostname.endsWith(".visualstudio.com")) {
+      url.hostname = url.hostname.replace(
+        /\.visualstudio\.com$/,
+        ".vssps.visualstudio.com",
+      );
+    }
+    return url.toString().replace(/\/+$/, "");
+  }
+
+  // Personal access tokens and System.AccessToken both work as the password
+  // of basic auth with an empty username
+  protected get authorization(): string {
+    return `Basic ${Buffer.from(`:${this.token}`).toString("base64")}`;
+  }
+
+  protected createError(message: string, status: number): AzureDevOpsApiError {
+    return new AzureDevOpsApiError(message, status);
+  }
+
+  /**
+   * Resolves a path relative to the collection, adding the API version
+   */
+  protected resolveUrl(path: string): string {
+    const url = super.resolveUrl(path);
+    return url.includes("api-version=")
+      ? url
+      : `${url}${url.includes("?") ? "&" : "?"}api-version=${AZURE_DEVOPS_API_VERSION}`;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Azure DevOps Context Parser
+ *
+ * Parses Azure Pipelines predefined variables to create a context object.
+ * Pipelines can't be started by pull request comments, so mentions arrive
+ * through a service hook relay as AZURE_DEVOPS_WEBHOOK_PAYLOAD.
+ */
+
+export interface ParsedAzureDevOpsContext {
+  collectionUri: string; // e.g. https://dev.azure.com/acme, without trailing slash
+  project: string;
+  repository: string; // Repository name, or ID when the name isn't known
+  prId?: string;
+  buildId?: string;
+  buildUrl?: string;
+  requestedFor?: string; // Unique name (email) of the user the build runs for
+}
+
+export function parseAzureDevOpsContext(
+  opts: {
+    collectionUri?: string;
+    project?: string;
+    repository?: string;
+    prId?: string;
+    buildId?: string;
+  } = {},
+): ParsedAzureDevOpsContext {
+  // Use provided options or fall back to environment variables
+  const collectionUri = (
+    opts.collectionUri ??
+    process.env.SYSTEM_COLLECTIONURI ??
+    process.env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI ??
+    ""
+  ).replace(/\/+$/, "");
+  const project = opts.project ?? process.env.SYSTEM_TEAMPROJECT;
+  const repository =
+    opts.repository ??
+    process.env.BUILD_REPOSITORY_NAME ??
+    process.env.BUILD_REPOSITORY_ID;
+  const prId = opts.prId ?? process.env.SYSTEM_PULLREQUEST_PULLREQUESTID;
+  const buildId = opts.buildId ?? process.env.BUILD_BUILDID;
+
+  if (!collectionUri) {
+    throw new Error(
+      "Azure DevOps organization URL is required (SYSTEM_COLLECTIONURI)",
+    );
+  }
+  if (!project) {
+    throw new Error("Azure DevOps project is required (SYSTEM_TEAMPROJECT)");
+  }
+  if (!repository) {
+    throw new Error(
+      "Azure DevOps repository is required (BUILD_REPOSITORY_NAME or BUILD_REPOSITORY_ID)",
+    );
+  }
+
+  return {
+    collectionUri,
+    project,
+    repository,
+    prId,
+    buildId,
+    buildUrl: buildId
+      ? `${collectionUri}/${encodeURIComponent(project)}/_build/results?buildId=${buildId}`
+      : undefined,
+    requestedFor:
+      process.env.BUILD_REQUESTEDFOREMAIL ?? process.env.BUILD_REQUESTEDFOR,
+  };
+}
+
+/**
+ * Azure DevOps service hook payload for trigger detection. Pull request
+ * events carry the pull request as the resource, comment events carry the
+ * comment and the pull request it belongs to.
+ */
+export interface AzureDevOpsWebhookPayload {
+  eventType?: string; // e.g. git.pullrequest.created, ms.vss-code.git-pullrequest-comment-event
+  resource?: {
+    pullRequestId?: number;
+    title?: string;
+    description?: string;
+    createdBy?: { uniqueName?: string; displayName?: string };
+    comment?: {
+      id?: number;
+      content?: string;
+      author?: { uniqueName?: string; displayName?: string };
+    };
+    pullRequest?: {
+      pullRequestId: number;
+      title?: string;
+      description?: string;
+    };
+  };
+}
+
+export function parseAzureDevOpsWebhookPayload(): AzureDevOpsWebhookPayload | null {
+  const payload = process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD;
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch (error) {
+    console.error("Failed to parse Azure DevOps webhook payload:", error);
+    return null;
+  }
+}
+
+/**
+ * The pull request the service hook event is about
+ */
+export function getWebhookPullRequest(
+  payload: AzureDevOpsWebhookPayload | null,
+): { pullRequestId: number; title?: string; description?: string } | undefined {
+  const resource = payload?.resource;
+  if (resource?.pullRequest) {
+    return resource.pullRequest;
+  }
+  return resource?.pullRequestId !== undefined
+    ? {
+        pullRequestId: resource.pullRequestId,
+        title: resource.title,
+        description: resource.description,
+      }
+    : undefined;
+}
+
+/**
+ * The text of the comment that triggered the service hook, if any
+ */
+export function getWebhookCommentText(
+  payload: AzureDevOpsWebhookPayload | null,
+): string | undefined {
+  return payload?.resource?.comment?.content;
+}
+
+/**
+ * The unique name of the user who caused the event
+ */
+export function getWebhookActor(
+  payload: AzureDevOpsWebhookPayload | null,
+): string | undefined {
+  return (
+    payload?.resource?.comment?.author?.uniqueName ??
+    payload?.resource?.createdBy?.uniqueName
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * Azure DevOps Prompt
+ *
+ * Builds Claude's prompt from the data returned by
+ * AzureDevOpsProvider.fetchContextData()
+ */
+
+import type { FileChange, PullRequestInfo } from "../providers/scm-provider";
+
+export type AzureDevOpsRepositoryData = {
+  organizationUrl: string;
+  project: string;
+  repository: string;
+};
+
+export type AzureDevOpsThreadData = {
+  filePath?: string;
+  line?: number;
+  comments: Array<{
+    id: number;
+    author: string;
+    body: string;
+    createdAt: string;
+  }>;
+};
+
+export type AzureDevOpsPullRequestData = AzureDevOpsRepositoryData &
+  PullRequestInfo & {
+    webUrl: string;
+    threads: AzureDevOpsThreadData[];
+    changes: FileChange[];
+  };
+
+export function isPullRequestData(
+  data: AzureDevOpsRepositoryData | AzureDevOpsPullRequestData,
+): data is AzureDevOpsPullRequestData {
+  return "number" in data;
+}
+
+function formatThread(thread: AzureDevOpsThreadData): string {
+  const location = thread.filePath
+    ? `\`${thread.filePath}${thread.line ? `:${thread.line}` : ""}\`\n`
+    : "";
+  return `
+${location}${thread.comments
+    .map(
+      (comment) =>
+        `**${comment.author}** (${comment.createdAt}):\n${comment.body}`,
+    )
+    .join("\n\n")}
+`;
+}
+
+export function generateAzureDevOpsPrompt(
+  data: AzureDevOpsRepositoryData | AzureDevOpsPullRequestData,
+  triggerComment: string,
+  taskPrompt: string,
+): string {
+  const task = `## Your Task
+
+${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}`;
+
+  if (!isPullRequestData(data)) {
+    return `You are Claude, an AI assistant helping with Azure DevOps repositories.
+
+## Repository Context
+
+**Repository:** ${data.project}/${data.repository}
+**Organization:** ${data.organizationUrl}
+
+${task}
+
+${taskPrompt || "Please help with the requested task."}`;
+  }
+
+  const changes =
+    data.changes
+      .map(
+        (change) => `
+### \`${change.path}\` (+${change.additions} -${change.deletions})
+
+\`\`\`diff
+${change.patch ?? ""}
+\`\`\`
+`,
+      )
+      .join("\n") || "No changes available";
+
+  const threads =
+    data.threads.length > 0
+      ? data.threads.map(formatThread).join("\n---\n")
+      : "No existing comments";
+
+  return `You are Claude, an AI assistant helping with Azure DevOps pull requests.
+
+## Pull Request Context
+
+**Title:** ${data.title}
+**Description:** ${data.body || "No description provided"}
+**Source Branch:** ${data.headBranch} → **Target Branch:** ${data.baseBranch}
+**State:** ${data.state}
+**Author:** ${data.author}
+**Web URL:** ${data.webUrl}
+
+## Code Changes
+
+${changes}
+
+## Existing Comment Threads
+
+${threads}
+
+${task}
+
+${taskPrompt || "Please analyze this pull request and provide feedback on code quality, potential issues, and suggestions for improvement."}
+
+When providing feedback, be specific and reference exact line numbers and file paths.`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Azure DevOps Review Mode
+ *
+ * Tool configuration, MCP server setup and prompt for running review mode
+ * against an Azure DevOps pull request
+ */
+
+import * as path from "path";
+import type { AzureDevOpsPullRequestData } from "./prompt";
+
+export const AZURE_DEVOPS_REVIEW_ALLOWED_TOOLS = [
+  "Glob",
+  "Grep",
+  "LS",
+  "Read",
+  "Bash(git diff:*)",
+  "Bash(git log:*)",
+  "Bash(git show:*)",
+  "mcp__azure_devops_review__submit_review",
+];
+
+export const AZURE_DEVOPS_REVIEW_DISALLOWED_TOOLS = [
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "NotebookEdit",
+  "WebSearch",
+  "WebFetch",
+  "Bash(git add:*)",
+  "Bash(git commit:*)",
+  "Bash(git push:*)",
+  "Bash(git rm:*)",
+];
+
+/**
+ * Builds the MCP configuration containing the Azure DevOps review server
+ */
+export function buildAzureDevOpsReviewMcpConfig(params: {
+  token: string;
+  collectionUri: string;
+  project: string;
+  repository: string;
+  prId: string;
+}): string {
+  const config = {
+    mcpServers: {
+      azure_devops_review: {
+        command: "bun",
+        args: [
+          "run",
+          path.join(__dirname, "..", "mcp", "azure-devops-review-server.ts"),
+        ],
+        env: {
+          AZURE_DEVOPS_TOKEN: params.token,
+          SYSTEM_COLLECTIONURI: params.collectionUri,
+          SYSTEM_TEAMPROJECT: params.project,
+          BUILD_REPOSITORY_NAME: params.repository,
+          PR_ID: params.prId,
+        },
+      },
+    },
+  };
+
+  return JSON.stringify(config, null, 2);
+}
+
+export function generateAzureDevOpsReviewPrompt(
+  data: AzureDevOpsPullRequestData,
+  directPrompt?: string,
+): string {
+  const changedFiles =
+    data.changes.map((change) => `- ${change.path}`).join("\n") ||
+    "No changes available";
+
+  return `You are Claude, an AI assistant performing an automated code review of an Azure DevOps pull request.
+
+## Pull Request Context
+
+**Title:** ${data.title}
+**Description:** ${data.body || "No description provided"}
+**Source Branch:** ${data.headBranch} → **Target Branch:** ${data.baseBranch}
+**Author:** ${data.author}
+**Web URL:** ${data.webUrl}
+
+## Changed Files
+
+${changedFiles}
+
+## Your Task
+
+Review the changes in this pull request. You are in read-only mode: do NOT modify files, create commits or post other comments.
+
+${directPrompt ? `Additional instructions from the user: ${directPrompt}\n` : ""}
+1. Use Bash(git diff origin/${data.baseBranch}...HEAD) to inspect the changes, and the Read, Grep and Glob tools for surrounding code.
+2. Look for bugs, security issues, performance problems and missing tests. Always follow the repository's CLAUDE.md file(s) if present.
+3. Call mcp__azure_devops_review__submit_review exactly ONCE at the end with:
+   - "body": a concise summary of the pull request, the most important findings and your verdict
+   - "event": "REQUEST_CHANGES" when you found blocking issues, otherwise "COMMENT"
+   - "comments": inline comments, each with "path", "line" (a line in the diff; use "side": "LEFT" for deleted lines) and "body". Put concrete fixes in a \`\`\`suggestion block.
+
+If you found nothing worth commenting on, still submit a review with an empty "comments" array and a short summary.`;
+}
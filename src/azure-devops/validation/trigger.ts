@@ -0,0 +1,92 @@
+/**
+ * Azure DevOps Trigger Validation
+ *
+ * Checks if Azure DevOps service hook events contain the trigger phrase
+ */
+
+import {
+  getWebhookCommentText,
+  getWebhookPullRequest,
+  type AzureDevOpsWebhookPayload,
+} from "../context";
+import { escapeRegExp } from "../../gitlab/validation/trigger";
+import { parseSlashCommand } from "../../commands/router";
+import type { ParsedSlashCommand } from "../../commands/types";
+
+export interface AzureDevOpsTriggerContext {
+  payload: AzureDevOpsWebhookPayload | null;
+  triggerPhrase: string;
+  directPrompt?: string;
+}
+
+/**
+ * The texts that may contain the trigger phrase: the comment for comment
+ * events, otherwise the pull request description and title
+ */
+function getTriggerTexts(payload: AzureDevOpsWebhookPayload | null): string[] {
+  const comment = getWebhookCommentText(payload);
+  if (comment !== undefined) {
+    return [comment];
+  }
+  const pr = getWebhookPullRequest(payload);
+  return pr ? [pr.description || "", pr.title || ""] : [];
+}
+
+export function checkContainsTrigger(
+  context: AzureDevOpsTriggerContext,
+): boolean {
+  const { payload, triggerPhrase, directPrompt } = context;
+
+  // If direct prompt is provided, always trigger
+  if (directPrompt) {
+    console.log("Direct prompt provided, triggering action");
+    return true;
+  }
+
+  if (!payload || typeof payload !== "object") {
+    console.log("Invalid or missing payload");
+    return false;
+  }
+
+  const regex = new RegExp(
+    `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
+    "i",
+  );
+
+  for (const text of getTriggerTexts(payload)) {
+    if (regex.test(text)) {
+      console.log(
+        `Azure DevOps event contains trigger phrase '${triggerPhrase}'`,
+      );
+      return true;
+    }
+  }
+
+  console.log(
+    `No trigger phrase '${triggerPhrase}' found in Azure DevOps event`,
+  );
+  return false;
+}
+
+/**
+ * Parses a slash command (e.g. `@claude /review`) from the comment or pull
+ * request that contains the trigger phrase
+ */
+export function parseTriggerCommand(
+  payload: AzureDevOpsWebhookPayload | null,
+  triggerPhrase: string,
+): ParsedSlashCommand | null {
+  for (const text of getTriggerTexts(payload)) {
+    const command = parseSlashCommand(text, triggerPhrase);
+    if (command) {
+      return command;
+    }
+  }
+  return null;
+}
+
+export async function checkAzureDevOpsTriggerAction(
+  context: AzureDevOpsTriggerContext,
+): Promise<boolean> {
+  return checkContainsTrigger(context);
+}
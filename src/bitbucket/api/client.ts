@@ -0,0 +1,73 @@
+/**
+ * Minimal Bitbucket REST client for Cloud (API 2.0) and Data Center
+ * (REST API 1.0). Bitbucket has no official JS SDK, so this wraps fetch.
+ */
+
+import { isBitbucketCloud } from "../context";
+import { RestApiError, RestClient } from "../../utils/rest-client";
+import type {
+  BitbucketCloudPage,
+  BitbucketDataCenterPage,
+} from "../../types/bitbucket";
+
+export const BITBUCKET_CLOUD_API_URL = "https://api.bitbucket.org/2.0";
+
+export class BitbucketApiError extends RestApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "BitbucketApiError";
+  }
+}
+
+export class BitbucketClient extends RestClient {
+  protected readonly apiName = "Bitbucket";
+
+  constructor(
+    readonly host: string,
+    private token: string,
+  ) {
+    super(
+      isBitbucketCloud(host) ? BITBUCKET_CLOUD_API_URL : `${host}/rest/api/1.0`,
+    );
+  }
+
+  protected get authorization(): string {
+    // App passwords are given as username:app_password and use basic auth,
+    // access tokens are bearer tokens on both Cloud and Data Center
+    return this.token.includes(":")
+      ? `Basic ${Buffer.from(this.token).toString("base64")}`
+      : `Bearer ${this.token}`;
+  }
+
+  protected createError(message: string, status: number): BitbucketApiError {
+    return new BitbucketApiError(message, status);
+  }
+
+  /**
+   * Fetches every page of a paginated collection, following Cloud's `next`
+   * links or Data Center's `nextPageStart`
+   */
+  async getAll<T>(path: string): Promise<T[]> {
+    const values: T[] = [];
+    let url: string | undefined = path;
+
+    while (url) {
+      const page: BitbucketCloudPage<T> & Partial<BitbucketDataCenterPage<T>> =
+        await this.get(url);
+      values.push(...page.values);
+
+      if (page.next) {
+        url = page.next;
+      } else if (
+        page.isLastPage === false &&
+        page.nextPageStart !== undefined
+      ) {
+        url = `${path}${path.includes("?") ? "&" : "?"}start=${page.nextPageStart}`;
+      } else {
+        url = undefined;
+      }
+    }
+
+    return values;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Bitbucket Context Parser
+ *
+ * Parses Bitbucket Pipelines environment variables to create a context object.
+ * Data Center has no Pipelines, so its CI jobs set the same variables along
+ * with BITBUCKET_HOST.
+ */
+
+export const BITBUCKET_CLOUD_HOST = "https://bitbucket.org";
+
+export interface ParsedBitbucketContext {
+  workspace: string; // Workspace on Cloud, project key on Data Center
+  repoSlug: string;
+  prId?: string;
+  host: string;
+  isCloud: boolean;
+  buildUrl?: string;
+  buildNumber?: string;
+  commitSha: string;
+  branch: string;
+  destinationBranch?: string;
+  triggererUuid?: string;
+}
+
+/**
+ * Whether the host is Bitbucket Cloud rather than a Data Center instance
+ */
+export function isBitbucketCloud(host: string): boolean {
+  try {
+    const hostname = new URL(host).hostname;
+    return hostname === "bitbucket.org" || hostname.endsWith(".bitbucket.org");
+  } catch {
+    return false;
+  }
+}
+
+export function parseBitbucketContext(
+  opts: {
+    workspace?: string;
+    repoSlug?: string;
+    prId?: string;
+    host?: string;
+    buildUrl?: string;
+  } = {},
+): ParsedBitbucketContext {
+  // Use provided options or fall back to environment variables
+  const workspace =
+    opts.workspace ??
+    process.env.BITBUCKET_WORKSPACE ??
+    process.env.BITBUCKET_PROJECT_KEY;
+  const repoSlug = opts.repoSlug ?? process.env.BITBUCKET_REPO_SLUG;
+  const prId = opts.prId ?? process.env.BITBUCKET_PR_ID;
+  const host = (
+    opts.host ??
+    process.env.BITBUCKET_HOST ??
+    BITBUCKET_CLOUD_HOST
+  ).replace(/\/+$/, "");
+  const isCloud = isBitbucketCloud(host);
+
+  // Additional context from Bitbucket Pipelines variables
+  const buildNumber = process.env.BITBUCKET_BUILD_NUMBER;
+  const commitSha = process.env.BITBUCKET_COMMIT ?? "";
+  const branch = process.env.BITBUCKET_BRANCH ?? "";
+  const destinationBranch = process.env.BITBUCKET_PR_DESTINATION_BRANCH;
+  const triggererUuid = process.env.BITBUCKET_STEP_TRIGGERER_UUID;
+
+  if (!workspace) {
+    throw new Error(
+      "Bitbucket workspace is required (BITBUCKET_WORKSPACE or BITBUCKET_PROJECT_KEY)",
+    );
+  }
+  if (!repoSlug) {
+    throw new Error(
+      "Bitbucket repository slug is required (BITBUCKET_REPO_SLUG)",
+    );
+  }
+
+  // Pipelines doesn't expose the build URL, but it follows a fixed pattern
+  const buildUrl =
+    opts.buildUrl ??
+    process.env.BITBUCKET_BUILD_URL ??
+    (isCloud && buildNumber
+      ? `${host}/${workspace}/${repoSlug}/pipelines/results/${buildNumber}`
+      : undefined);
+
+  return {
+    workspace,
+    repoSlug,
+    prId,
+    host,
+    isCloud,
+    buildUrl,
+    buildNumber,
+    commitSha,
+    branch,
+    destinationBranch,
+    triggererUuid,
+  };
+}
+
+/**
+ * Bitbucket webhook payload for trigger detection. Cloud and Data Center
+ * send differently shaped events, so both variants are listed.
+ */
+export interface BitbucketWebhookPayload {
+  eventKey?: string; // Data Center only, Cloud sends it as a header
+  actor?: {
+    uuid?: string;
+    nickname?: string; // Cloud
+    display_name?: string; // Cloud
+    name?: string; // Data Center
+    slug?: string; // Data Center
+  };
+  pullrequest?: {
+    id: number;
+    title?: string;
+    description?: string;
+    state?: string;
+  };
+  pullRequest?: {
+    id: number;
+    title?: string;
+    description?: string;
+    state?: string;
+  };
+  comment?: {
+    id?: number;
+    content?: { raw?: string }; // Cloud
+    text?: string; // Data Center
+  };
+  repository?: {
+    full_name?: string;
+    slug?: string;
+  };
+}
+
+export function parseBitbucketWebhookPayload(): BitbucketWebhookPayload | null {
+  const payload = process.env.BITBUCKET_WEBHOOK_PAYLOAD;
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch (error) {
+    console.error("Failed to parse Bitbucket webhook payload:", error);
+    return null;
+  }
+}
+
+/**
+ * The pull request the webhook event is about, on either Cloud or Data Center
+ */
+export function getWebhookPullRequest(
+  payload: BitbucketWebhookPayload | null,
+): BitbucketWebhookPayload["pullrequest"] | undefined {
+  return payload?.pullrequest ?? payload?.pullRequest;
+}
+
+/**
+ * The text of the comment that triggered the webhook, if any
+ */
+export function getWebhookCommentText(
+  payload: BitbucketWebhookPayload | null,
+): string | undefined {
+  return payload?.comment?.content?.raw ?? payload?.comment?.text;
+}
+
+/**
+ * The username of the webhook actor (nickname on Cloud, slug on Data Center)
+ */
+export function getWebhookActor(
+  payload: BitbucketWebhookPayload | null,
+): string | undefined {
+  return (
+    payload?.actor?.nickname ?? payload?.actor?.slug ?? payload?.actor?.name
+  );
+}
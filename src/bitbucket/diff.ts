@@ -0,0 +1,53 @@
+/**
+ * Bitbucket Diff Parsing
+ *
+ * Data Center doesn't report line counts for changed files, so both flavors
+ * derive the changed files from the pull request's unified diff
+ */
+
+import type { FileChange } from "../providers/scm-provider";
+
+function getFilePath(lines: string[]): string {
+  const newPath = lines.find((line) => line.startsWith("+++ "));
+  if (newPath && !newPath.endsWith("/dev/null")) {
+    return newPath.slice(4).replace(/^b\//, "").trim();
+  }
+  const oldPath = lines.find((line) => line.startsWith("--- "));
+  if (oldPath && !oldPath.endsWith("/dev/null")) {
+    return oldPath.slice(4).replace(/^a\//, "").trim();
+  }
+  // Binary files and pure renames have no ---/+++ lines
+  const header = lines[0]?.match(/^diff --git a\/.+ b\/(.+)$/);
+  return header?.[1] ?? "";
+}
+
+export function parseDiffFiles(diff: string): FileChange[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((chunk) => chunk.startsWith("diff --git "))
+    .map((chunk) => {
+      const lines = chunk.replace(/\n$/, "").split("\n");
+      let additions = 0;
+      let deletions = 0;
+      let inDiffBody = false;
+
+      for (const line of lines) {
+        if (line.startsWith("@@")) {
+          inDiffBody = true;
+          continue;
+        }
+        if (inDiffBody) {
+          if (line.startsWith("+")) additions++;
+          if (line.startsWith("-")) deletions++;
+        }
+      }
+
+      return {
+        path: getFilePath(lines),
+        additions,
+        deletions,
+        changes: additions + deletions,
+        patch: lines.join("\n"),
+      };
+    });
+}
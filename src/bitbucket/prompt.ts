@@ -0,0 +1,104 @@
+/**
+ * Bitbucket Prompt
+ *
+ * Builds Claude's prompt from the data returned by
+ * BitbucketProvider.fetchContextData()
+ */
+
+import type {
+  CommentInfo,
+  FileChange,
+  PullRequestInfo,
+} from "../providers/scm-provider";
+
+export type BitbucketRepositoryData = {
+  workspace: string;
+  repoSlug: string;
+  host: string;
+};
+
+export type BitbucketPullRequestData = BitbucketRepositoryData &
+  PullRequestInfo & {
+    webUrl: string;
+    comments: CommentInfo[];
+    changes: FileChange[];
+  };
+
+function isPullRequestData(
+  data: BitbucketRepositoryData | BitbucketPullRequestData,
+): data is BitbucketPullRequestData {
+  return "number" in data;
+}
+
+export function generateBitbucketPrompt(
+  data: BitbucketRepositoryData | BitbucketPullRequestData,
+  triggerComment: string,
+  taskPrompt: string,
+): string {
+  const task = `## Your Task
+
+${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}`;
+
+  if (!isPullRequestData(data)) {
+    return `You are Claude, an AI assistant helping with Bitbucket repositories.
+
+## Repository Context
+
+**Repository:** ${data.workspace}/${data.repoSlug}
+**Host:** ${data.host}
+
+${task}
+
+${taskPrompt || "Please help with the requested task."}`;
+  }
+
+  const changes =
+    data.changes
+      .map(
+        (change) => `
+### \`${change.path}\` (+${change.additions} -${change.deletions})
+
+\`\`\`diff
+${change.patch ?? ""}
+\`\`\`
+`,
+      )
+      .join("\n") || "No changes available";
+
+  const comments =
+    data.comments.length > 0
+      ? data.comments
+          .map(
+            (comment) => `
+**${comment.author}** (${comment.createdAt}):
+${comment.body}
+`,
+          )
+          .join("\n---\n")
+      : "No existing comments";
+
+  return `You are Claude, an AI assistant helping with Bitbucket pull requests.
+
+## Pull Request Context
+
+**Title:** ${data.title}
+**Description:** ${data.body || "No description provided"}
+**Source Branch:** ${data.headBranch} → **Destination Branch:** ${data.baseBranch}
+**State:** ${data.state}
+**Author:** @${data.author}
+**Web URL:** ${data.webUrl}
+
+## Code Changes
+
+${changes}
+
+## Existing Comments
+
+${comments}
+
+${task}
+
+${taskPrompt || "Please analyze this pull request and provide feedback on code quality, potential issues, and suggestions for improvement."}
+
+When providing feedback, be specific and reference exact line numbers and file paths.`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Bitbucket Trigger Validation
+ *
+ * Checks if Bitbucket events contain the trigger phrase
+ */
+
+import {
+  getWebhookCommentText,
+  getWebhookPullRequest,
+  type BitbucketWebhookPayload,
+} from "../context";
+import { escapeRegExp } from "../../gitlab/validation/trigger";
+import { parseSlashCommand } from "../../commands/router";
+import type { ParsedSlashCommand } from "../../commands/types";
+
+export interface BitbucketTriggerContext {
+  payload: BitbucketWebhookPayload | null;
+  triggerPhrase: string;
+  directPrompt?: string;
+}
+
+/**
+ * The texts that may contain the trigger phrase: the comment for comment
+ * events, otherwise the pull request description and title
+ */
+function getTriggerTexts(payload: BitbucketWebhookPayload | null): string[] {
+  const comment = getWebhookCommentText(payload);
+  if (comment !== undefined) {
+    return [comment];
+  }
+  const pr = getWebhookPullRequest(payload);
+  return pr ? [pr.description || "", pr.title || ""] : [];
+}
+
+export function checkContainsTrigger(
+  context: BitbucketTriggerContext,
+): boolean {
+  const { payload, triggerPhrase, directPrompt } = context;
+
+  // If direct prompt is provided, always trigger
+  if (directPrompt) {
+    console.log("Direct prompt provided, triggering action");
+    return true;
+  }
+
+  if (!payload || typeof payload !== "object") {
+    console.log("Invalid or missing payload");
+    return false;
+  }
+
+  const regex = new RegExp(
+    `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
+    "i",
+  );
+
+  for (const text of getTriggerTexts(payload)) {
+    if (regex.test(text)) {
+      console.log(`Bitbucket event contains trigger phrase '${triggerPhrase}'`);
+      return true;
+    }
+  }
+
+  console.log(`No trigger phrase '${triggerPhrase}' found in Bitbucket event`);
+  return false;
+}
+
+/**
+ * Parses a slash command (e.g. `@claude /review`) from the comment or pull
+ * request that contains the trigger phrase
+ */
+export function parseTriggerCommand(
+  payload: BitbucketWebhookPayload | null,
+  triggerPhrase: string,
+): ParsedSlashCommand | null {
+  for (const text of getTriggerTexts(payload)) {
+    const command = parseSlashCommand(text, triggerPhrase);
+    if (command) {
+      return command;
+    }
+  }
+  return null;
+}
+
+export async function checkBitbucketTriggerAction(
+  context: BitbucketTriggerContext,
+): Promise<boolean> {
+  return checkContainsTrigger(context);
+}
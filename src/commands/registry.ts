@@ -0,0 +1,129 @@
+/**
+ * Slash Command Registry
+ *
+ * Commands that can follow the trigger phrase in a comment, e.g.
+ * `@claude /review`. Each command selects a mode, a task prompt and extra
+ * tools. The same commands are available on GitHub and GitLab.
+ */
+
+import type { SlashCommand } from "./types";
+
+const READ_ONLY_DISALLOWED_TOOLS = [
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "NotebookEdit",
+  "Bash(git add:*)",
+  "Bash(git commit:*)",
+  "Bash(git push:*)",
+  "Bash(git rm:*)",
+  "mcp__github_file_ops__commit_files",
+  "mcp__github_file_ops__delete_files",
+];
+
+export const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    name: "review",
+    description: "Review the changes and submit a review with inline comments",
+    usage: "/review [focus]",
+    mode: "review",
+    prompt: "$ARGS",
+    requiresPullRequest: true,
+  },
+  {
+    name: "fix-ci",
+    description: "Investigate the failing CI checks and push a fix",
+    usage: "/fix-ci [details]",
+    mode: "tag",
+    prompt: `Find out why CI is failing on this branch and fix it. Use the CI tools if they are available; otherwise reproduce the failure by running the project's build and tests. Commit and push the fix, and explain the root cause in your reply.
+$ARGS`,
+    requiresPullRequest: true,
+  },
+  {
+    name: "explain",
+    description: "Explain a file or the changes, without modifying anything",
+    usage: "/explain [path]",
+    mode: "tag",
+    prompt: `Explain the following to the user: $ARGS
+If nothing is specified above, explain the changes under discussion. Read the relevant code and answer in your reply. Do not modify any files.`,
+    disallowedTools: READ_ONLY_DISALLOWED_TOOLS,
+  },
+  {
+    name: "rebase",
+    description:
+      "Rebase the branch onto its target branch and resolve conflicts",
+    usage: "/rebase",
+    mode: "tag",
+    prompt: `Rebase the current branch onto the latest version of its base branch. Fetch the base branch, run git rebase, resolve any conflicts while preserving the intent of both sides, and push the result with git push --force-with-lease. If a conflict cannot be resolved safely, abort the rebase and explain why in your reply.
+$ARGS`,
+    allowedTools: [
+      "Bash(git fetch:*)",
+      "Bash(git rebase:*)",
+      "Bash(git push --force-with-lease:*)",
+    ],
+    requiresPullRequest: true,
+  },
+  {
+    name: "help",
+    description: "List the available commands",
+    usage: "/help",
+  },
+];
+
+/**
+ * Commands registered in addition to the built-in ones, keyed by name.
+ */
+const customCommands = new Map<string, SlashCommand>();
+
+/**
+ * Registers an additional slash command.
+ * @param command The command to register
+ * @throws Error if a command with the same name already exists
+ */
+export function registerCommand(command: SlashCommand): void {
+  if (getCommand(command.name)) {
+    throw new Error(`Slash command '/${command.name}' is already registered.`);
+  }
+  customCommands.set(command.name, command);
+}
+
+/**
+ * Removes all registered custom commands.
+ */
+export function clearCustomCommands(): void {
+  customCommands.clear();
+}
+
+/**
+ * Retrieves a command by name.
+ * @param name The command name, without the leading slash
+ * @returns The command, or undefined if there is none with that name
+ */
+export function getCommand(name: string): SlashCommand | undefined {
+  return (
+    BUILT_IN_COMMANDS.find((command) => command.name === name) ??
+    customCommands.get(name)
+  );
+}
+
+/**
+ * Returns all registered commands, built-in ones first.
+ */
+export function getCommands(): SlashCommand[] {
+  return [...BUILT_IN_COMMANDS, ...customCommands.values()];
+}
+
+/**
+ * Formats the reply to `/help`: the list of registered commands.
+ */
+export function formatHelp(triggerPhrase: string): string {
+  const lines = getCommands().map(
+    (command) =>
+      `- \`${triggerPhrase} ${command.usage ?? `/${command.name}`}\`: ${command.description}`,
+  );
+  return `**Available commands**
+
+${lines.join("\n")}
+
+Mention ${triggerPhrase} without a command to ask for anything else.`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Slash Command Router
+ *
+ * Parses `<trigger phrase> /<command> [args]` out of a trigger comment and
+ * decides what to do with it. Platform-specific trigger validation extracts
+ * the text; this module is shared between GitHub and GitLab.
+ */
+
+import { formatHelp, getCommand } from "./registry";
+import type { CommandRoute, ParsedSlashCommand } from "./types";
+
+function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parses the first slash command that directly follows the trigger phrase.
+ * Arguments run until the end of the line.
+ * @returns The command, or null if the trigger phrase is not followed by one
+ */
+export function parseSlashCommand(
+  text: string,
+  triggerPhrase: string,
+): ParsedSlashCommand | null {
+  const regex = new RegExp(
+    `(^|\\s)${escapeRegExp(triggerPhrase)}[ \\t]+\\/([a-z][a-z0-9-]*)(?=\\s|$)([^\\n]*)`,
+    "i",
+  );
+  const match = text.match(regex);
+  if (!match) {
+    return null;
+  }
+
+  const rawArgs = match[3]!.trim();
+  return {
+    name: match[2]!.toLowerCase(),
+    args: rawArgs ? rawArgs.split(/\s+/) : [],
+    rawArgs,
+  };
+}
+
+/**
+ * Resolves a parsed slash command to either a Claude run (mode, task prompt
+ * and tools) or a direct reply.
+ * @returns The route, or null for unknown commands so that the comment is
+ * handled like a regular mention
+ */
+export function routeCommand(
+  parsed: ParsedSlashCommand,
+  options: {
+    triggerPhrase: string;
+    isPR: boolean;
+    /**
+     * Modes the platform can run; commands in other modes are answered
+     * with a reply. All modes are supported when omitted.
+     */
+    supportedModes?: string[];
+  },
+): CommandRoute | null {
+  const command = getCommand(parsed.name);
+  if (!command) {
+    console.log(`Unknown command '/${parsed.name}', treating as a mention`);
+    return null;
+  }
+
+  if (!command.mode) {
+    return {
+      type: "reply",
+      command,
+      body: formatHelp(options.triggerPhrase),
+    };
+  }
+
+  if (command.requiresPullRequest && !options.isPR) {
+    return {
+      type: "reply",
+      command,
+      body: `\`/${command.name}\` can only be used on pull requests and merge requests.`,
+    };
+  }
+
+  if (
+    options.supportedModes &&
+    !options.supportedModes.includes(command.mode)
+  ) {
+    return {
+      type: "reply",
+      command,
+      body: `\`/${command.name}\` is not supported on this platform.`,
+    };
+  }
+
+  const prompt = command.prompt?.replace(/\$ARGS/g, parsed.rawArgs).trim();
+  return {
+    type: "run",
+    command,
+    mode: command.mode,
+    prompt: prompt || undefined,
+    allowedTools: command.allowedTools ?? [],
+    disallowedTools: command.disallowedTools ?? [],
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * A slash command that can follow the trigger phrase, e.g. `@claude /review`
+ */
+export type SlashCommand = {
+  name: string;
+  description: string;
+
+  /**
+   * Usage shown in the help reply, e.g. `/explain <path>`
+   */
+  usage?: string;
+
+  /**
+   * Mode the command runs in. Commands without a mode (e.g. /help) are
+   * answered directly without running Claude.
+   */
+  mode?: string;
+
+  /**
+   * Task given to Claude in place of the direct prompt.
+   * `$ARGS` is replaced with the text following the command.
+   */
+  prompt?: string;
+
+  /**
+   * Tools added to the allowed tools for this command
+   */
+  allowedTools?: string[];
+
+  /**
+   * Tools added to the disallowed tools for this command
+   */
+  disallowedTools?: string[];
+
+  /**
+   * Whether the command only makes sense on a pull/merge request
+   */
+  requiresPullRequest?: boolean;
+};
+
+/**
+ * A slash command as written in a trigger comment
+ */
+export type ParsedSlashCommand = {
+  name: string;
+  args: string[];
+  rawArgs: string;
+};
+
+/**
+ * What to do in response to a slash command
+ */
+export type CommandRoute =
+  | {
+      type: "run";
+      command: SlashCommand;
+      mode: string;
+      prompt?: string;
+      allowedTools: string[];
+      disallowedTools: string[];
+    }
+  | {
+      type: "reply";
+      command: SlashCommand;
+      body: string;
+    };
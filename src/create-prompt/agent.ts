@@ -0,0 +1,103 @@
+import type { FetchDataResult } from "../github/data/fetcher";
+import { formatContext, formatBody } from "../github/data/formatter";
+import { sanitizeContent } from "../github/utils/sanitizer";
+import type { PreparedContext } from "./types";
+
+/**
+ * Generates the prompt used by agent mode. The task comes entirely from
+ * direct_prompt; there is no trigger comment and no tracking comment to update.
+ */
+export function generateAgentPrompt(
+  context: PreparedContext,
+  githubData: FetchDataResult | undefined,
+  useCommitSigning: boolean,
+): string {
+  const { eventData } = context;
+
+  if (
+    eventData.eventName !== "automation" &&
+    eventData.eventName !== "workflow_dispatch" &&
+    eventData.eventName !== "repository_dispatch" &&
+    eventData.eventName !== "schedule"
+  ) {
+    throw new Error(
+      `Agent mode does not support ${eventData.eventName} event contexts`,
+    );
+  }
+
+  const triggerEvent =
+    eventData.eventName === "automation"
+      ? eventData.triggerEvent
+      : eventData.eventName;
+  const prNumber = "prNumber" in eventData ? eventData.prNumber : undefined;
+  const issueNumber =
+    "issueNumber" in eventData ? eventData.issueNumber : undefined;
+
+  let dispatchData = "";
+  if (eventData.eventName === "workflow_dispatch") {
+    dispatchData = `<workflow_inputs>
+${JSON.stringify(eventData.inputs, null, 2)}
+</workflow_inputs>
+`;
+  } else if (eventData.eventName === "repository_dispatch") {
+    dispatchData = `<dispatch_event_type>${eventData.eventAction}</dispatch_event_type>
+<client_payload>
+${JSON.stringify(eventData.clientPayload, null, 2)}
+</client_payload>
+`;
+  }
+
+  const entityContext = githubData
+    ? `
+<formatted_context>
+${formatContext(githubData.contextData, eventData.isPR)}
+</formatted_context>
+
+<${eventData.isPR ? "pr" : "issue"}_body>
+${githubData.contextData?.body ? formatBody(githubData.contextData.body, githubData.imageUrlMap) : "No description provided"}
+</${eventData.isPR ? "pr" : "issue"}_body>
+`
+    : "";
+
+  const branchName = eventData.claudeBranch || eventData.baseBranch;
+  const commitInstructions = useCommitSigning
+    ? `- Commit changes with mcp__github_file_ops__commit_files (works for both new and existing files) and delete files with mcp__github_file_ops__delete_files.`
+    : `- Use git commands via the Bash tool to commit and push your changes:
+  - Stage files: Bash(git add <files>)
+  - Commit with a descriptive message: Bash(git commit -m "<message>")
+  - Push to the remote: Bash(git push origin ${branchName ?? "HEAD"})`;
+
+  let promptContent = `You are Claude, an AI assistant running as an automated agent in a GitHub Actions workflow. There is no user conversation: complete the task below on your own and finish with a short summary of what you did.
+
+<repository>${context.repository}</repository>
+<event_type>${triggerEvent}</event_type>
+${prNumber ? `<pr_number>${prNumber}</pr_number>\n` : ""}${issueNumber ? `<issue_number>${issueNumber}</issue_number>\n` : ""}${branchName ? `<claude_branch>${branchName}</claude_branch>\n` : ""}${eventData.baseBranch ? `<base_branch>${eventData.baseBranch}</base_branch>\n` : ""}${dispatchData}${entityContext}
+<task>
+${sanitizeContent(context.directPrompt ?? "")}
+</task>
+
+Follow these steps:
+
+1. Understand the task and gather context from the repository using the Read, Grep, Glob and LS tools.
+   - IMPORTANT: Always check for and follow the repository's CLAUDE.md file(s), as they contain repo-specific guidelines.
+
+2. Complete the task:
+   - You are already on the correct branch${branchName ? ` (${branchName})` : ""}. Do not create a new branch.
+   - Only make changes that the task asks for.
+   ${commitInstructions}
+
+3. Final summary:
+   - End your run with a concise summary of the outcome and any changes you made. This summary is exposed to later workflow steps as the action's result output.
+
+What You CANNOT Do:
+- Approve pull requests or merge branches
+- Push to branches other than the one you are on
+- Modify files in the .github/workflows directory
+`;
+
+  if (context.customInstructions) {
+    promptContent += `\n\nCUSTOM INSTRUCTIONS:\n${context.customInstructions}`;
+  }
+
+  return promptContent;
+}
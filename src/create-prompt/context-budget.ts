@@ -0,0 +1,374 @@
+import type { GitHubComment, GitHubReview } from "../github/types";
+import type { GitHubFileWithSHA } from "../github/data/fetcher";
+import {
+  formatComments,
+  formatReviewComments,
+  formatChangedFilesWithSHA,
+} from "../github/data/formatter";
+
+/**
+ * Default token budget for the comments, review comments and changed files
+ * sections of the prompt. Everything else in the prompt is small and fixed.
+ */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 50_000;
+
+/**
+ * Share of the budget each section gets when they do not all fit.
+ * Budget a section does not need is handed to the others.
+ */
+const SECTION_WEIGHTS = {
+  comments: 0.4,
+  reviewComments: 0.3,
+  changedFiles: 0.3,
+} as const;
+
+type SectionName = keyof typeof SECTION_WEIGHTS;
+
+const SUMMARY_LENGTH = 200;
+
+export type BudgetedContext = {
+  comments: string;
+  reviewComments: string;
+  changedFiles: string;
+  /**
+   * Notice describing what was shortened or left out, empty if nothing was
+   */
+  omittedContext: string;
+};
+
+type BudgetedContextParams = {
+  comments: GitHubComment[];
+  reviewData: { nodes: GitHubReview[] } | null;
+  changedFiles: GitHubFileWithSHA[];
+  imageUrlMap?: Map<string, string>;
+  isPR: boolean;
+  /**
+   * Database ID of the comment that triggered the run, which is always kept
+   */
+  triggerCommentId?: string;
+  tokenBudget: number;
+};
+
+type Entry = {
+  full: string;
+  summary: string;
+  priority: number;
+};
+
+type FittedSection = {
+  text: string;
+  summarized: number;
+  dropped: number;
+};
+
+/**
+ * Rough token estimate (about four characters per token for English text and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Shortens a formatted entry to a single line
+ */
+function summarize(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  if (line.length <= SUMMARY_LENGTH) {
+    return line;
+  }
+  return `${line.slice(0, SUMMARY_LENGTH)}… [truncated]`;
+}
+
+/**
+ * Keeps entries in their original order, choosing by priority (lower first)
+ * which ones are included in full, which are summarized and which are dropped
+ */
+function fitEntries(
+  entries: Entry[],
+  budget: number,
+  separator: string,
+): FittedSection {
+  const byPriority = entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.priority - b.entry.priority);
+
+  const chosen = new Map<number, string>();
+  let remaining = budget;
+  let summarized = 0;
+
+  for (const { entry, index } of byPriority) {
+    const fullCost = estimateTokens(entry.full + separator);
+    // The highest priority entry is always kept, truncated if needed
+    if (chosen.size === 0 && fullCost > remaining) {
+      const text = `${entry.full.slice(0, remaining * 4)}… [truncated]`;
+      chosen.set(index, text);
+      summarized++;
+      remaining = 0;
+      continue;
+    }
+    if (fullCost <= remaining) {
+      chosen.set(index, entry.full);
+      remaining -= fullCost;
+      continue;
+    }
+    const summaryCost = estimateTokens(entry.summary + separator);
+    if (summaryCost <= remaining) {
+      chosen.set(index, entry.summary);
+      remaining -= summaryCost;
+      summarized++;
+    }
+  }
+
+  return {
+    text: [...chosen.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, text]) => text)
+      .join(separator),
+    summarized,
+    dropped: entries.length - chosen.size,
+  };
+}
+
+function fitComments(
+  comments: GitHubComment[],
+  budget: number,
+  imageUrlMap: Map<string, string> | undefined,
+  triggerCommentId: string | undefined,
+): FittedSection {
+  // The trigger comment comes first, then the most recent discussion
+  const triggerId = triggerCommentId ? Number(triggerCommentId) : undefined;
+  const entries = comments.map((comment, index) => {
+    const full = formatComments([comment], imageUrlMap);
+    return {
+      full,
+      summary: summarize(full),
+      priority: comment.databaseId === triggerId ? -1 : comments.length - index,
+    };
+  });
+  return fitEntries(entries, budget, "\n\n");
+}
+
+function fitReviews(
+  reviews: GitHubReview[],
+  budget: number,
+  imageUrlMap: Map<string, string> | undefined,
+): FittedSection {
+  const entries = reviews.map((review, index) => {
+    const full = formatReviewComments({ nodes: [review] }, imageUrlMap);
+    return {
+      full,
+      summary: summarize(full),
+      priority: reviews.length - index,
+    };
+  });
+  return fitEntries(entries, budget, "\n\n");
+}
+
+/**
+ * Lists the files with the largest changes individually and groups the rest
+ * by directory
+ */
+function fitChangedFiles(
+  files: GitHubFileWithSHA[],
+  budget: number,
+): FittedSection {
+  const bySize = [...files].sort(
+    (a, b) => b.additions + b.deletions - (a.additions + a.deletions),
+  );
+
+  // Reserve room for the directory summary of the files that do not fit
+  let remaining = Math.floor(budget * 0.8);
+  const listed = new Set<GitHubFileWithSHA>();
+  for (const file of bySize) {
+    const cost = estimateTokens(formatChangedFilesWithSHA([file]) + "\n");
+    if (cost > remaining) {
+      break;
+    }
+    listed.add(file);
+    remaining -= cost;
+  }
+
+  const groups = new Map<
+    string,
+    { count: number; additions: number; deletions: number }
+  >();
+  for (const file of files) {
+    if (listed.has(file)) {
+      continue;
+    }
+    const directory = file.path.split("/").slice(0, -1).slice(0, 2).join("/");
+    const group = groups.get(directory) ?? {
+      count: 0,
+      additions: 0,
+      deletions: 0,
+    };
+    group.count++;
+    group.additions += file.additions;
+    group.deletions += file.deletions;
+    groups.set(directory, group);
+  }
+
+  const lines = [formatChangedFilesWithSHA(files.filter((f) => listed.has(f)))];
+  const groupLines = [...groups.entries()]
+    .sort(([, a], [, b]) => b.count - a.count)
+    .map(
+      ([directory, group]) =>
+        `- ${directory || "."}/ (${group.count} more files) +${group.additions}/-${group.deletions}`,
+    );
+  let groupBudget = budget - estimateTokens(lines[0]!);
+  let dropped = 0;
+  for (const line of groupLines) {
+    const cost = estimateTokens(line + "\n");
+    if (cost > groupBudget) {
+      dropped++;
+      continue;
+    }
+    lines.push(line);
+    groupBudget -= cost;
+  }
+  if (dropped > 0) {
+    lines.push(`- … ${dropped} more directories`);
+  }
+
+  return {
+    text: lines.filter(Boolean).join("\n"),
+    summarized: files.length - listed.size,
+    dropped: 0,
+  };
+}
+
+/**
+ * Splits the budget between the sections by weight. Sections that need less
+ * than their share get exactly what they need, and the rest is shared by the
+ * others.
+ */
+function allocateBudget(
+  sizes: Record<SectionName, number>,
+  tokenBudget: number,
+): Record<SectionName, number> {
+  const allocation = { ...sizes };
+  let open = (Object.keys(sizes) as SectionName[]).filter(
+    (name) => sizes[name] > 0,
+  );
+  let remaining = tokenBudget;
+
+  while (open.length > 0) {
+    const totalWeight = open.reduce(
+      (sum, name) => sum + SECTION_WEIGHTS[name],
+      0,
+    );
+    const fitting = open.filter(
+      (name) =>
+        sizes[name] <= (remaining * SECTION_WEIGHTS[name]) / totalWeight,
+    );
+    if (fitting.length === 0) {
+      for (const name of open) {
+        allocation[name] = Math.floor(
+          (remaining * SECTION_WEIGHTS[name]) / totalWeight,
+        );
+      }
+      break;
+    }
+    for (const name of fitting) {
+      remaining -= sizes[name];
+    }
+    open = open.filter((name) => !fitting.includes(name));
+  }
+
+  return allocation;
+}
+
+function describeFit(
+  fitted: FittedSection,
+  noun: string,
+  section: string,
+): string {
+  const parts = [];
+  if (fitted.summarized > 0) {
+    parts.push(
+      `${fitted.summarized} ${noun}${fitted.summarized === 1 ? " was" : "s were"} shortened`,
+    );
+  }
+  if (fitted.dropped > 0) {
+    parts.push(
+      `${fitted.dropped} older ${noun}${fitted.dropped === 1 ? " was" : "s were"} left out`,
+    );
+  }
+  return `${parts.join(" and ")} (${section})`;
+}
+
+/**
+ * Formats the comments, review comments and changed files sections within a
+ * token budget. When they do not fit, the trigger comment and the most recent
+ * discussion are kept in full, older material is summarized or left out, and
+ * changed files are grouped by directory. What was shortened is described in
+ * `omittedContext` so Claude knows to fetch it with its tools.
+ */
+export function buildBudgetedContext({
+  comments,
+  reviewData,
+  changedFiles,
+  imageUrlMap,
+  isPR,
+  triggerCommentId,
+  tokenBudget,
+}: BudgetedContextParams): BudgetedContext {
+  const full = {
+    comments: formatComments(comments, imageUrlMap),
+    reviewComments: isPR ? formatReviewComments(reviewData, imageUrlMap) : "",
+    changedFiles: isPR ? formatChangedFilesWithSHA(changedFiles) : "",
+  };
+  const sizes = {
+    comments: estimateTokens(full.comments),
+    reviewComments: estimateTokens(full.reviewComments),
+    changedFiles: estimateTokens(full.changedFiles),
+  };
+
+  if (
+    sizes.comments + sizes.reviewComments + sizes.changedFiles <=
+    tokenBudget
+  ) {
+    return { ...full, omittedContext: "" };
+  }
+
+  const allocation = allocateBudget(sizes, tokenBudget);
+  const result: BudgetedContext = { ...full, omittedContext: "" };
+  const notes: string[] = [];
+
+  if (sizes.comments > allocation.comments) {
+    const fitted = fitComments(
+      comments,
+      allocation.comments,
+      imageUrlMap,
+      triggerCommentId,
+    );
+    result.comments = fitted.text;
+    notes.push(describeFit(fitted, "comment", "<comments>"));
+  }
+
+  if (sizes.reviewComments > allocation.reviewComments) {
+    const fitted = fitReviews(
+      reviewData?.nodes ?? [],
+      allocation.reviewComments,
+      imageUrlMap,
+    );
+    result.reviewComments = fitted.text;
+    notes.push(describeFit(fitted, "review", "<review_comments>"));
+  }
+
+  if (sizes.changedFiles > allocation.changedFiles) {
+    const fitted = fitChangedFiles(changedFiles, allocation.changedFiles);
+    result.changedFiles = fitted.text;
+    notes.push(
+      `${fitted.summarized} of ${changedFiles.length} changed files are only counted per directory (<changed_files>)`,
+    );
+  }
+
+  result.omittedContext = `<omitted_context>
+This ${isPR ? "pull request" : "issue"} is too large to include in full, so parts of the context above were shortened:
+${notes.map((note) => `- ${note}`).join("\n")}
+Fetch anything you need that is missing: use git diff, git log and the Read tool for changed files, and the GitHub MCP tools (if available) for comments and reviews.
+</omitted_context>`;
+
+  return result;
+}
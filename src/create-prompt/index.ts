@@ -1,7 +1,8 @@
 #!/usr/bin/env bun
 
 import * as core from "@actions/core";
-import { writeFile } from "fs/promises";
+import { readFile, writeFile } from "fs/promises";
+import * as path from "path";
 import { getClaudePromptsDirectory } from "../utils/temp-directory";
 import type { FetchDataResult } from "../github/data/fetcher";
 import {
@@ -17,11 +18,30 @@ import {
   isIssueCommentEvent,
   isPullRequestReviewEvent,
   isPullRequestReviewCommentEvent,
+  isWorkflowDispatchEvent,
+  isRepositoryDispatchEvent,
+  isScheduleEvent,
 } from "../github/context";
 import type { ParsedGitHubContext } from "../github/context";
 import type { CommonFields, PreparedContext, EventData } from "./types";
 import { GITHUB_SERVER_URL } from "../github/api/config";
 import type { Mode, ModeContext } from "../modes/types";
+import { generateReviewPrompt } from "./review";
+import { generateAgentPrompt } from "./agent";
+import {
+  buildBudgetedContext,
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+} from "./context-budget";
+import {
+  createFilePartialLoader,
+  renderTemplate,
+  TemplateError,
+} from "./template";
+import type { TemplateValue } from "./template";
+import {
+  getTriageAllowedTools,
+  getTriageCapabilities,
+} from "../mcp/triage-tools";
 export type { CommonFields, PreparedContext } from "./types";
 
 const BASE_ALLOWED_TOOLS = [
@@ -39,6 +59,7 @@ export function buildAllowedToolsString(
   customAllowedTools?: string[],
   includeActionsTools: boolean = false,
   useCommitSigning: boolean = false,
+  includeActionsWriteTools: boolean = false,
 ): string {
   let baseTools = [...BASE_ALLOWED_TOOLS];
 
@@ -72,6 +93,16 @@ export function buildAllowedToolsString(
       "mcp__github_ci__get_ci_status",
       "mcp__github_ci__get_workflow_run_details",
       "mcp__github_ci__download_job_log",
+      "mcp__github_ci__get_failed_tests",
+    );
+  }
+
+  // Add the tools that re-run and wait on workflows with actions:write
+  if (includeActionsWriteTools) {
+    baseTools.push(
+      "mcp__github_ci__rerun_failed_jobs",
+      "mcp__github_ci__trigger_workflow",
+      "mcp__github_ci__wait_for_ci",
     );
   }
 
@@ -147,6 +178,11 @@ export function prepareContext(
     triggerUsername = context.payload.comment.user.login;
   } else if (isIssuesEvent(context)) {
     triggerUsername = context.payload.issue.user.login;
+  } else if (
+    isWorkflowDispatchEvent(context) ||
+    isRepositoryDispatchEvent(context)
+  ) {
+    triggerUsername = context.payload.sender.login;
   }
 
   // Create infrastructure fields object
@@ -161,10 +197,36 @@ export function prepareContext(
       disallowedTools: disallowedTools.join(","),
     }),
     ...(directPrompt && { directPrompt }),
+    contextTokenBudget: context.inputs.contextTokenBudget,
     ...(overridePrompt && { overridePrompt }),
     ...(claudeBranch && { claudeBranch }),
   };
 
+  // Dispatch and scheduled runs only carry an issue or PR number when one was targeted
+  const targetNumber =
+    context.entityNumber > 0 ? (isPR ? { prNumber } : { issueNumber }) : {};
+
+  // Agent mode is not tied to a trigger, so events without a dedicated
+  // variant below are accepted as-is
+  if (
+    context.inputs.mode === "agent" &&
+    !["workflow_dispatch", "repository_dispatch", "schedule"].includes(
+      eventName,
+    )
+  ) {
+    return {
+      ...commonFields,
+      eventData: {
+        eventName: "automation",
+        triggerEvent: eventName,
+        isPR,
+        ...targetNumber,
+        ...(claudeBranch && { claudeBranch }),
+        ...(baseBranch && { baseBranch }),
+      },
+    };
+  }
+
   // Parse event-specific data based on event type
   let eventData: EventData;
 
@@ -339,6 +401,48 @@ export function prepareContext(
       };
       break;
 
+    case "workflow_dispatch":
+      if (!isWorkflowDispatchEvent(context)) {
+        throw new Error("Invalid payload for workflow_dispatch event");
+      }
+      eventData = {
+        eventName: "workflow_dispatch",
+        isPR,
+        ...targetNumber,
+        inputs: context.payload.inputs ?? {},
+        ...(claudeBranch && { claudeBranch }),
+        ...(baseBranch && { baseBranch }),
+      };
+      break;
+
+    case "repository_dispatch":
+      if (!isRepositoryDispatchEvent(context)) {
+        throw new Error("Invalid payload for repository_dispatch event");
+      }
+      eventData = {
+        eventName: "repository_dispatch",
+        eventAction: context.payload.action,
+        isPR,
+        ...targetNumber,
+        clientPayload: context.payload.client_payload ?? {},
+        ...(claudeBranch && { claudeBranch }),
+        ...(baseBranch && { baseBranch }),
+      };
+      break;
+
+    case "schedule":
+      if (!isScheduleEvent(context)) {
+        throw new Error("Invalid payload for schedule event");
+      }
+      eventData = {
+        eventName: "schedule",
+        isPR: false,
+        schedule: context.payload.schedule ?? "",
+        ...(claudeBranch && { claudeBranch }),
+        ...(baseBranch && { baseBranch }),
+      };
+      break;
+
     default:
       throw new Error(`Unsupported event type: ${eventName}`);
   }
@@ -401,6 +505,32 @@ export function getEventTypeAndContext(envVars: PreparedContext): {
           : `pull request event`,
       };
 
+    case "workflow_dispatch":
+      return {
+        eventType: "WORKFLOW_DISPATCH",
+        triggerContext: "manual workflow dispatch",
+      };
+
+    case "repository_dispatch":
+      return {
+        eventType: "REPOSITORY_DISPATCH",
+        triggerContext: `repository dispatch '${eventData.eventAction}'`,
+      };
+
+    case "schedule":
+      return {
+        eventType: "SCHEDULE",
+        triggerContext: eventData.schedule
+          ? `scheduled run (${eventData.schedule})`
+          : "scheduled run",
+      };
+
+    case "automation":
+      return {
+        eventType: "AUTOMATION",
+        triggerContext: `${eventData.triggerEvent} event`,
+      };
+
     default:
       throw new Error(`Unexpected event type`);
   }
@@ -464,44 +594,80 @@ function getCommitInstructions(
   }
 }
 
-function substitutePromptVariables(
-  template: string,
+/**
+ * Builds the variables available to prompt templates (override_prompt,
+ * override_prompt_file and custom mode prompts)
+ */
+export function buildTemplateVariables(
   context: PreparedContext,
-  githubData: FetchDataResult,
-): string {
-  const { contextData, comments, reviewData, changedFilesWithSHA } = githubData;
+  githubData?: FetchDataResult,
+): Record<string, TemplateValue> {
+  // Agent mode runs without GitHub data when the event has no issue or PR
+  const contextData = githubData?.contextData;
+  const comments = githubData?.comments ?? [];
+  const reviewData = githubData?.reviewData ?? null;
+  const changedFilesWithSHA = githubData?.changedFilesWithSHA ?? [];
+  const imageUrlMap = githubData?.imageUrlMap ?? new Map<string, string>();
   const { eventData } = context;
 
-  const variables: Record<string, string> = {
+  return {
     REPOSITORY: context.repository,
     PR_NUMBER:
-      eventData.isPR && "prNumber" in eventData ? eventData.prNumber : "",
+      eventData.isPR && "prNumber" in eventData
+        ? (eventData.prNumber ?? "")
+        : "",
     ISSUE_NUMBER:
       !eventData.isPR && "issueNumber" in eventData
-        ? eventData.issueNumber
+        ? (eventData.issueNumber ?? "")
         : "",
     PR_TITLE: eventData.isPR && contextData?.title ? contextData.title : "",
     ISSUE_TITLE: !eventData.isPR && contextData?.title ? contextData.title : "",
     PR_BODY:
       eventData.isPR && contextData?.body
-        ? formatBody(contextData.body, githubData.imageUrlMap)
+        ? formatBody(contextData.body, imageUrlMap)
         : "",
     ISSUE_BODY:
       !eventData.isPR && contextData?.body
-        ? formatBody(contextData.body, githubData.imageUrlMap)
+        ? formatBody(contextData.body, imageUrlMap)
         : "",
-    PR_COMMENTS: eventData.isPR
-      ? formatComments(comments, githubData.imageUrlMap)
-      : "",
+    PR_COMMENTS: eventData.isPR ? formatComments(comments, imageUrlMap) : "",
     ISSUE_COMMENTS: !eventData.isPR
-      ? formatComments(comments, githubData.imageUrlMap)
+      ? formatComments(comments, imageUrlMap)
       : "",
     REVIEW_COMMENTS: eventData.isPR
-      ? formatReviewComments(reviewData, githubData.imageUrlMap)
+      ? formatReviewComments(reviewData, imageUrlMap)
       : "",
     CHANGED_FILES: eventData.isPR
       ? formatChangedFilesWithSHA(changedFilesWithSHA)
       : "",
+    COMMENT_LIST: comments.map((comment) => ({
+      author: comment.author.login,
+      body: formatBody(comment.body, imageUrlMap),
+      createdAt: comment.createdAt,
+    })),
+    REVIEW_LIST: eventData.isPR
+      ? (reviewData?.nodes ?? []).map((review) => ({
+          author: review.author.login,
+          state: review.state,
+          body: formatBody(review.body, imageUrlMap),
+          submittedAt: review.submittedAt,
+          comments: review.comments.nodes.map((comment) => ({
+            author: comment.author.login,
+            path: comment.path,
+            line: comment.line,
+            body: formatBody(comment.body, imageUrlMap),
+          })),
+        }))
+      : [],
+    CHANGED_FILE_LIST: eventData.isPR
+      ? changedFilesWithSHA.map((file) => ({
+          path: file.path,
+          changeType: file.changeType,
+          additions: file.additions,
+          deletions: file.deletions,
+          sha: file.sha,
+        }))
+      : [],
     TRIGGER_COMMENT: "commentBody" in eventData ? eventData.commentBody : "",
     TRIGGER_USERNAME: context.triggerUsername || "",
     BRANCH_NAME:
@@ -514,17 +680,45 @@ function substitutePromptVariables(
       "baseBranch" in eventData && eventData.baseBranch
         ? eventData.baseBranch
         : "",
-    EVENT_TYPE: eventData.eventName,
-    IS_PR: eventData.isPR ? "true" : "false",
+    EVENT_TYPE:
+      eventData.eventName === "automation"
+        ? eventData.triggerEvent
+        : eventData.eventName,
+    IS_PR: eventData.isPR,
+    EVENT_ACTION:
+      eventData.eventName === "repository_dispatch"
+        ? eventData.eventAction
+        : "",
+    CLIENT_PAYLOAD:
+      eventData.eventName === "repository_dispatch"
+        ? JSON.stringify(eventData.clientPayload, null, 2)
+        : "",
+    WORKFLOW_INPUTS:
+      eventData.eventName === "workflow_dispatch"
+        ? JSON.stringify(eventData.inputs, null, 2)
+        : "",
+    DIRECT_PROMPT: context.directPrompt ?? "",
   };
+}
 
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`\\$${key}`, "g");
-    result = result.replace(regex, value);
-  }
-
-  return result;
+/**
+ * Renders a prompt template with the variables of the current event.
+ * Partials are resolved relative to the template file, or to the repository
+ * root for inline templates.
+ * @throws TemplateError for syntax errors, unknown variables and missing partials
+ */
+export function renderPromptTemplate(
+  template: string,
+  context: PreparedContext,
+  githubData?: FetchDataResult,
+  file?: string,
+): string {
+  return renderTemplate(template, buildTemplateVariables(context, githubData), {
+    file,
+    loadPartial: createFilePartialLoader(
+      process.env.GITHUB_WORKSPACE || process.cwd(),
+    ),
+  });
 }
 
 export function generatePrompt(
@@ -533,11 +727,7 @@ export function generatePrompt(
   useCommitSigning: boolean,
 ): string {
   if (context.overridePrompt) {
-    return substitutePromptVariables(
-      context.overridePrompt,
-      context,
-      githubData,
-    );
+    return renderPromptTemplate(context.overridePrompt, context, githubData);
   }
 
   const {
@@ -552,13 +742,21 @@ export function generatePrompt(
   const { eventType, triggerContext } = getEventTypeAndContext(context);
 
   const formattedContext = formatContext(contextData, eventData.isPR);
-  const formattedComments = formatComments(comments, imageUrlMap);
-  const formattedReviewComments = eventData.isPR
-    ? formatReviewComments(reviewData, imageUrlMap)
-    : "";
-  const formattedChangedFiles = eventData.isPR
-    ? formatChangedFilesWithSHA(changedFilesWithSHA)
-    : "";
+  const {
+    comments: formattedComments,
+    reviewComments: formattedReviewComments,
+    changedFiles: formattedChangedFiles,
+    omittedContext,
+  } = buildBudgetedContext({
+    comments,
+    reviewData,
+    changedFiles: changedFilesWithSHA,
+    imageUrlMap,
+    isPR: eventData.isPR,
+    triggerCommentId:
+      "commentId" in eventData ? eventData.commentId : undefined,
+    tokenBudget: context.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET,
+  });
 
   // Check if any images were downloaded
   const hasImages = imageUrlMap && imageUrlMap.size > 0;
@@ -594,7 +792,7 @@ ${eventData.isPR ? formattedReviewComments || "No review comments" : ""}
 
 <changed_files>
 ${eventData.isPR ? formattedChangedFiles || "No files changed" : ""}
-</changed_files>${imagesInfo}
+</changed_files>${omittedContext ? `\n\n${omittedContext}` : ""}${imagesInfo}
 
 <event_type>${eventType}</event_type>
 <is_pr>${eventData.isPR ? "true" : "false"}</is_pr>
@@ -603,7 +801,7 @@ ${eventData.isPR ? formattedChangedFiles || "No files changed" : ""}
 ${
   eventData.isPR
     ? `<pr_number>${eventData.prNumber}</pr_number>`
-    : `<issue_number>${eventData.issueNumber ?? ""}</issue_number>`
+    : `<issue_number>${"issueNumber" in eventData ? (eventData.issueNumber ?? "") : ""}</issue_number>`
 }
 <claude_comment_id>${context.claudeCommentId}</claude_comment_id>
 <trigger_username>${context.triggerUsername ?? "Unknown"}</trigger_username>
@@ -795,10 +993,33 @@ f. If you are unable to complete certain steps, such as running a linter or test
   return promptContent;
 }
 
+/**
+ * Reads a prompt template file from the repository
+ * @param file Path relative to the repository root
+ */
+async function loadPromptTemplateFile(
+  file: string,
+): Promise<{ source: string; file: string }> {
+  const root = path.resolve(process.env.GITHUB_WORKSPACE || process.cwd());
+  const resolved = path.resolve(root, file);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new TemplateError(
+      `Prompt template file '${file}' is outside of the repository`,
+    );
+  }
+  try {
+    return { source: await readFile(resolved, "utf8"), file: resolved };
+  } catch (error) {
+    throw new TemplateError(
+      `Failed to read prompt template file '${file}': ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
 export async function createPrompt(
   mode: Mode,
   modeContext: ModeContext,
-  githubData: FetchDataResult,
+  githubData: FetchDataResult | undefined,
   context: ParsedGitHubContext,
 ) {
   try {
@@ -817,12 +1038,43 @@ export async function createPrompt(
 
     const promptsDir = getClaudePromptsDirectory();
 
-    // Generate the prompt directly
-    const promptContent = generatePrompt(
-      preparedContext,
-      githubData,
-      context.inputs.useCommitSigning,
-    );
+    // Generate the prompt directly (review and agent modes have their own prompts,
+    // custom modes may bring a template, and override_prompt or
+    // override_prompt_file replace all of them)
+    const promptTemplate = context.inputs.overridePromptFile
+      ? await loadPromptTemplateFile(context.inputs.overridePromptFile)
+      : {
+          source: preparedContext.overridePrompt || mode.getPromptTemplate?.(),
+          file: undefined,
+        };
+    let promptContent: string;
+    if (promptTemplate.source) {
+      promptContent = renderPromptTemplate(
+        promptTemplate.source,
+        preparedContext,
+        githubData,
+        promptTemplate.file,
+      );
+    } else if (mode.name === "agent") {
+      promptContent = generateAgentPrompt(
+        preparedContext,
+        githubData,
+        context.inputs.useCommitSigning,
+      );
+    } else if (!githubData) {
+      // Only agent mode and prompt templates can run without an issue or pull request
+      throw new Error(
+        `${mode.name} mode requires issue or pull request data for prompt generation`,
+      );
+    } else if (mode.name === "review") {
+      promptContent = generateReviewPrompt(preparedContext, githubData);
+    } else {
+      promptContent = generatePrompt(
+        preparedContext,
+        githubData,
+        context.inputs.useCommitSigning,
+      );
+    }
 
     // Log the final prompt to console
     console.log("===== FINAL PROMPT =====");
@@ -832,17 +1084,29 @@ export async function createPrompt(
     // Write the prompt file
     await writeFile(`${promptsDir}/claude-prompt.txt`, promptContent);
 
-    // Set allowed tools
+    // Set allowed tools (mode-specific tools are added to the user's lists)
+    const actionsPermission =
+      context.inputs.additionalPermissions.get("actions");
     const hasActionsReadPermission =
-      context.inputs.additionalPermissions.get("actions") === "read" &&
+      (actionsPermission === "read" || actionsPermission === "write") &&
       context.isPR;
+    const hasActionsWritePermission =
+      actionsPermission === "write" && context.isPR;
+    const triageTools = getTriageAllowedTools(
+      getTriageCapabilities(context.inputs.additionalPermissions, context.isPR),
+    );
     const allAllowedTools = buildAllowedToolsString(
-      context.inputs.allowedTools,
+      [
+        ...mode.getAllowedTools(),
+        ...triageTools,
+        ...context.inputs.allowedTools,
+      ],
       hasActionsReadPermission,
       context.inputs.useCommitSigning,
+      hasActionsWritePermission,
     );
     const allDisallowedTools = buildDisallowedToolsString(
-      context.inputs.disallowedTools,
+      [...mode.getDisallowedTools(), ...context.inputs.disallowedTools],
       context.inputs.allowedTools,
     );
 
@@ -0,0 +1,132 @@
+import type { FetchDataResult } from "../github/data/fetcher";
+import { formatContext, formatBody } from "../github/data/formatter";
+import { sanitizeContent } from "../github/utils/sanitizer";
+import type { PreparedContext } from "./types";
+import {
+  buildBudgetedContext,
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+} from "./context-budget";
+
+/**
+ * Generates the prompt used by review mode. Unlike the tag prompt there is no
+ * tracking comment: Claude reads the diff and submits exactly one PR review.
+ */
+export function generateReviewPrompt(
+  context: PreparedContext,
+  githubData: FetchDataResult,
+): string {
+  const {
+    contextData,
+    comments,
+    changedFilesWithSHA,
+    reviewData,
+    imageUrlMap,
+  } = githubData;
+  const { eventData } = context;
+
+  if (!eventData.isPR) {
+    throw new Error("Review mode can only run on pull requests");
+  }
+
+  const formattedContext = formatContext(contextData, true);
+  const {
+    comments: formattedComments,
+    reviewComments: formattedReviewComments,
+    changedFiles: formattedChangedFiles,
+    omittedContext,
+  } = buildBudgetedContext({
+    comments,
+    reviewData,
+    changedFiles: changedFilesWithSHA,
+    imageUrlMap,
+    isPR: true,
+    tokenBudget: context.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET,
+  });
+  const formattedBody = contextData?.body
+    ? formatBody(contextData.body, imageUrlMap)
+    : "No description provided";
+
+  let promptContent = `You are Claude, an AI assistant performing an automated code review of a GitHub pull request. Here's the context for the review:
+
+<formatted_context>
+${formattedContext}
+</formatted_context>
+
+<pr_body>
+${formattedBody}
+</pr_body>
+
+<comments>
+${formattedComments || "No comments"}
+</comments>
+
+<review_comments>
+${formattedReviewComments || "No review comments"}
+</review_comments>
+
+<changed_files>
+${formattedChangedFiles || "No files changed"}
+</changed_files>
+${omittedContext ? `\n${omittedContext}\n` : ""}
+<repository>${context.repository}</repository>
+<pr_number>${eventData.prNumber}</pr_number>
+<base_branch>${eventData.baseBranch ?? ""}</base_branch>
+${
+  context.directPrompt
+    ? `<direct_prompt>
+IMPORTANT: The following are direct instructions from the user that MUST take precedence over the default review focus:
+
+${sanitizeContent(context.directPrompt)}
+</direct_prompt>`
+    : ""
+}
+
+<review_tool_info>
+You have been provided with the mcp__github_review__submit_review tool. It creates a single pull request review and can only be called ONCE, at the end of your review.
+
+Tool usage example for mcp__github_review__submit_review:
+{
+  "body": "Summary of the review and overall assessment",
+  "event": "COMMENT",
+  "comments": [
+    { "path": "src/index.ts", "line": 42, "body": "This can throw when the list is empty." },
+    { "path": "src/util.ts", "startLine": 10, "line": 14, "body": "Consider extracting this block." }
+  ]
+}
+- "line" must refer to a line that is part of the diff for that file (an added or context line on the RIGHT side, or a deleted line with "side": "LEFT").
+- Use "event": "REQUEST_CHANGES" only when you found bugs, security problems or other blocking issues. Otherwise use "COMMENT".
+</review_tool_info>
+
+Your task is to review the changes in this pull request. You are in read-only mode: do NOT modify files, create commits or post other comments.
+
+Follow these steps:
+
+1. Gather Context:
+   - Use Bash(git diff ${eventData.baseBranch ? `origin/${eventData.baseBranch}...HEAD` : "<base>...HEAD"}) to inspect the changes.
+   - Use the Read, Grep and Glob tools to look at surrounding code when a change cannot be understood from the diff alone.
+   - IMPORTANT: Always check for and follow the repository's CLAUDE.md file(s), as they contain repo-specific guidelines.
+
+2. Review the Changes:
+   - Look for bugs, security issues, performance problems and incorrect edge-case handling.
+   - Check that new behavior is covered by tests where the repository has tests.
+   - Point out readability and maintainability problems only when they matter.
+   - Do not repeat feedback that already exists in the review comments above.
+
+3. Submit the Review:
+   - Anchor every finding to the most relevant line in the diff with an inline comment.
+   - Write a concise summary in the review body: what the PR does, the most important findings, and your verdict.
+   - Call mcp__github_review__submit_review exactly once with the summary, verdict and all inline comments.
+   - If you found nothing worth commenting on, still submit a review with an empty "comments" array and a short summary.
+
+What You CANNOT Do:
+- Approve pull requests (for security reasons)
+- Modify files, push commits or create branches
+- Post comments outside of the single review
+`;
+
+  if (context.customInstructions) {
+    promptContent += `\n\nCUSTOM INSTRUCTIONS:\n${context.customInstructions}`;
+  }
+
+  return promptContent;
+}
@@ -0,0 +1,533 @@
+/**
+ * Prompt Template Engine
+ *
+ * Renders override prompts and custom mode templates. Supported syntax:
+ *
+ * - `$VAR`, `${VAR}` or `{{VAR}}`: insert a variable (`{{item.path}}` for fields)
+ * - `{{#if VAR}}...{{else}}...{{/if}}` and `{{#unless VAR}}...{{/unless}}`
+ * - `{{#each LIST as item}}...{{/each}}`, with `{{@index}}`, `{{@first}}`, `{{@last}}`
+ * - `{{> path/to/partial.md}}`: include another template file
+ * - `{{! comment }}`
+ * - `\$` or `$$` for a literal `$`, and `\{{` for a literal `{{`
+ *
+ * Block tags on a line of their own are removed together with that line, so
+ * empty sections do not leave blank lines behind. Unknown variables are
+ * errors, except that `$NAME` and `${NAME}` are kept as written unless NAME
+ * looks like a misspelled variable, so prompts can mention `$HOME` or
+ * `${GITHUB_SHA}`.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import * as path from "path";
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplatePartial = {
+  source: string;
+  file: string;
+};
+
+export type TemplateOptions = {
+  /**
+   * File the template was loaded from, used for error messages and to
+   * resolve partials relative to it
+   */
+  file?: string;
+
+  /**
+   * Loads a partial by name; `from` is the file of the including template
+   */
+  loadPartial?: (name: string, from?: string) => TemplatePartial;
+};
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+const MAX_PARTIAL_DEPTH = 10;
+
+type Location = { line: number; column: number };
+
+type Node =
+  | { type: "text"; value: string }
+  | {
+      type: "variable";
+      path: string;
+      loc: Location;
+      // Source text to keep when a `$NAME` variable is unknown
+      raw?: string;
+    }
+  | {
+      type: "if";
+      path: string;
+      negate: boolean;
+      then: Node[];
+      otherwise: Node[];
+      loc: Location;
+    }
+  | { type: "each"; path: string; alias: string; body: Node[]; loc: Location }
+  | { type: "partial"; name: string; loc: Location };
+
+type Tag = {
+  content: string;
+  loc: Location;
+};
+
+type Block = {
+  kind: "if" | "unless" | "each";
+  node: Extract<Node, { type: "if" | "each" }>;
+  inElse: boolean;
+};
+
+const LEGACY_VARIABLE = /^[A-Z][A-Z0-9_]*/;
+const LEGACY_NAME = /^[A-Z][A-Z0-9_]*$/;
+const PATH = /^@?[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+function describeLocation(loc: Location, file?: string): string {
+  return `${file ? `${file} ` : ""}at line ${loc.line}, column ${loc.column}`;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent characters
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i)),
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i]![j] = Math.min(
+        rows[i - 1]![j]! + 1,
+        rows[i]![j - 1]! + 1,
+        rows[i - 1]![j - 1]! + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i]![j] = Math.min(rows[i]![j]!, rows[i - 2]![j - 2]! + 1);
+      }
+    }
+  }
+  return rows[a.length]![b.length]!;
+}
+
+/**
+ * The known variable an unknown name is most likely a typo of, if any
+ */
+function findMisspelled(name: string, known: string[]): string | undefined {
+  const allowed = Math.min(2, Math.floor(name.length / 4));
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of known) {
+    const distance = editDistance(name, candidate);
+    if (distance <= allowed && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best?.name;
+}
+
+function locate(source: string, index: number): Location {
+  const before = source.slice(0, index);
+  const line = before.split("\n").length;
+  return { line, column: index - before.lastIndexOf("\n") };
+}
+
+/**
+ * Block tags and comments are "standalone" when nothing but whitespace
+ * surrounds them on their line
+ */
+function isStandaloneTag(content: string): boolean {
+  return /^[#/>!]/.test(content) || content === "else";
+}
+
+/**
+ * Parses a template into a tree of nodes
+ * @throws TemplateError for malformed tags and unbalanced blocks
+ */
+export function parseTemplate(source: string, file?: string): Node[] {
+  const root: Node[] = [];
+  const blocks: Block[] = [];
+  let text = "";
+
+  const current = (): Node[] => {
+    const block = blocks[blocks.length - 1];
+    if (!block) {
+      return root;
+    }
+    if (block.node.type === "each") {
+      return block.node.body;
+    }
+    return block.inElse ? block.node.otherwise : block.node.then;
+  };
+
+  const flush = () => {
+    if (text) {
+      current().push({ type: "text", value: text });
+      text = "";
+    }
+  };
+
+  const fail = (message: string, loc: Location): never => {
+    throw new TemplateError(`${message} ${describeLocation(loc, file)}`);
+  };
+
+  const checkPath = (value: string, loc: Location): string => {
+    if (!PATH.test(value)) {
+      fail(`Invalid expression '${value}'`, loc);
+    }
+    return value;
+  };
+
+  const handleTag = ({ content, loc }: Tag) => {
+    if (content.startsWith("!")) {
+      return;
+    }
+
+    if (content.startsWith(">")) {
+      const name = content.slice(1).trim();
+      if (!name) {
+        fail("Missing partial name", loc);
+      }
+      flush();
+      current().push({ type: "partial", name, loc });
+      return;
+    }
+
+    const [keyword = "", ...rest] = content.split(/\s+/);
+
+    if (keyword === "#if" || keyword === "#unless") {
+      if (rest.length !== 1) {
+        fail(`Expected {{${keyword} VARIABLE}}`, loc);
+      }
+      flush();
+      const node: Block["node"] = {
+        type: "if",
+        path: checkPath(rest[0]!, loc),
+        negate: keyword === "#unless",
+        then: [],
+        otherwise: [],
+        loc,
+      };
+      current().push(node);
+      blocks.push({
+        kind: keyword === "#if" ? "if" : "unless",
+        node,
+        inElse: false,
+      });
+      return;
+    }
+
+    if (keyword === "#each") {
+      if (!(rest.length === 1 || (rest.length === 3 && rest[1] === "as"))) {
+        fail("Expected {{#each LIST}} or {{#each LIST as item}}", loc);
+      }
+      flush();
+      const node: Block["node"] = {
+        type: "each",
+        path: checkPath(rest[0]!, loc),
+        alias: rest[2] ? checkPath(rest[2], loc) : "this",
+        body: [],
+        loc,
+      };
+      current().push(node);
+      blocks.push({ kind: "each", node, inElse: false });
+      return;
+    }
+
+    if (keyword === "else") {
+      const block = blocks[blocks.length - 1];
+      if (!block || block.kind === "each" || block.inElse) {
+        fail("Unexpected {{else}}", loc);
+      }
+      flush();
+      block!.inElse = true;
+      return;
+    }
+
+    if (keyword.startsWith("/")) {
+      const kind = keyword.slice(1);
+      const block = blocks[blocks.length - 1];
+      if (!block) {
+        fail(`Unexpected {{${keyword}}}`, loc);
+      }
+      if (block!.kind !== kind) {
+        fail(
+          `Expected {{/${block!.kind}}} to close the block opened ${describeLocation(block!.node.loc)}, found {{${keyword}}}`,
+          loc,
+        );
+      }
+      flush();
+      blocks.pop();
+      return;
+    }
+
+    flush();
+    current().push({ type: "variable", path: checkPath(content, loc), loc });
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index]!;
+
+    // Escapes for literal delimiters
+    if ((char === "\\" || char === "$") && source.startsWith("$", index + 1)) {
+      text += "$";
+      index += 2;
+      continue;
+    }
+    if (char === "\\" && source.startsWith("{{", index + 1)) {
+      text += "{{";
+      index += 3;
+      continue;
+    }
+
+    if (source.startsWith("{{", index)) {
+      const loc = locate(source, index);
+      const end = source.indexOf("}}", index + 2);
+      if (end === -1) {
+        fail("Unclosed tag", loc);
+      }
+      const content = source.slice(index + 2, end).trim();
+      let next = end + 2;
+
+      if (isStandaloneTag(content)) {
+        const lineStart = source.lastIndexOf("\n", index - 1) + 1;
+        const lineEnd = source.indexOf("\n", next);
+        const leading = source.slice(lineStart, index);
+        const trailing = source.slice(
+          next,
+          lineEnd === -1 ? undefined : lineEnd,
+        );
+        if (!leading.trim() && !trailing.trim() && text.endsWith(leading)) {
+          text = text.slice(0, text.length - leading.length);
+          next = lineEnd === -1 ? source.length : lineEnd + 1;
+        }
+      }
+
+      handleTag({ content, loc });
+      index = next;
+      continue;
+    }
+
+    if (char === "$") {
+      if (source.startsWith("{", index + 1)) {
+        const loc = locate(source, index);
+        const end = source.indexOf("}", index + 2);
+        if (end === -1) {
+          fail("Unclosed ${", loc);
+        }
+        const expression = source.slice(index + 2, end).trim();
+        flush();
+        current().push({
+          type: "variable",
+          path: checkPath(expression, loc),
+          loc,
+          raw: LEGACY_NAME.test(expression)
+            ? source.slice(index, end + 1)
+            : undefined,
+        });
+        index = end + 1;
+        continue;
+      }
+
+      const match = source.slice(index + 1).match(LEGACY_VARIABLE);
+      if (match) {
+        flush();
+        current().push({
+          type: "variable",
+          path: match[0],
+          loc: locate(source, index),
+          raw: `$${match[0]}`,
+        });
+        index += match[0].length + 1;
+        continue;
+      }
+    }
+
+    text += char;
+    index++;
+  }
+
+  const unclosed = blocks[blocks.length - 1];
+  if (unclosed) {
+    fail(`Unclosed {{#${unclosed.kind}}} block`, unclosed.node.loc);
+  }
+
+  flush();
+  return root;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return !!value;
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+}
+
+/**
+ * Renders a template with the given variables
+ * @throws TemplateError for syntax errors, unknown variables and missing partials
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, TemplateValue>,
+  options: TemplateOptions = {},
+): string {
+  return renderSource(template, [variables], options.file, options, 0);
+}
+
+function renderSource(
+  source: string,
+  scopes: Record<string, TemplateValue>[],
+  file: string | undefined,
+  options: TemplateOptions,
+  depth: number,
+): string {
+  const nodes = parseTemplate(source, file);
+
+  const lookup = (expression: string, loc: Location): TemplateValue => {
+    const [name, ...properties] = expression.split(".");
+    const scope = [...scopes]
+      .reverse()
+      .find((candidate) => Object.hasOwn(candidate, name!));
+    if (!scope) {
+      throw new TemplateError(
+        `Unknown variable '${name}' ${describeLocation(loc, file)}`,
+      );
+    }
+
+    let value = scope[name!];
+    for (const property of properties) {
+      if (
+        value === null ||
+        typeof value !== "object" ||
+        Array.isArray(value) ||
+        !Object.hasOwn(value, property)
+      ) {
+        throw new TemplateError(
+          `Unknown property '${property}' in '${expression}' ${describeLocation(loc, file)}`,
+        );
+      }
+      value = value[property];
+    }
+    return value;
+  };
+
+  const isKnown = (name: string): boolean =>
+    scopes.some((scope) => Object.hasOwn(scope, name));
+
+  const render = (list: Node[]): string =>
+    list
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.value;
+          case "variable":
+            if (node.raw !== undefined && !isKnown(node.path)) {
+              const known = scopes.flatMap((scope) => Object.keys(scope));
+              const suggestion = findMisspelled(node.path, known);
+              if (!suggestion) {
+                return node.raw;
+              }
+              throw new TemplateError(
+                `Unknown variable '${node.path}' ${describeLocation(node.loc, file)}, did you mean '${suggestion}'?`,
+              );
+            }
+            return stringify(lookup(node.path, node.loc));
+          case "if":
+            return isTruthy(lookup(node.path, node.loc)) !== node.negate
+              ? render(node.then)
+              : render(node.otherwise);
+          case "each": {
+            const items = lookup(node.path, node.loc);
+            if (items === null || items === undefined || items === "") {
+              return "";
+            }
+            if (!Array.isArray(items)) {
+              throw new TemplateError(
+                `'${node.path}' is not a list ${describeLocation(node.loc, file)}`,
+              );
+            }
+            return items
+              .map((item, index) => {
+                scopes.push({
+                  [node.alias]: item,
+                  "@index": index,
+                  "@first": index === 0,
+                  "@last": index === items.length - 1,
+                });
+                try {
+                  return render(node.body);
+                } finally {
+                  scopes.pop();
+                }
+              })
+              .join("");
+          }
+          case "partial": {
+            if (!options.loadPartial) {
+              throw new TemplateError(
+                `Partials are not available ${describeLocation(node.loc, file)}`,
+              );
+            }
+            if (depth >= MAX_PARTIAL_DEPTH) {
+              throw new TemplateError(
+                `Partials are nested more than ${MAX_PARTIAL_DEPTH} levels deep ${describeLocation(node.loc, file)}`,
+              );
+            }
+            const partial = options.loadPartial(node.name, file);
+            return renderSource(
+              partial.source,
+              scopes,
+              partial.file,
+              options,
+              depth + 1,
+            );
+          }
+        }
+      })
+      .join("");
+
+  return render(nodes);
+}
+
+/**
+ * Creates a partial loader that reads files relative to the including
+ * template (or the root directory for inline templates), without leaving
+ * the root directory
+ */
+export function createFilePartialLoader(
+  rootDir: string,
+): NonNullable<TemplateOptions["loadPartial"]> {
+  const root = path.resolve(rootDir);
+  return (name, from) => {
+    const file = path.resolve(from ? path.dirname(from) : root, name);
+    if (file !== root && !file.startsWith(root + path.sep)) {
+      throw new TemplateError(`Partial '${name}' is outside of ${root}`);
+    }
+    if (!existsSync(file)) {
+      throw new TemplateError(`Partial '${name}' not found at ${file}`);
+    }
+    return { source: readFileSync(file, "utf8"), file };
+  };
+}
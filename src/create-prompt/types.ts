@@ -8,6 +8,7 @@ export type CommonFields = {
   disallowedTools?: string;
   directPrompt?: string;
   overridePrompt?: string;
+  contextTokenBudget?: number;
 };
 
 type PullRequestReviewCommentEvent = {
@@ -88,6 +89,49 @@ type PullRequestEvent = {
   baseBranch?: string;
 };
 
+// Dispatch events can target an issue or PR through `issue_number`/`pr_number`
+// in their inputs or client_payload
+type WorkflowDispatchEvent = {
+  eventName: "workflow_dispatch";
+  isPR: boolean;
+  prNumber?: string;
+  issueNumber?: string;
+  inputs: Record<string, unknown>;
+  claudeBranch?: string;
+  baseBranch?: string;
+};
+
+type RepositoryDispatchEvent = {
+  eventName: "repository_dispatch";
+  eventAction: string; // the dispatch event_type
+  isPR: boolean;
+  prNumber?: string;
+  issueNumber?: string;
+  clientPayload: Record<string, unknown>;
+  claudeBranch?: string;
+  baseBranch?: string;
+};
+
+type ScheduleEvent = {
+  eventName: "schedule";
+  isPR: false;
+  schedule: string;
+  claudeBranch?: string;
+  baseBranch?: string;
+};
+
+// Agent mode runs on any workflow event (schedule, workflow_dispatch, push, ...)
+// and only carries an issue or PR number when the event has one
+type AutomationEvent = {
+  eventName: "automation";
+  triggerEvent: string;
+  isPR: boolean;
+  prNumber?: string;
+  issueNumber?: string;
+  claudeBranch?: string;
+  baseBranch?: string;
+};
+
 // Union type for all possible event types
 export type EventData =
   | PullRequestReviewCommentEvent
@@ -97,7 +141,11 @@ export type EventData =
   | IssueOpenedEvent
   | IssueAssignedEvent
   | IssueLabeledEvent
-  | PullRequestEvent;
+  | PullRequestEvent
+  | WorkflowDispatchEvent
+  | RepositoryDispatchEvent
+  | ScheduleEvent
+  | AutomationEvent;
 
 // Combined type with separate eventData field
 export type PreparedContext = CommonFields & {
@@ -0,0 +1,55 @@
+#!/usr/bin/env bun
+
+/**
+ * Expose the results of an agent mode run as action outputs so that later
+ * workflow steps can consume them
+ */
+
+import * as core from "@actions/core";
+import * as fs from "fs/promises";
+import { createOctokit } from "../github/api/client";
+import { parseGitHubContext } from "../github/context";
+import { collectAgentOutputs } from "../github/operations/agent-outputs";
+
+async function run() {
+  try {
+    const context = parseGitHubContext();
+    const { owner, repo } = context.repository;
+    const octokit = createOctokit(process.env.GITHUB_TOKEN!);
+
+    let executionLog: unknown = null;
+    const outputFile = process.env.OUTPUT_FILE;
+    if (outputFile) {
+      try {
+        executionLog = JSON.parse(await fs.readFile(outputFile, "utf8"));
+      } catch (error) {
+        console.error("Error reading output file:", error);
+      }
+    }
+
+    const outputs = await collectAgentOutputs(octokit, {
+      owner,
+      repo,
+      executionLog,
+      startSha: process.env.START_SHA || undefined,
+      claudeBranch: process.env.CLAUDE_BRANCH || undefined,
+      currentBranch: process.env.CURRENT_BRANCH || undefined,
+      baseBranch: process.env.BASE_BRANCH || "main",
+      useCommitSigning: process.env.USE_COMMIT_SIGNING === "true",
+    });
+
+    core.setOutput("result", outputs.result);
+    core.setOutput("changed_files", JSON.stringify(outputs.changedFiles));
+    core.setOutput("created_branch", outputs.branch);
+    core.setOutput("pr_number", outputs.prNumber?.toString() ?? "");
+    core.setOutput("pr_url", outputs.prUrl ?? "");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(
+      `Collecting agent outputs failed with error: ${errorMessage}`,
+    );
+    process.exit(1);
+  }
+}
+
+run();
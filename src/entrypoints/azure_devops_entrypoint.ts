@@ -0,0 +1,216 @@
+#!/usr/bin/env bun
+
+/**
+ * Azure DevOps entrypoint that combines the prepare, execute and update
+ * phases in a single Azure Pipelines job
+ */
+
+import * as fs from "fs";
+import { getClaudePromptsDirectory } from "../utils/temp-directory";
+import {
+  runExecutePhase,
+  runUpdatePhase,
+  type PhaseResult,
+} from "../utils/pipeline-phases";
+import { createProvider, getToken } from "../providers/provider-factory";
+import type { AzureDevOpsProvider } from "../providers/azure-devops-provider";
+import {
+  getWebhookCommentText,
+  getWebhookPullRequest,
+  parseAzureDevOpsContext,
+  parseAzureDevOpsWebhookPayload,
+} from "../azure-devops/context";
+import { parseTriggerCommand } from "../azure-devops/validation/trigger";
+import {
+  generateAzureDevOpsPrompt,
+  isPullRequestData,
+} from "../azure-devops/prompt";
+import {
+  AZURE_DEVOPS_REVIEW_ALLOWED_TOOLS,
+  AZURE_DEVOPS_REVIEW_DISALLOWED_TOOLS,
+  buildAzureDevOpsReviewMcpConfig,
+  generateAzureDevOpsReviewPrompt,
+} from "../azure-devops/review";
+import { routeCommand } from "../commands/router";
+
+async function runPreparePhase(
+  provider: AzureDevOpsProvider,
+): Promise<PhaseResult> {
+  // Comment threads live on pull requests, so runs without one only log
+  let commentId: number | undefined;
+
+  try {
+    console.log("=========================================");
+    console.log("Phase 1: Preparing Claude Code...");
+    console.log("=========================================");
+
+    const triggerPhrase = process.env.TRIGGER_PHRASE || "@claude";
+    const directPrompt = process.env.DIRECT_PROMPT || "";
+    // Task for Claude; slash commands replace it with their own prompt
+    let taskPrompt = directPrompt;
+
+    const context = provider.getContext();
+    console.log(`Checking permissions for actor: ${context.actor}`);
+    if (!(await provider.hasWritePermission(context.actor))) {
+      throw new Error(
+        "Actor does not have write permissions to the repository",
+      );
+    }
+
+    if (!(await provider.checkTrigger(triggerPhrase, directPrompt))) {
+      return { success: false, error: "No trigger found" };
+    }
+
+    // Direct prompts come from the pipeline configuration, not from a user
+    if (!directPrompt && !(await provider.isHumanActor(context.actor))) {
+      throw new Error("Actor is not a human user");
+    }
+
+    // Route slash commands (e.g. `@claude /review`) to their mode, prompt and tools
+    const payload = parseAzureDevOpsWebhookPayload();
+    if (!process.env.MODE || process.env.MODE === "tag") {
+      const parsedCommand = parseTriggerCommand(payload, triggerPhrase);
+      const route =
+        parsedCommand &&
+        routeCommand(parsedCommand, { triggerPhrase, isPR: context.isPR });
+
+      if (route?.type === "reply") {
+        await provider.createComment(route.body);
+        console.log(`Replied to /${route.command.name}`);
+        return { success: false, error: "Command answered" };
+      }
+
+      if (route?.type === "run") {
+        console.log(`Running /${route.command.name} in ${route.mode} mode`);
+        taskPrompt = route.prompt ?? taskPrompt;
+        process.env.MODE = route.mode;
+        process.env.ALLOWED_TOOLS = [
+          process.env.ALLOWED_TOOLS,
+          ...route.allowedTools,
+        ]
+          .filter(Boolean)
+          .join(",");
+        process.env.DISALLOWED_TOOLS = [
+          process.env.DISALLOWED_TOOLS,
+          ...route.disallowedTools,
+        ]
+          .filter(Boolean)
+          .join(",");
+      }
+    }
+
+    let branch: string | undefined;
+    if (context.isPR) {
+      commentId = await provider.createTrackingComment();
+      console.log(`Created tracking comment with ID: ${commentId}`);
+      branch = (await provider.getPullRequestInfo()).headBranch;
+    }
+
+    await provider.setupGitAuth(getToken());
+
+    const contextData = await provider.fetchContextData();
+    const triggerComment =
+      getWebhookCommentText(payload) ??
+      getWebhookPullRequest(payload)?.description ??
+      "";
+
+    // Review mode is read-only and submits its findings through the review MCP server
+    let mcpConfig: string | undefined;
+    let prompt: string;
+    if (process.env.MODE === "review" && isPullRequestData(contextData)) {
+      const { collectionUri, project, repository } = parseAzureDevOpsContext();
+      mcpConfig = buildAzureDevOpsReviewMcpConfig({
+        token: getToken(),
+        collectionUri,
+        project,
+        repository,
+        prId: context.entityNumber.toString(),
+      });
+      prompt = generateAzureDevOpsReviewPrompt(contextData, taskPrompt);
+      branch = undefined;
+    } else {
+      prompt = generateAzureDevOpsPrompt(
+        contextData,
+        triggerComment,
+        taskPrompt,
+      );
+    }
+
+    const promptPath = `${getClaudePromptsDirectory()}/claude-prompt.txt`;
+    await fs.promises.writeFile(promptPath, prompt);
+    console.log(`✅ Created prompt file for Claude at ${promptPath}`);
+
+    return { success: true, commentId, branch, mcpConfig };
+  } catch (error) {
+    console.error("Error in prepare phase:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      commentId,
+    };
+  }
+}
+
+async function main() {
+  let exitCode = 0;
+
+  try {
+    // Git setup in the prepare phase and Claude's run both work on the
+    // pipeline's checkout of the repository
+    process.chdir(process.env.BUILD_SOURCESDIRECTORY || process.cwd());
+
+    const provider = createProvider({
+      platform: "azure-devops",
+      token: getToken(),
+      triggerPhrase: process.env.TRIGGER_PHRASE || "@claude",
+      directPrompt: process.env.DIRECT_PROMPT || "",
+    });
+
+    const prepareResult = await runPreparePhase(provider);
+    if (!prepareResult.success) {
+      if (prepareResult.error === "No trigger found") {
+        console.log("✅ No Claude trigger found in the request");
+        process.exit(0);
+      }
+      if (prepareResult.error === "Command answered") {
+        console.log("✅ Replied to the slash command");
+        process.exit(0);
+      }
+      if (prepareResult.commentId) {
+        await provider.updateComment(
+          prepareResult.commentId,
+          `❌ Failed to prepare: ${prepareResult.error}`,
+        );
+      }
+      throw new Error(`Prepare phase failed: ${prepareResult.error}`);
+    }
+
+    // Review runs are read-only and submit through the review MCP server
+    const executeResult = await runExecutePhase(
+      prepareResult,
+      prepareResult.mcpConfig
+        ? {
+            allowed: AZURE_DEVOPS_REVIEW_ALLOWED_TOOLS,
+            disallowed: AZURE_DEVOPS_REVIEW_DISALLOWED_TOOLS,
+          }
+        : undefined,
+    );
+    if (!executeResult.success) {
+      exitCode = 1;
+      console.error(`Execute phase failed: ${executeResult.error}`);
+    }
+
+    // Always report back, whether Claude succeeded or not
+    await runUpdatePhase(provider, executeResult);
+  } catch (error) {
+    exitCode = 1;
+    console.error("Fatal error:", error);
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the main function
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,189 @@
+#!/usr/bin/env bun
+
+/**
+ * Bitbucket entrypoint that combines the prepare, execute and update phases
+ * in a single Bitbucket Pipelines step
+ */
+
+import * as fs from "fs";
+import { getClaudePromptsDirectory } from "../utils/temp-directory";
+import {
+  runExecutePhase,
+  runUpdatePhase,
+  type PhaseResult,
+} from "../utils/pipeline-phases";
+import { createProvider, getToken } from "../providers/provider-factory";
+import type { SCMProvider } from "../providers/scm-provider";
+import {
+  getWebhookCommentText,
+  getWebhookPullRequest,
+  parseBitbucketWebhookPayload,
+} from "../bitbucket/context";
+import { parseTriggerCommand } from "../bitbucket/validation/trigger";
+import { generateBitbucketPrompt } from "../bitbucket/prompt";
+import { routeCommand } from "../commands/router";
+
+// Review mode needs a read-only tool list and a review MCP server, which
+// Bitbucket doesn't have yet
+const BITBUCKET_SUPPORTED_MODES = ["tag"];
+
+async function runPreparePhase(provider: SCMProvider): Promise<PhaseResult> {
+  // Bitbucket comments live on pull requests, so runs without one only log
+  let commentId: number | undefined;
+
+  try {
+    console.log("=========================================");
+    console.log("Phase 1: Preparing Claude Code...");
+    console.log("=========================================");
+
+    const triggerPhrase = process.env.TRIGGER_PHRASE || "@claude";
+    const directPrompt = process.env.DIRECT_PROMPT || "";
+    // Task for Claude; slash commands replace it with their own prompt
+    let taskPrompt = directPrompt;
+
+    const context = provider.getContext();
+    console.log(`Checking permissions for actor: ${context.actor}`);
+    if (!(await provider.hasWritePermission(context.actor))) {
+      throw new Error(
+        "Actor does not have write permissions to the repository",
+      );
+    }
+
+    if (!(await provider.checkTrigger(triggerPhrase, directPrompt))) {
+      return { success: false, error: "No trigger found" };
+    }
+
+    // Direct prompts come from the pipeline configuration, not from a user
+    if (!directPrompt && !(await provider.isHumanActor(context.actor))) {
+      throw new Error("Actor is not a human user");
+    }
+
+    // Route slash commands (e.g. `@claude /review`) to their mode, prompt and tools
+    const payload = parseBitbucketWebhookPayload();
+    if (!process.env.MODE || process.env.MODE === "tag") {
+      const parsedCommand = parseTriggerCommand(payload, triggerPhrase);
+      const route =
+        parsedCommand &&
+        routeCommand(parsedCommand, {
+          triggerPhrase,
+          isPR: context.isPR,
+          supportedModes: BITBUCKET_SUPPORTED_MODES,
+        });
+
+      if (route?.type === "reply") {
+        await provider.createComment(route.body);
+        console.log(`Replied to /${route.command.name}`);
+        return { success: false, error: "Command answered" };
+      }
+
+      if (route?.type === "run") {
+        console.log(`Running /${route.command.name} in ${route.mode} mode`);
+        taskPrompt = route.prompt ?? taskPrompt;
+        process.env.MODE = route.mode;
+        process.env.ALLOWED_TOOLS = [
+          process.env.ALLOWED_TOOLS,
+          ...route.allowedTools,
+        ]
+          .filter(Boolean)
+          .join(",");
+        process.env.DISALLOWED_TOOLS = [
+          process.env.DISALLOWED_TOOLS,
+          ...route.disallowedTools,
+        ]
+          .filter(Boolean)
+          .join(",");
+      }
+    }
+
+    const mode = process.env.MODE || "tag";
+    if (!BITBUCKET_SUPPORTED_MODES.includes(mode)) {
+      throw new Error(`Mode '${mode}' is not supported on Bitbucket`);
+    }
+
+    let branch: string | undefined;
+    if (context.isPR) {
+      commentId = await provider.createTrackingComment();
+      console.log(`Created tracking comment with ID: ${commentId}`);
+      branch = (await provider.getPullRequestInfo()).headBranch;
+    }
+
+    await provider.setupGitAuth(getToken());
+
+    const contextData = await provider.fetchContextData();
+    const triggerComment =
+      getWebhookCommentText(payload) ??
+      getWebhookPullRequest(payload)?.description ??
+      "";
+
+    const promptPath = `${getClaudePromptsDirectory()}/claude-prompt.txt`;
+    await fs.promises.writeFile(
+      promptPath,
+      generateBitbucketPrompt(contextData, triggerComment, taskPrompt),
+    );
+    console.log(`✅ Created prompt file for Claude at ${promptPath}`);
+
+    return { success: true, commentId, branch };
+  } catch (error) {
+    console.error("Error in prepare phase:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      commentId,
+    };
+  }
+}
+
+async function main() {
+  let exitCode = 0;
+
+  try {
+    // Git setup in the prepare phase and Claude's run both work on the
+    // repository's clone, not on this runner's checkout
+    process.chdir(process.env.BITBUCKET_CLONE_DIR || process.cwd());
+
+    const provider = createProvider({
+      platform: "bitbucket",
+      token: getToken(),
+      triggerPhrase: process.env.TRIGGER_PHRASE || "@claude",
+      directPrompt: process.env.DIRECT_PROMPT || "",
+    });
+
+    const prepareResult = await runPreparePhase(provider);
+    if (!prepareResult.success) {
+      if (prepareResult.error === "No trigger found") {
+        console.log("✅ No Claude trigger found in the request");
+        process.exit(0);
+      }
+      if (prepareResult.error === "Command answered") {
+        console.log("✅ Replied to the slash command");
+        process.exit(0);
+      }
+      if (prepareResult.commentId) {
+        await provider.updateComment(
+          prepareResult.commentId,
+          `❌ Failed to prepare: ${prepareResult.error}`,
+        );
+      }
+      throw new Error(`Prepare phase failed: ${prepareResult.error}`);
+    }
+
+    const executeResult = await runExecutePhase(prepareResult);
+    if (!executeResult.success) {
+      exitCode = 1;
+      console.error(`Execute phase failed: ${executeResult.error}`);
+    }
+
+    // Always report back, whether Claude succeeded or not
+    await runUpdatePhase(provider, executeResult);
+  } catch (error) {
+    exitCode = 1;
+    console.error("Fatal error:", error);
+  }
+
+  process.exit(exitCode);
+}
+
+// Run the main function
+if (import.meta.main) {
+  main();
+}
@@ -11,6 +11,14 @@ import {
   getClaudePromptsDirectory,
   getClaudeExecutionOutputPath,
 } from "../utils/temp-directory";
+import {
+  GITLAB_REVIEW_ALLOWED_TOOLS,
+  GITLAB_REVIEW_DISALLOWED_TOOLS,
+} from "../gitlab/review";
+import { readCommandRoute } from "../gitlab/commands";
+import { prepareGitLabMcpConfig } from "../gitlab/mcp-config";
+import { getTriageCapabilities } from "../mcp/triage-tools";
+import { parseAdditionalPermissions } from "../github/context";
 
 interface PhaseResult {
   success: boolean;
@@ -51,6 +59,15 @@ async function runPreparePhase(): Promise<PhaseResult> {
       };
     }
 
+    // Slash commands such as /help are answered during prepare without running Claude
+    if (output.includes("Replied to /")) {
+      console.log("Command answered, exiting...");
+      return {
+        success: false,
+        error: "Command answered",
+      };
+    }
+
     // Extract comment ID from file written by prepare.ts
     let commentId: number | undefined;
     try {
@@ -68,6 +85,25 @@ async function runPreparePhase(): Promise<PhaseResult> {
       console.error("Error reading comment ID file:", error);
     }
 
+    // Slash commands can switch the mode and add tools for the execute phase
+    const commandRoute = readCommandRoute();
+    if (commandRoute) {
+      console.log(`Slash command selected ${commandRoute.mode} mode`);
+      process.env.MODE = commandRoute.mode;
+      process.env.ALLOWED_TOOLS = [
+        process.env.ALLOWED_TOOLS,
+        ...commandRoute.allowedTools,
+      ]
+        .filter(Boolean)
+        .join(",");
+      process.env.DISALLOWED_TOOLS = [
+        process.env.DISALLOWED_TOOLS,
+        ...commandRoute.disallowedTools,
+      ]
+        .filter(Boolean)
+        .join(",");
+    }
+
     return {
       success: true,
       commentId,
@@ -188,21 +224,84 @@ async function runExecutePhase(
       console.error("Failed to read prompt file:", error);
     }
 
+    // GitLab MCP servers; review mode is read-only and submits its findings through the review server
+    const isReviewMode = process.env.MODE === "review";
+    let mcpConfig = "";
+    let allowedTools = process.env.ALLOWED_TOOLS || "";
+    let disallowedTools = process.env.DISALLOWED_TOOLS || "";
+    if (process.env.CI_PROJECT_ID) {
+      const { getToken } = await import("../providers/provider-factory");
+      const mrIid =
+        process.env.CLAUDE_RESOURCE_TYPE === "merge_request"
+          ? process.env.CLAUDE_RESOURCE_ID
+          : process.env.CLAUDE_RESOURCE_TYPE === "issue"
+            ? undefined
+            : process.env.CI_MERGE_REQUEST_IID;
+      const issueIid =
+        process.env.CLAUDE_RESOURCE_TYPE === "issue"
+          ? process.env.CLAUDE_RESOURCE_ID
+          : undefined;
+      const gitlabMcp = prepareGitLabMcpConfig({
+        token: getToken(),
+        projectId: process.env.CI_PROJECT_ID,
+        host: process.env.CI_SERVER_URL || "https://gitlab.com",
+        mrIid,
+        issueIid,
+        commentId: prepareResult.commentId?.toString(),
+        branch:
+          process.env.CLAUDE_BRANCH ||
+          process.env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME ||
+          process.env.CI_COMMIT_REF_NAME,
+        baseBranch:
+          process.env.CI_MERGE_REQUEST_TARGET_BRANCH_NAME ||
+          process.env.CI_DEFAULT_BRANCH,
+        repoDir: process.env.CI_PROJECT_DIR || process.cwd(),
+        isReviewMode,
+        // Triage tools are gated by issues:write and pull-requests:write
+        triageCapabilities: getTriageCapabilities(
+          parseAdditionalPermissions(process.env.ADDITIONAL_PERMISSIONS ?? ""),
+          Boolean(mrIid),
+        ),
+      });
+      mcpConfig = gitlabMcp.mcpConfig;
+      allowedTools = [allowedTools, ...gitlabMcp.allowedTools]
+        .filter(Boolean)
+        .join(",");
+    }
+    if (isReviewMode) {
+      allowedTools = [...GITLAB_REVIEW_ALLOWED_TOOLS, allowedTools]
+        .filter(Boolean)
+        .join(",");
+      disallowedTools = [...GITLAB_REVIEW_DISALLOWED_TOOLS, disallowedTools]
+        .filter(Boolean)
+        .join(",");
+    }
+
     // Set up environment for base-action
     const env = {
       ...process.env,
       CLAUDE_CODE_ACTION: "1",
       INPUT_PROMPT_FILE: promptPath,
       INPUT_TIMEOUT_MINUTES: "30",
-      INPUT_MCP_CONFIG: "",
+      INPUT_MCP_CONFIG: mcpConfig,
       INPUT_SETTINGS: "",
       INPUT_SYSTEM_PROMPT: "",
       INPUT_APPEND_SYSTEM_PROMPT: "",
-      INPUT_ALLOWED_TOOLS: process.env.ALLOWED_TOOLS || "",
-      INPUT_DISALLOWED_TOOLS: process.env.DISALLOWED_TOOLS || "",
+      INPUT_ALLOWED_TOOLS: allowedTools,
+      INPUT_DISALLOWED_TOOLS: disallowedTools,
       INPUT_MAX_TURNS: process.env.MAX_TURNS || "",
       INPUT_CLAUDE_ENV: process.env.CLAUDE_ENV || "",
       INPUT_FALLBACK_MODEL: process.env.FALLBACK_MODEL || "",
+      INPUT_SESSION_DIR: process.env.CLAUDE_SESSION_DIR || "",
+      INPUT_SESSION_KEY: process.env.CLAUDE_SESSION_KEY || "",
+      INPUT_MAX_SESSION_AGE_HOURS: process.env.MAX_SESSION_AGE_HOURS || "",
+      INPUT_MAX_COST_USD: process.env.MAX_COST_USD || "",
+      INPUT_MAX_TOKENS: process.env.MAX_TOKENS || "",
+      INPUT_PROGRESS_COMMAND:
+        prepareResult.commentId && process.env.SHOW_PROGRESS !== "false"
+          ? `bun run ${path.join(__dirname, "update-progress.ts")}`
+          : "",
+      CLAUDE_COMMENT_ID: prepareResult.commentId?.toString() || "",
       ANTHROPIC_MODEL: process.env.CLAUDE_MODEL || "sonnet",
       DETAILED_PERMISSION_MESSAGES: "1",
     };
@@ -744,7 +843,9 @@ async function runUpdatePhase(
     // Check if there are any git changes
     const hasChanges = await checkGitStatus();
 
-    if (hasChanges) {
+    if (process.env.MODE === "review") {
+      console.log("Review mode - findings were submitted as a review");
+    } else if (hasChanges) {
       console.log("Git changes detected - creating merge request");
       await createMergeRequest(prepareResult, executeResult);
     } else {
@@ -868,6 +969,10 @@ async function main() {
         console.log("✅ No Claude trigger found in the request");
         process.exit(0);
       }
+      if (prepareResult.error === "Command answered") {
+        console.log("✅ Replied to the slash command");
+        process.exit(0);
+      }
       throw new Error(`Prepare phase failed: ${prepareResult.error}`);
     }
 
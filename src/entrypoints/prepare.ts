@@ -6,18 +6,17 @@
  */
 
 import * as core from "@actions/core";
+import { $ } from "bun";
 import { setupGitHubToken } from "../github/token";
-import { checkHumanActor } from "../github/validation/actor";
-import { checkWritePermissions } from "../github/validation/permissions";
-import { createInitialComment } from "../github/operations/comments/create-initial";
-import { setupBranch } from "../github/operations/branch";
-import { configureGitAuth } from "../github/operations/git-config";
 import { prepareMcpConfig } from "../mcp/install-mcp-server";
-import { createOctokit } from "../github/api/client";
-import { fetchGitHubData } from "../github/data/fetcher";
-import { parseGitHubContext } from "../github/context";
-import { getMode } from "../modes/registry";
-import { createPrompt } from "../create-prompt";
+import { parseTriggerCommand } from "../github/validation/trigger";
+import { routeCommand } from "../commands/router";
+import { getMode, isBuiltInMode, loadRepositoryModes } from "../modes/registry";
+import {
+  buildAllowedToolsString,
+  buildDisallowedToolsString,
+  createPrompt,
+} from "../create-prompt";
 import {
   createProvider,
   getToken,
@@ -26,8 +25,24 @@ import {
 import type { SCMProvider } from "../providers/scm-provider";
 import { getClaudePromptsDirectory } from "../utils/temp-directory";
 import { parseGitLabWebhookPayload } from "../gitlab/webhook";
-
-async function run() {
+import {
+  checkContainsReviewTrigger,
+  parseTriggerCommand as parseGitLabTriggerCommand,
+} from "../gitlab/validation/trigger";
+import { parseGitLabWebhookPayload as parseGitLabContextPayload } from "../gitlab/context";
+import { writeCommandRoute } from "../gitlab/commands";
+import { generateGitLabReviewPrompt } from "../gitlab/review";
+import { formatPipelineSummary, isGitLabApiError } from "../gitlab/pipelines";
+import {
+  getEventCommentText,
+  getEventEntity,
+  parseGiteaEventPayload,
+} from "../gitea/context";
+import { parseTriggerCommand as parseGiteaTriggerCommand } from "../gitea/validation/trigger";
+import { setupGiteaBranch } from "../gitea/branch";
+import { generateGiteaPrompt } from "../gitea/prompt";
+
+export async function run() {
   const platform = detectPlatform();
 
   // Debug environment variables related to authentication
@@ -64,6 +79,10 @@ async function run() {
     // GitLab mode - output platform using echo
     console.log(`platform=${platform}`);
     await runGitLab();
+  } else if (platform === "gitea") {
+    // Gitea and Forgejo runners support GitHub's step outputs
+    core.setOutput("platform", platform);
+    await runGitea();
   } else {
     // GitHub mode - use core.setOutput
     core.setOutput("platform", platform);
@@ -75,24 +94,32 @@ async function runGitHub() {
   try {
     // Step 1: Setup GitHub token
     const githubToken = await setupGitHubToken();
-    const octokit = createOctokit(githubToken);
+    const provider = createProvider({
+      platform: "github",
+      token: githubToken,
+    });
 
-    // Step 2: Parse GitHub context (once for all operations)
-    const context = parseGitHubContext();
+    // Step 2: Get the parsed GitHub context (once for all operations)
+    let context = provider.getGitHubContext();
 
     // Step 3: Check write permissions
-    const hasWritePermissions = await checkWritePermissions(
-      octokit.rest,
-      context,
-    );
-    if (!hasWritePermissions) {
+    if (!(await provider.hasWritePermission(context.actor))) {
       throw new Error(
         "Actor does not have write permissions to the repository",
       );
     }
 
-    // Step 4: Get mode and check trigger conditions
-    const mode = getMode(context.inputs.mode);
+    // Step 4: Get mode and check trigger conditions. Custom modes are only
+    // read from the repository when the workflow selects one.
+    if (!isBuiltInMode(context.inputs.mode)) {
+      const customModes = await loadRepositoryModes(
+        process.env.GITHUB_WORKSPACE || process.cwd(),
+      );
+      console.log(
+        `Loaded custom modes: ${customModes.map((m) => m.name).join(", ")}`,
+      );
+    }
+    let mode = getMode(context.inputs.mode);
     const containsTrigger = mode.shouldTrigger(context);
 
     // Set output for action.yml to check
@@ -104,35 +131,79 @@ async function runGitHub() {
     }
 
     // Step 5: Check if actor is human
-    await checkHumanActor(octokit.rest, context);
+    // Agent mode runs a prompt from the workflow file, so the actor may be a bot (e.g. on push)
+    if (mode.name !== "agent") {
+      await provider.isHumanActor(context.actor);
+    }
+
+    // Step 5b: Route slash commands (e.g. `@claude /review`) to their mode, prompt and tools
+    if (mode.name === "tag") {
+      const parsedCommand = parseTriggerCommand(context);
+      const route =
+        parsedCommand &&
+        routeCommand(parsedCommand, {
+          triggerPhrase: context.inputs.triggerPhrase,
+          isPR: context.isPR,
+        });
+
+      if (route?.type === "reply") {
+        await provider.createComment(route.body);
+        core.setOutput("contains_trigger", "false");
+        console.log(
+          `Replied to /${route.command.name}, skipping remaining steps`,
+        );
+        return;
+      }
+
+      if (route?.type === "run") {
+        console.log(`Running /${route.command.name} in ${route.mode} mode`);
+        context = {
+          ...context,
+          inputs: {
+            ...context.inputs,
+            mode: route.mode,
+            directPrompt: route.prompt ?? context.inputs.directPrompt,
+            allowedTools: [
+              ...context.inputs.allowedTools,
+              ...route.allowedTools,
+            ],
+            disallowedTools: [
+              ...context.inputs.disallowedTools,
+              ...route.disallowedTools,
+            ],
+          },
+        };
+        mode = getMode(route.mode);
+      }
+    }
 
     // Step 6: Create initial tracking comment (mode-aware)
-    // Some modes (e.g., future review/freeform modes) may not need tracking comments
+    // Some modes (e.g., review and agent modes) do not need tracking comments
     let commentId: number | undefined;
-    let commentData:
-      | Awaited<ReturnType<typeof createInitialComment>>
-      | undefined;
     if (mode.shouldCreateTrackingComment()) {
-      commentData = await createInitialComment(octokit.rest, context);
-      commentId = commentData.id;
+      commentId = await provider.createTrackingComment();
     }
 
     // Step 7: Fetch GitHub data (once for both branch setup and prompt creation)
-    const githubData = await fetchGitHubData({
-      octokits: octokit,
-      repository: `${context.repository.owner}/${context.repository.repo}`,
-      prNumber: context.entityNumber.toString(),
-      isPR: context.isPR,
-      triggerUsername: context.actor,
-    });
+    // Events without an issue or PR (only possible in agent mode) have no data to fetch
+    const githubData = context.entityNumber
+      ? await provider.fetchContextData()
+      : undefined;
 
     // Step 8: Setup branch
-    const branchInfo = await setupBranch(octokit, githubData, context);
+    const branchInfo = await provider.setupBranch(githubData);
+
+    // Agent mode reports the files changed during the run, so remember where it started
+    if (mode.name === "agent") {
+      const startSha = await $`git rev-parse HEAD`.quiet();
+      core.setOutput("START_SHA", startSha.stdout.toString().trim());
+      core.setOutput("CURRENT_BRANCH", branchInfo.currentBranch);
+    }
 
     // Step 9: Configure git authentication if not using commit signing
     if (!context.inputs.useCommitSigning) {
       try {
-        await configureGitAuth(githubToken, context, commentData?.user || null);
+        await provider.setupGitAuth(githubToken);
       } catch (error) {
         console.error("Failed to configure git authentication:", error);
         throw error;
@@ -186,6 +257,9 @@ async function runGitLab() {
     // In GitLab CI, we only use environment variables
     const triggerPhrase = process.env.TRIGGER_PHRASE || "@claude";
     const directPrompt = process.env.DIRECT_PROMPT || "";
+    let isReviewMode = process.env.MODE === "review";
+    // Task for Claude; slash commands replace it with their own prompt
+    let taskPrompt = directPrompt;
 
     // Step 3: Create provider instance
     provider = createProvider({
@@ -221,10 +295,13 @@ async function runGitLab() {
     console.log("Step 5: Checking trigger conditions...");
     let containsTrigger: boolean;
     try {
-      containsTrigger = await provider.checkTrigger(
-        triggerPhrase,
-        directPrompt,
-      );
+      containsTrigger = isReviewMode
+        ? context.isPR &&
+          checkContainsReviewTrigger(
+            parseGitLabWebhookPayload(),
+            process.env.CI_PIPELINE_SOURCE,
+          )
+        : await provider.checkTrigger(triggerPhrase, directPrompt);
       console.log(`Trigger check result: ${containsTrigger}`);
     } catch (error) {
       console.error("Error checking trigger:", error);
@@ -260,49 +337,74 @@ async function runGitLab() {
       );
     }
 
-    // Step 7: Create initial tracking comment
-    console.log("Step 7: Creating initial tracking comment...");
-    const jobUrl = provider.getJobUrl();
-    const commentBody = `🤖 Claude is working on this...
+    // Step 6b: Route slash commands (e.g. `@claude /review`) to their mode, prompt and tools
+    if (!process.env.MODE || process.env.MODE === "tag") {
+      const parsedCommand = parseGitLabTriggerCommand(
+        parseGitLabContextPayload(),
+        triggerPhrase,
+      );
+      const route =
+        parsedCommand &&
+        routeCommand(parsedCommand, { triggerPhrase, isPR: context.isPR });
+
+      if (route?.type === "reply") {
+        await provider.createComment(route.body);
+        console.log(
+          `Replied to /${route.command.name}, skipping remaining steps`,
+        );
+        return;
+      }
 
-[View job details](${jobUrl})
+      if (route?.type === "run") {
+        console.log(`Running /${route.command.name} in ${route.mode} mode`);
+        isReviewMode = route.mode === "review";
+        taskPrompt = route.prompt ?? taskPrompt;
+
+        // The entrypoint picks up the mode and tools for the execute phase
+        writeCommandRoute({
+          mode: route.mode,
+          allowedTools: route.allowedTools,
+          disallowedTools: route.disallowedTools,
+        });
+      }
+    }
 
----
-- [ ] Setting up workspace
-- [ ] Analyzing request  
-- [ ] Implementing changes
-- [ ] Running tests`;
+    // Step 7: Create initial tracking comment (review mode posts a review instead)
+    if (isReviewMode) {
+      console.log("Step 7: Skipping tracking comment in review mode");
+    } else {
+      console.log("Step 7: Creating initial tracking comment...");
+      let commentId: number;
+      try {
+        commentId = await provider.createTrackingComment();
+        console.log(`Created comment with ID: ${commentId}`);
+      } catch (error) {
+        console.error("Error creating comment:", error);
+        throw new Error(
+          `Failed to create comment: ${error instanceof Error ? error.message : error}`,
+        );
+      }
 
-    let commentId: number;
-    try {
-      commentId = await provider.createComment(commentBody);
-      console.log(`Created comment with ID: ${commentId}`);
-    } catch (error) {
-      console.error("Error creating comment:", error);
-      throw new Error(
-        `Failed to create comment: ${error instanceof Error ? error.message : error}`,
-      );
-    }
+      // Output comment ID for later use
+      if (process.env.GITHUB_OUTPUT) {
+        const fs = await import("fs");
+        fs.appendFileSync(
+          process.env.GITHUB_OUTPUT,
+          `claude_comment_id=${commentId}\n`,
+        );
+      }
 
-    // Output comment ID for later use
-    if (process.env.GITHUB_OUTPUT) {
-      const fs = await import("fs");
-      fs.appendFileSync(
-        process.env.GITHUB_OUTPUT,
-        `claude_comment_id=${commentId}\n`,
+      // Also set as environment variable for GitLab
+      process.env.CLAUDE_COMMENT_ID = commentId.toString();
+
+      // For GitLab, write to a file that can be read by the parent process
+      const fileSystem = await import("fs");
+      fileSystem.writeFileSync(
+        "/tmp/claude-comment-id.txt",
+        commentId.toString(),
       );
     }
 
-    // Also set as environment variable for GitLab
-    process.env.CLAUDE_COMMENT_ID = commentId.toString();
-
-    // For GitLab, write to a file that can be read by the parent process
-    const fileSystem = await import("fs");
-    fileSystem.writeFileSync(
-      "/tmp/claude-comment-id.txt",
-      commentId.toString(),
-    );
-
     // Step 8: GitLab-specific setup
     console.log("Step 8: GitLab-specific setup - creating prompt for Claude");
 
@@ -337,6 +439,24 @@ async function runGitLab() {
       );
     }
 
+    // Summarize the latest MR pipeline so CI failures can be fixed directly.
+    // The prompt leaves the section out when no pipeline has run or GitLab
+    // can't return the summary.
+    let pipelineStatus: string | undefined;
+    if (context.isPR && !isReviewMode && provider.getPipelineSummary) {
+      try {
+        const summary = await provider.getPipelineSummary();
+        if (summary) {
+          pipelineStatus = formatPipelineSummary(summary);
+        }
+      } catch (error) {
+        if (!isGitLabApiError(error)) {
+          throw error;
+        }
+        console.warn("Failed to fetch pipeline status:", error);
+      }
+    }
+
     // Create prompt directory
     const promptDir = getClaudePromptsDirectory();
 
@@ -366,7 +486,9 @@ async function runGitLab() {
     // Generate prompt based on context
     let prompt = "";
 
-    if (context.isPR && contextData.iid) {
+    if (isReviewMode && context.isPR && contextData.iid) {
+      prompt = generateGitLabReviewPrompt(contextData, taskPrompt);
+    } else if (context.isPR && contextData.iid) {
       // Merge request context
       prompt = `You are Claude, an AI assistant helping with GitLab merge requests.
 
@@ -414,11 +536,11 @@ ${note.body}
     : "No existing comments"
 }
 
-## Your Task
+${pipelineStatus ? `## Pipeline Status\n\n${pipelineStatus}\n\n` : ""}## Your Task
 
 ${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}
 
-${directPrompt || "Please analyze this merge request and provide feedback on code quality, potential issues, and suggestions for improvement."}
+${taskPrompt || "Please analyze this merge request and provide feedback on code quality, potential issues, and suggestions for improvement."}
 
 When providing feedback, be specific and reference exact line numbers and file paths.`;
     } else if (contextData.iid && contextData.state) {
@@ -457,7 +579,7 @@ ${note.body}
 
 ${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}
 
-${directPrompt || "Please analyze this issue and help with the requested task."}
+${taskPrompt || "Please analyze this issue and help with the requested task."}
 
 When providing assistance, be specific and reference the issue context.`;
     } else {
@@ -474,7 +596,7 @@ When providing assistance, be specific and reference the issue context.`;
 
 ${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}
 
-${directPrompt || "Please help with the requested task."}`;
+${taskPrompt || "Please help with the requested task."}`;
     }
 
     // Write prompt file
@@ -513,6 +635,130 @@ ${directPrompt || "Please help with the requested task."}`;
   }
 }
 
+async function runGitea() {
+  try {
+    console.log("Running in Gitea mode");
+
+    const token = getToken();
+    core.setOutput("GITHUB_TOKEN", token);
+
+    const triggerPhrase = process.env.TRIGGER_PHRASE || "@claude";
+    const directPrompt = process.env.DIRECT_PROMPT || "";
+    // Task for Claude; slash commands replace it with their own prompt
+    let taskPrompt = directPrompt;
+    let allowedTools = (process.env.ALLOWED_TOOLS || "")
+      .split(",")
+      .map((tool) => tool.trim())
+      .filter(Boolean);
+    let disallowedTools = (process.env.DISALLOWED_TOOLS || "")
+      .split(",")
+      .map((tool) => tool.trim())
+      .filter(Boolean);
+
+    const provider = createProvider({
+      platform: "gitea",
+      token,
+      triggerPhrase,
+      directPrompt,
+    });
+
+    // Step 1: Check write permissions
+    const context = provider.getContext();
+    console.log(`Checking permissions for actor: ${context.actor}`);
+    if (!(await provider.hasWritePermission(context.actor))) {
+      throw new Error(
+        "Actor does not have write permissions to the repository",
+      );
+    }
+
+    // Step 2: Check trigger conditions
+    const containsTrigger = await provider.checkTrigger(
+      triggerPhrase,
+      directPrompt,
+    );
+    core.setOutput("contains_trigger", containsTrigger.toString());
+    if (!containsTrigger) {
+      console.log("No trigger found, skipping remaining steps");
+      return;
+    }
+
+    // Step 3: Check if actor is human (skip for direct prompts)
+    if (!directPrompt && !(await provider.isHumanActor(context.actor))) {
+      throw new Error("Actor is not a human user");
+    }
+
+    // Step 4: Route slash commands (e.g. `@claude /review`) to their prompt and tools
+    const payload = parseGiteaEventPayload();
+    if (!process.env.MODE || process.env.MODE === "tag") {
+      const parsedCommand = parseGiteaTriggerCommand(payload, triggerPhrase);
+      const route =
+        parsedCommand &&
+        routeCommand(parsedCommand, { triggerPhrase, isPR: context.isPR });
+
+      if (route?.type === "reply") {
+        await provider.createComment(route.body);
+        core.setOutput("contains_trigger", "false");
+        console.log(
+          `Replied to /${route.command.name}, skipping remaining steps`,
+        );
+        return;
+      }
+
+      if (route?.type === "run") {
+        console.log(`Running /${route.command.name} in ${route.mode} mode`);
+        taskPrompt = route.prompt ?? taskPrompt;
+        allowedTools = [...allowedTools, ...route.allowedTools];
+        disallowedTools = [...disallowedTools, ...route.disallowedTools];
+      }
+    }
+
+    // Step 5: Create initial tracking comment
+    // The update step reports failures from here on in this comment
+    if (context.entityNumber) {
+      const commentId = await provider.createTrackingComment();
+      console.log(`Created tracking comment with ID: ${commentId}`);
+      core.setOutput("claude_comment_id", commentId.toString());
+    }
+
+    // Step 6: Check out the branch to work on and configure git
+    const branchInfo = await setupGiteaBranch(provider);
+    core.setOutput("BASE_BRANCH", branchInfo.baseBranch);
+    core.setOutput("CURRENT_BRANCH", branchInfo.currentBranch);
+    if (branchInfo.claudeBranch) {
+      core.setOutput("CLAUDE_BRANCH", branchInfo.claudeBranch);
+    }
+    const startSha = await $`git rev-parse HEAD`.quiet();
+    core.setOutput("START_SHA", startSha.stdout.toString().trim());
+
+    await provider.setupGitAuth(token);
+
+    // Step 7: Create prompt file
+    const contextData = await provider.fetchContextData();
+    const triggerComment =
+      getEventCommentText(payload) ?? getEventEntity(payload)?.body ?? "";
+    const fs = await import("fs");
+    await fs.promises.writeFile(
+      `${getClaudePromptsDirectory()}/claude-prompt.txt`,
+      generateGiteaPrompt(contextData, triggerComment, taskPrompt),
+    );
+    console.log("✅ Created prompt file for Claude");
+
+    core.exportVariable("ALLOWED_TOOLS", buildAllowedToolsString(allowedTools));
+    core.exportVariable(
+      "DISALLOWED_TOOLS",
+      buildDisallowedToolsString(disallowedTools, allowedTools),
+    );
+
+    // The GitHub MCP servers don't work against the Gitea API
+    core.setOutput("mcp_config", "");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.setFailed(`Prepare step failed with error: ${errorMessage}`);
+    core.setOutput("prepare_error", errorMessage);
+    process.exit(1);
+  }
+}
+
 if (import.meta.main) {
   run();
 }
@@ -0,0 +1,135 @@
+#!/usr/bin/env bun
+
+/**
+ * Pushes Claude's changes and writes the final result into the tracking
+ * comment on Gitea and Forgejo. Claude has no comment tool there, so the
+ * comment shows the result message from the execution output.
+ */
+
+import { $ } from "bun";
+import * as fs from "fs/promises";
+import {
+  BUDGET_EXCEEDED_SUBTYPE,
+  updateCommentBody,
+} from "../github/operations/comment-logic";
+import { createProvider, getToken } from "../providers/provider-factory";
+
+// base-action leaves its raw output in the working directory
+const BASE_ACTION_OUTPUT = ":(exclude)output.txt";
+
+/**
+ * Commits whatever Claude left uncommitted and pushes everything committed
+ * since the run started
+ * @returns Whether anything was pushed
+ */
+async function pushChanges(branch: string, startSha: string): Promise<boolean> {
+  const status = (
+    await $`git status --porcelain -- . ${BASE_ACTION_OUTPUT}`.quiet()
+  ).stdout
+    .toString()
+    .trim();
+  if (status) {
+    console.log("Files changed:");
+    console.log(status);
+    await $`git add -A -- . ${BASE_ACTION_OUTPUT}`.quiet();
+    await $`git commit -m ${"Apply Claude's changes"}`.quiet();
+  }
+
+  const commits = (
+    await $`git rev-list --count ${startSha}..HEAD`.quiet()
+  ).stdout
+    .toString()
+    .trim();
+  if (commits === "0") {
+    console.log("No changes to push");
+    return false;
+  }
+
+  await $`git push origin HEAD:${branch}`.quiet();
+  console.log(`✅ Pushed ${commits} commit(s) to ${branch}`);
+  return true;
+}
+
+/**
+ * Reads the result message from the execution file written by base-action
+ */
+async function readExecutionResult(): Promise<Record<string, any> | undefined> {
+  const outputFile = process.env.OUTPUT_FILE;
+  if (!outputFile) {
+    return undefined;
+  }
+  try {
+    const messages = JSON.parse(await fs.readFile(outputFile, "utf8"));
+    return Array.isArray(messages)
+      ? messages.findLast((message) => message.type === "result")
+      : undefined;
+  } catch (error) {
+    console.error("Error reading output file:", error);
+    return undefined;
+  }
+}
+
+export async function run() {
+  try {
+    const commentId = parseInt(process.env.CLAUDE_COMMENT_ID!);
+    const claudeBranch = process.env.CLAUDE_BRANCH;
+    const currentBranch = process.env.CURRENT_BRANCH;
+    const baseBranch = process.env.BASE_BRANCH || "main";
+    const startSha = process.env.START_SHA;
+    const prepareSuccess = process.env.PREPARE_SUCCESS !== "false";
+
+    const provider = createProvider({
+      platform: "gitea",
+      token: getToken(),
+    });
+
+    let pushed = false;
+    if (prepareSuccess && currentBranch && startSha) {
+      try {
+        pushed = await pushChanges(currentBranch, startSha);
+      } catch (error) {
+        console.error("Error pushing changes:", error);
+      }
+    }
+
+    const comment = (await provider.getComments()).find(
+      (note) => note.id === commentId,
+    );
+    const result = prepareSuccess ? await readExecutionResult() : undefined;
+    const resultText = typeof result?.result === "string" ? result.result : "";
+
+    const body = updateCommentBody({
+      currentBody: resultText || comment?.body || "",
+      actionFailed: !prepareSuccess || process.env.CLAUDE_SUCCESS === "false",
+      executionDetails: result
+        ? { cost_usd: result.cost_usd, duration_ms: result.duration_ms }
+        : null,
+      jobUrl: provider.getJobUrl(),
+      branchLink:
+        pushed && currentBranch
+          ? `\n[View branch](${provider.getBranchUrl(currentBranch)})`
+          : undefined,
+      // Only branches created for issues still need a pull request
+      prLink:
+        pushed && claudeBranch
+          ? `\n[Create a PR](${provider.getCompareUrl(baseBranch, claudeBranch)})`
+          : undefined,
+      branchName: pushed ? currentBranch : undefined,
+      triggerUsername: process.env.TRIGGER_USERNAME,
+      errorDetails: prepareSuccess ? undefined : process.env.PREPARE_ERROR,
+      budgetExceeded:
+        result?.subtype === BUDGET_EXCEEDED_SUBTYPE ? resultText : undefined,
+    });
+
+    await provider.updateComment(commentId, body);
+    console.log(`✅ Updated comment ${commentId}`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Error updating Gitea comment:", error);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  run();
+}
@@ -2,9 +2,10 @@
 
 import * as core from "@actions/core";
 import * as fs from "fs/promises";
-import { Gitlab } from "@gitbeaker/rest";
 import type { SDKMessage } from "@anthropic-ai/claude-code";
-import type { GitLabNote } from "../types/gitbeaker";
+import { createProvider, getToken } from "../providers/provider-factory";
+import { BUDGET_EXCEEDED_SUBTYPE } from "../github/operations/comment-logic";
+import { stripProgress } from "../github/operations/comments/progress";
 
 /**
  * Parses the execution output file from the Claude Code SDK.
@@ -13,6 +14,7 @@ import type { GitLabNote } from "../types/gitbeaker";
 async function getExecutionDetails(outputFile?: string): Promise<{
   cost_usd?: number;
   duration_ms?: number;
+  budget_exceeded?: string;
 } | null> {
   if (!outputFile) {
     console.log("No output file provided, skipping execution details");
@@ -81,6 +83,10 @@ async function getExecutionDetails(outputFile?: string): Promise<{
       return {
         cost_usd: result.cost_usd as number,
         duration_ms: result.duration_ms as number,
+        budget_exceeded:
+          (result.subtype as string) === BUDGET_EXCEEDED_SUBTYPE
+            ? ((result as { result?: string }).result ?? "Budget exhausted")
+            : undefined,
       };
     }
   } catch (error) {
@@ -99,13 +105,20 @@ function formatGitLabCommentBody(
   success: boolean,
   jobUrl: string,
   errorDetails?: string,
-  executionDetails?: { cost_usd?: number; duration_ms?: number } | null,
+  executionDetails?: {
+    cost_usd?: number;
+    duration_ms?: number;
+    budget_exceeded?: string;
+  } | null,
 ): string {
-  const statusMessage = success
-    ? "✅ Claude's work is complete"
-    : "❌ Claude's work failed";
-
-  let finalBody = initialBody.replace(
+  const budgetExceeded = executionDetails?.budget_exceeded;
+  const statusMessage = budgetExceeded
+    ? "⛔ Claude stopped: budget exhausted"
+    : success
+      ? "✅ Claude's work is complete"
+      : "❌ Claude's work failed";
+
+  let finalBody = stripProgress(initialBody).replace(
     /🤖 Claude is working on this\.\.\./,
     statusMessage,
   );
@@ -122,6 +135,10 @@ function formatGitLabCommentBody(
     finalBody += `\n\n**Error:** \`${errorDetails}\``;
   }
 
+  if (budgetExceeded) {
+    finalBody += `\n\n**Budget exhausted:** ${budgetExceeded}. The work may be incomplete.`;
+  }
+
   if (executionDetails) {
     const durationSec = (executionDetails.duration_ms ?? 0) / 1000;
     const cost = executionDetails.cost_usd?.toFixed(4) ?? "0.0000";
@@ -133,7 +150,7 @@ function formatGitLabCommentBody(
   return finalBody;
 }
 
-async function run() {
+export async function run() {
   try {
     const commentId = parseInt(process.env.CLAUDE_COMMENT_ID!);
     if (isNaN(commentId)) {
@@ -145,10 +162,6 @@ async function run() {
     const mrIid = process.env.CI_MERGE_REQUEST_IID;
     const issueIid = process.env.CI_ISSUE_IID || process.env.CLAUDE_RESOURCE_ID;
     const gitlabHost = process.env.CI_SERVER_URL || "https://gitlab.com";
-    const gitlabToken =
-      process.env.CLAUDE_CODE_GL_ACCESS_TOKEN ||
-      process.env.CLAUDE_CODE_OAUTH_TOKEN ||
-      process.env.GITLAB_TOKEN;
 
     // Debug: Print environment variables
     console.log("GitLab context:");
@@ -157,7 +170,6 @@ async function run() {
     console.log(`  Issue IID: ${issueIid || "NOT SET"}`);
     console.log(`  Comment ID: ${commentId}`);
     console.log(`  GitLab Host: ${gitlabHost}`);
-    console.log(`  Token available: ${!!gitlabToken}`);
 
     if (!projectId) {
       throw new Error("CI_PROJECT_ID is required but not set");
@@ -167,14 +179,10 @@ async function run() {
       throw new Error(`Neither CI_MERGE_REQUEST_IID nor CI_ISSUE_IID is set. CLAUDE_RESOURCE_ID: ${process.env.CLAUDE_RESOURCE_ID}`);
     }
     
-    if (!gitlabToken) {
-      throw new Error("GitLab token is required but not set (check CLAUDE_CODE_GL_ACCESS_TOKEN, CLAUDE_CODE_OAUTH_TOKEN, or GITLAB_TOKEN)");
-    }
-
-    // Initialize GitLab API
-    const api = new Gitlab({
-      host: gitlabHost,
-      token: gitlabToken,
+    // The provider reads the merge request or issue from the same variables
+    const provider = createProvider({
+      platform: "gitlab",
+      token: getToken(),
     });
 
     // Determine overall success/failure state
@@ -188,31 +196,10 @@ async function run() {
 
     // Fetch the original comment
     try {
-      let notes: GitLabNote[];
-      let resourceType: string;
-      let resourceIid: number;
-
-      if (mrIid) {
-        // Merge request context
-        console.log(`Fetching notes for MR ${mrIid} in project ${projectId}...`);
-        notes = (await api.MergeRequestNotes.all(
-          projectId,
-          parseInt(mrIid),
-        )) as unknown as GitLabNote[];
-        resourceType = "merge request";
-        resourceIid = parseInt(mrIid);
-      } else if (issueIid) {
-        // Issue context
-        console.log(`Fetching notes for issue ${issueIid} in project ${projectId}...`);
-        notes = (await api.IssueNotes.all(
-          projectId,
-          parseInt(issueIid),
-        )) as unknown as GitLabNote[];
-        resourceType = "issue";
-        resourceIid = parseInt(issueIid);
-      } else {
-        throw new Error("No merge request or issue context found");
-      }
+      const resourceType = mrIid ? "merge request" : "issue";
+      const resourceIid = mrIid || issueIid;
+      console.log(`Fetching notes for ${resourceType} ${resourceIid} in project ${projectId}...`);
+      const notes = await provider.getComments();
 
       console.log(`Found ${notes.length} notes, looking for comment ID ${commentId}...`);
 
@@ -242,15 +229,7 @@ async function run() {
 
       // Update the comment
       console.log(`Updating ${resourceType} note ${commentId}...`);
-      if (mrIid) {
-        await api.MergeRequestNotes.edit(projectId, resourceIid, commentId, {
-          body: updatedBody,
-        });
-      } else {
-        await api.IssueNotes.edit(projectId, resourceIid, commentId, {
-          body: updatedBody,
-        });
-      }
+      await provider.updateComment(commentId, updatedBody);
 
       console.log(`✅ Updated GitLab ${resourceType} note ${commentId}.`);
     } catch (error) {
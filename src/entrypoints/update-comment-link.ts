@@ -1,20 +1,16 @@
 #!/usr/bin/env bun
 
-import { createOctokit } from "../github/api/client";
 import * as fs from "fs/promises";
 import {
+  BUDGET_EXCEEDED_SUBTYPE,
   updateCommentBody,
   type CommentUpdateInput,
 } from "../github/operations/comment-logic";
-import {
-  parseGitHubContext,
-  isPullRequestReviewCommentEvent,
-} from "../github/context";
+import { isPullRequestReviewCommentEvent } from "../github/context";
 import { GITHUB_SERVER_URL } from "../github/api/config";
-import { checkAndCommitOrDeleteBranch } from "../github/operations/branch-cleanup";
-import { updateClaudeComment } from "../github/operations/comments/update-claude-comment";
+import { createProvider } from "../providers/provider-factory";
 
-async function run() {
+export async function run() {
   try {
     const commentId = parseInt(process.env.CLAUDE_COMMENT_ID!);
     const githubToken = process.env.GITHUB_TOKEN!;
@@ -22,44 +18,22 @@ async function run() {
     const baseBranch = process.env.BASE_BRANCH || "main";
     const triggerUsername = process.env.TRIGGER_USERNAME;
 
-    const context = parseGitHubContext();
+    const provider = createProvider({ platform: "github", token: githubToken });
+    const context = provider.getGitHubContext();
     const { owner, repo } = context.repository;
-    const octokit = createOctokit(githubToken);
 
     const serverUrl = GITHUB_SERVER_URL;
     const jobUrl = `${serverUrl}/${owner}/${repo}/actions/runs/${process.env.GITHUB_RUN_ID}`;
 
+    // GitHub has separate ID namespaces for review comments and issue comments,
+    // and the provider picks the API from the event type
+    const isPRReviewComment = isPullRequestReviewCommentEvent(context);
     let comment;
-    let isPRReviewComment = false;
-
     try {
-      // GitHub has separate ID namespaces for review comments and issue comments
-      // We need to use the correct API based on the event type
-      if (isPullRequestReviewCommentEvent(context)) {
-        // For PR review comments, use the pulls API
-        console.log(`Fetching PR review comment ${commentId}`);
-        const { data: prComment } = await octokit.rest.pulls.getReviewComment({
-          owner,
-          repo,
-          comment_id: commentId,
-        });
-        comment = prComment;
-        isPRReviewComment = true;
-        console.log("Successfully fetched as PR review comment");
-      }
-
-      // For all other event types, use the issues API
-      if (!comment) {
-        console.log(`Fetching issue comment ${commentId}`);
-        const { data: issueComment } = await octokit.rest.issues.getComment({
-          owner,
-          repo,
-          comment_id: commentId,
-        });
-        comment = issueComment;
-        isPRReviewComment = false;
-        console.log("Successfully fetched as issue comment");
-      }
+      console.log(
+        `Fetching ${isPRReviewComment ? "PR review" : "issue"} comment ${commentId}`,
+      );
+      comment = await provider.getTrackingComment(commentId);
     } catch (finalError) {
       // If all attempts fail, try to determine more information about the comment
       console.error("Failed to fetch comment. Debug info:");
@@ -69,35 +43,25 @@ async function run() {
       console.error(`Repository: ${context.repository.full_name}`);
 
       // Try to get the PR info to understand the comment structure
-      try {
-        const { data: pr } = await octokit.rest.pulls.get({
-          owner,
-          repo,
-          pull_number: context.entityNumber,
-        });
-        console.log(`PR state: ${pr.state}`);
-        console.log(`PR comments count: ${pr.comments}`);
-        console.log(`PR review comments count: ${pr.review_comments}`);
-      } catch {
-        console.error("Could not fetch PR info for debugging");
+      if (context.isPR) {
+        try {
+          const pr = await provider.getPullRequestInfo();
+          console.log(`PR state: ${pr.state}`);
+        } catch {
+          console.error("Could not fetch PR info for debugging");
+        }
       }
 
       throw finalError;
     }
 
-    const currentBody = comment.body ?? "";
+    const currentBody = comment.body;
 
     // Check if we need to add branch link for new branches
-    const useCommitSigning = process.env.USE_COMMIT_SIGNING === "true";
-    const { shouldDeleteBranch, branchLink } =
-      await checkAndCommitOrDeleteBranch(
-        octokit,
-        owner,
-        repo,
-        claudeBranch,
-        baseBranch,
-        useCommitSigning,
-      );
+    const { shouldDeleteBranch, branchLink } = await provider.cleanupBranch(
+      claudeBranch,
+      baseBranch,
+    );
 
     // Check if we need to add PR URL when we have a new branch
     let prLink = "";
@@ -113,18 +77,8 @@ async function run() {
       if (!containsPRUrl) {
         // Check if there are changes to the branch compared to the default branch
         try {
-          const { data: comparison } =
-            await octokit.rest.repos.compareCommitsWithBasehead({
-              owner,
-              repo,
-              basehead: `${baseBranch}...${claudeBranch}`,
-            });
-
           // If there are changes (commits or file changes), add the PR URL
-          if (
-            comparison.total_commits > 0 ||
-            (comparison.files && comparison.files.length > 0)
-          ) {
+          if (await provider.hasBranchChanges(claudeBranch, baseBranch)) {
             const entityType = context.isPR ? "PR" : "Issue";
             const prTitle = encodeURIComponent(
               `${entityType} #${context.entityNumber}: Changes from Claude`,
@@ -150,6 +104,7 @@ async function run() {
     } | null = null;
     let actionFailed = false;
     let errorDetails: string | undefined;
+    let budgetExceeded: string | undefined;
 
     // First check if prepare step failed
     const prepareSuccess = process.env.PREPARE_SUCCESS !== "false";
@@ -180,6 +135,12 @@ async function run() {
                 duration_api_ms: lastElement.duration_api_ms,
               };
             }
+            if (
+              lastElement.type === "result" &&
+              lastElement.subtype === BUDGET_EXCEEDED_SUBTYPE
+            ) {
+              budgetExceeded = lastElement.result;
+            }
           }
         }
 
@@ -204,18 +165,13 @@ async function run() {
       branchName: shouldDeleteBranch || !branchLink ? undefined : claudeBranch,
       triggerUsername,
       errorDetails,
+      budgetExceeded,
     };
 
     const updatedBody = updateCommentBody(commentInput);
 
     try {
-      await updateClaudeComment(octokit.rest, {
-        owner,
-        repo,
-        commentId,
-        body: updatedBody,
-        isPullRequestReviewComment: isPRReviewComment,
-      });
+      await provider.updateTrackingComment(commentId, updatedBody);
       console.log(
         `✅ Updated ${isPRReviewComment ? "PR review" : "issue"} comment ${commentId} with job link`,
       );
@@ -234,4 +190,6 @@ async function run() {
   }
 }
 
-run();
+if (import.meta.main) {
+  run();
+}
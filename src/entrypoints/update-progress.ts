@@ -0,0 +1,82 @@
+#!/usr/bin/env bun
+
+/**
+ * Writes Claude's activity log into the tracking comment. base-action runs
+ * this as its progress_command while Claude is working, with
+ * CLAUDE_PROGRESS_FILE pointing to the latest progress summary.
+ */
+
+import { readFile } from "fs/promises";
+import { withCommentLock } from "../github/operations/comments/lock";
+import {
+  withProgress,
+  type RunProgress,
+} from "../github/operations/comments/progress";
+import {
+  createProvider,
+  detectPlatform,
+  getToken,
+  type ProviderType,
+} from "../providers/provider-factory";
+
+async function updateGitHubComment(
+  commentId: number,
+  progress: RunProgress,
+): Promise<void> {
+  const provider = createProvider({
+    platform: "github",
+    token: process.env.GITHUB_TOKEN!,
+  });
+  const comment = await provider.getTrackingComment(commentId);
+  await provider.updateTrackingComment(
+    commentId,
+    withProgress(comment.body, progress),
+  );
+}
+
+async function updateProviderComment(
+  platform: ProviderType,
+  commentId: number,
+  progress: RunProgress,
+): Promise<void> {
+  const provider = createProvider({ platform, token: getToken() });
+  const comment = (await provider.getComments()).find(
+    (note) => note.id === commentId,
+  );
+  if (!comment) {
+    throw new Error(`Could not find ${platform} comment ${commentId}`);
+  }
+  await provider.updateComment(commentId, withProgress(comment.body, progress));
+}
+
+async function run() {
+  try {
+    const progressFile = process.env.CLAUDE_PROGRESS_FILE;
+    const commentId = parseInt(process.env.CLAUDE_COMMENT_ID || "", 10);
+    if (!progressFile) {
+      throw new Error("CLAUDE_PROGRESS_FILE environment variable is required");
+    }
+    if (isNaN(commentId)) {
+      throw new Error("CLAUDE_COMMENT_ID env var is not a valid number.");
+    }
+
+    const progress: RunProgress = JSON.parse(
+      await readFile(progressFile, "utf8"),
+    );
+
+    // Claude's update_claude_comment takes the same lock, so the body read
+    // here is never older than what Claude last wrote
+    const platform = detectPlatform();
+    await withCommentLock(commentId, () =>
+      platform === "github"
+        ? updateGitHubComment(commentId, progress)
+        : updateProviderComment(platform, commentId, progress),
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Error updating progress in tracking comment:", error);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,54 @@
+/**
+ * Minimal Gitea REST client (API v1), also used for Forgejo. Neither ships
+ * an official JS SDK, so this wraps fetch.
+ */
+
+import { RestApiError, RestClient } from "../../utils/rest-client";
+
+// Gitea caps page sizes at MAX_RESPONSE_ITEMS, which defaults to 50
+const PAGE_SIZE = 50;
+
+export class GiteaApiError extends RestApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "GiteaApiError";
+  }
+}
+
+export class GiteaClient extends RestClient {
+  protected readonly apiName = "Gitea";
+
+  constructor(
+    apiUrl: string,
+    private token: string,
+  ) {
+    super(apiUrl);
+  }
+
+  protected get authorization(): string {
+    return `token ${this.token}`;
+  }
+
+  protected createError(message: string, status: number): GiteaApiError {
+    return new GiteaApiError(message, status);
+  }
+
+  /**
+   * Fetches every page of a paginated list, which ends with the first page
+   * that isn't full
+   */
+  async getAll<T>(path: string): Promise<T[]> {
+    const values: T[] = [];
+    const separator = path.includes("?") ? "&" : "?";
+
+    for (let page = 1; ; page++) {
+      const items = await this.get<T[]>(
+        `${path}${separator}page=${page}&limit=${PAGE_SIZE}`,
+      );
+      values.push(...items);
+      if (items.length < PAGE_SIZE) {
+        return values;
+      }
+    }
+  }
+}
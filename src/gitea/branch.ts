@@ -0,0 +1,51 @@
+/**
+ * Gitea Branch Setup
+ *
+ * Checks out the branch Claude works on: the head branch of a pull request,
+ * or a new local branch for an issue. Pushing happens after the run.
+ */
+
+import { $ } from "bun";
+import type { GiteaProvider } from "../providers/gitea-provider";
+
+export type GiteaBranchInfo = {
+  baseBranch: string;
+  claudeBranch?: string; // New branch for issues, pushed only if Claude changes something
+  currentBranch: string;
+};
+
+export async function setupGiteaBranch(
+  provider: GiteaProvider,
+): Promise<GiteaBranchInfo> {
+  const { isPR, entityNumber } = provider.getContext();
+
+  // Workflows for pull request events check out a merge ref, and comment
+  // events the default branch, so check out the head branch to push to it
+  if (isPR) {
+    const pr = await provider.getPullRequestInfo();
+    await $`git fetch origin ${pr.headBranch}`.quiet();
+    await $`git checkout -B ${pr.headBranch} origin/${pr.headBranch}`.quiet();
+    console.log(`Checked out pull request branch: ${pr.headBranch}`);
+    return { baseBranch: pr.baseBranch, currentBranch: pr.headBranch };
+  }
+
+  const baseBranch =
+    process.env.BASE_BRANCH || (await provider.getRepoInfo()).defaultBranch;
+  const branchPrefix = process.env.BRANCH_PREFIX || "claude/";
+  const now = new Date();
+  const timestamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}-${String(now.getHours()).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}`;
+  const claudeBranch = (
+    entityNumber
+      ? `${branchPrefix}issue-${entityNumber}-${timestamp}`
+      : `${branchPrefix}run-${timestamp}`
+  )
+    .toLowerCase()
+    .substring(0, 50);
+
+  await $`git fetch origin ${baseBranch} --depth=1`.quiet();
+  await $`git checkout ${baseBranch}`.quiet();
+  await $`git checkout -b ${claudeBranch}`.quiet();
+  console.log(`Created local branch ${claudeBranch} from ${baseBranch}`);
+
+  return { baseBranch, claudeBranch, currentBranch: claudeBranch };
+}
@@ -0,0 +1,146 @@
+/**
+ * Gitea Context Parser
+ *
+ * Gitea and Forgejo Actions run GitHub-style workflows and set the same
+ * GITHUB_* variables, but their API lives under /api/v1 of the server and
+ * their event payloads only roughly follow GitHub's.
+ */
+
+import { readFileSync } from "fs";
+
+export interface ParsedGiteaContext {
+  serverUrl: string;
+  apiUrl: string;
+  owner: string;
+  repo: string;
+  entityNumber?: number; // Issue or pull request number
+  isPR: boolean;
+  runId?: string;
+  runNumber?: string;
+  actor: string;
+  eventName: string;
+}
+
+/**
+ * Whether the job runs on a Gitea or Forgejo Actions runner. Both runners
+ * also set GITHUB_ACTIONS=true, so this has to be checked first.
+ */
+export function isGiteaActions(): boolean {
+  return (
+    process.env.GITEA_ACTIONS === "true" ||
+    process.env.FORGEJO_ACTIONS === "true" ||
+    !!process.env.GITEA_ACTIONS_RUNNER_VERSION
+  );
+}
+
+/**
+ * Gitea event payload for trigger detection (GITHUB_EVENT_PATH)
+ */
+export interface GiteaEventPayload {
+  action?: string;
+  issue?: {
+    number: number;
+    title?: string;
+    body?: string;
+    pull_request?: object | null; // Set when the issue is a pull request
+  };
+  pull_request?: {
+    number: number;
+    title?: string;
+    body?: string;
+  };
+  comment?: {
+    id: number;
+    body?: string;
+    user?: { login: string };
+  };
+  review?: {
+    body?: string;
+  };
+  sender?: { login: string };
+  repository?: { full_name?: string };
+}
+
+export function parseGiteaEventPayload(): GiteaEventPayload | null {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(eventPath, "utf8"));
+  } catch (error) {
+    console.error("Failed to parse Gitea event payload:", error);
+    return null;
+  }
+}
+
+export function parseGiteaContext(
+  opts: {
+    owner?: string;
+    repo?: string;
+    serverUrl?: string;
+    entityNumber?: number;
+    isPR?: boolean;
+  } = {},
+): ParsedGiteaContext {
+  const payload = parseGiteaEventPayload();
+
+  // Use provided options or fall back to environment variables
+  const repository =
+    process.env.GITHUB_REPOSITORY ?? process.env.GITEA_REPOSITORY ?? "";
+  const [envOwner, envRepo] = repository.split("/");
+  const owner = opts.owner ?? envOwner;
+  const repo = opts.repo ?? envRepo;
+  const serverUrl = (
+    opts.serverUrl ??
+    process.env.GITHUB_SERVER_URL ??
+    process.env.GITEA_SERVER_URL ??
+    ""
+  ).replace(/\/+$/, "");
+
+  if (!owner || !repo) {
+    throw new Error("Gitea repository must be in format owner/repo");
+  }
+  if (!serverUrl) {
+    throw new Error("Gitea server URL is required (GITHUB_SERVER_URL)");
+  }
+
+  const entityNumber =
+    opts.entityNumber ??
+    payload?.pull_request?.number ??
+    payload?.issue?.number;
+  const isPR =
+    opts.isPR ?? (!!payload?.pull_request || !!payload?.issue?.pull_request);
+
+  return {
+    serverUrl,
+    apiUrl: `${serverUrl}/api/v1`,
+    owner,
+    repo,
+    entityNumber,
+    isPR,
+    runId: process.env.GITHUB_RUN_ID,
+    runNumber: process.env.GITHUB_RUN_NUMBER,
+    actor: process.env.GITHUB_ACTOR ?? payload?.sender?.login ?? "",
+    eventName: process.env.GITHUB_EVENT_NAME ?? "",
+  };
+}
+
+/**
+ * The text of the comment or review that triggered the event, if any
+ */
+export function getEventCommentText(
+  payload: GiteaEventPayload | null,
+): string | undefined {
+  return payload?.comment?.body ?? payload?.review?.body;
+}
+
+/**
+ * The issue or pull request the event is about
+ */
+export function getEventEntity(
+  payload: GiteaEventPayload | null,
+): { number: number; title?: string; body?: string } | undefined {
+  return payload?.pull_request ?? payload?.issue;
+}
@@ -0,0 +1,138 @@
+/**
+ * Gitea Prompt
+ *
+ * Builds Claude's prompt from the data returned by
+ * GiteaProvider.fetchContextData()
+ */
+
+import type {
+  CommentInfo,
+  FileChange,
+  PullRequestInfo,
+} from "../providers/scm-provider";
+
+export type GiteaRepositoryData = {
+  owner: string;
+  repo: string;
+  serverUrl: string;
+};
+
+export type GiteaIssueData = GiteaRepositoryData & {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  author: string;
+  labels: string[];
+  webUrl: string;
+  comments: CommentInfo[];
+};
+
+export type GiteaPullRequestData = GiteaRepositoryData &
+  PullRequestInfo & {
+    webUrl: string;
+    comments: CommentInfo[];
+    changes: FileChange[];
+  };
+
+type GiteaContextData =
+  | GiteaRepositoryData
+  | GiteaIssueData
+  | GiteaPullRequestData;
+
+function formatComments(comments: CommentInfo[]): string {
+  return comments.length > 0
+    ? comments
+        .map(
+          (comment) => `
+**${comment.author}** (${comment.createdAt}):
+${comment.body}
+`,
+        )
+        .join("\n---\n")
+    : "No existing comments";
+}
+
+export function generateGiteaPrompt(
+  data: GiteaContextData,
+  triggerComment: string,
+  taskPrompt: string,
+): string {
+  const task = `## Your Task
+
+${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}`;
+
+  if ("headBranch" in data) {
+    const changes =
+      data.changes
+        .map(
+          (change) => `
+### \`${change.path}\` (+${change.additions} -${change.deletions})
+
+\`\`\`diff
+${change.patch ?? ""}
+\`\`\`
+`,
+        )
+        .join("\n") || "No changes available";
+
+    return `You are Claude, an AI assistant helping with Gitea pull requests.
+
+## Pull Request Context
+
+**Title:** ${data.title}
+**Description:** ${data.body || "No description provided"}
+**Head Branch:** ${data.headBranch} → **Base Branch:** ${data.baseBranch}
+**State:** ${data.state}
+**Author:** @${data.author}
+**Web URL:** ${data.webUrl}
+
+## Code Changes
+
+${changes}
+
+## Existing Comments
+
+${formatComments(data.comments)}
+
+${task}
+
+${taskPrompt || "Please analyze this pull request and provide feedback on code quality, potential issues, and suggestions for improvement."}
+
+When providing feedback, be specific and reference exact line numbers and file paths.`;
+  }
+
+  if ("number" in data) {
+    return `You are Claude, an AI assistant helping with Gitea issues.
+
+## Issue Context
+
+**Title:** ${data.title}
+**Description:** ${data.body || "No description provided"}
+**State:** ${data.state}
+**Author:** @${data.author}
+**Web URL:** ${data.webUrl}
+**Labels:** ${data.labels.join(", ") || "None"}
+
+## Existing Comments
+
+${formatComments(data.comments)}
+
+${task}
+
+${taskPrompt || "Please analyze this issue and help with the requested task."}
+
+When providing assistance, be specific and reference the issue context.`;
+  }
+
+  return `You are Claude, an AI assistant helping with Gitea repositories.
+
+## Repository Context
+
+**Repository:** ${data.owner}/${data.repo}
+**Server:** ${data.serverUrl}
+
+${task}
+
+${taskPrompt || "Please help with the requested task."}`;
+}
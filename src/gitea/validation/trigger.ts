@@ -0,0 +1,86 @@
+/**
+ * Gitea Trigger Validation
+ *
+ * Checks if Gitea and Forgejo events contain the trigger phrase
+ */
+
+import {
+  getEventCommentText,
+  getEventEntity,
+  type GiteaEventPayload,
+} from "../context";
+import { escapeRegExp } from "../../gitlab/validation/trigger";
+import { parseSlashCommand } from "../../commands/router";
+import type { ParsedSlashCommand } from "../../commands/types";
+
+export interface GiteaTriggerContext {
+  payload: GiteaEventPayload | null;
+  triggerPhrase: string;
+  directPrompt?: string;
+}
+
+/**
+ * The texts that may contain the trigger phrase: the comment or review for
+ * comment events, otherwise the issue or pull request body and title
+ */
+function getTriggerTexts(payload: GiteaEventPayload | null): string[] {
+  const comment = getEventCommentText(payload);
+  if (comment !== undefined) {
+    return [comment];
+  }
+  const entity = getEventEntity(payload);
+  return entity ? [entity.body || "", entity.title || ""] : [];
+}
+
+export function checkContainsTrigger(context: GiteaTriggerContext): boolean {
+  const { payload, triggerPhrase, directPrompt } = context;
+
+  // If direct prompt is provided, always trigger
+  if (directPrompt) {
+    console.log("Direct prompt provided, triggering action");
+    return true;
+  }
+
+  if (!payload || typeof payload !== "object") {
+    console.log("Invalid or missing payload");
+    return false;
+  }
+
+  const regex = new RegExp(
+    `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
+    "i",
+  );
+
+  for (const text of getTriggerTexts(payload)) {
+    if (regex.test(text)) {
+      console.log(`Gitea event contains trigger phrase '${triggerPhrase}'`);
+      return true;
+    }
+  }
+
+  console.log(`No trigger phrase '${triggerPhrase}' found in Gitea event`);
+  return false;
+}
+
+/**
+ * Parses a slash command (e.g. `@claude /review`) from the comment, issue or
+ * pull request that contains the trigger phrase
+ */
+export function parseTriggerCommand(
+  payload: GiteaEventPayload | null,
+  triggerPhrase: string,
+): ParsedSlashCommand | null {
+  for (const text of getTriggerTexts(payload)) {
+    const command = parseSlashCommand(text, triggerPhrase);
+    if (command) {
+      return command;
+    }
+  }
+  return null;
+}
+
+export async function checkGiteaTriggerAction(
+  context: GiteaTriggerContext,
+): Promise<boolean> {
+  return checkContainsTrigger(context);
+}
@@ -6,10 +6,16 @@ import type {
   PullRequestEvent,
   PullRequestReviewEvent,
   PullRequestReviewCommentEvent,
+  WorkflowDispatchEvent,
+  RepositoryDispatchEvent,
 } from "@octokit/webhooks-types";
-import type { ModeName } from "../modes/registry";
 import { DEFAULT_MODE } from "../modes/registry";
-import { isValidMode } from "../modes/registry";
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from "../create-prompt/context-budget";
+
+// Scheduled runs are not webhooks, so there is no type for them in @octokit/webhooks-types
+export type ScheduleEvent = {
+  schedule: string;
+};
 
 export type ParsedGitHubContext = {
   runId: string;
@@ -26,11 +32,14 @@ export type ParsedGitHubContext = {
     | IssueCommentEvent
     | PullRequestEvent
     | PullRequestReviewEvent
-    | PullRequestReviewCommentEvent;
+    | PullRequestReviewCommentEvent
+    | WorkflowDispatchEvent
+    | RepositoryDispatchEvent
+    | ScheduleEvent;
   entityNumber: number;
   isPR: boolean;
   inputs: {
-    mode: ModeName;
+    mode: string;
     triggerPhrase: string;
     assigneeTrigger: string;
     labelTrigger: string;
@@ -39,21 +48,21 @@ export type ParsedGitHubContext = {
     customInstructions: string;
     directPrompt: string;
     overridePrompt: string;
+    overridePromptFile: string;
     baseBranch?: string;
     branchPrefix: string;
     useStickyComment: boolean;
     additionalPermissions: Map<string, string>;
     useCommitSigning: boolean;
+    contextTokenBudget: number;
   };
 };
 
 export function parseGitHubContext(): ParsedGitHubContext {
   const context = github.context;
 
-  const modeInput = process.env.MODE ?? DEFAULT_MODE;
-  if (!isValidMode(modeInput)) {
-    throw new Error(`Invalid mode: ${modeInput}.`);
-  }
+  // Custom modes are loaded from the repository later, so the mode is validated by getMode
+  const modeInput = process.env.MODE || DEFAULT_MODE;
 
   const commonFields = {
     runId: process.env.GITHUB_RUN_ID!,
@@ -66,7 +75,7 @@ export function parseGitHubContext(): ParsedGitHubContext {
     },
     actor: context.actor,
     inputs: {
-      mode: modeInput as ModeName,
+      mode: modeInput,
       triggerPhrase: process.env.TRIGGER_PHRASE ?? "@claude",
       assigneeTrigger: process.env.ASSIGNEE_TRIGGER ?? "",
       labelTrigger: process.env.LABEL_TRIGGER ?? "",
@@ -75,6 +84,7 @@ export function parseGitHubContext(): ParsedGitHubContext {
       customInstructions: process.env.CUSTOM_INSTRUCTIONS ?? "",
       directPrompt: process.env.DIRECT_PROMPT ?? "",
       overridePrompt: process.env.OVERRIDE_PROMPT ?? "",
+      overridePromptFile: process.env.OVERRIDE_PROMPT_FILE ?? "",
       baseBranch: process.env.BASE_BRANCH,
       branchPrefix: process.env.BRANCH_PREFIX ?? "claude/",
       useStickyComment: process.env.USE_STICKY_COMMENT === "true",
@@ -82,6 +92,9 @@ export function parseGitHubContext(): ParsedGitHubContext {
         process.env.ADDITIONAL_PERMISSIONS ?? "",
       ),
       useCommitSigning: process.env.USE_COMMIT_SIGNING === "true",
+      contextTokenBudget:
+        parseInt(process.env.CONTEXT_TOKEN_BUDGET ?? "") ||
+        DEFAULT_CONTEXT_TOKEN_BUDGET,
     },
   };
 
@@ -130,11 +143,71 @@ export function parseGitHubContext(): ParsedGitHubContext {
         isPR: true,
       };
     }
+    case "workflow_dispatch": {
+      const payload = context.payload as WorkflowDispatchEvent;
+      return {
+        ...commonFields,
+        payload,
+        ...getDispatchTarget(payload.inputs),
+      };
+    }
+    case "repository_dispatch": {
+      const payload = context.payload as RepositoryDispatchEvent;
+      return {
+        ...commonFields,
+        payload,
+        ...getDispatchTarget(payload.client_payload),
+      };
+    }
+    case "schedule": {
+      return {
+        ...commonFields,
+        payload: context.payload as ScheduleEvent,
+        entityNumber: 0,
+        isPR: false,
+      };
+    }
     default:
+      // Agent mode runs on any event (schedule, workflow_dispatch, push, ...)
+      if (modeInput === "agent") {
+        const payload = context.payload as {
+          issue?: { number: number; pull_request?: unknown };
+          pull_request?: { number: number };
+        };
+        return {
+          ...commonFields,
+          payload: context.payload as ParsedGitHubContext["payload"],
+          entityNumber:
+            payload.pull_request?.number ?? payload.issue?.number ?? 0,
+          isPR: Boolean(payload.pull_request || payload.issue?.pull_request),
+        };
+      }
       throw new Error(`Unsupported event type: ${context.eventName}`);
   }
 }
 
+/**
+ * Reads the target issue or PR from a dispatch payload (`inputs` for
+ * workflow_dispatch, `client_payload` for repository_dispatch).
+ * `pr_number` takes precedence over `issue_number`; without either the run
+ * has no target entity.
+ */
+export function getDispatchTarget(
+  values: { [k: string]: unknown } | null | undefined,
+): { entityNumber: number; isPR: boolean } {
+  const prNumber = parseInt(String(values?.pr_number ?? ""), 10);
+  if (prNumber > 0) {
+    return { entityNumber: prNumber, isPR: true };
+  }
+
+  const issueNumber = parseInt(String(values?.issue_number ?? ""), 10);
+  if (issueNumber > 0) {
+    return { entityNumber: issueNumber, isPR: false };
+  }
+
+  return { entityNumber: 0, isPR: false };
+}
+
 export function parseMultilineInput(s: string): string[] {
   return s
     .split(/,|[\n\r]+/)
@@ -197,3 +270,21 @@ export function isIssuesAssignedEvent(
 ): context is ParsedGitHubContext & { payload: IssuesAssignedEvent } {
   return isIssuesEvent(context) && context.eventAction === "assigned";
 }
+
+export function isWorkflowDispatchEvent(
+  context: ParsedGitHubContext,
+): context is ParsedGitHubContext & { payload: WorkflowDispatchEvent } {
+  return context.eventName === "workflow_dispatch";
+}
+
+export function isRepositoryDispatchEvent(
+  context: ParsedGitHubContext,
+): context is ParsedGitHubContext & { payload: RepositoryDispatchEvent } {
+  return context.eventName === "repository_dispatch";
+}
+
+export function isScheduleEvent(
+  context: ParsedGitHubContext,
+): context is ParsedGitHubContext & { payload: ScheduleEvent } {
+  return context.eventName === "schedule";
+}
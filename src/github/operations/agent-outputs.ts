@@ -0,0 +1,120 @@
+import type { Octokits } from "../api/client";
+import { checkAndCommitOrDeleteBranch } from "./branch-cleanup";
+
+export type AgentOutputs = {
+  result: string;
+  changedFiles: string[];
+  branch: string;
+  prNumber?: number;
+  prUrl?: string;
+};
+
+type CollectAgentOutputsParams = {
+  owner: string;
+  repo: string;
+  executionLog: unknown;
+  startSha?: string;
+  claudeBranch?: string;
+  currentBranch?: string;
+  baseBranch: string;
+  useCommitSigning: boolean;
+};
+
+/**
+ * Extracts the final result text from the Claude execution log
+ * (the `result` message is always the last element)
+ */
+export function getResultText(executionLog: unknown): string {
+  if (!Array.isArray(executionLog) || executionLog.length === 0) {
+    return "";
+  }
+
+  const lastElement = executionLog[executionLog.length - 1];
+  if (
+    lastElement?.type === "result" &&
+    typeof lastElement.result === "string"
+  ) {
+    return lastElement.result;
+  }
+  return "";
+}
+
+/**
+ * Collects the outputs of an agent mode run: the final result text, the files
+ * changed since the run started, and the branch and PR that were created
+ */
+export async function collectAgentOutputs(
+  octokit: Octokits,
+  params: CollectAgentOutputsParams,
+): Promise<AgentOutputs> {
+  const {
+    owner,
+    repo,
+    executionLog,
+    startSha,
+    claudeBranch,
+    currentBranch,
+    baseBranch,
+    useCommitSigning,
+  } = params;
+
+  const outputs: AgentOutputs = {
+    result: getResultText(executionLog),
+    changedFiles: [],
+    branch: "",
+  };
+
+  // Commit leftover changes on the new branch, or delete it if Claude made no commits
+  if (claudeBranch) {
+    const { shouldDeleteBranch, branchLink } =
+      await checkAndCommitOrDeleteBranch(
+        octokit,
+        owner,
+        repo,
+        claudeBranch,
+        baseBranch,
+        useCommitSigning,
+      );
+    if (shouldDeleteBranch || !branchLink) {
+      return outputs;
+    }
+    outputs.branch = claudeBranch;
+  }
+
+  const workBranch = claudeBranch || currentBranch;
+  if (startSha && workBranch) {
+    try {
+      const { data: comparison } =
+        await octokit.rest.repos.compareCommitsWithBasehead({
+          owner,
+          repo,
+          basehead: `${startSha}...${workBranch}`,
+        });
+      outputs.changedFiles = (comparison.files ?? []).map(
+        (file) => file.filename,
+      );
+    } catch (error) {
+      console.error("Error collecting changed files:", error);
+    }
+  }
+
+  if (outputs.branch) {
+    try {
+      const { data: pulls } = await octokit.rest.pulls.list({
+        owner,
+        repo,
+        head: `${owner}:${outputs.branch}`,
+        state: "open",
+      });
+      const pull = pulls[0];
+      if (pull) {
+        outputs.prNumber = pull.number;
+        outputs.prUrl = pull.html_url;
+      }
+    } catch (error) {
+      console.error("Error looking up pull request for branch:", error);
+    }
+  }
+
+  return outputs;
+}
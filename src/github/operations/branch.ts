@@ -21,7 +21,7 @@ export type BranchInfo = {
 
 export async function setupBranch(
   octokits: Octokits,
-  githubData: FetchDataResult,
+  githubData: FetchDataResult | undefined,
   context: ParsedGitHubContext,
 ): Promise<BranchInfo> {
   const { owner, repo } = context.repository;
@@ -29,7 +29,7 @@ export async function setupBranch(
   const { baseBranch, branchPrefix } = context.inputs;
   const isPR = context.isPR;
 
-  if (isPR) {
+  if (isPR && githubData) {
     const prData = githubData.contextData as GitHubPullRequest;
     const prState = prData.state;
 
@@ -84,8 +84,8 @@ export async function setupBranch(
     sourceBranch = repoResponse.data.default_branch;
   }
 
-  // Generate branch name for either an issue or closed/merged PR
-  const entityType = isPR ? "pr" : "issue";
+  // Generate branch name for an issue, a closed/merged PR, or an agent run without either
+  const entityType = isPR ? "pr" : entityNumber ? "issue" : "agent";
 
   // Create Kubernetes-compatible timestamp: lowercase, hyphens only, shorter format
   const now = new Date();
@@ -96,7 +96,9 @@ export async function setupBranch(
   // - Alphanumeric with hyphens
   // - No underscores
   // - Max 50 chars (to allow for prefixes)
-  const branchName = `${branchPrefix}${entityType}-${entityNumber}-${timestamp}`;
+  const branchName = entityNumber
+    ? `${branchPrefix}${entityType}-${entityNumber}-${timestamp}`
+    : `${branchPrefix}${entityType}-${timestamp}`;
   const newBranch = branchName.toLowerCase().substring(0, 50);
 
   try {
@@ -133,7 +135,7 @@ export async function setupBranch(
 
     // For non-signing case, create and checkout the branch locally only
     console.log(
-      `Creating local branch ${newBranch} for ${entityType} #${entityNumber} from source branch: ${sourceBranch}...`,
+      `Creating local branch ${newBranch} for ${entityNumber ? `${entityType} #${entityNumber}` : "agent run"} from source branch: ${sourceBranch}...`,
     );
 
     // Fetch and checkout the source branch first to ensure we branch from the correct base
@@ -1,4 +1,9 @@
 import { GITHUB_SERVER_URL } from "../api/config";
+import { stripProgress } from "./comments/progress";
+
+// Subtype of the result message that base-action records when it stops
+// Claude for exceeding max_cost_usd or max_tokens
+export { BUDGET_EXCEEDED_SUBTYPE } from "../../../base-action/src/budget";
 
 export type ExecutionDetails = {
   cost_usd?: number;
@@ -16,6 +21,10 @@ export type CommentUpdateInput = {
   branchName?: string;
   triggerUsername?: string;
   errorDetails?: string;
+  /**
+   * Why the run was stopped early, when it exceeded max_cost_usd or max_tokens
+   */
+  budgetExceeded?: string;
 };
 
 export function ensureProperlyEncodedUrl(url: string): string | null {
@@ -77,12 +86,15 @@ export function updateCommentBody(input: CommentUpdateInput): string {
     branchName,
     triggerUsername,
     errorDetails,
+    budgetExceeded,
   } = input;
 
   // Extract content from the original comment body
   // First, remove the "Claude Code is working…" or "Claude Code is working..." message
   const workingPattern = /Claude Code is working[…\.]{1,3}(?:\s*<img[^>]*>)?/i;
-  let bodyContent = originalBody.replace(workingPattern, "").trim();
+  let bodyContent = stripProgress(originalBody)
+    .replace(workingPattern, "")
+    .trim();
 
   // Check if there's a PR link in the content
   let prLinkFromContent = "";
@@ -112,7 +124,13 @@ export function updateCommentBody(input: CommentUpdateInput): string {
   // Build the header
   let header = "";
 
-  if (actionFailed) {
+  if (budgetExceeded) {
+    header = "**Claude stopped: budget exhausted";
+    if (durationStr) {
+      header += ` after ${durationStr}`;
+    }
+    header += "**";
+  } else if (actionFailed) {
     header = "**Claude encountered an error";
     if (durationStr) {
       header += ` after ${durationStr}`;
@@ -182,7 +200,9 @@ export function updateCommentBody(input: CommentUpdateInput): string {
   let newBody = `${header}${links}`;
 
   // Add error details if available
-  if (actionFailed && errorDetails) {
+  if (budgetExceeded) {
+    newBody += `\n\n${budgetExceeded}. The work below may be incomplete.`;
+  } else if (actionFailed && errorDetails) {
     newBody += `\n\n\`\`\`\n${errorDetails}\n\`\`\``;
   }
 
@@ -0,0 +1,64 @@
+import { mkdir, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const RETRY_INTERVAL_MS = 100;
+const TIMEOUT_MS = 30_000;
+// A writer that crashed while holding the lock leaves it behind. Writers only
+// hold it for one read and update of the comment, and it must go stale before
+// a waiter gives up, or a crash would block every writer that comes after it.
+const STALE_AFTER_MS = 20_000;
+
+function getLockPath(commentId: number): string {
+  return join(
+    process.env.RUNNER_TEMP || tmpdir(),
+    `claude-comment-${commentId}.lock`,
+  );
+}
+
+async function acquire(lockPath: string): Promise<void> {
+  const deadline = Date.now() + TIMEOUT_MS;
+  while (true) {
+    try {
+      // mkdir either creates the directory or fails, atomically
+      await mkdir(lockPath);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const lockedAt = await stat(lockPath).then(
+      (stats) => stats.mtimeMs,
+      () => null,
+    );
+    if (lockedAt !== null && Date.now() - lockedAt > STALE_AFTER_MS) {
+      await rm(lockPath, { recursive: true, force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for comment lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_INTERVAL_MS));
+  }
+}
+
+/**
+ * Runs `fn` while holding a lock on the tracking comment, shared by every
+ * process on the runner that writes to it. The progress reporter reads the
+ * comment before writing it back, so without the lock it could overwrite an
+ * update Claude made in between.
+ */
+export async function withCommentLock<T>(
+  commentId: number,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const lockPath = getLockPath(commentId);
+  await acquire(lockPath);
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { recursive: true, force: true });
+  }
+}
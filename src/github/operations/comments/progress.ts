@@ -0,0 +1,85 @@
+import type { RunProgress } from "../../../../base-action/src/progress";
+
+export type { RunProgress };
+
+export const PROGRESS_START_MARKER = "<!-- claude-progress:start -->";
+export const PROGRESS_END_MARKER = "<!-- claude-progress:end -->";
+
+const MAX_FILES_LISTED = 10;
+
+const PROGRESS_SECTION_PATTERN = new RegExp(
+  `\\n*${PROGRESS_START_MARKER}[\\s\\S]*?${PROGRESS_END_MARKER}\\n*`,
+  "g",
+);
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function code(text: string): string {
+  return `\`${text.replace(/`/g, "'")}\``;
+}
+
+function formatFiles(files: string[]): string {
+  const listed = files.slice(0, MAX_FILES_LISTED).map(code).join(", ");
+  const more = files.length - MAX_FILES_LISTED;
+  return more > 0 ? `${listed} and ${more} more` : listed;
+}
+
+/**
+ * Formats the activity log shown in the tracking comment while Claude works
+ */
+export function formatProgress(progress: RunProgress): string {
+  const stats = [
+    `${formatDuration(progress.elapsedMs)} elapsed`,
+    `${progress.tokens.toLocaleString("en-US")} tokens`,
+    `~$${progress.costUsd.toFixed(2)}`,
+  ];
+  const lines = [`**Activity** (${stats.join(" · ")})`, ""];
+
+  const tool = progress.currentTool;
+  if (tool) {
+    const runningFor =
+      new Date(progress.updatedAt).getTime() -
+      new Date(tool.startedAt).getTime();
+    lines.push(
+      `- Running ${code(tool.name)}${tool.summary ? `: ${code(tool.summary)}` : ""} (for ${formatDuration(runningFor)})`,
+    );
+  } else {
+    lines.push("- Thinking…");
+  }
+  lines.push(
+    `- ${progress.toolCalls} tool ${progress.toolCalls === 1 ? "call" : "calls"} so far`,
+  );
+  if (progress.filesEdited.length > 0) {
+    lines.push(`- Edited: ${formatFiles(progress.filesEdited)}`);
+  }
+  if (progress.filesRead.length > 0) {
+    lines.push(`- Read: ${formatFiles(progress.filesRead)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Removes the activity log from a comment body
+ */
+export function stripProgress(body: string): string {
+  return body.replace(PROGRESS_SECTION_PATTERN, "\n\n").trim();
+}
+
+/**
+ * Replaces the activity log at the end of a comment body, keeping whatever
+ * Claude wrote to the comment itself
+ */
+export function withProgress(body: string, progress: RunProgress): string {
+  return `${stripProgress(body)}
+
+${PROGRESS_START_MARKER}
+---
+${formatProgress(progress)}
+${PROGRESS_END_MARKER}`;
+}
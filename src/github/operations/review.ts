@@ -0,0 +1,54 @@
+import { Octokit } from "@octokit/rest";
+import type { ReviewSubmission } from "../../providers/scm-provider";
+
+export type SubmitPullRequestReviewParams = ReviewSubmission & {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+};
+
+export type SubmitPullRequestReviewResult = {
+  id: number;
+  html_url: string;
+  state: string;
+};
+
+/**
+ * Submits a single pull request review containing all line-anchored comments
+ *
+ * @param octokit - Authenticated Octokit instance
+ * @param params - Review summary, verdict and inline comments
+ * @returns The created review details
+ * @throws Error if the review cannot be created
+ */
+export async function submitPullRequestReview(
+  octokit: Octokit,
+  params: SubmitPullRequestReviewParams,
+): Promise<SubmitPullRequestReviewResult> {
+  const { owner, repo, pullNumber, body, event, comments } = params;
+
+  const response = await octokit.rest.pulls.createReview({
+    owner,
+    repo,
+    pull_number: pullNumber,
+    body,
+    event,
+    comments: comments.map((comment) => ({
+      path: comment.path,
+      line: comment.line,
+      side: comment.side ?? "RIGHT",
+      body: comment.body,
+      ...(comment.startLine &&
+        comment.startLine < comment.line && {
+          start_line: comment.startLine,
+          start_side: comment.side ?? "RIGHT",
+        }),
+    })),
+  });
+
+  return {
+    id: response.data.id,
+    html_url: response.data.html_url,
+    state: response.data.state,
+  };
+}
@@ -6,7 +6,7 @@ export type GitHubAuthor = {
 
 export type GitHubComment = {
   id: string;
-  databaseId: string;
+  databaseId: number;
   body: string;
   author: GitHubAuthor;
   createdAt: string;
@@ -35,7 +35,7 @@ export type GitHubFile = {
 
 export type GitHubReview = {
   id: string;
-  databaseId: string;
+  databaseId: number;
   author: GitHubAuthor;
   body: string;
   state: string;
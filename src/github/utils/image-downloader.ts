@@ -10,19 +10,19 @@ const IMAGE_REGEX = new RegExp(
 
 type IssueComment = {
   type: "issue_comment";
-  id: string;
+  id: number;
   body: string;
 };
 
 type ReviewComment = {
   type: "review_comment";
-  id: string;
+  id: number;
   body: string;
 };
 
 type ReviewBody = {
   type: "review_body";
-  id: string;
+  id: number;
   pullNumber: string;
   body: string;
 };
@@ -89,7 +89,7 @@ export async function downloadCommentImages(
           const response = await octokits.rest.issues.getComment({
             owner,
             repo,
-            comment_id: parseInt(comment.id),
+            comment_id: comment.id,
             mediaType: {
               format: "full+json",
             },
@@ -101,7 +101,7 @@ export async function downloadCommentImages(
           const response = await octokits.rest.pulls.getReviewComment({
             owner,
             repo,
-            comment_id: parseInt(comment.id),
+            comment_id: comment.id,
             mediaType: {
               format: "full+json",
             },
@@ -114,7 +114,7 @@ export async function downloadCommentImages(
             owner,
             repo,
             pull_number: parseInt(comment.pullNumber),
-            review_id: parseInt(comment.id),
+            review_id: comment.id,
             mediaType: {
               format: "full+json",
             },
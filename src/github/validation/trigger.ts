@@ -10,6 +10,8 @@ import {
   isPullRequestReviewCommentEvent,
 } from "../context";
 import type { ParsedGitHubContext } from "../context";
+import { parseSlashCommand } from "../../commands/router";
+import type { ParsedSlashCommand } from "../../commands/types";
 
 export function checkContainsTrigger(context: ParsedGitHubContext): boolean {
   const {
@@ -141,6 +143,41 @@ export function escapeRegExp(string: string) {
   return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+/**
+ * Parses a slash command (e.g. `@claude /review`) from the comment, review,
+ * issue or pull request that contains the trigger phrase
+ */
+export function parseTriggerCommand(
+  context: ParsedGitHubContext,
+): ParsedSlashCommand | null {
+  const { triggerPhrase } = context.inputs;
+
+  let texts: string[] = [];
+  if (
+    isIssueCommentEvent(context) ||
+    isPullRequestReviewCommentEvent(context)
+  ) {
+    texts = [context.payload.comment.body];
+  } else if (isPullRequestReviewEvent(context)) {
+    texts = [context.payload.review.body || ""];
+  } else if (isIssuesEvent(context)) {
+    texts = [context.payload.issue.body || "", context.payload.issue.title];
+  } else if (isPullRequestEvent(context)) {
+    texts = [
+      context.payload.pull_request.body || "",
+      context.payload.pull_request.title,
+    ];
+  }
+
+  for (const text of texts) {
+    const command = parseSlashCommand(text, triggerPhrase);
+    if (command) {
+      return command;
+    }
+  }
+  return null;
+}
+
 export async function checkTriggerAction(context: ParsedGitHubContext) {
   const containsTrigger = checkContainsTrigger(context);
   core.setOutput("contains_trigger", containsTrigger.toString());
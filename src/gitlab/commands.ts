@@ -0,0 +1,38 @@
+/**
+ * GitLab Slash Commands
+ *
+ * prepare.ts routes slash commands and hands the selected mode and tools to
+ * the entrypoint's execute phase through a file, like the tracking comment ID
+ */
+
+import * as fs from "fs";
+
+export const GITLAB_COMMAND_ROUTE_FILE = "/tmp/claude-command-route.json";
+
+export type GitLabCommandRoute = {
+  mode: string;
+  allowedTools: string[];
+  disallowedTools: string[];
+};
+
+export function writeCommandRoute(route: GitLabCommandRoute): void {
+  fs.writeFileSync(GITLAB_COMMAND_ROUTE_FILE, JSON.stringify(route));
+}
+
+/**
+ * Reads and removes the route written by prepare.ts
+ * @returns The route, or null if no slash command was routed
+ */
+export function readCommandRoute(): GitLabCommandRoute | null {
+  if (!fs.existsSync(GITLAB_COMMAND_ROUTE_FILE)) {
+    return null;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(GITLAB_COMMAND_ROUTE_FILE, "utf-8"));
+  } catch (error) {
+    console.error("Error reading command route file:", error);
+    return null;
+  } finally {
+    fs.rmSync(GITLAB_COMMAND_ROUTE_FILE, { force: true });
+  }
+}
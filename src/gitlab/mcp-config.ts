@@ -0,0 +1,119 @@
+/**
+ * GitLab MCP Configuration
+ *
+ * The GitLab counterpart of prepareMcpConfig: builds the MCP servers a GitLab
+ * run gets and the tools they add to the allowed list
+ */
+
+import * as path from "path";
+import {
+  TRIAGE_SERVER_NAME,
+  getTriageAllowedTools,
+  type TriageCapability,
+} from "../mcp/triage-tools";
+
+export type GitLabMcpConfigParams = {
+  token: string;
+  projectId: string;
+  host: string;
+  mrIid?: string;
+  issueIid?: string;
+  commentId?: string;
+  branch?: string;
+  baseBranch?: string;
+  repoDir: string;
+  isReviewMode: boolean;
+  triageCapabilities: TriageCapability[];
+};
+
+function server(script: string, env: Record<string, string>) {
+  return {
+    command: "bun",
+    args: ["run", path.join(__dirname, "..", "mcp", script)],
+    env,
+  };
+}
+
+/**
+ * Builds the MCP configuration for a GitLab run. Review mode is read-only
+ * and gets the review server instead of the comment and file ops servers.
+ */
+export function prepareGitLabMcpConfig(params: GitLabMcpConfigParams): {
+  mcpConfig: string;
+  allowedTools: string[];
+} {
+  const mcpServers: Record<string, unknown> = {};
+  const allowedTools: string[] = [];
+
+  const apiEnv = {
+    GITLAB_TOKEN: params.token,
+    CI_PROJECT_ID: params.projectId,
+    CI_SERVER_URL: params.host,
+    ...(params.mrIid && { MR_IID: params.mrIid }),
+    ...(params.issueIid && { ISSUE_IID: params.issueIid }),
+  };
+
+  if (params.isReviewMode) {
+    // Review tools are allowed through GITLAB_REVIEW_ALLOWED_TOOLS
+    if (params.mrIid) {
+      mcpServers.gitlab_review = server("gitlab-review-server.ts", apiEnv);
+    }
+  } else {
+    if (params.commentId && (params.mrIid || params.issueIid)) {
+      mcpServers.gitlab_comment = server("gitlab-comment-server.ts", {
+        ...apiEnv,
+        CLAUDE_COMMENT_ID: params.commentId,
+      });
+      allowedTools.push("mcp__gitlab_comment__update_claude_comment");
+    }
+
+    if (params.branch) {
+      mcpServers.gitlab_file_ops = server("gitlab-file-ops-server.ts", {
+        ...apiEnv,
+        BRANCH_NAME: params.branch,
+        ...(params.baseBranch && { BASE_BRANCH: params.baseBranch }),
+        REPO_DIR: params.repoDir,
+      });
+      allowedTools.push(
+        "mcp__gitlab_file_ops__commit_files",
+        "mcp__gitlab_file_ops__delete_files",
+        "mcp__gitlab_file_ops__move_files",
+      );
+    }
+
+    if (
+      params.triageCapabilities.length > 0 &&
+      (params.mrIid || params.issueIid)
+    ) {
+      mcpServers[TRIAGE_SERVER_NAME] = server("triage-server.ts", {
+        SCM_PLATFORM: "gitlab",
+        SCM_TOKEN: params.token,
+        TRIAGE_CAPABILITIES: params.triageCapabilities.join(","),
+        CI_PROJECT_ID: params.projectId,
+        CI_SERVER_URL: params.host,
+        ...(params.mrIid && { MR_IID: params.mrIid }),
+        ...(params.issueIid && { ISSUE_IID: params.issueIid }),
+      });
+      allowedTools.push(...getTriageAllowedTools(params.triageCapabilities));
+    }
+  }
+
+  // Pipelines are read-only, so review mode gets them too
+  if (params.mrIid || params.branch) {
+    mcpServers.gitlab_ci = server("gitlab-ci-server.ts", {
+      ...apiEnv,
+      ...(params.branch && { BRANCH_NAME: params.branch }),
+    });
+    allowedTools.push(
+      "mcp__gitlab_ci__get_ci_status",
+      "mcp__gitlab_ci__get_pipeline_details",
+      "mcp__gitlab_ci__download_job_log",
+      "mcp__gitlab_ci__get_test_report",
+    );
+  }
+
+  return {
+    mcpConfig: JSON.stringify({ mcpServers }, null, 2),
+    allowedTools,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * GitLab Pipelines
+ *
+ * Summarizes the latest merge request pipeline (failing jobs and JUnit test
+ * report results) and cleans up job traces for reading
+ */
+
+import {
+  Gitlab,
+  GitbeakerRequestError,
+  GitbeakerRetryError,
+  GitbeakerTimeoutError,
+} from "@gitbeaker/rest";
+import type {
+  GitLabJob,
+  GitLabPipeline,
+  GitLabTestReport,
+} from "../types/gitbeaker";
+
+export interface GitLabFailedJob {
+  id: number;
+  name: string;
+  stage: string;
+  failureReason?: string;
+  webUrl: string;
+}
+
+export interface GitLabFailedTest {
+  suite: string;
+  name: string;
+  classname: string;
+  status: string;
+  file?: string;
+  output?: string;
+  stackTrace?: string;
+}
+
+export interface GitLabPipelineSummary {
+  id: number;
+  status: string;
+  ref: string;
+  sha: string;
+  webUrl: string;
+  failedJobs: GitLabFailedJob[];
+  tests: {
+    total: number;
+    failed: number;
+    errors: number;
+    skipped: number;
+    failedTests: GitLabFailedTest[];
+  } | null;
+}
+
+// Failing tests listed in the prompt; the CI tools return the full report
+const MAX_PROMPT_FAILED_TESTS = 10;
+
+/**
+ * Removes ANSI escape sequences and GitLab's collapsible section markers
+ * (`section_start:<time>:<name>\r\e[0K`) from a job trace
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(/section_(?:start|end):\d+:[^\r\n]*?\r/g, "")
+    .replace(/\x1b\[[0-9;?]*[A-Za-z]/g, "")
+    .replace(/\r\n/g, "\n");
+}
+
+/**
+ * Flattens a pipeline test report into its failed and errored test cases
+ */
+export function getFailedTestCases(
+  report: GitLabTestReport,
+): GitLabFailedTest[] {
+  return report.test_suites.flatMap((suite) =>
+    suite.test_cases
+      .filter(
+        (testCase) =>
+          testCase.status === "failed" || testCase.status === "error",
+      )
+      .map((testCase) => ({
+        suite: suite.name,
+        name: testCase.name,
+        classname: testCase.classname,
+        status: testCase.status,
+        ...(testCase.file && { file: testCase.file }),
+        ...(testCase.system_output && { output: testCase.system_output }),
+        ...(testCase.stack_trace && { stackTrace: testCase.stack_trace }),
+      })),
+  );
+}
+
+/**
+ * Fetches the latest pipeline of a merge request with its failed jobs and
+ * test report. Returns null when the merge request has no pipelines.
+ */
+export async function fetchLatestPipelineSummary(
+  api: InstanceType<typeof Gitlab>,
+  projectId: string,
+  mrIid: number,
+): Promise<GitLabPipelineSummary | null> {
+  const pipelines = (await api.MergeRequests.allPipelines(
+    projectId,
+    mrIid,
+  )) as unknown as GitLabPipeline[];
+
+  // GitLab lists merge request pipelines newest first
+  const latest = pipelines[0];
+  if (!latest) {
+    return null;
+  }
+
+  const [jobs, testReport] = await Promise.all([
+    api.Jobs.all(projectId, {
+      pipelineId: latest.id,
+      scope: "failed",
+    }) as unknown as Promise<GitLabJob[]>,
+    (
+      api.Pipelines.showTestReport(
+        projectId,
+        latest.id,
+      ) as unknown as Promise<GitLabTestReport>
+    ).catch((error) => {
+      // Pipelines without JUnit artifacts still have a usable summary
+      console.warn(
+        `Could not fetch test report for pipeline ${latest.id}:`,
+        error,
+      );
+      return null;
+    }),
+  ]);
+
+  return {
+    id: latest.id,
+    status: latest.status,
+    ref: latest.ref,
+    sha: latest.sha,
+    webUrl: latest.web_url,
+    failedJobs: jobs
+      .filter((job) => !job.allow_failure)
+      .map((job) => ({
+        id: job.id,
+        name: job.name,
+        stage: job.stage,
+        ...(job.failure_reason && { failureReason: job.failure_reason }),
+        webUrl: job.web_url,
+      })),
+    tests:
+      testReport && testReport.total_count > 0
+        ? {
+            total: testReport.total_count,
+            failed: testReport.failed_count,
+            errors: testReport.error_count,
+            skipped: testReport.skipped_count,
+            failedTests: getFailedTestCases(testReport),
+          }
+        : null,
+  };
+}
+
+/**
+ * Whether an error came from the GitLab API (an error response, a timeout
+ * or running out of retries) rather than from handling its response
+ */
+export function isGitLabApiError(error: unknown): boolean {
+  return (
+    error instanceof GitbeakerRequestError ||
+    error instanceof GitbeakerTimeoutError ||
+    error instanceof GitbeakerRetryError
+  );
+}
+
+/**
+ * Formats a pipeline summary as a markdown section for the prompt
+ */
+export function formatPipelineSummary(
+  summary: GitLabPipelineSummary | null,
+): string {
+  if (!summary) {
+    return "No pipelines have run for this merge request.";
+  }
+
+  const lines = [
+    `**Latest Pipeline:** [#${summary.id}](${summary.webUrl}) — ${summary.status} (ref \`${summary.ref}\`, commit \`${summary.sha.substring(0, 8)}\`)`,
+  ];
+
+  if (summary.failedJobs.length > 0) {
+    lines.push("", "**Failed Jobs:**");
+    for (const job of summary.failedJobs) {
+      const reason = job.failureReason ? ` — ${job.failureReason}` : "";
+      lines.push(
+        `- \`${job.name}\` (stage: ${job.stage}, job ID: ${job.id})${reason}`,
+      );
+    }
+  }
+
+  if (summary.tests) {
+    const { total, failed, errors, skipped, failedTests } = summary.tests;
+    lines.push(
+      "",
+      `**Test Report:** ${total} tests, ${failed} failed, ${errors} errors, ${skipped} skipped`,
+    );
+    for (const test of failedTests.slice(0, MAX_PROMPT_FAILED_TESTS)) {
+      const location = test.file ? ` (${test.file})` : "";
+      lines.push(
+        `- ${test.status}: \`${test.classname}.${test.name}\`${location}`,
+      );
+    }
+    if (failedTests.length > MAX_PROMPT_FAILED_TESTS) {
+      lines.push(
+        `- …and ${failedTests.length - MAX_PROMPT_FAILED_TESTS} more (use the \`get_test_report\` tool for the full list)`,
+      );
+    }
+  }
+
+  if (summary.failedJobs.length > 0 || summary.tests?.failedTests.length) {
+    lines.push(
+      "",
+      "Use the `get_pipeline_details`, `download_job_log` and `get_test_report` tools to investigate the failures.",
+    );
+  }
+
+  return lines.join("\n");
+}
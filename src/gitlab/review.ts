@@ -0,0 +1,73 @@
+/**
+ * GitLab Review Mode
+ *
+ * Tool configuration and prompt for running review mode
+ * against a GitLab merge request
+ */
+
+import type { GitLabMRData } from "./data/fetcher";
+
+export const GITLAB_REVIEW_ALLOWED_TOOLS = [
+  "Glob",
+  "Grep",
+  "LS",
+  "Read",
+  "Bash(git diff:*)",
+  "Bash(git log:*)",
+  "Bash(git show:*)",
+  "mcp__gitlab_review__submit_review",
+];
+
+export const GITLAB_REVIEW_DISALLOWED_TOOLS = [
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "NotebookEdit",
+  "WebSearch",
+  "WebFetch",
+  "Bash(git add:*)",
+  "Bash(git commit:*)",
+  "Bash(git push:*)",
+  "Bash(git rm:*)",
+];
+
+export function generateGitLabReviewPrompt(
+  mrData: GitLabMRData,
+  directPrompt?: string,
+): string {
+  const changedFiles =
+    mrData.changes
+      ?.map(
+        (change) =>
+          `- ${change.new_path}${change.new_file ? " (added)" : change.deleted_file ? " (deleted)" : change.renamed_file ? ` (renamed from ${change.old_path})` : ""}`,
+      )
+      .join("\n") || "No changes available";
+
+  return `You are Claude, an AI assistant performing an automated code review of a GitLab merge request.
+
+## Merge Request Context
+
+**Title:** ${mrData.title}
+**Description:** ${mrData.description || "No description provided"}
+**Source Branch:** ${mrData.sourceBranch} → **Target Branch:** ${mrData.targetBranch}
+**Author:** ${mrData.author.name} (@${mrData.author.username})
+**Web URL:** ${mrData.webUrl}
+
+## Changed Files
+
+${changedFiles}
+
+## Your Task
+
+Review the changes in this merge request. You are in read-only mode: do NOT modify files, create commits or post other comments.
+
+${directPrompt ? `Additional instructions from the user: ${directPrompt}\n` : ""}
+1. Use Bash(git diff origin/${mrData.targetBranch}...HEAD) to inspect the changes, and the Read, Grep and Glob tools for surrounding code.
+2. Look for bugs, security issues, performance problems and missing tests. Always follow the repository's CLAUDE.md file(s) if present.
+3. Call mcp__gitlab_review__submit_review exactly ONCE at the end with:
+   - "body": a concise summary of the MR, the most important findings and your verdict
+   - "event": "REQUEST_CHANGES" when you found blocking issues, otherwise "COMMENT"
+   - "comments": inline comments, each with "path", "line" (a line in the diff; use "side": "LEFT" for deleted lines) and "body"
+
+If you found nothing worth commenting on, still submit a review with an empty "comments" array and a short summary.`;
+}
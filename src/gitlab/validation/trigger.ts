@@ -5,6 +5,9 @@
  */
 
 import type { GitLabWebhookPayload } from "../context";
+import type { GitLabWebhookPayload as RawWebhookPayload } from "../webhook";
+import { parseSlashCommand } from "../../commands/router";
+import type { ParsedSlashCommand } from "../../commands/types";
 
 export function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -99,6 +102,59 @@ export function checkContainsTrigger(context: GitLabTriggerContext): boolean {
   return false;
 }
 
+/**
+ * Parses a slash command (e.g. `@claude /review`) from the note, issue or
+ * merge request that contains the trigger phrase
+ */
+export function parseTriggerCommand(
+  payload: GitLabWebhookPayload | null,
+  triggerPhrase: string,
+): ParsedSlashCommand | null {
+  let texts: string[] = [];
+  if (payload?.object_kind === "note") {
+    texts = [payload.object_attributes?.note || ""];
+  } else if (payload?.object_kind === "merge_request") {
+    const mr = payload.merge_request || payload.object_attributes;
+    texts = [mr?.description || "", mr?.title || ""];
+  } else if (payload?.object_kind === "issue") {
+    const issue = payload.object_attributes;
+    texts = [issue?.description || "", issue?.title || ""];
+  }
+
+  for (const text of texts) {
+    const command = parseSlashCommand(text, triggerPhrase);
+    if (command) {
+      return command;
+    }
+  }
+  return null;
+}
+
+/**
+ * Review mode runs on merge request activity rather than on a trigger phrase:
+ * either an MR open/update webhook or a native merge request pipeline.
+ */
+export function checkContainsReviewTrigger(
+  payload: RawWebhookPayload | null,
+  pipelineSource?: string,
+): boolean {
+  if (payload?.object_kind === "merge_request") {
+    const action = payload.object_attributes?.action;
+    if (action === "open" || action === "reopen" || action === "update") {
+      console.log(`Merge request ${action} event, triggering review`);
+      return true;
+    }
+  }
+
+  if (pipelineSource === "merge_request_event") {
+    console.log("Merge request pipeline, triggering review");
+    return true;
+  }
+
+  console.log("No merge request activity found for review mode");
+  return false;
+}
+
 export async function checkGitLabTriggerAction(
   context: GitLabTriggerContext,
 ): Promise<boolean> {
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+// Azure DevOps Review MCP Server - Publishes a batch of pull request threads as one review
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { AzureDevOpsProvider } from "../providers/azure-devops-provider";
+
+// stdout carries the MCP protocol, so route the provider's logging to stderr
+console.log = console.error;
+
+// Get repository information from environment variables
+const COLLECTION_URI = process.env.SYSTEM_COLLECTIONURI;
+const PROJECT = process.env.SYSTEM_TEAMPROJECT;
+const REPOSITORY = process.env.BUILD_REPOSITORY_NAME;
+const PR_ID = process.env.PR_ID;
+
+if (!COLLECTION_URI || !PROJECT || !REPOSITORY || !PR_ID) {
+  console.error(
+    "Error: SYSTEM_COLLECTIONURI, SYSTEM_TEAMPROJECT, BUILD_REPOSITORY_NAME and PR_ID environment variables are required",
+  );
+  process.exit(1);
+}
+
+const server = new McpServer({
+  name: "Azure DevOps Review Server",
+  version: "0.0.1",
+});
+
+server.tool(
+  "submit_review",
+  "Submit a single pull request review with a summary and line-anchored comments. Can only be called once per run.",
+  {
+    body: z
+      .string()
+      .describe("The review summary shown at the top of the review"),
+    event: z
+      .enum(["COMMENT", "REQUEST_CHANGES"])
+      .describe(
+        "The review verdict: REQUEST_CHANGES when blocking issues were found, otherwise COMMENT",
+      ),
+    comments: z
+      .array(
+        z.object({
+          path: z.string().describe("File path relative to the repo root"),
+          line: z
+            .number()
+            .describe("Line in the diff the comment applies to (last line)"),
+          startLine: z
+            .number()
+            .optional()
+            .describe("First line of a multi-line comment range"),
+          side: z
+            .enum(["LEFT", "RIGHT"])
+            .optional()
+            .describe(
+              "LEFT for deleted lines, RIGHT for added or context lines (default)",
+            ),
+          body: z.string().describe("The comment text"),
+        }),
+      )
+      .describe("Inline comments anchored to lines in the diff"),
+  },
+  async ({ body, event, comments }) => {
+    try {
+      const token = process.env.AZURE_DEVOPS_TOKEN;
+
+      if (!token) {
+        throw new Error("AZURE_DEVOPS_TOKEN environment variable is required");
+      }
+
+      const provider = new AzureDevOpsProvider({
+        token,
+        collectionUri: COLLECTION_URI,
+        project: PROJECT,
+        repository: REPOSITORY,
+        prId: PR_ID,
+      });
+
+      await provider.submitReview({ body, event, comments });
+
+      const result = {
+        pull_request: PR_ID,
+        comments: comments.length,
+        event,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
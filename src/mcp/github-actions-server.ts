@@ -4,14 +4,22 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { GITHUB_API_URL } from "../github/api/config";
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readdir, readFile, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import { $ } from "bun";
 import { Octokit } from "@octokit/rest";
 import { getGitHubCILogsDirectory } from "../utils/temp-directory";
+import { parseTestReport, type FailedTest } from "../utils/test-reports";
 
 const REPO_OWNER = process.env.REPO_OWNER;
 const REPO_NAME = process.env.REPO_NAME;
 const PR_NUMBER = process.env.PR_NUMBER;
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+// Set when the workflow grants `actions: write`; enables the re-run,
+// dispatch and wait tools
+const ACTIONS_WRITE = process.env.ACTIONS_WRITE === "true";
+// The run Claude itself is in, which never completes while Claude waits
+const CURRENT_RUN_ID = process.env.GITHUB_RUN_ID;
 
 if (!REPO_OWNER || !REPO_NAME || !PR_NUMBER || !GITHUB_TOKEN) {
   console.error(
@@ -27,6 +35,140 @@ const server = new McpServer({
 
 console.error("[GitHub CI Server] MCP Server instance created");
 
+// Artifacts and report files above these sizes are skipped
+const MAX_ARTIFACT_BYTES = 100 * 1024 * 1024;
+const MAX_REPORT_BYTES = 20 * 1024 * 1024;
+const MAX_FAILED_TESTS = 50;
+
+/**
+ * Downloads the run's artifacts and parses the JUnit XML and TAP reports in
+ * them. Returns the failing tests and the report files they came from.
+ */
+async function getReportFailures(
+  client: Octokit,
+  runId: number,
+  warnings: string[],
+): Promise<{ tests: FailedTest[]; reports: string[] }> {
+  const artifacts = await client.paginate(
+    client.actions.listWorkflowRunArtifacts,
+    {
+      owner: REPO_OWNER!,
+      repo: REPO_NAME!,
+      run_id: runId,
+      per_page: 100,
+    },
+  );
+
+  const tests: FailedTest[] = [];
+  const reports: string[] = [];
+  const artifactsDir = join(getGitHubCILogsDirectory(), `run-${runId}`);
+
+  for (const artifact of artifacts) {
+    if (artifact.expired || artifact.size_in_bytes > MAX_ARTIFACT_BYTES) {
+      continue;
+    }
+
+    try {
+      const response = await client.actions.downloadArtifact({
+        owner: REPO_OWNER!,
+        repo: REPO_NAME!,
+        artifact_id: artifact.id,
+        archive_format: "zip",
+      });
+
+      const artifactDir = join(artifactsDir, artifact.name);
+      await mkdir(artifactDir, { recursive: true });
+      const zipPath = `${artifactDir}.zip`;
+      await writeFile(zipPath, Buffer.from(response.data as ArrayBuffer));
+      await $`unzip -o -qq ${zipPath} -d ${artifactDir}`.quiet();
+
+      const files = await readdir(artifactDir, { recursive: true });
+      for (const file of files) {
+        if (!/\.(xml|tap|txt)$/.test(file)) {
+          continue;
+        }
+        const filePath = join(artifactDir, file);
+        if ((await stat(filePath)).size > MAX_REPORT_BYTES) {
+          continue;
+        }
+
+        const failures = parseTestReport(
+          file,
+          await readFile(filePath, "utf-8"),
+        );
+        if (failures) {
+          reports.push(`${artifact.name}/${file}`);
+          tests.push(...failures);
+        }
+      }
+    } catch (error) {
+      warnings.push(
+        `Could not read artifact '${artifact.name}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return { tests, reports };
+}
+
+/**
+ * Reads the failure annotations test reporters and problem matchers leave
+ * on the run's failed jobs
+ */
+async function getAnnotationFailures(
+  client: Octokit,
+  runId: number,
+  warnings: string[],
+): Promise<FailedTest[]> {
+  const { data: jobsData } = await client.actions.listJobsForWorkflowRun({
+    owner: REPO_OWNER!,
+    repo: REPO_NAME!,
+    run_id: runId,
+  });
+
+  const tests: FailedTest[] = [];
+  for (const job of jobsData.jobs) {
+    if (job.conclusion !== "failure") {
+      continue;
+    }
+
+    try {
+      // A job's ID is also the ID of its check run
+      const annotations = await client.paginate(client.checks.listAnnotations, {
+        owner: REPO_OWNER!,
+        repo: REPO_NAME!,
+        check_run_id: job.id,
+        per_page: 100,
+      });
+
+      for (const annotation of annotations) {
+        // ".github" marks the generic "Process completed with exit code" notice
+        if (
+          annotation.annotation_level !== "failure" ||
+          annotation.path === ".github"
+        ) {
+          continue;
+        }
+        tests.push({
+          name: annotation.title || job.name,
+          suite: job.name,
+          file: annotation.path,
+          line: annotation.start_line,
+          ...(annotation.message && { message: annotation.message }),
+          ...(annotation.raw_details && { stack: annotation.raw_details }),
+          source: "annotation",
+        });
+      }
+    } catch (error) {
+      warnings.push(
+        `Could not read annotations for job '${job.name}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return tests;
+}
+
 server.tool(
   "get_ci_status",
   "Get CI status summary for this PR",
@@ -260,6 +402,313 @@ server.tool(
   },
 );
 
+server.tool(
+  "get_failed_tests",
+  "Get the failing tests of a workflow run as structured records (test name, file, line, message, stack), parsed from JUnit XML and TAP report artifacts and from failure annotations on the run's jobs",
+  {
+    run_id: z.number().describe("The workflow run ID"),
+  },
+  async ({ run_id }) => {
+    try {
+      const client = new Octokit({
+        auth: GITHUB_TOKEN,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const warnings: string[] = [];
+      const [reportFailures, annotationFailures] = await Promise.all([
+        getReportFailures(client, run_id, warnings),
+        getAnnotationFailures(client, run_id, warnings),
+      ]);
+
+      // Reporters often annotate the same failures they write to the report
+      const reported = new Set(
+        reportFailures.tests.map((test) => `${test.file}:${test.line}`),
+      );
+      const failedTests = [
+        ...reportFailures.tests,
+        ...annotationFailures.filter(
+          (test) => !reported.has(`${test.file}:${test.line}`),
+        ),
+      ];
+
+      const result = {
+        total_failed: failedTests.length,
+        failed_tests: failedTests.slice(0, MAX_FAILED_TESTS),
+        ...(failedTests.length > MAX_FAILED_TESTS && { truncated: true }),
+        reports: reportFailures.reports,
+        ...(warnings.length > 0 && { warnings }),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function getPullRequestHead(client: Octokit) {
+  const { data: prData } = await client.pulls.get({
+    owner: REPO_OWNER!,
+    repo: REPO_NAME!,
+    pull_number: parseInt(PR_NUMBER!, 10),
+  });
+  return { sha: prData.head.sha, ref: prData.head.ref };
+}
+
+// Conclusions that don't fail a check suite
+const PASSING_CONCLUSIONS = ["success", "neutral", "skipped"];
+
+if (ACTIONS_WRITE) {
+  server.tool(
+    "rerun_failed_jobs",
+    "Re-run the failed jobs of a workflow run (and the jobs that depend on them)",
+    {
+      run_id: z.number().describe("The workflow run ID"),
+    },
+    async ({ run_id }) => {
+      try {
+        const client = new Octokit({
+          auth: GITHUB_TOKEN,
+          baseUrl: GITHUB_API_URL,
+        });
+
+        await client.actions.reRunWorkflowFailedJobs({
+          owner: REPO_OWNER!,
+          repo: REPO_NAME!,
+          run_id,
+        });
+
+        const result = {
+          run_id,
+          rerun_requested: true,
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "trigger_workflow",
+    "Trigger a workflow that has a workflow_dispatch trigger",
+    {
+      workflow_id: z
+        .union([z.string(), z.number()])
+        .describe("The workflow file name (e.g. ci.yml) or workflow ID"),
+      ref: z
+        .string()
+        .optional()
+        .describe("The branch or tag to run on (defaults to the PR branch)"),
+      inputs: z
+        .record(z.string())
+        .optional()
+        .describe("Inputs defined by the workflow's workflow_dispatch trigger"),
+    },
+    async ({ workflow_id, ref, inputs }) => {
+      try {
+        const client = new Octokit({
+          auth: GITHUB_TOKEN,
+          baseUrl: GITHUB_API_URL,
+        });
+
+        const targetRef = ref || (await getPullRequestHead(client)).ref;
+        await client.actions.createWorkflowDispatch({
+          owner: REPO_OWNER!,
+          repo: REPO_NAME!,
+          workflow_id,
+          ref: targetRef,
+          ...(inputs && { inputs }),
+        });
+
+        const result = {
+          workflow_id,
+          ref: targetRef,
+          dispatched: true,
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "wait_for_ci",
+    "Wait until the workflow runs for a commit complete and return their overall conclusion. Use after pushing a fix or re-running jobs.",
+    {
+      head_sha: z
+        .string()
+        .optional()
+        .describe("The commit SHA (defaults to the PR's current head)"),
+      timeout_seconds: z
+        .number()
+        .min(30)
+        .max(3600)
+        .default(900)
+        .describe("How long to wait before giving up"),
+      poll_interval_seconds: z
+        .number()
+        .min(10)
+        .max(300)
+        .default(30)
+        .describe("How often to check the runs"),
+    },
+    async ({ head_sha, timeout_seconds, poll_interval_seconds }) => {
+      try {
+        const client = new Octokit({
+          auth: GITHUB_TOKEN,
+          baseUrl: GITHUB_API_URL,
+        });
+
+        const sha = head_sha || (await getPullRequestHead(client)).sha;
+        const deadline = Date.now() + timeout_seconds * 1000;
+
+        while (true) {
+          const { data: runsData } =
+            await client.actions.listWorkflowRunsForRepo({
+              owner: REPO_OWNER!,
+              repo: REPO_NAME!,
+              head_sha: sha,
+              per_page: 100,
+            });
+
+          // Runs come newest first; keep the latest run of each workflow so
+          // a re-run or dispatch replaces the run it retries
+          const latestRuns = new Map<number, any>();
+          for (const run of runsData.workflow_runs) {
+            if (
+              String(run.id) !== CURRENT_RUN_ID &&
+              !latestRuns.has(run.workflow_id)
+            ) {
+              latestRuns.set(run.workflow_id, run);
+            }
+          }
+          const runs = [...latestRuns.values()];
+          const pending = runs.filter((run) => run.status !== "completed");
+          const timedOut = Date.now() >= deadline;
+
+          // Runs can take a few seconds to appear after a push
+          if ((runs.length > 0 && pending.length === 0) || timedOut) {
+            const failed = runs.filter(
+              (run) =>
+                run.status === "completed" &&
+                !PASSING_CONCLUSIONS.includes(run.conclusion),
+            );
+
+            const result = {
+              head_sha: sha,
+              conclusion: timedOut
+                ? "timed_out"
+                : failed.length > 0
+                  ? "failure"
+                  : "success",
+              ...(timedOut && { pending: pending.length }),
+              runs: runs.map((run) => ({
+                id: run.id,
+                name: run.name,
+                status: run.status,
+                conclusion: run.conclusion,
+                html_url: run.html_url,
+              })),
+            };
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          await new Promise((resolve) =>
+            setTimeout(
+              resolve,
+              Math.min(poll_interval_seconds * 1000, deadline - Date.now()),
+            ),
+          );
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+}
+
 async function runServer() {
   try {
     const transport = new StdioServerTransport();
@@ -6,6 +6,7 @@ import { z } from "zod";
 import { GITHUB_API_URL } from "../github/api/config";
 import { Octokit } from "@octokit/rest";
 import { updateClaudeComment } from "../github/operations/comments/update-claude-comment";
+import { withCommentLock } from "../github/operations/comments/lock";
 
 // Get repository information from environment variables
 const REPO_OWNER = process.env.REPO_OWNER;
@@ -54,13 +55,15 @@ server.tool(
       const isPullRequestReviewComment =
         eventName === "pull_request_review_comment";
 
-      const result = await updateClaudeComment(octokit, {
-        owner,
-        repo,
-        commentId,
-        body,
-        isPullRequestReviewComment,
-      });
+      const result = await withCommentLock(commentId, () =>
+        updateClaudeComment(octokit, {
+          owner,
+          repo,
+          commentId,
+          body,
+          isPullRequestReviewComment,
+        }),
+      );
 
       return {
         content: [
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+// GitHub Review MCP Server - Submits a single pull request review with inline comments
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { GITHUB_API_URL } from "../github/api/config";
+import { Octokit } from "@octokit/rest";
+import { submitPullRequestReview } from "../github/operations/review";
+
+// Get repository information from environment variables
+const REPO_OWNER = process.env.REPO_OWNER;
+const REPO_NAME = process.env.REPO_NAME;
+const PR_NUMBER = process.env.PR_NUMBER;
+
+if (!REPO_OWNER || !REPO_NAME || !PR_NUMBER) {
+  console.error(
+    "Error: REPO_OWNER, REPO_NAME and PR_NUMBER environment variables are required",
+  );
+  process.exit(1);
+}
+
+const server = new McpServer({
+  name: "GitHub Review Server",
+  version: "0.0.1",
+});
+
+server.tool(
+  "submit_review",
+  "Submit a single pull request review with a summary and line-anchored comments. Can only be called once per run.",
+  {
+    body: z
+      .string()
+      .describe("The review summary shown at the top of the review"),
+    event: z
+      .enum(["COMMENT", "REQUEST_CHANGES"])
+      .describe(
+        "The review verdict: REQUEST_CHANGES when blocking issues were found, otherwise COMMENT",
+      ),
+    comments: z
+      .array(
+        z.object({
+          path: z.string().describe("File path relative to the repo root"),
+          line: z
+            .number()
+            .describe("Line in the diff the comment applies to (last line)"),
+          startLine: z
+            .number()
+            .optional()
+            .describe("First line of a multi-line comment range"),
+          side: z
+            .enum(["LEFT", "RIGHT"])
+            .optional()
+            .describe(
+              "LEFT for deleted lines, RIGHT for added or context lines (default)",
+            ),
+          body: z.string().describe("The comment text"),
+        }),
+      )
+      .describe("Inline comments anchored to lines in the diff"),
+  },
+  async ({ body, event, comments }) => {
+    try {
+      const githubToken = process.env.GITHUB_TOKEN;
+
+      if (!githubToken) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+
+      const octokit = new Octokit({
+        auth: githubToken,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const result = await submitPullRequestReview(octokit, {
+        owner: REPO_OWNER,
+        repo: REPO_NAME,
+        pullNumber: parseInt(PR_NUMBER, 10),
+        body,
+        event,
+        comments,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
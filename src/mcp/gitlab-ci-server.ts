@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+// GitLab CI MCP Server - Pipelines, jobs, job logs and test reports for the merge request or branch
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { mkdir, writeFile } from "fs/promises";
+import { Gitlab } from "@gitbeaker/rest";
+import type {
+  GitLabJob,
+  GitLabPipeline,
+  GitLabTestReport,
+} from "../types/gitbeaker";
+import { getGitLabCILogsDirectory } from "../utils/temp-directory";
+import { getFailedTestCases, stripAnsi } from "../gitlab/pipelines";
+
+const PROJECT_ID = process.env.CI_PROJECT_ID;
+const MR_IID = process.env.MR_IID;
+const BRANCH_NAME = process.env.BRANCH_NAME;
+const GITLAB_TOKEN = process.env.GITLAB_TOKEN;
+const GITLAB_HOST = process.env.CI_SERVER_URL || "https://gitlab.com";
+
+if (!PROJECT_ID || !GITLAB_TOKEN || (!MR_IID && !BRANCH_NAME)) {
+  console.error(
+    "[GitLab CI Server] Error: CI_PROJECT_ID, GITLAB_TOKEN and MR_IID or BRANCH_NAME environment variables are required",
+  );
+  process.exit(1);
+}
+
+const api = new Gitlab({ host: GITLAB_HOST, token: GITLAB_TOKEN });
+
+const server = new McpServer({
+  name: "GitLab CI Server",
+  version: "0.0.1",
+});
+
+function errorResult(error: unknown) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: ${errorMessage}`,
+      },
+    ],
+    error: errorMessage,
+    isError: true,
+  };
+}
+
+server.tool(
+  "get_ci_status",
+  "Get pipeline status summary for this merge request (or the working branch outside a merge request)",
+  {
+    status: z
+      .enum([
+        "created",
+        "waiting_for_resource",
+        "preparing",
+        "pending",
+        "running",
+        "success",
+        "failed",
+        "canceled",
+        "skipped",
+        "manual",
+        "scheduled",
+      ])
+      .optional()
+      .describe("Filter pipelines by status"),
+  },
+  async ({ status }) => {
+    try {
+      const pipelines = (MR_IID
+        ? await api.MergeRequests.allPipelines(PROJECT_ID, parseInt(MR_IID))
+        : await api.Pipelines.all(PROJECT_ID, {
+            ref: BRANCH_NAME,
+            perPage: 20,
+            maxPages: 1,
+          })) as unknown as GitLabPipeline[];
+
+      const filtered = status
+        ? pipelines.filter((pipeline) => pipeline.status === status)
+        : pipelines;
+
+      const summary = {
+        total_pipelines: filtered.length,
+        failed: 0,
+        passed: 0,
+        pending: 0,
+      };
+
+      const processedPipelines = filtered.map((pipeline) => {
+        if (pipeline.status === "success") {
+          summary.passed++;
+        } else if (pipeline.status === "failed") {
+          summary.failed++;
+        } else if (
+          !["canceled", "skipped", "manual", "scheduled"].includes(
+            pipeline.status,
+          )
+        ) {
+          summary.pending++;
+        }
+
+        return {
+          id: pipeline.id,
+          status: pipeline.status,
+          ref: pipeline.ref,
+          sha: pipeline.sha,
+          web_url: pipeline.web_url,
+          created_at: pipeline.created_at,
+        };
+      });
+
+      const result = {
+        summary,
+        pipelines: processedPipelines,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+server.tool(
+  "get_pipeline_details",
+  "Get the jobs of a pipeline with their stages, statuses and failure reasons",
+  {
+    pipeline_id: z.number().describe("The pipeline ID"),
+  },
+  async ({ pipeline_id }) => {
+    try {
+      const jobs = (await api.Jobs.all(PROJECT_ID, {
+        pipelineId: pipeline_id,
+      })) as unknown as GitLabJob[];
+
+      const processedJobs = jobs.map((job) => ({
+        id: job.id,
+        name: job.name,
+        stage: job.stage,
+        status: job.status,
+        allow_failure: job.allow_failure,
+        ...(job.failure_reason && { failure_reason: job.failure_reason }),
+        web_url: job.web_url,
+        duration: job.duration,
+      }));
+
+      const result = {
+        jobs: processedJobs,
+        failed_jobs: processedJobs
+          .filter((job) => job.status === "failed" && !job.allow_failure)
+          .map((job) => job.id),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+server.tool(
+  "download_job_log",
+  "Download a job's log (trace) to disk with ANSI color codes and section markers removed",
+  {
+    job_id: z.number().describe("The job ID"),
+  },
+  async ({ job_id }) => {
+    try {
+      const log = stripAnsi(
+        (await api.Jobs.showLog(PROJECT_ID, job_id)) as string,
+      );
+
+      const logsDir = getGitLabCILogsDirectory();
+      await mkdir(logsDir, { recursive: true });
+
+      const logPath = `${logsDir}/job-${job_id}.log`;
+      await writeFile(logPath, log, "utf-8");
+
+      const result = {
+        path: logPath,
+        size_bytes: Buffer.byteLength(log, "utf-8"),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+server.tool(
+  "get_test_report",
+  "Get a pipeline's JUnit test report: totals per suite and the failed test cases with their output and stack traces",
+  {
+    pipeline_id: z.number().describe("The pipeline ID"),
+  },
+  async ({ pipeline_id }) => {
+    try {
+      const report = (await api.Pipelines.showTestReport(
+        PROJECT_ID,
+        pipeline_id,
+      )) as unknown as GitLabTestReport;
+
+      const result = {
+        summary: {
+          total: report.total_count,
+          passed: report.success_count,
+          failed: report.failed_count,
+          errors: report.error_count,
+          skipped: report.skipped_count,
+        },
+        suites: report.test_suites.map((suite) => ({
+          name: suite.name,
+          total: suite.total_count,
+          failed: suite.failed_count,
+          errors: suite.error_count,
+        })),
+        failed_tests: getFailedTestCases(report),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(() => {
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+// GitLab Comment MCP Server - Minimal server that only updates Claude's tracking note
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { GitLabProvider } from "../providers/gitlab-provider";
+import { withCommentLock } from "../github/operations/comments/lock";
+
+// stdout carries the MCP protocol, so route the provider's logging to stderr
+console.log = console.error;
+
+// Get project information from environment variables
+const PROJECT_ID = process.env.CI_PROJECT_ID;
+const MR_IID = process.env.MR_IID;
+const ISSUE_IID = process.env.ISSUE_IID;
+const GITLAB_HOST = process.env.CI_SERVER_URL || "https://gitlab.com";
+
+if (!PROJECT_ID || (!MR_IID && !ISSUE_IID)) {
+  console.error(
+    "Error: CI_PROJECT_ID and MR_IID or ISSUE_IID environment variables are required",
+  );
+  process.exit(1);
+}
+
+const server = new McpServer({
+  name: "GitLab Comment Server",
+  version: "0.0.1",
+});
+
+server.tool(
+  "update_claude_comment",
+  "Update the Claude comment with progress and results (works on both merge request and issue notes)",
+  {
+    body: z.string().describe("The updated comment content"),
+  },
+  async ({ body }) => {
+    try {
+      const gitlabToken = process.env.GITLAB_TOKEN;
+      const claudeCommentId = process.env.CLAUDE_COMMENT_ID;
+
+      if (!gitlabToken) {
+        throw new Error("GITLAB_TOKEN environment variable is required");
+      }
+      if (!claudeCommentId) {
+        throw new Error("CLAUDE_COMMENT_ID environment variable is required");
+      }
+
+      const provider = new GitLabProvider({
+        token: gitlabToken,
+        projectId: PROJECT_ID,
+        mrIid: MR_IID,
+        issueIid: ISSUE_IID,
+        host: GITLAB_HOST,
+      });
+
+      const commentId = parseInt(claudeCommentId, 10);
+      await withCommentLock(commentId, () =>
+        provider.updateComment(commentId, body),
+      );
+
+      const result = {
+        id: commentId,
+        updated: true,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
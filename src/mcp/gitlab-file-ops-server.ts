@@ -0,0 +1,281 @@
+#!/usr/bin/env node
+// GitLab File Operations MCP Server - Commits through the Commits API
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { readFile } from "fs/promises";
+import { join, relative } from "path";
+import { $ } from "bun";
+import { Gitlab } from "@gitbeaker/rest";
+import type { GitLabCommit } from "../types/gitbeaker";
+
+type CommitAction = {
+  action: "create" | "update" | "delete" | "move";
+  filePath: string;
+  previousPath?: string;
+  content?: string;
+  encoding?: string;
+};
+
+// Get project information from environment variables
+const PROJECT_ID = process.env.CI_PROJECT_ID;
+const BRANCH_NAME = process.env.BRANCH_NAME;
+const BASE_BRANCH = process.env.BASE_BRANCH;
+const GITLAB_HOST = process.env.CI_SERVER_URL || "https://gitlab.com";
+const REPO_DIR = process.env.REPO_DIR || process.cwd();
+
+if (!PROJECT_ID || !BRANCH_NAME) {
+  console.error(
+    "Error: CI_PROJECT_ID and BRANCH_NAME environment variables are required",
+  );
+  process.exit(1);
+}
+
+const server = new McpServer({
+  name: "GitLab File Operations Server",
+  version: "0.0.1",
+});
+
+function createApi() {
+  const gitlabToken = process.env.GITLAB_TOKEN;
+  if (!gitlabToken) {
+    throw new Error("GITLAB_TOKEN environment variable is required");
+  }
+  return new Gitlab({ host: GITLAB_HOST, token: gitlabToken });
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as any)?.cause?.response?.status === 404;
+}
+
+// Paths are relative to the repository root; absolute paths must be inside it
+function toRepoPath(filePath: string): string {
+  if (!filePath.startsWith("/")) {
+    return filePath;
+  }
+  const repoPath = relative(REPO_DIR, filePath);
+  if (repoPath.startsWith("..")) {
+    throw new Error(
+      `Path '${filePath}' must be relative to repository root or within the repository directory`,
+    );
+  }
+  return repoPath;
+}
+
+async function branchExists(
+  api: InstanceType<typeof Gitlab>,
+  branch: string,
+): Promise<boolean> {
+  try {
+    await api.Branches.show(PROJECT_ID!, branch);
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function fileExists(
+  api: InstanceType<typeof Gitlab>,
+  filePath: string,
+  ref: string,
+): Promise<boolean> {
+  try {
+    await api.RepositoryFiles.show(PROJECT_ID!, filePath, ref);
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Commits the actions to the working branch, creating it from the base
+ * branch on the first commit, then moves the local checkout onto the new
+ * commit. The reset keeps the working tree, so committed files no longer
+ * show as changes and later pushes from the job stay fast-forward.
+ */
+async function commitActions(
+  api: InstanceType<typeof Gitlab>,
+  actions: CommitAction[],
+  message: string,
+) {
+  const startBranch = (await branchExists(api, BRANCH_NAME!))
+    ? undefined
+    : BASE_BRANCH;
+
+  const commit = (await api.Commits.create(
+    PROJECT_ID!,
+    BRANCH_NAME!,
+    message,
+    actions,
+    startBranch ? { startBranch } : {},
+  )) as unknown as GitLabCommit;
+
+  try {
+    await $`git fetch origin ${BRANCH_NAME}`.cwd(REPO_DIR).quiet();
+    await $`git reset --mixed FETCH_HEAD`.cwd(REPO_DIR).quiet();
+  } catch (error) {
+    console.error("Failed to sync the local checkout:", error);
+  }
+
+  return {
+    commit: {
+      id: commit.id,
+      message: commit.message,
+      author: commit.author_name,
+      web_url: commit.web_url,
+    },
+    branch: BRANCH_NAME,
+    ...(startBranch && { created_from: startBranch }),
+  };
+}
+
+function successResult(result: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+function errorResult(error: unknown) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: ${errorMessage}`,
+      },
+    ],
+    error: errorMessage,
+    isError: true,
+  };
+}
+
+// Commit files tool
+server.tool(
+  "commit_files",
+  "Commit one or more files to the branch in a single commit (this will commit them atomically in the remote repository)",
+  {
+    files: z
+      .array(z.string())
+      .describe(
+        'Array of file paths relative to repository root (e.g. ["src/main.js", "README.md"]). All files must exist locally.',
+      ),
+    message: z.string().describe("Commit message"),
+  },
+  async ({ files, message }) => {
+    try {
+      const api = createApi();
+      const ref = (await branchExists(api, BRANCH_NAME))
+        ? BRANCH_NAME
+        : BASE_BRANCH || BRANCH_NAME;
+
+      const actions = await Promise.all(
+        files.map(async (file): Promise<CommitAction> => {
+          const filePath = toRepoPath(file);
+          // Base64 keeps binary files intact
+          const content = await readFile(join(REPO_DIR, filePath));
+          return {
+            action: (await fileExists(api, filePath, ref))
+              ? "update"
+              : "create",
+            filePath,
+            content: content.toString("base64"),
+            encoding: "base64",
+          };
+        }),
+      );
+
+      return successResult(await commitActions(api, actions, message));
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+// Delete files tool
+server.tool(
+  "delete_files",
+  "Delete one or more files from the branch in a single commit",
+  {
+    paths: z
+      .array(z.string())
+      .describe(
+        'Array of file paths to delete relative to repository root (e.g. ["src/old-file.js", "docs/deprecated.md"])',
+      ),
+    message: z.string().describe("Commit message"),
+  },
+  async ({ paths, message }) => {
+    try {
+      const api = createApi();
+      const actions = paths.map(
+        (path): CommitAction => ({
+          action: "delete",
+          filePath: toRepoPath(path),
+        }),
+      );
+
+      return successResult(await commitActions(api, actions, message));
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+// Move files tool
+server.tool(
+  "move_files",
+  "Move or rename one or more files on the branch in a single commit. The file content at the new path is taken from the local checkout.",
+  {
+    moves: z
+      .array(
+        z.object({
+          from: z.string().describe("Current path relative to repository root"),
+          to: z.string().describe("New path relative to repository root"),
+        }),
+      )
+      .describe("Files to move"),
+    message: z.string().describe("Commit message"),
+  },
+  async ({ moves, message }) => {
+    try {
+      const api = createApi();
+      const actions = await Promise.all(
+        moves.map(async ({ from, to }): Promise<CommitAction> => {
+          const filePath = toRepoPath(to);
+          const content = await readFile(join(REPO_DIR, filePath));
+          return {
+            action: "move",
+            previousPath: toRepoPath(from),
+            filePath,
+            content: content.toString("base64"),
+            encoding: "base64",
+          };
+        }),
+      );
+
+      return successResult(await commitActions(api, actions, message));
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+// GitLab Review MCP Server - Publishes a batch of merge request discussions as one review
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { GitLabProvider } from "../providers/gitlab-provider";
+
+// stdout carries the MCP protocol, so route the provider's logging to stderr
+console.log = console.error;
+
+// Get project information from environment variables
+const PROJECT_ID = process.env.CI_PROJECT_ID;
+const MR_IID = process.env.MR_IID;
+const GITLAB_HOST = process.env.CI_SERVER_URL || "https://gitlab.com";
+
+if (!PROJECT_ID || !MR_IID) {
+  console.error(
+    "Error: CI_PROJECT_ID and MR_IID environment variables are required",
+  );
+  process.exit(1);
+}
+
+const server = new McpServer({
+  name: "GitLab Review Server",
+  version: "0.0.1",
+});
+
+server.tool(
+  "submit_review",
+  "Submit a single merge request review with a summary and line-anchored comments. Can only be called once per run.",
+  {
+    body: z
+      .string()
+      .describe("The review summary shown at the top of the review"),
+    event: z
+      .enum(["COMMENT", "REQUEST_CHANGES"])
+      .describe(
+        "The review verdict: REQUEST_CHANGES when blocking issues were found, otherwise COMMENT",
+      ),
+    comments: z
+      .array(
+        z.object({
+          path: z.string().describe("File path relative to the repo root"),
+          line: z
+            .number()
+            .describe("Line in the diff the comment applies to (last line)"),
+          startLine: z
+            .number()
+            .optional()
+            .describe("First line of a multi-line comment range"),
+          side: z
+            .enum(["LEFT", "RIGHT"])
+            .optional()
+            .describe(
+              "LEFT for deleted lines, RIGHT for added or context lines (default)",
+            ),
+          body: z.string().describe("The comment text"),
+        }),
+      )
+      .describe("Inline comments anchored to lines in the diff"),
+  },
+  async ({ body, event, comments }) => {
+    try {
+      const gitlabToken = process.env.GITLAB_TOKEN;
+
+      if (!gitlabToken) {
+        throw new Error("GITLAB_TOKEN environment variable is required");
+      }
+
+      const provider = new GitLabProvider({
+        token: gitlabToken,
+        projectId: PROJECT_ID,
+        mrIid: MR_IID,
+        host: GITLAB_HOST,
+      });
+
+      await provider.submitReview({ body, event, comments });
+
+      const result = {
+        merge_request: MR_IID,
+        comments: comments.length,
+        event,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
@@ -3,6 +3,7 @@ import { GITHUB_API_URL } from "../github/api/config";
 import type { ParsedGitHubContext } from "../github/context";
 import { Octokit } from "@octokit/rest";
 import { getTempDirectory } from "../utils/temp-directory";
+import { TRIAGE_SERVER_NAME, getTriageCapabilities } from "./triage-tools";
 
 type PrepareConfigParams = {
   githubToken: string;
@@ -87,6 +88,8 @@ export async function prepareMcpConfig(
         ...(claudeCommentId && { CLAUDE_COMMENT_ID: claudeCommentId }),
         GITHUB_EVENT_NAME: process.env.GITHUB_EVENT_NAME || "",
         GITHUB_API_URL: GITHUB_API_URL,
+        // Where the comment lock shared with the progress reporter lives
+        RUNNER_TEMP: process.env.RUNNER_TEMP || "",
       },
     };
 
@@ -112,9 +115,56 @@ export async function prepareMcpConfig(
       };
     }
 
+    // Review mode submits its findings as a single PR review
+    if (context.inputs.mode === "review" && context.isPR) {
+      baseMcpConfig.mcpServers.github_review = {
+        command: "bun",
+        args: [
+          "run",
+          `${process.env.GITHUB_ACTION_PATH}/src/mcp/github-review-server.ts`,
+        ],
+        env: {
+          GITHUB_TOKEN: githubToken,
+          REPO_OWNER: owner,
+          REPO_NAME: repo,
+          PR_NUMBER: context.entityNumber.toString(),
+          GITHUB_API_URL: GITHUB_API_URL,
+        },
+      };
+    }
+
+    // Triage tools are gated by issues:write and pull-requests:write
+    const triageCapabilities = getTriageCapabilities(
+      context.inputs.additionalPermissions,
+      context.isPR,
+    );
+    if (triageCapabilities.length > 0) {
+      baseMcpConfig.mcpServers[TRIAGE_SERVER_NAME] = {
+        command: "bun",
+        args: [
+          "run",
+          `${process.env.GITHUB_ACTION_PATH}/src/mcp/triage-server.ts`,
+        ],
+        env: {
+          SCM_PLATFORM: "github",
+          SCM_TOKEN: githubToken,
+          TRIAGE_CAPABILITIES: triageCapabilities.join(","),
+          GITHUB_REPOSITORY: `${owner}/${repo}`,
+          GITHUB_EVENT_NAME: process.env.GITHUB_EVENT_NAME || "",
+          GITHUB_EVENT_PATH: process.env.GITHUB_EVENT_PATH || "",
+          GITHUB_RUN_ID: process.env.GITHUB_RUN_ID || "",
+          GITHUB_ACTOR: process.env.GITHUB_ACTOR || "",
+          GITHUB_API_URL: GITHUB_API_URL,
+        },
+      };
+    }
+
     // Only add CI server if we have actions:read permission and we're in a PR context
+    // (actions:write also allows re-running and waiting on workflows)
+    const actionsPermission =
+      context.inputs.additionalPermissions.get("actions");
     const hasActionsReadPermission =
-      context.inputs.additionalPermissions.get("actions") === "read";
+      actionsPermission === "read" || actionsPermission === "write";
 
     if (context.isPR && hasActionsReadPermission) {
       // Verify the token actually has actions:read permission
@@ -144,6 +194,8 @@ export async function prepareMcpConfig(
           REPO_NAME: repo,
           PR_NUMBER: context.entityNumber.toString(),
           RUNNER_TEMP: getTempDirectory(),
+          ACTIONS_WRITE: String(actionsPermission === "write"),
+          GITHUB_RUN_ID: process.env.GITHUB_RUN_ID || "",
         },
       };
     }
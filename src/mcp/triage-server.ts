@@ -0,0 +1,220 @@
+#!/usr/bin/env node
+// Triage MCP Server - Labels, assignees and reviewers for the current issue or pull/merge request
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { GitHubProvider } from "../providers/github-provider";
+import { GitLabProvider } from "../providers/gitlab-provider";
+import type { TriageProvider } from "../providers/scm-provider";
+import type { TriageCapability } from "./triage-tools";
+
+// stdout carries the MCP protocol, so route the provider's logging to stderr
+console.log = console.error;
+
+const PLATFORM = process.env.SCM_PLATFORM;
+const CAPABILITIES = (process.env.TRIAGE_CAPABILITIES || "")
+  .split(",")
+  .filter(Boolean) as TriageCapability[];
+
+if (PLATFORM !== "github" && PLATFORM !== "gitlab") {
+  console.error("Error: SCM_PLATFORM must be github or gitlab");
+  process.exit(1);
+}
+
+function createProvider(): TriageProvider {
+  const token = process.env.SCM_TOKEN;
+  if (!token) {
+    throw new Error("SCM_TOKEN environment variable is required");
+  }
+
+  if (PLATFORM === "gitlab") {
+    return new GitLabProvider({
+      token,
+      projectId: process.env.CI_PROJECT_ID!,
+      mrIid: process.env.MR_IID || undefined,
+      issueIid: process.env.ISSUE_IID || undefined,
+      host: process.env.CI_SERVER_URL || "https://gitlab.com",
+    });
+  }
+
+  // GitHubProvider reads the event from GITHUB_EVENT_PATH
+  const [owner = "", repo = ""] = (process.env.GITHUB_REPOSITORY || "").split(
+    "/",
+  );
+  return new GitHubProvider({
+    token,
+    runId: process.env.GITHUB_RUN_ID || "",
+    actor: process.env.GITHUB_ACTOR || "",
+    eventName: process.env.GITHUB_EVENT_NAME || "",
+    repository: { owner, repo },
+  });
+}
+
+// CODEOWNERS and mentions write users and teams with a leading @
+function normalizeNames(names: string[]): string[] {
+  return names.map((name) => name.trim().replace(/^@/, "")).filter(Boolean);
+}
+
+function textResult(result: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+function errorResult(error: unknown) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: ${errorMessage}`,
+      },
+    ],
+    error: errorMessage,
+    isError: true,
+  };
+}
+
+const server = new McpServer({
+  name: "Triage Server",
+  version: "0.0.1",
+});
+
+server.tool(
+  "get_triage_state",
+  "Get the labels, assignees, requested reviewers and approvals of the current issue or pull/merge request, and the labels defined in the repository",
+  {},
+  async () => {
+    try {
+      const provider = createProvider();
+      const { isPR } = provider.getContext();
+      const result = {
+        labels: await provider.getLabels(),
+        availableLabels: await provider.getAvailableLabels(),
+        assignees: await provider.getAssignees(),
+        ...(isPR && {
+          reviewers: await provider.getRequestedReviewers(),
+          approvals: await provider.getApprovalState(),
+        }),
+      };
+      return textResult(result);
+    } catch (error) {
+      return errorResult(error);
+    }
+  },
+);
+
+const usernamesSchema = z
+  .array(z.string())
+  .min(1)
+  .describe("Usernames, e.g. from CODEOWNERS (a leading @ is ignored)");
+
+if (CAPABILITIES.includes("labels")) {
+  const labelsSchema = z
+    .array(z.string())
+    .min(1)
+    .describe("Label names as defined in the repository");
+
+  server.tool(
+    "add_labels",
+    "Add labels to the current issue or pull/merge request. Only labels that already exist in the repository can be added.",
+    { labels: labelsSchema },
+    async ({ labels }) => {
+      try {
+        const provider = createProvider();
+        const available = await provider.getAvailableLabels();
+        const unknown = labels.filter((label) => !available.includes(label));
+        if (unknown.length > 0) {
+          throw new Error(
+            `Unknown labels: ${unknown.join(", ")}. Available labels: ${available.join(", ")}`,
+          );
+        }
+        await provider.addLabels(labels);
+        return textResult({ labels: await provider.getLabels() });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  server.tool(
+    "remove_labels",
+    "Remove labels from the current issue or pull/merge request",
+    { labels: labelsSchema },
+    async ({ labels }) => {
+      try {
+        const provider = createProvider();
+        await provider.removeLabels(labels);
+        return textResult({ labels: await provider.getLabels() });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+}
+
+if (CAPABILITIES.includes("assignees")) {
+  server.tool(
+    "add_assignees",
+    "Assign users to the current issue or pull/merge request, keeping the existing assignees",
+    { usernames: usernamesSchema },
+    async ({ usernames }) => {
+      try {
+        const provider = createProvider();
+        await provider.addAssignees(normalizeNames(usernames));
+        return textResult({ assignees: await provider.getAssignees() });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  server.tool(
+    "remove_assignees",
+    "Unassign users from the current issue or pull/merge request",
+    { usernames: usernamesSchema },
+    async ({ usernames }) => {
+      try {
+        const provider = createProvider();
+        await provider.removeAssignees(normalizeNames(usernames));
+        return textResult({ assignees: await provider.getAssignees() });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+}
+
+if (CAPABILITIES.includes("reviewers")) {
+  server.tool(
+    "request_reviewers",
+    "Request reviews on the current pull/merge request, keeping the existing reviewers. On GitHub, teams are given as org/team.",
+    { usernames: usernamesSchema },
+    async ({ usernames }) => {
+      try {
+        const provider = createProvider();
+        await provider.requestReviewers(normalizeNames(usernames));
+        return textResult({
+          reviewers: await provider.getRequestedReviewers(),
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+}
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
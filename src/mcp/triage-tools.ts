@@ -0,0 +1,49 @@
+/**
+ * Triage Tools
+ *
+ * Decides which triage tools Claude gets from the permissions granted
+ * through `additional_permissions`, shared by the GitHub and GitLab setup
+ */
+
+export type TriageCapability = "labels" | "assignees" | "reviewers";
+
+export const TRIAGE_SERVER_NAME = "scm_triage";
+
+const TRIAGE_WRITE_TOOLS: Record<TriageCapability, string[]> = {
+  labels: ["add_labels", "remove_labels"],
+  assignees: ["add_assignees", "remove_assignees"],
+  reviewers: ["request_reviewers"],
+};
+
+/**
+ * Labels and assignees need `issues: write`; requesting reviewers needs
+ * `pull-requests: write` and a pull/merge request to request them on
+ */
+export function getTriageCapabilities(
+  permissions: Map<string, string>,
+  isPR: boolean,
+): TriageCapability[] {
+  const capabilities: TriageCapability[] = [];
+  if (permissions.get("issues") === "write") {
+    capabilities.push("labels", "assignees");
+  }
+  if (isPR && permissions.get("pull-requests") === "write") {
+    capabilities.push("reviewers");
+  }
+  return capabilities;
+}
+
+/**
+ * Allowed tool names for the triage server, empty when it isn't installed
+ */
+export function getTriageAllowedTools(
+  capabilities: TriageCapability[],
+): string[] {
+  if (capabilities.length === 0) {
+    return [];
+  }
+  return [
+    "get_triage_state",
+    ...capabilities.flatMap((capability) => TRIAGE_WRITE_TOOLS[capability]),
+  ].map((tool) => `mcp__${TRIAGE_SERVER_NAME}__${tool}`);
+}
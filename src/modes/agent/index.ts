@@ -0,0 +1,45 @@
+import type { Mode } from "../types";
+
+/**
+ * Agent mode implementation.
+ *
+ * Runs purely from direct_prompt/override_prompt(_file) on any event (schedule,
+ * workflow_dispatch, push, ...) without checking for a trigger phrase and
+ * without a tracking comment. Results are exposed as action outputs instead.
+ */
+export const agentMode: Mode = {
+  name: "agent",
+  description:
+    "Automation mode that runs from a configured prompt on any event",
+
+  shouldTrigger(context) {
+    return Boolean(
+      context.inputs.directPrompt ||
+        context.inputs.overridePrompt ||
+        context.inputs.overridePromptFile,
+    );
+  },
+
+  prepareContext(context, data) {
+    return {
+      mode: "agent",
+      githubContext: context,
+      commentId: data?.commentId,
+      baseBranch: data?.baseBranch,
+      claudeBranch: data?.claudeBranch,
+    };
+  },
+
+  getAllowedTools() {
+    return [];
+  },
+
+  getDisallowedTools() {
+    // There is no tracking comment to update
+    return ["mcp__github_comment__update_claude_comment"];
+  },
+
+  shouldCreateTrackingComment() {
+    return false;
+  },
+};
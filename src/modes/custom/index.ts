@@ -0,0 +1,181 @@
+import { readdir, readFile } from "fs/promises";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { Mode } from "../types";
+import type { ParsedGitHubContext } from "../../github/context";
+import { checkContainsTrigger } from "../../github/validation/trigger";
+
+/**
+ * Directory (relative to the repository root) that custom modes are loaded from
+ */
+export const CUSTOM_MODES_DIRECTORY = ".claude/modes";
+
+// Modes are declarative only: code from the checked-out repository must never
+// run inside the action, which holds the workflow's tokens
+const MODE_FILE_EXTENSIONS = [".json", ".yml", ".yaml"];
+
+const customModeSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9-]*$/,
+        "must start with a letter and contain only lowercase letters, digits and hyphens",
+      ),
+    description: z.string().min(1),
+    trigger: z
+      .object({
+        phrase: z.string().min(1).optional(),
+        events: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    prompt: z.string().min(1).optional(),
+    allowedTools: z.array(z.string()).default([]),
+    disallowedTools: z.array(z.string()).default([]),
+    trackingComment: z.boolean().default(true),
+  })
+  .strict()
+  .refine((definition) => definition.trackingComment || definition.prompt, {
+    message: "prompt is required when trackingComment is false",
+    path: ["prompt"],
+  });
+
+/**
+ * A custom mode as written in `.claude/modes/<name>.json` or
+ * `.claude/modes/<name>.yml`
+ */
+export type CustomModeDefinition = z.input<typeof customModeSchema>;
+
+/**
+ * Checks whether the event matches one of the configured entries, which are
+ * either an event name (`issue_comment`) or an event name and action
+ * (`pull_request.opened`)
+ */
+function matchesEvent(context: ParsedGitHubContext, events: string[]): boolean {
+  return events.some((event) => {
+    const [eventName, eventAction] = event.split(".");
+    return (
+      eventName === context.eventName &&
+      (!eventAction || eventAction === context.eventAction)
+    );
+  });
+}
+
+/**
+ * Builds a mode from a validated custom mode definition
+ */
+export function createCustomMode(
+  definition: z.output<typeof customModeSchema>,
+): Mode {
+  return {
+    name: definition.name,
+    description: definition.description,
+
+    shouldTrigger(context) {
+      // The tracking comment needs an issue or PR to be posted on
+      if (definition.trackingComment && !context.entityNumber) {
+        return false;
+      }
+      if (
+        definition.trigger?.events &&
+        !matchesEvent(context, definition.trigger.events)
+      ) {
+        return false;
+      }
+      if (definition.trigger?.events && !definition.trigger.phrase) {
+        return true;
+      }
+      return checkContainsTrigger({
+        ...context,
+        inputs: {
+          ...context.inputs,
+          triggerPhrase:
+            definition.trigger?.phrase ?? context.inputs.triggerPhrase,
+        },
+      });
+    },
+
+    prepareContext(context, data) {
+      return {
+        mode: definition.name,
+        githubContext: context,
+        commentId: data?.commentId,
+        baseBranch: data?.baseBranch,
+        claudeBranch: data?.claudeBranch,
+      };
+    },
+
+    getAllowedTools() {
+      return definition.allowedTools;
+    },
+
+    getDisallowedTools() {
+      return definition.disallowedTools;
+    },
+
+    shouldCreateTrackingComment() {
+      return definition.trackingComment;
+    },
+
+    getPromptTemplate() {
+      return definition.prompt;
+    },
+  };
+}
+
+/**
+ * Parses and validates a custom mode definition
+ * @throws Error describing every invalid field
+ */
+export function parseCustomMode(definition: unknown, source: string): Mode {
+  const result = customModeSchema.safeParse(definition);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "mode"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid custom mode in ${source}: ${issues}`);
+  }
+  return createCustomMode(result.data);
+}
+
+/**
+ * Loads all custom modes from a directory of JSON and YAML definitions.
+ * Other files are ignored and a missing directory yields no modes.
+ */
+export async function loadCustomModes(directory: string): Promise<Mode[]> {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const modes: Mode[] = [];
+  for (const file of files.sort()) {
+    if (!MODE_FILE_EXTENSIONS.includes(path.extname(file))) {
+      continue;
+    }
+
+    const filePath = path.resolve(directory, file);
+    let definition: unknown;
+    try {
+      const content = await readFile(filePath, "utf8");
+      definition =
+        path.extname(file) === ".json"
+          ? JSON.parse(content)
+          : parseYaml(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse custom mode ${filePath}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    modes.push(parseCustomMode(definition, filePath));
+  }
+  return modes;
+}
@@ -8,13 +8,22 @@
  * 2. Create the mode implementation in a new directory (e.g., src/modes/review/)
  * 3. Import and add it to the modes object below
  * 4. Update action.yml description to mention the new mode
+ *
+ * Repositories can also define their own modes in `.claude/modes/`, which are
+ * registered at prepare time with loadRepositoryModes (see ./custom) when the
+ * mode input names one.
  */
 
+import * as path from "path";
+
 import type { Mode } from "./types";
 import { tagMode } from "./tag/index";
+import { reviewMode } from "./review/index";
+import { agentMode } from "./agent/index";
+import { CUSTOM_MODES_DIRECTORY, loadCustomModes } from "./custom/index";
 
 export const DEFAULT_MODE = "tag" as const;
-export const VALID_MODES = ["tag"] as const;
+export const VALID_MODES = ["tag", "review", "agent"] as const;
 export type ModeName = (typeof VALID_MODES)[number];
 
 /**
@@ -23,18 +32,66 @@ export type ModeName = (typeof VALID_MODES)[number];
  */
 const modes = {
   tag: tagMode,
+  review: reviewMode,
+  agent: agentMode,
 } as const satisfies Record<ModeName, Mode>;
 
+/**
+ * Custom modes registered from the repository, keyed by name.
+ */
+const customModes = new Map<string, Mode>();
+
+/**
+ * Registers a custom mode.
+ * @param mode The mode to register
+ * @throws Error if a built-in or already registered mode has the same name
+ */
+export function registerMode(mode: Mode): void {
+  if (VALID_MODES.includes(mode.name as ModeName)) {
+    throw new Error(
+      `Custom mode '${mode.name}' conflicts with a built-in mode. Please rename it.`,
+    );
+  }
+  if (customModes.has(mode.name)) {
+    throw new Error(`Custom mode '${mode.name}' is defined more than once.`);
+  }
+  customModes.set(mode.name, mode);
+}
+
+/**
+ * Removes all registered custom modes.
+ */
+export function clearCustomModes(): void {
+  customModes.clear();
+}
+
+/**
+ * Loads the custom modes defined in the repository's `.claude/modes/` directory
+ * and registers them.
+ * @param repoDir The repository root
+ * @returns The registered modes
+ * @throws Error if a mode definition is invalid or conflicts with another mode
+ */
+export async function loadRepositoryModes(repoDir: string): Promise<Mode[]> {
+  const loaded = await loadCustomModes(
+    path.join(repoDir, CUSTOM_MODES_DIRECTORY),
+  );
+  for (const mode of loaded) {
+    registerMode(mode);
+  }
+  return loaded;
+}
+
 /**
  * Retrieves a mode by name.
  * @param name The mode name to retrieve
  * @returns The requested mode
  * @throws Error if the mode is not found
  */
-export function getMode(name: ModeName): Mode {
-  const mode = modes[name];
+export function getMode(name: string): Mode {
+  const mode = isBuiltInMode(name) ? modes[name] : customModes.get(name);
   if (!mode) {
-    const validModes = VALID_MODES.join("', '");
+    const validModes = [...VALID_MODES, ...customModes.keys()].join("', '");
     throw new Error(
       `Invalid mode '${name}'. Valid modes are: '${validModes}'. Please check your workflow configuration.`,
     );
@@ -43,10 +100,19 @@ export function getMode(name: ModeName): Mode {
 }
 
 /**
- * Type guard to check if a string is a valid mode name.
+ * Type guard to check if a string is a built-in mode name.
  * @param name The string to check
- * @returns True if the name is a valid mode name
+ * @returns True if the name is a built-in mode name
  */
-export function isValidMode(name: string): name is ModeName {
+export function isBuiltInMode(name: string): name is ModeName {
   return VALID_MODES.includes(name as ModeName);
 }
+
+/**
+ * Checks if a string is a valid mode name (built-in or registered custom mode).
+ * @param name The string to check
+ * @returns True if the name is a valid mode name
+ */
+export function isValidMode(name: string): boolean {
+  return isBuiltInMode(name) || customModes.has(name);
+}
@@ -0,0 +1,67 @@
+import type { Mode } from "../types";
+import { isPullRequestEvent } from "../../github/context";
+
+/**
+ * Tools that could modify the repository or post outside the review.
+ * Review mode only reads code and submits a single review.
+ */
+const REVIEW_DISALLOWED_TOOLS = [
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "NotebookEdit",
+  "Bash(git add:*)",
+  "Bash(git commit:*)",
+  "Bash(git push:*)",
+  "Bash(git rm:*)",
+  "mcp__github_comment__update_claude_comment",
+  "mcp__github_file_ops__commit_files",
+  "mcp__github_file_ops__delete_files",
+];
+
+/**
+ * Review mode implementation.
+ *
+ * Runs automatically when a pull request is opened or updated. Does not create
+ * a tracking comment; instead Claude reads the changes and submits one PR review
+ * with line-anchored comments and a summary verdict.
+ */
+export const reviewMode: Mode = {
+  name: "review",
+  description: "Automated code review mode triggered by pull request updates",
+
+  shouldTrigger(context) {
+    return (
+      isPullRequestEvent(context) &&
+      (context.eventAction === "opened" ||
+        context.eventAction === "synchronize")
+    );
+  },
+
+  prepareContext(context, data) {
+    return {
+      mode: "review",
+      githubContext: context,
+      commentId: data?.commentId,
+      baseBranch: data?.baseBranch,
+      claudeBranch: data?.claudeBranch,
+    };
+  },
+
+  getAllowedTools() {
+    return [
+      "mcp__github_review__submit_review",
+      "Bash(git diff:*)",
+      "Bash(git log:*)",
+      "Bash(git show:*)",
+    ];
+  },
+
+  getDisallowedTools() {
+    return REVIEW_DISALLOWED_TOOLS;
+  },
+
+  shouldCreateTrackingComment() {
+    return false;
+  },
+};
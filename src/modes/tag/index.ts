@@ -13,6 +13,13 @@ export const tagMode: Mode = {
   description: "Traditional implementation mode triggered by @claude mentions",
 
   shouldTrigger(context) {
+    // The tracking comment needs an issue or PR, e.g. a dispatch without pr_number/issue_number has none
+    if (!context.entityNumber) {
+      console.log(
+        `No issue or pull request to respond to for ${context.eventName} event, use agent mode instead`,
+      );
+      return false;
+    }
     return checkContainsTrigger(context);
   },
 
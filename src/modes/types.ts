@@ -1,8 +1,7 @@
 import type { ParsedGitHubContext } from "../github/context";
-import type { ModeName } from "./registry";
 
 export type ModeContext = {
-  mode: ModeName;
+  mode: string;
   githubContext: ParsedGitHubContext;
   commentId?: number;
   baseBranch?: string;
@@ -19,13 +18,9 @@ export type ModeData = {
  * Mode interface for claude-code-action execution modes.
  * Each mode defines its own behavior for trigger detection, prompt generation,
  * and tracking comment creation.
- *
- * Future modes might include:
- * - 'review': Optimized for code reviews without tracking comments
- * - 'freeform': For automation with no trigger checking
  */
 export type Mode = {
-  name: ModeName;
+  name: string;
   description: string;
 
   /**
@@ -53,4 +48,10 @@ export type Mode = {
    * Determines if this mode should create a tracking comment
    */
   shouldCreateTrackingComment(): boolean;
+
+  /**
+   * Returns a prompt template that replaces the default prompt, if the mode has one.
+   * Supports the same variables as override_prompt.
+   */
+  getPromptTemplate?(): string | undefined;
 };
@@ -0,0 +1,627 @@
+/**
+ * Azure DevOps Provider Implementation
+ *
+ * Implements the SCM Provider interface for Azure Repos in Azure DevOps
+ * Services and Azure DevOps Server
+ */
+
+import { $ } from "bun";
+import type {
+  SCMProvider,
+  SCMContext,
+  RepoInfo,
+  PullRequestInfo,
+  CommentInfo,
+  FileChange,
+  BranchInfo,
+  ReviewSubmission,
+  AzureDevOpsProviderOptions,
+} from "./scm-provider";
+import {
+  parseAzureDevOpsContext,
+  parseAzureDevOpsWebhookPayload,
+  getWebhookActor,
+  getWebhookPullRequest,
+  type ParsedAzureDevOpsContext,
+} from "../azure-devops/context";
+import { checkAzureDevOpsTriggerAction } from "../azure-devops/validation/trigger";
+import {
+  AzureDevOpsClient,
+  AzureDevOpsApiError,
+} from "../azure-devops/api/client";
+import { parseDiffFiles } from "../bitbucket/diff";
+import type {
+  AzureDevOpsAccessControlList,
+  AzureDevOpsConnectionData,
+  AzureDevOpsIdentity,
+  AzureDevOpsIteration,
+  AzureDevOpsIterationChanges,
+  AzureDevOpsList,
+  AzureDevOpsPullRequest,
+  AzureDevOpsPush,
+  AzureDevOpsRef,
+  AzureDevOpsRepository,
+  AzureDevOpsThread,
+} from "../types/azure-devops";
+
+// Security namespace for Git repositories and its "Contribute" permission bit
+const GIT_SECURITY_NAMESPACE = "2e9eb7ed-3c0a-47d4-87c1-0ffdd275fd87";
+const GENERIC_CONTRIBUTE = 4;
+
+// Reviewer vote for "Waiting for author"
+const VOTE_WAITING_FOR_AUTHOR = -5;
+
+const EMPTY_OBJECT_ID = "0000000000000000000000000000000000000000";
+
+function stripRef(ref: string): string {
+  return ref.replace(/^refs\/heads\//, "");
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof AzureDevOpsApiError && error.status === 404;
+}
+
+export class AzureDevOpsProvider implements SCMProvider {
+  private api: AzureDevOpsClient;
+  private context: ParsedAzureDevOpsContext;
+  private _prInfo: PullRequestInfo | null = null; // Cache for PR info
+  private _repository: AzureDevOpsRepository | null = null;
+
+  constructor(options: AzureDevOpsProviderOptions) {
+    this.context = parseAzureDevOpsContext({
+      collectionUri: options.collectionUri,
+      project: options.project,
+      repository: options.repository,
+      prId: options.prId,
+      buildId: options.buildId,
+    });
+
+    console.log(`Azure DevOps Provider initialized:`);
+    console.log(`  Organization: ${this.context.collectionUri}`);
+    console.log(
+      `  Repository: ${this.context.project}/${this.context.repository}`,
+    );
+
+    this.api = new AzureDevOpsClient(this.context.collectionUri, options.token);
+  }
+
+  private get repoPath(): string {
+    return `/${encodeURIComponent(this.context.project)}/_apis/git/repositories/${encodeURIComponent(this.context.repository)}`;
+  }
+
+  private get prPath(): string {
+    return `${this.repoPath}/pullRequests/${this.context.prId}`;
+  }
+
+  private requirePullRequest(): void {
+    if (!this.context.prId) {
+      throw new Error("Not in a pull request context");
+    }
+  }
+
+  private async getRepository(): Promise<AzureDevOpsRepository> {
+    if (!this._repository) {
+      this._repository = await this.api.get<AzureDevOpsRepository>(
+        this.repoPath,
+      );
+    }
+    return this._repository;
+  }
+
+  /**
+   * Looks up a user by unique name (email or DOMAIN\user) or display name
+   */
+  private async findIdentity(
+    username: string,
+  ): Promise<AzureDevOpsIdentity | undefined> {
+    const identities = await this.api.get<AzureDevOpsList<AzureDevOpsIdentity>>(
+      `${this.api.identityUrl}/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent(username)}&queryMembership=None`,
+    );
+    return identities.value[0];
+  }
+
+  getPlatform(): "azure-devops" {
+    return "azure-devops";
+  }
+
+  async getRepoInfo(): Promise<RepoInfo> {
+    const repository = await this.getRepository();
+    return {
+      owner: this.context.project,
+      repo: repository.name,
+      defaultBranch: stripRef(repository.defaultBranch || "refs/heads/main"),
+    };
+  }
+
+  getContext(): SCMContext {
+    const webhook = parseAzureDevOpsWebhookPayload();
+    const pr = getWebhookPullRequest(webhook);
+    const entityNumber = this.context.prId
+      ? parseInt(this.context.prId)
+      : (pr?.pullRequestId ?? 0);
+
+    return {
+      platform: "azure-devops",
+      isPR: !!this.context.prId || !!pr,
+      entityNumber,
+      actor: getWebhookActor(webhook) || this.context.requestedFor || "",
+      runId: this.context.buildId,
+      triggerEvent: webhook?.eventType || process.env.BUILD_REASON || "manual",
+    };
+  }
+
+  async hasWritePermission(username: string): Promise<boolean> {
+    // Skip permission checks if CC_SKIP_PRE_CHECK is set
+    if (process.env.CC_SKIP_PRE_CHECK === "1") {
+      console.log("Skipping permission check due to CC_SKIP_PRE_CHECK=1");
+      return true;
+    }
+
+    if (!username) {
+      return false;
+    }
+
+    try {
+      const identity = await this.findIdentity(username);
+      if (!identity) {
+        console.log(`No identity found for ${username}`);
+        return false;
+      }
+
+      // Effective permissions include those inherited from groups and the project
+      const repository = await this.getRepository();
+      const token = `repoV2/${repository.project.id}/${repository.id}`;
+      const acls = await this.api.get<
+        AzureDevOpsList<AzureDevOpsAccessControlList>
+      >(
+        `/_apis/accesscontrollists/${GIT_SECURITY_NAMESPACE}?token=${encodeURIComponent(token)}&descriptors=${encodeURIComponent(identity.descriptor)}&includeExtendedInfo=true`,
+      );
+      const effectiveAllow = acls.value
+        .flatMap((acl) => Object.values(acl.acesDictionary))
+        .reduce(
+          (allow, ace) =>
+            allow | (ace.extendedInfo?.effectiveAllow ?? ace.allow),
+          0,
+        );
+      console.log(`Effective permissions for ${username}: ${effectiveAllow}`);
+      return (effectiveAllow & GENERIC_CONTRIBUTE) !== 0;
+    } catch (error) {
+      console.error(`Error checking permissions for '${username}':`, error);
+      return false;
+    }
+  }
+
+  async isHumanActor(username: string): Promise<boolean> {
+    try {
+      console.log(`Checking if user is human: ${username}`);
+      const identity = await this.findIdentity(username);
+      if (!identity) {
+        return false;
+      }
+
+      // Build services and other automation run as service identities
+      console.log(`Identity descriptor: ${identity.descriptor}`);
+      return (
+        identity.isActive &&
+        !identity.descriptor.startsWith(
+          "Microsoft.TeamFoundation.ServiceIdentity",
+        )
+      );
+    } catch (error) {
+      console.error(`Error checking if user is human:`, error);
+      return false;
+    }
+  }
+
+  async getPullRequestInfo(): Promise<PullRequestInfo> {
+    // Return cached info if available
+    if (this._prInfo) {
+      return this._prInfo;
+    }
+
+    this.requirePullRequest();
+    const pr = await this.api.get<AzureDevOpsPullRequest>(this.prPath);
+
+    this._prInfo = {
+      number: pr.pullRequestId,
+      headSha: pr.lastMergeSourceCommit.commitId,
+      baseSha: pr.lastMergeTargetCommit.commitId,
+      headBranch: stripRef(pr.sourceRefName),
+      baseBranch: stripRef(pr.targetRefName),
+      author: pr.createdBy.uniqueName,
+      title: pr.title,
+      body: pr.description || "",
+      isDraft: pr.isDraft,
+      state:
+        pr.status === "active"
+          ? "open"
+          : pr.status === "completed"
+            ? "merged"
+            : "closed",
+    };
+
+    return this._prInfo;
+  }
+
+  /**
+   * Pull request threads that people wrote, without system threads such as
+   * vote and push notifications
+   */
+  private async getThreads(): Promise<AzureDevOpsThread[]> {
+    const threads = await this.api.get<AzureDevOpsList<AzureDevOpsThread>>(
+      `${this.prPath}/threads`,
+    );
+    return threads.value.filter(
+      (thread) =>
+        !thread.isDeleted && thread.comments[0]?.commentType === "text",
+    );
+  }
+
+  /**
+   * Comments are identified by their thread, since comment IDs only count up
+   * within a thread. Replies are left out.
+   */
+  async getComments(): Promise<CommentInfo[]> {
+    if (!this.context.prId) {
+      return [];
+    }
+
+    return (await this.getThreads()).map((thread) => ({
+      id: thread.id,
+      author: thread.comments[0]!.author.uniqueName,
+      body: thread.comments[0]!.content,
+      createdAt: thread.comments[0]!.publishedDate,
+    }));
+  }
+
+  async createComment(body: string): Promise<number> {
+    if (!this.context.prId) {
+      throw new Error("Cannot create comment without pull request context");
+    }
+
+    const thread = await this.api.post<AzureDevOpsThread>(
+      `${this.prPath}/threads`,
+      { comments: [{ parentCommentId: 0, content: body, commentType: 1 }] },
+    );
+    console.log(`Comment created successfully with thread ID: ${thread.id}`);
+    return thread.id;
+  }
+
+  async createTrackingComment(): Promise<number> {
+    return this.createComment(
+      `Claude Code is working…\n\n[View job run](${this.getJobUrl()})`,
+    );
+  }
+
+  async updateComment(commentId: number, body: string): Promise<void> {
+    if (!this.context.prId) {
+      throw new Error("Cannot update comment without pull request context");
+    }
+
+    // The thread's first comment always has ID 1
+    await this.api.patch(`${this.prPath}/threads/${commentId}/comments/1`, {
+      content: body,
+    });
+  }
+
+  /**
+   * Azure DevOps has no diff endpoint, so the diff comes from the local clone
+   */
+  async getDiff(): Promise<string> {
+    const pr = await this.getPullRequestInfo();
+    await $`git fetch --no-tags origin ${pr.baseBranch} ${pr.headBranch}`.quiet();
+    return (
+      await $`git diff ${pr.baseSha}...${pr.headSha}`.quiet()
+    ).stdout.toString();
+  }
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    const versionType = /^[0-9a-f]{40}$/i.test(ref) ? "commit" : "branch";
+    try {
+      return await this.api.getText(
+        `${this.repoPath}/items?path=${encodeURIComponent(path)}&versionDescriptor.version=${encodeURIComponent(ref)}&versionDescriptor.versionType=${versionType}`,
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw error;
+    }
+  }
+
+  async getFilesContent(
+    paths: string[],
+    ref: string,
+  ): Promise<Record<string, string>> {
+    const results: Record<string, string> = {};
+
+    // Batch fetch using Promise.all
+    await Promise.all(
+      paths.map(async (path) => {
+        try {
+          results[path] = await this.getFileContent(path, ref);
+        } catch (error) {
+          console.error(`Failed to fetch ${path}:`, error);
+        }
+      }),
+    );
+
+    return results;
+  }
+
+  async getChangedFiles(): Promise<FileChange[]> {
+    this.requirePullRequest();
+
+    // Changes of the latest iteration compared to the target branch
+    const iterations = await this.api.get<
+      AzureDevOpsList<AzureDevOpsIteration>
+    >(`${this.prPath}/iterations`);
+    const latest = iterations.value.at(-1);
+    if (!latest) {
+      return [];
+    }
+
+    const paths: string[] = [];
+    let skip: number | undefined = 0;
+    while (skip !== undefined) {
+      const page: AzureDevOpsIterationChanges = await this.api.get(
+        `${this.prPath}/iterations/${latest.id}/changes?$compareTo=0&$top=2000&$skip=${skip}`,
+      );
+      paths.push(
+        ...page.changeEntries
+          .filter((change) => !change.item.isFolder)
+          .map((change) =>
+            (change.item.path || change.originalPath || "").replace(/^\//, ""),
+          ),
+      );
+      skip = page.nextSkip || undefined;
+    }
+
+    // Line counts and patches are only available from the diff
+    let patches = new Map<string, FileChange>();
+    try {
+      patches = new Map(
+        parseDiffFiles(await this.getDiff()).map((file) => [file.path, file]),
+      );
+    } catch (error) {
+      console.error("Failed to compute the pull request diff:", error);
+    }
+
+    return paths.map(
+      (path) =>
+        patches.get(path) ?? { path, additions: 0, deletions: 0, changes: 0 },
+    );
+  }
+
+  async createBranch(name: string, baseSha: string): Promise<void> {
+    const result = await this.api.post<
+      AzureDevOpsList<{ success: boolean; customMessage?: string }>
+    >(`${this.repoPath}/refs`, [
+      {
+        name: `refs/heads/${name}`,
+        oldObjectId: EMPTY_OBJECT_ID,
+        newObjectId: baseSha,
+      },
+    ]);
+    if (!result.value[0]?.success) {
+      throw new Error(
+        `Failed to create branch ${name}: ${result.value[0]?.customMessage || "unknown error"}`,
+      );
+    }
+  }
+
+  async pushChanges(
+    branch: string,
+    message: string,
+    files: Record<string, string>,
+  ): Promise<string> {
+    const head = await this.getBranch(branch);
+    if (!head) {
+      throw new Error(`Branch not found: ${branch}`);
+    }
+
+    // Each change has to say whether it adds or edits the file
+    const changes = await Promise.all(
+      Object.entries(files).map(async ([path, content]) => {
+        let exists = true;
+        try {
+          await this.getFileContent(path, head.sha);
+        } catch {
+          exists = false;
+        }
+
+        return {
+          changeType: exists ? "edit" : "add",
+          item: { path: `/${path}` },
+          newContent: { content, contentType: "rawtext" },
+        };
+      }),
+    );
+
+    const push = await this.api.post<AzureDevOpsPush>(
+      `${this.repoPath}/pushes`,
+      {
+        refUpdates: [{ name: `refs/heads/${branch}`, oldObjectId: head.sha }],
+        commits: [{ comment: message, changes }],
+      },
+    );
+    return push.commits[0]?.commitId || "";
+  }
+
+  async getBranch(name: string): Promise<BranchInfo | null> {
+    // The filter matches ref name prefixes, so look for the exact ref
+    const refs = await this.api.get<AzureDevOpsList<AzureDevOpsRef>>(
+      `${this.repoPath}/refs?filter=${encodeURIComponent(`heads/${name}`)}`,
+    );
+    const ref = refs.value.find((r) => r.name === `refs/heads/${name}`);
+    return ref
+      ? { name, sha: ref.objectId, protected: ref.isLocked || false }
+      : null;
+  }
+
+  async setupGitAuth(token: string): Promise<void> {
+    const remoteUrl = new URL((await this.getRepository()).remoteUrl);
+    remoteUrl.username = "pat";
+    remoteUrl.password = token;
+
+    // Configure git with the bot identity
+    await $`git config --global user.name "Claude[bot]"`.quiet();
+    await $`git config --global user.email "claude-bot@noreply.dev.azure.com"`.quiet();
+
+    // Set up authentication for push
+    await $`git remote set-url origin ${remoteUrl.toString()}`.quiet();
+  }
+
+  /**
+   * Opens an active thread anchored to lines of the pull request diff
+   */
+  private async createInlineThread(
+    path: string,
+    line: number,
+    body: string,
+    side: "LEFT" | "RIGHT" = "RIGHT",
+    startLine?: number,
+  ): Promise<void> {
+    const start = { line: startLine ?? line, offset: 1 };
+    const end = { line, offset: 1 };
+
+    await this.api.post(`${this.prPath}/threads`, {
+      comments: [{ parentCommentId: 0, content: body, commentType: 1 }],
+      status: "active",
+      threadContext: {
+        filePath: `/${path}`,
+        ...(side === "LEFT"
+          ? { leftFileStart: start, leftFileEnd: end }
+          : { rightFileStart: start, rightFileEnd: end }),
+      },
+    });
+  }
+
+  async applySuggestions(
+    suggestions: Array<{
+      file: string;
+      line: number;
+      suggestion: string;
+      description?: string;
+    }>,
+  ): Promise<void> {
+    this.requirePullRequest();
+
+    // Suggestion blocks in thread comments can be applied from the web UI
+    for (const s of suggestions) {
+      const body = `${s.description || "Suggestion"}
+
+\`\`\`suggestion
+${s.suggestion}
+\`\`\``;
+
+      await this.createInlineThread(s.file, s.line, body);
+    }
+  }
+
+  async submitReview(review: ReviewSubmission): Promise<void> {
+    this.requirePullRequest();
+
+    // There is no review object, so the line comments are posted as
+    // individual threads and followed by the summary
+    for (const comment of review.comments) {
+      await this.createInlineThread(
+        comment.path,
+        comment.line,
+        comment.body,
+        comment.side,
+        comment.startLine,
+      );
+    }
+
+    const verdict =
+      review.event === "REQUEST_CHANGES"
+        ? "**Verdict:** Changes requested"
+        : "**Verdict:** Comments only";
+
+    await this.createComment(`${review.body}\n\n${verdict}`);
+
+    // Requesting changes is a reviewer vote by the token's own identity
+    if (review.event === "REQUEST_CHANGES") {
+      const { authenticatedUser } =
+        await this.api.get<AzureDevOpsConnectionData>(
+          "/_apis/connectionData?api-version=7.1-preview",
+        );
+      await this.api.put(`${this.prPath}/reviewers/${authenticatedUser.id}`, {
+        vote: VOTE_WAITING_FOR_AUTHOR,
+      });
+    }
+  }
+
+  getJobUrl(): string {
+    return (
+      this.context.buildUrl ||
+      `${this.context.collectionUri}/${encodeURIComponent(this.context.project)}/_build`
+    );
+  }
+
+  /**
+   * Web URL of the pull request
+   */
+  getPullRequestUrl(): string {
+    const { collectionUri, project, repository, prId } = this.context;
+    return `${collectionUri}/${encodeURIComponent(project)}/_git/${encodeURIComponent(repository)}/pullrequest/${prId}`;
+  }
+
+  async checkTrigger(
+    triggerPhrase: string,
+    directPrompt?: string,
+  ): Promise<boolean> {
+    const payload = parseAzureDevOpsWebhookPayload();
+    if (!payload) {
+      console.log("No Azure DevOps webhook payload found");
+      return !!directPrompt;
+    }
+
+    return checkAzureDevOpsTriggerAction({
+      payload,
+      triggerPhrase,
+      directPrompt,
+    });
+  }
+
+  async fetchContextData(): Promise<any> {
+    const repository = {
+      organizationUrl: this.context.collectionUri,
+      project: this.context.project,
+      repository: this.context.repository,
+    };
+
+    // Return basic context if not in a pull request
+    if (!this.context.prId) {
+      return repository;
+    }
+
+    const [pr, threads, changes] = await Promise.all([
+      this.getPullRequestInfo(),
+      this.getThreads(),
+      this.getChangedFiles(),
+    ]);
+
+    return {
+      ...repository,
+      ...pr,
+      webUrl: this.getPullRequestUrl(),
+      threads: threads.map((thread) => ({
+        filePath: thread.threadContext?.filePath?.replace(/^\//, ""),
+        line:
+          thread.threadContext?.rightFileStart?.line ??
+          thread.threadContext?.leftFileStart?.line,
+        comments: thread.comments
+          .filter((comment) => !comment.isDeleted)
+          .map((comment) => ({
+            id: comment.id,
+            author: comment.author.displayName,
+            body: comment.content,
+            createdAt: comment.publishedDate,
+          })),
+      })),
+      changes,
+    };
+  }
+}
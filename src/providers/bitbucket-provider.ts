@@ -0,0 +1,643 @@
+/**
+ * Bitbucket Provider Implementation
+ *
+ * Implements the SCM Provider interface for Bitbucket Cloud and Data Center
+ */
+
+import { $ } from "bun";
+import type {
+  SCMProvider,
+  SCMContext,
+  RepoInfo,
+  PullRequestInfo,
+  CommentInfo,
+  FileChange,
+  BranchInfo,
+  ReviewSubmission,
+  BitbucketProviderOptions,
+} from "./scm-provider";
+import {
+  parseBitbucketContext,
+  parseBitbucketWebhookPayload,
+  getWebhookActor,
+  getWebhookPullRequest,
+  type ParsedBitbucketContext,
+} from "../bitbucket/context";
+import { checkBitbucketTriggerAction } from "../bitbucket/validation/trigger";
+import { BitbucketClient, BitbucketApiError } from "../bitbucket/api/client";
+import { parseDiffFiles } from "../bitbucket/diff";
+import type {
+  BitbucketCloudBranch,
+  BitbucketCloudComment,
+  BitbucketCloudPullRequest,
+  BitbucketCloudRepository,
+  BitbucketCloudRepositoryPermission,
+  BitbucketCloudUser,
+  BitbucketDataCenterActivity,
+  BitbucketDataCenterComment,
+  BitbucketDataCenterPermission,
+  BitbucketDataCenterPullRequest,
+  BitbucketDataCenterRef,
+  BitbucketDataCenterUser,
+} from "../types/bitbucket";
+
+const CLOUD_WRITE_PERMISSIONS = ["write", "admin"];
+const DATA_CENTER_WRITE_PERMISSIONS = [
+  "REPO_WRITE",
+  "REPO_ADMIN",
+  "PROJECT_WRITE",
+  "PROJECT_ADMIN",
+];
+
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof BitbucketApiError && error.status === 404;
+}
+
+export class BitbucketProvider implements SCMProvider {
+  private api: BitbucketClient;
+  private context: ParsedBitbucketContext;
+  private _prInfo: PullRequestInfo | null = null; // Cache for PR info
+
+  constructor(options: BitbucketProviderOptions) {
+    this.context = parseBitbucketContext({
+      workspace: options.workspace,
+      repoSlug: options.repoSlug,
+      prId: options.prId,
+      host: options.host,
+      buildUrl: options.buildUrl,
+    });
+
+    console.log(`Bitbucket Provider initialized:`);
+    console.log(`  Host: ${this.context.host}`);
+    console.log(`  Flavor: ${this.context.isCloud ? "Cloud" : "Data Center"}`);
+    console.log(
+      `  Repository: ${this.context.workspace}/${this.context.repoSlug}`,
+    );
+
+    this.api = new BitbucketClient(this.context.host, options.token);
+  }
+
+  private get repoPath(): string {
+    const { workspace, repoSlug } = this.context;
+    return this.context.isCloud
+      ? `/repositories/${workspace}/${repoSlug}`
+      : `/projects/${workspace}/repos/${repoSlug}`;
+  }
+
+  private get prPath(): string {
+    return this.context.isCloud
+      ? `${this.repoPath}/pullrequests/${this.context.prId}`
+      : `${this.repoPath}/pull-requests/${this.context.prId}`;
+  }
+
+  getPlatform(): "bitbucket" {
+    return "bitbucket";
+  }
+
+  async getRepoInfo(): Promise<RepoInfo> {
+    let defaultBranch: string;
+    if (this.context.isCloud) {
+      const repo = await this.api.get<BitbucketCloudRepository>(this.repoPath);
+      defaultBranch = repo.mainbranch?.name || "main";
+    } else {
+      const branch = await this.api.get<BitbucketDataCenterRef>(
+        `${this.repoPath}/default-branch`,
+      );
+      defaultBranch = branch.displayId;
+    }
+
+    return {
+      owner: this.context.workspace,
+      repo: this.context.repoSlug,
+      defaultBranch,
+    };
+  }
+
+  getContext(): SCMContext {
+    const webhook = parseBitbucketWebhookPayload();
+    const isPR = !!this.context.prId || !!getWebhookPullRequest(webhook);
+    const entityNumber = this.context.prId
+      ? parseInt(this.context.prId)
+      : (getWebhookPullRequest(webhook)?.id ?? 0);
+
+    return {
+      platform: "bitbucket",
+      isPR,
+      entityNumber,
+      actor: getWebhookActor(webhook) || this.context.triggererUuid || "",
+      runId: this.context.buildNumber,
+      triggerEvent:
+        webhook?.eventKey || process.env.BITBUCKET_EVENT_KEY || "manual",
+    };
+  }
+
+  async hasWritePermission(username: string): Promise<boolean> {
+    // Skip permission checks if CC_SKIP_PRE_CHECK is set
+    if (process.env.CC_SKIP_PRE_CHECK === "1") {
+      console.log("Skipping permission check due to CC_SKIP_PRE_CHECK=1");
+      return true;
+    }
+
+    if (!username) {
+      return false;
+    }
+
+    try {
+      if (this.context.isCloud) {
+        // Pipelines identifies the triggering user by UUID ({...}), webhooks by nickname
+        const field = username.startsWith("{") ? "uuid" : "nickname";
+        const query = encodeURIComponent(`user.${field}="${username}"`);
+        const permissions =
+          await this.api.getAll<BitbucketCloudRepositoryPermission>(
+            `/workspaces/${this.context.workspace}/permissions/repositories/${this.context.repoSlug}?q=${query}`,
+          );
+        const permission = permissions[0]?.permission;
+        console.log(`Repository permission for ${username}: ${permission}`);
+        return !!permission && CLOUD_WRITE_PERMISSIONS.includes(permission);
+      }
+
+      // Data Center grants access on the repository or on its project
+      const filter = encodeURIComponent(username);
+      const permissions = [
+        ...(await this.api.getAll<BitbucketDataCenterPermission>(
+          `${this.repoPath}/permissions/users?filter=${filter}`,
+        )),
+        ...(await this.api.getAll<BitbucketDataCenterPermission>(
+          `/projects/${this.context.workspace}/permissions/users?filter=${filter}`,
+        )),
+      ].filter(({ user }) => user.slug === username || user.name === username);
+      console.log(
+        `Permissions for ${username}: ${permissions.map((p) => p.permission).join(", ") || "none"}`,
+      );
+      return permissions.some(({ permission }) =>
+        DATA_CENTER_WRITE_PERMISSIONS.includes(permission),
+      );
+    } catch (error) {
+      console.error(`Error checking permissions for '${username}':`, error);
+      return false;
+    }
+  }
+
+  async isHumanActor(username: string): Promise<boolean> {
+    try {
+      console.log(`Checking if user is human: ${username}`);
+      if (this.context.isCloud) {
+        const user = await this.api.get<BitbucketCloudUser>(
+          `/users/${encodeURIComponent(username)}`,
+        );
+        console.log(`User type: ${user.type}`);
+        // Bots and access tokens are "app_user" accounts
+        return user.type === "user" && user.account_status !== "inactive";
+      }
+
+      const user = await this.api.get<BitbucketDataCenterUser>(
+        `/users/${encodeURIComponent(username)}`,
+      );
+      console.log(`User type: ${user.type}, active: ${user.active}`);
+      return user.type === "NORMAL" && user.active;
+    } catch (error) {
+      console.error(`Error checking if user is human:`, error);
+      return false;
+    }
+  }
+
+  async getPullRequestInfo(): Promise<PullRequestInfo> {
+    // Return cached info if available
+    if (this._prInfo) {
+      return this._prInfo;
+    }
+
+    if (!this.context.prId) {
+      throw new Error("Not in a pull request context");
+    }
+
+    if (this.context.isCloud) {
+      const pr = await this.api.get<BitbucketCloudPullRequest>(this.prPath);
+      this._prInfo = {
+        number: pr.id,
+        headSha: pr.source.commit.hash,
+        baseSha: pr.destination.commit.hash,
+        headBranch: pr.source.branch.name,
+        baseBranch: pr.destination.branch.name,
+        author: pr.author.nickname || pr.author.display_name,
+        title: pr.title,
+        body: pr.description || "",
+        isDraft: pr.draft || false,
+        state:
+          pr.state === "OPEN"
+            ? "open"
+            : pr.state === "MERGED"
+              ? "merged"
+              : "closed",
+      };
+    } else {
+      const pr = await this.api.get<BitbucketDataCenterPullRequest>(
+        this.prPath,
+      );
+      this._prInfo = {
+        number: pr.id,
+        headSha: pr.fromRef.latestCommit,
+        baseSha: pr.toRef.latestCommit,
+        headBranch: pr.fromRef.displayId,
+        baseBranch: pr.toRef.displayId,
+        author: pr.author.user.slug,
+        title: pr.title,
+        body: pr.description || "",
+        isDraft: pr.draft || false,
+        state:
+          pr.state === "OPEN"
+            ? "open"
+            : pr.state === "MERGED"
+              ? "merged"
+              : "closed",
+      };
+    }
+
+    return this._prInfo;
+  }
+
+  async getComments(): Promise<CommentInfo[]> {
+    if (!this.context.prId) {
+      return [];
+    }
+
+    if (this.context.isCloud) {
+      const comments = await this.api.getAll<BitbucketCloudComment>(
+        `${this.prPath}/comments?pagelen=100`,
+      );
+      return comments
+        .filter((comment) => !comment.deleted)
+        .map((comment) => ({
+          id: comment.id,
+          author: comment.user.nickname || comment.user.display_name,
+          body: comment.content.raw,
+          createdAt: comment.created_on,
+        }));
+    }
+
+    const activities = await this.api.getAll<BitbucketDataCenterActivity>(
+      `${this.prPath}/activities?limit=100`,
+    );
+    return activities
+      .filter((activity) => activity.action === "COMMENTED")
+      .map((activity) => activity.comment!)
+      .filter(Boolean)
+      .map((comment) => ({
+        id: comment.id,
+        author: comment.author.slug,
+        body: comment.text,
+        createdAt: new Date(comment.createdDate).toISOString(),
+      }));
+  }
+
+  async createComment(body: string): Promise<number> {
+    if (!this.context.prId) {
+      throw new Error("Cannot create comment without pull request context");
+    }
+
+    const comment = await this.api.post<{ id: number }>(
+      `${this.prPath}/comments`,
+      this.context.isCloud ? { content: { raw: body } } : { text: body },
+    );
+    console.log(`Comment created successfully with ID: ${comment.id}`);
+    return comment.id;
+  }
+
+  async createTrackingComment(): Promise<number> {
+    return this.createComment(
+      `Claude Code is working…\n\n[View job run](${this.getJobUrl()})`,
+    );
+  }
+
+  async updateComment(commentId: number, body: string): Promise<void> {
+    if (!this.context.prId) {
+      throw new Error("Cannot update comment without pull request context");
+    }
+
+    const path = `${this.prPath}/comments/${commentId}`;
+    if (this.context.isCloud) {
+      await this.api.put(path, { content: { raw: body } });
+      return;
+    }
+
+    // Data Center rejects edits that don't name the version being replaced
+    const { version } = await this.api.get<BitbucketDataCenterComment>(path);
+    await this.api.put(path, { text: body, version });
+  }
+
+  async getDiff(): Promise<string> {
+    if (!this.context.prId) {
+      throw new Error("Not in a pull request context");
+    }
+
+    return this.api.getText(
+      this.context.isCloud ? `${this.prPath}/diff` : `${this.prPath}.diff`,
+    );
+  }
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    try {
+      return await this.api.getText(
+        this.context.isCloud
+          ? `${this.repoPath}/src/${encodeURIComponent(ref)}/${encodePath(path)}`
+          : `${this.repoPath}/raw/${encodePath(path)}?at=${encodeURIComponent(ref)}`,
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw error;
+    }
+  }
+
+  async getFilesContent(
+    paths: string[],
+    ref: string,
+  ): Promise<Record<string, string>> {
+    const results: Record<string, string> = {};
+
+    // Batch fetch using Promise.all
+    await Promise.all(
+      paths.map(async (path) => {
+        try {
+          results[path] = await this.getFileContent(path, ref);
+        } catch (error) {
+          console.error(`Failed to fetch ${path}:`, error);
+        }
+      }),
+    );
+
+    return results;
+  }
+
+  async getChangedFiles(): Promise<FileChange[]> {
+    return parseDiffFiles(await this.getDiff());
+  }
+
+  async createBranch(name: string, baseSha: string): Promise<void> {
+    if (this.context.isCloud) {
+      await this.api.post(`${this.repoPath}/refs/branches`, {
+        name,
+        target: { hash: baseSha },
+      });
+      return;
+    }
+
+    // Branch creation lives in Data Center's branch-utils plugin API
+    await this.api.post(
+      `${this.context.host}/rest/branch-utils/1.0/projects/${this.context.workspace}/repos/${this.context.repoSlug}/branches`,
+      { name, startPoint: baseSha },
+    );
+  }
+
+  async pushChanges(
+    branch: string,
+    message: string,
+    files: Record<string, string>,
+  ): Promise<string> {
+    if (this.context.isCloud) {
+      // Cloud commits any number of files in one form post, one field per path
+      const form = new FormData();
+      form.append("message", message);
+      form.append("branch", branch);
+      for (const [path, content] of Object.entries(files)) {
+        form.append(path, content);
+      }
+
+      const response = await this.api.request(`${this.repoPath}/src`, {
+        method: "POST",
+        body: form,
+      });
+      // The new commit is only reported through the Location header
+      const location = response.headers.get("location") || "";
+      return location.split("/").pop() || "";
+    }
+
+    // Data Center commits one file per request and needs the current head
+    // commit when a file is replaced
+    let head = (await this.getBranch(branch))?.sha;
+    for (const [path, content] of Object.entries(files)) {
+      let exists = true;
+      try {
+        await this.getFileContent(path, branch);
+      } catch {
+        exists = false;
+      }
+
+      const form = new FormData();
+      form.append("content", content);
+      form.append("message", message);
+      form.append("branch", branch);
+      if (exists && head) {
+        form.append("sourceCommitId", head);
+      }
+
+      const response = await this.api.request(
+        `${this.repoPath}/browse/${encodePath(path)}`,
+        { method: "PUT", body: form },
+      );
+      head = ((await response.json()) as { id: string }).id;
+    }
+
+    return head || "";
+  }
+
+  async getBranch(name: string): Promise<BranchInfo | null> {
+    if (this.context.isCloud) {
+      try {
+        const branch = await this.api.get<BitbucketCloudBranch>(
+          `${this.repoPath}/refs/branches/${encodeURIComponent(name)}`,
+        );
+        // Branch restrictions are configured separately from branches
+        return { name: branch.name, sha: branch.target.hash, protected: false };
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    const branches = await this.api.getAll<BitbucketDataCenterRef>(
+      `${this.repoPath}/branches?filterText=${encodeURIComponent(name)}`,
+    );
+    const branch = branches.find((b) => b.displayId === name);
+    return branch
+      ? { name: branch.displayId, sha: branch.latestCommit, protected: false }
+      : null;
+  }
+
+  /**
+   * HTTPS clone URL that authenticates with the given token
+   */
+  getCloneUrl(token: string): string {
+    // App passwords authenticate as their user, access tokens as x-token-auth
+    const credentials = token.includes(":")
+      ? token.split(":").map(encodeURIComponent).join(":")
+      : `x-token-auth:${encodeURIComponent(token)}`;
+    const host = this.context.host.replace(/^https?:\/\//, "");
+    const path = this.context.isCloud
+      ? `${this.context.workspace}/${this.context.repoSlug}`
+      : `scm/${this.context.workspace}/${this.context.repoSlug}`;
+    return `https://${credentials}@${host}/${path}.git`;
+  }
+
+  async setupGitAuth(token: string): Promise<void> {
+    // Configure git with the bot identity
+    await $`git config --global user.name "Claude[bot]"`.quiet();
+    await $`git config --global user.email "claude-bot@noreply.bitbucket.org"`.quiet();
+
+    // Set up authentication for push
+    await $`git remote set-url origin ${this.getCloneUrl(token)}`.quiet();
+  }
+
+  /**
+   * Posts a comment anchored to a line of the pull request diff
+   */
+  private async createInlineComment(
+    path: string,
+    line: number,
+    body: string,
+    side: "LEFT" | "RIGHT" = "RIGHT",
+  ): Promise<void> {
+    if (this.context.isCloud) {
+      await this.api.post(`${this.prPath}/comments`, {
+        content: { raw: body },
+        inline: side === "LEFT" ? { path, from: line } : { path, to: line },
+      });
+      return;
+    }
+
+    await this.api.post(`${this.prPath}/comments`, {
+      text: body,
+      anchor: {
+        path,
+        line,
+        lineType: side === "LEFT" ? "REMOVED" : "ADDED",
+        fileType: side === "LEFT" ? "FROM" : "TO",
+        diffType: "EFFECTIVE",
+      },
+    });
+  }
+
+  async applySuggestions(
+    suggestions: Array<{
+      file: string;
+      line: number;
+      suggestion: string;
+      description?: string;
+    }>,
+  ): Promise<void> {
+    if (!this.context.prId) {
+      throw new Error("Suggestions can only be applied to pull requests");
+    }
+
+    // Cloud and Data Center both render suggestion blocks in inline comments
+    for (const s of suggestions) {
+      const body = `${s.description || "Suggestion"}
+
+\`\`\`suggestion
+${s.suggestion}
+\`\`\``;
+
+      await this.createInlineComment(s.file, s.line, body);
+    }
+  }
+
+  async submitReview(review: ReviewSubmission): Promise<void> {
+    if (!this.context.prId) {
+      throw new Error("Reviews can only be submitted on pull requests");
+    }
+
+    // Bitbucket has no review object, so the line comments are posted
+    // individually and followed by the summary
+    for (const comment of review.comments) {
+      await this.createInlineComment(
+        comment.path,
+        comment.line,
+        comment.body,
+        comment.side,
+      );
+    }
+
+    const verdict =
+      review.event === "REQUEST_CHANGES"
+        ? "**Verdict:** Changes requested"
+        : "**Verdict:** Comments only";
+
+    await this.createComment(`${review.body}\n\n${verdict}`);
+
+    // Data Center only sets a review status for the participant's own user slug
+    if (review.event === "REQUEST_CHANGES" && this.context.isCloud) {
+      await this.api.post(`${this.prPath}/request-changes`);
+    }
+  }
+
+  getJobUrl(): string {
+    const { host, workspace, repoSlug } = this.context;
+    return (
+      this.context.buildUrl ||
+      (this.context.isCloud
+        ? `${host}/${workspace}/${repoSlug}/pipelines`
+        : `${host}/projects/${workspace}/repos/${repoSlug}/builds`)
+    );
+  }
+
+  /**
+   * Web URL of the pull request
+   */
+  getPullRequestUrl(): string {
+    const { host, workspace, repoSlug, prId } = this.context;
+    return this.context.isCloud
+      ? `${host}/${workspace}/${repoSlug}/pull-requests/${prId}`
+      : `${host}/projects/${workspace}/repos/${repoSlug}/pull-requests/${prId}`;
+  }
+
+  async checkTrigger(
+    triggerPhrase: string,
+    directPrompt?: string,
+  ): Promise<boolean> {
+    const payload = parseBitbucketWebhookPayload();
+    if (!payload) {
+      console.log("No Bitbucket webhook payload found");
+      return !!directPrompt;
+    }
+
+    return checkBitbucketTriggerAction({
+      payload,
+      triggerPhrase,
+      directPrompt,
+    });
+  }
+
+  async fetchContextData(): Promise<any> {
+    const repository = {
+      workspace: this.context.workspace,
+      repoSlug: this.context.repoSlug,
+      host: this.context.host,
+    };
+
+    // Return basic context if not in a pull request
+    if (!this.context.prId) {
+      return repository;
+    }
+
+    const [pr, comments, changes] = await Promise.all([
+      this.getPullRequestInfo(),
+      this.getComments(),
+      this.getChangedFiles(),
+    ]);
+
+    return {
+      ...repository,
+      ...pr,
+      webUrl: this.getPullRequestUrl(),
+      comments,
+      changes,
+    };
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * Gitea Provider Implementation
+ *
+ * Implements the SCM Provider interface for Gitea and Forgejo Actions
+ */
+
+import { $ } from "bun";
+import type {
+  SCMProvider,
+  SCMContext,
+  RepoInfo,
+  PullRequestInfo,
+  CommentInfo,
+  FileChange,
+  BranchInfo,
+  ReviewSubmission,
+  GiteaProviderOptions,
+} from "./scm-provider";
+import {
+  parseGiteaContext,
+  parseGiteaEventPayload,
+  type ParsedGiteaContext,
+} from "../gitea/context";
+import { checkGiteaTriggerAction } from "../gitea/validation/trigger";
+import { GiteaClient, GiteaApiError } from "../gitea/api/client";
+import { parseDiffFiles } from "../bitbucket/diff";
+import type {
+  GiteaBranch,
+  GiteaComment,
+  GiteaContentsResponse,
+  GiteaFileOperation,
+  GiteaFilesResponse,
+  GiteaIssue,
+  GiteaPullRequest,
+  GiteaRepoPermission,
+  GiteaRepository,
+  GiteaUser,
+} from "../types/gitea";
+
+const WRITE_PERMISSIONS = ["write", "admin", "owner"];
+
+// Pseudo-users that Gitea and Forgejo attribute Actions events to
+const ACTIONS_USERS = ["gitea-actions", "forgejo-actions"];
+
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof GiteaApiError && error.status === 404;
+}
+
+export class GiteaProvider implements SCMProvider {
+  private api: GiteaClient;
+  private context: ParsedGiteaContext;
+  private _prInfo: PullRequestInfo | null = null; // Cache for PR info
+
+  constructor(options: GiteaProviderOptions) {
+    this.context = parseGiteaContext({
+      owner: options.owner,
+      repo: options.repo,
+      serverUrl: options.serverUrl,
+      entityNumber: options.entityNumber,
+      isPR: options.isPR,
+    });
+
+    console.log(`Gitea Provider initialized:`);
+    console.log(`  Server: ${this.context.serverUrl}`);
+    console.log(`  Repository: ${this.context.owner}/${this.context.repo}`);
+
+    this.api = new GiteaClient(this.context.apiUrl, options.token);
+  }
+
+  private get repoPath(): string {
+    return `/repos/${encodeURIComponent(this.context.owner)}/${encodeURIComponent(this.context.repo)}`;
+  }
+
+  private requireEntity(action: string): number {
+    if (!this.context.entityNumber) {
+      throw new Error(`Cannot ${action} without an issue or pull request`);
+    }
+    return this.context.entityNumber;
+  }
+
+  private requirePullRequest(): number {
+    if (!this.context.isPR || !this.context.entityNumber) {
+      throw new Error("Not in a pull request context");
+    }
+    return this.context.entityNumber;
+  }
+
+  getPlatform(): "gitea" {
+    return "gitea";
+  }
+
+  async getRepoInfo(): Promise<RepoInfo> {
+    const repo = await this.api.get<GiteaRepository>(this.repoPath);
+    return {
+      owner: this.context.owner,
+      repo: this.context.repo,
+      defaultBranch: repo.default_branch,
+    };
+  }
+
+  getContext(): SCMContext {
+    return {
+      platform: "gitea",
+      isPR: this.context.isPR,
+      entityNumber: this.context.entityNumber ?? 0,
+      actor: this.context.actor,
+      runId: this.context.runId,
+      triggerEvent: this.context.eventName,
+    };
+  }
+
+  async hasWritePermission(username: string): Promise<boolean> {
+    // Skip permission checks if CC_SKIP_PRE_CHECK is set
+    if (process.env.CC_SKIP_PRE_CHECK === "1") {
+      console.log("Skipping permission check due to CC_SKIP_PRE_CHECK=1");
+      return true;
+    }
+
+    if (!username) {
+      return false;
+    }
+
+    try {
+      const { permission } = await this.api.get<GiteaRepoPermission>(
+        `${this.repoPath}/collaborators/${encodeURIComponent(username)}/permission`,
+      );
+      console.log(`Repository permission for ${username}: ${permission}`);
+      return WRITE_PERMISSIONS.includes(permission);
+    } catch (error) {
+      console.error(`Error checking permissions for '${username}':`, error);
+      return false;
+    }
+  }
+
+  async isHumanActor(username: string): Promise<boolean> {
+    console.log(`Checking if user is human: ${username}`);
+
+    // The API doesn't tell bots apart, so go by the names they use
+    if (
+      ACTIONS_USERS.includes(username.toLowerCase()) ||
+      username.endsWith("[bot]")
+    ) {
+      console.log(`${username} is an automation account`);
+      return false;
+    }
+
+    try {
+      await this.api.get<GiteaUser>(`/users/${encodeURIComponent(username)}`);
+      return true;
+    } catch (error) {
+      console.error(`Error checking if user is human:`, error);
+      return false;
+    }
+  }
+
+  async getPullRequestInfo(): Promise<PullRequestInfo> {
+    // Return cached info if available
+    if (this._prInfo) {
+      return this._prInfo;
+    }
+
+    const number = this.requirePullRequest();
+    const pr = await this.api.get<GiteaPullRequest>(
+      `${this.repoPath}/pulls/${number}`,
+    );
+
+    this._prInfo = {
+      number: pr.number,
+      headSha: pr.head.sha,
+      baseSha: pr.base.sha,
+      headBranch: pr.head.ref,
+      baseBranch: pr.base.ref,
+      author: pr.user.login,
+      title: pr.title,
+      body: pr.body || "",
+      isDraft: pr.draft ?? /^\s*(WIP:|\[WIP\])/i.test(pr.title),
+      state: pr.merged ? "merged" : pr.state,
+    };
+
+    return this._prInfo;
+  }
+
+  async getComments(): Promise<CommentInfo[]> {
+    if (!this.context.entityNumber) {
+      return [];
+    }
+
+    // Pull request conversations are issue comments in Gitea
+    const comments = await this.api.getAll<GiteaComment>(
+      `${this.repoPath}/issues/${this.context.entityNumber}/comments`,
+    );
+    return comments.map((comment) => ({
+      id: comment.id,
+      author: comment.user.login,
+      body: comment.body,
+      createdAt: comment.created_at,
+    }));
+  }
+
+  async createComment(body: string): Promise<number> {
+    const number = this.requireEntity("create comment");
+    const comment = await this.api.post<GiteaComment>(
+      `${this.repoPath}/issues/${number}/comments`,
+      { body },
+    );
+    console.log(`Comment created successfully with ID: ${comment.id}`);
+    return comment.id;
+  }
+
+  async createTrackingComment(): Promise<number> {
+    return this.createComment(
+      `Claude Code is working…\n\n[View job run](${this.getJobUrl()})`,
+    );
+  }
+
+  async updateComment(commentId: number, body: string): Promise<void> {
+    await this.api.patch(`${this.repoPath}/issues/comments/${commentId}`, {
+      body,
+    });
+  }
+
+  async getDiff(): Promise<string> {
+    const number = this.requirePullRequest();
+    return this.api.getText(`${this.repoPath}/pulls/${number}.diff`);
+  }
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    try {
+      return await this.api.getText(
+        `${this.repoPath}/raw/${encodePath(path)}?ref=${encodeURIComponent(ref)}`,
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw error;
+    }
+  }
+
+  async getFilesContent(
+    paths: string[],
+    ref: string,
+  ): Promise<Record<string, string>> {
+    const results: Record<string, string> = {};
+
+    // Batch fetch using Promise.all
+    await Promise.all(
+      paths.map(async (path) => {
+        try {
+          results[path] = await this.getFileContent(path, ref);
+        } catch (error) {
+          console.error(`Failed to fetch ${path}:`, error);
+        }
+      }),
+    );
+
+    return results;
+  }
+
+  async getChangedFiles(): Promise<FileChange[]> {
+    // The pulls/{n}/files endpoint has no patches, the diff has both
+    return parseDiffFiles(await this.getDiff());
+  }
+
+  async createBranch(name: string, baseSha: string): Promise<void> {
+    await this.api.post(`${this.repoPath}/branches`, {
+      new_branch_name: name,
+      old_ref_name: baseSha,
+    });
+  }
+
+  async pushChanges(
+    branch: string,
+    message: string,
+    files: Record<string, string>,
+  ): Promise<string> {
+    // Replacing a file requires the blob SHA it currently has on the branch
+    const operations: GiteaFileOperation[] = await Promise.all(
+      Object.entries(files).map(async ([path, content]) => {
+        let sha: string | undefined;
+        try {
+          ({ sha } = await this.api.get<GiteaContentsResponse>(
+            `${this.repoPath}/contents/${encodePath(path)}?ref=${encodeURIComponent(branch)}`,
+          ));
+        } catch (error) {
+          if (!isNotFound(error)) {
+            throw error;
+          }
+        }
+
+        return {
+          operation: sha ? "update" : "create",
+          path,
+          content: Buffer.from(content).toString("base64"),
+          sha,
+        };
+      }),
+    );
+
+    const result = await this.api.post<GiteaFilesResponse>(
+      `${this.repoPath}/contents`,
+      { branch, message, files: operations },
+    );
+    return result.commit.sha;
+  }
+
+  async getBranch(name: string): Promise<BranchInfo | null> {
+    try {
+      const branch = await this.api.get<GiteaBranch>(
+        `${this.repoPath}/branches/${encodePath(name)}`,
+      );
+      return {
+        name: branch.name,
+        sha: branch.commit.id,
+        protected: branch.protected,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * HTTPS clone URL that authenticates with the given token
+   */
+  getCloneUrl(token: string): string {
+    const url = new URL(this.context.serverUrl);
+    url.username = "x-access-token";
+    url.password = token;
+    return `${url.toString().replace(/\/+$/, "")}/${this.context.owner}/${this.context.repo}.git`;
+  }
+
+  async setupGitAuth(token: string): Promise<void> {
+    const host = new URL(this.context.serverUrl).host;
+
+    // Configure git with the bot identity
+    await $`git config --global user.name "Claude[bot]"`.quiet();
+    await $`git config --global user.email ${`claude-bot@noreply.${host}`}`.quiet();
+
+    // Set up authentication for push
+    await $`git remote set-url origin ${this.getCloneUrl(token)}`.quiet();
+  }
+
+  async applySuggestions(
+    suggestions: Array<{
+      file: string;
+      line: number;
+      suggestion: string;
+      description?: string;
+    }>,
+  ): Promise<void> {
+    // Gitea renders suggestion blocks but can't apply them, so they are
+    // posted as review comments for the author to copy
+    await this.submitReview({
+      body: "",
+      event: "COMMENT",
+      comments: suggestions.map((s) => ({
+        path: s.file,
+        line: s.line,
+        body: `${s.description || "Suggestion"}
+
+\`\`\`suggestion
+${s.suggestion}
+\`\`\``,
+      })),
+    });
+  }
+
+  async submitReview(review: ReviewSubmission): Promise<void> {
+    const number = this.requirePullRequest();
+    const { headSha } = await this.getPullRequestInfo();
+
+    // Positions are line numbers in the new (or, for LEFT, the old) file
+    await this.api.post(`${this.repoPath}/pulls/${number}/reviews`, {
+      body: review.body,
+      event: review.event,
+      commit_id: headSha,
+      comments: review.comments.map((comment) => ({
+        path: comment.path,
+        body: comment.body,
+        ...(comment.side === "LEFT"
+          ? { old_position: comment.line }
+          : { new_position: comment.line }),
+      })),
+    });
+  }
+
+  getJobUrl(): string {
+    // Run pages are addressed by the run number, not GITHUB_RUN_ID
+    const { serverUrl, owner, repo, runNumber } = this.context;
+    return runNumber
+      ? `${serverUrl}/${owner}/${repo}/actions/runs/${runNumber}`
+      : `${serverUrl}/${owner}/${repo}/actions`;
+  }
+
+  /**
+   * Web URL of a branch
+   */
+  getBranchUrl(branch: string): string {
+    const { serverUrl, owner, repo } = this.context;
+    return `${serverUrl}/${owner}/${repo}/src/branch/${encodePath(branch)}`;
+  }
+
+  /**
+   * Web URL that opens a pull request from the branch into the base branch
+   */
+  getCompareUrl(baseBranch: string, branch: string): string {
+    const { serverUrl, owner, repo } = this.context;
+    return `${serverUrl}/${owner}/${repo}/compare/${encodePath(baseBranch)}...${encodePath(branch)}`;
+  }
+
+  async checkTrigger(
+    triggerPhrase: string,
+    directPrompt?: string,
+  ): Promise<boolean> {
+    const payload = parseGiteaEventPayload();
+    if (!payload) {
+      console.log("No Gitea event payload found");
+      return !!directPrompt;
+    }
+
+    return checkGiteaTriggerAction({ payload, triggerPhrase, directPrompt });
+  }
+
+  async fetchContextData(): Promise<any> {
+    const repository = {
+      owner: this.context.owner,
+      repo: this.context.repo,
+      serverUrl: this.context.serverUrl,
+    };
+
+    // Return basic context if not on an issue or pull request
+    if (!this.context.entityNumber) {
+      return repository;
+    }
+
+    if (this.context.isPR) {
+      const [pr, comments, changes] = await Promise.all([
+        this.getPullRequestInfo(),
+        this.getComments(),
+        this.getChangedFiles(),
+      ]);
+
+      return {
+        ...repository,
+        ...pr,
+        webUrl: `${this.context.serverUrl}/${this.context.owner}/${this.context.repo}/pulls/${pr.number}`,
+        comments,
+        changes,
+      };
+    }
+
+    const [issue, comments] = await Promise.all([
+      this.api.get<GiteaIssue>(
+        `${this.repoPath}/issues/${this.context.entityNumber}`,
+      ),
+      this.getComments(),
+    ]);
+
+    return {
+      ...repository,
+      number: issue.number,
+      title: issue.title,
+      body: issue.body || "",
+      state: issue.state,
+      author: issue.user.login,
+      labels: issue.labels.map((label) => label.name),
+      webUrl: issue.html_url,
+      comments,
+    };
+  }
+}
@@ -15,6 +15,8 @@ import type {
   CommentInfo,
   FileChange,
   BranchInfo,
+  ReviewSubmission,
+  ApprovalState,
   GitHubProviderOptions,
 } from "./scm-provider";
 import { createOctokit, type Octokits } from "../github/api/client";
@@ -22,11 +24,17 @@ import { checkTriggerAction } from "../github/validation/trigger";
 import { checkHumanActor } from "../github/validation/actor";
 import { checkWritePermissions } from "../github/validation/permissions";
 import { createInitialComment } from "../github/operations/comments/create-initial";
-// import { updateTrackingComment } from "../github/operations/comments/update-claude-comment";
-// import { setupBranch } from "../github/operations/branch";
+import { updateClaudeComment } from "../github/operations/comments/update-claude-comment";
+import {
+  setupBranch,
+  type BranchInfo as GitHubBranchInfo,
+} from "../github/operations/branch";
+import { checkAndCommitOrDeleteBranch } from "../github/operations/branch-cleanup";
 import { configureGitAuth } from "../github/operations/git-config";
-import { fetchGitHubData } from "../github/data/fetcher";
+import { submitPullRequestReview } from "../github/operations/review";
+import { fetchGitHubData, type FetchDataResult } from "../github/data/fetcher";
 import {
+  isPullRequestReviewCommentEvent,
   parseGitHubContext,
   type ParsedGitHubContext,
 } from "../github/context";
@@ -35,6 +43,8 @@ import { $ } from "bun";
 export class GitHubProvider implements SCMProvider {
   private octokit: Octokits;
   private context: ParsedGitHubContext;
+  // Git commits are authored as whoever posted the tracking comment
+  private trackingCommentUser: { login: string; id: number } | null = null;
 
   constructor(options: GitHubProviderOptions) {
     this.octokit = createOctokit(options.token);
@@ -58,6 +68,15 @@ export class GitHubProvider implements SCMProvider {
     };
   }
 
+  /**
+   * The parsed Actions context, including the action inputs. GitHub-only:
+   * modes and prompt creation work on this context, which the other
+   * platforms have no equivalent of.
+   */
+  getGitHubContext(): ParsedGitHubContext {
+    return this.context;
+  }
+
   getContext(): SCMContext {
     return {
       platform: "github",
@@ -267,13 +286,101 @@ export class GitHubProvider implements SCMProvider {
     }
   }
 
-  async setupGitAuth(token: string): Promise<void> {
-    // Use existing git auth configuration
-    const commentData = await createInitialComment(
-      this.octokit.rest,
-      this.context,
+  /**
+   * Creates the tracking comment, or reuses the sticky comment on the pull
+   * request, and writes its ID to the step outputs
+   */
+  async createTrackingComment(): Promise<number> {
+    const comment = await createInitialComment(this.octokit.rest, this.context);
+    this.trackingCommentUser = comment.user;
+    return comment.id;
+  }
+
+  /**
+   * Fetches the tracking comment, which is a reply in the review thread when
+   * Claude was triggered from a pull request review comment
+   */
+  async getTrackingComment(commentId: number): Promise<CommentInfo> {
+    const { owner, repo } = this.context.repository;
+    const { data: comment } = isPullRequestReviewCommentEvent(this.context)
+      ? await this.octokit.rest.pulls.getReviewComment({
+          owner,
+          repo,
+          comment_id: commentId,
+        })
+      : await this.octokit.rest.issues.getComment({
+          owner,
+          repo,
+          comment_id: commentId,
+        });
+
+    return {
+      id: comment.id,
+      author: comment.user?.login || "",
+      body: comment.body || "",
+      createdAt: comment.created_at,
+    };
+  }
+
+  async updateTrackingComment(commentId: number, body: string): Promise<void> {
+    await updateClaudeComment(this.octokit.rest, {
+      owner: this.context.repository.owner,
+      repo: this.context.repository.repo,
+      commentId,
+      body,
+      isPullRequestReviewComment: isPullRequestReviewCommentEvent(this.context),
+    });
+  }
+
+  /**
+   * Checks out the pull request branch, or creates a branch for Claude's
+   * changes on issues and closed pull requests. GitHub-only, like
+   * getGitHubContext: the other platforms set up their branches in their
+   * own entrypoints.
+   */
+  async setupBranch(
+    githubData: FetchDataResult | undefined,
+  ): Promise<GitHubBranchInfo> {
+    return setupBranch(this.octokit, githubData, this.context);
+  }
+
+  /**
+   * Commits anything Claude left uncommitted on its branch, or deletes the
+   * branch when Claude made no changes, and returns a link to it otherwise
+   */
+  async cleanupBranch(
+    claudeBranch: string | undefined,
+    baseBranch: string,
+  ): Promise<{ shouldDeleteBranch: boolean; branchLink: string }> {
+    return checkAndCommitOrDeleteBranch(
+      this.octokit,
+      this.context.repository.owner,
+      this.context.repository.repo,
+      claudeBranch,
+      baseBranch,
+      this.context.inputs.useCommitSigning,
     );
-    await configureGitAuth(token, this.context, commentData.user);
+  }
+
+  /**
+   * Whether a branch has commits or file changes compared to the base branch
+   */
+  async hasBranchChanges(branch: string, baseBranch: string): Promise<boolean> {
+    const { data: comparison } =
+      await this.octokit.rest.repos.compareCommitsWithBasehead({
+        owner: this.context.repository.owner,
+        repo: this.context.repository.repo,
+        basehead: `${baseBranch}...${branch}`,
+      });
+
+    return (
+      comparison.total_commits > 0 ||
+      (comparison.files !== undefined && comparison.files.length > 0)
+    );
+  }
+
+  async setupGitAuth(token: string): Promise<void> {
+    await configureGitAuth(token, this.context, this.trackingCommentUser);
   }
 
   async applySuggestions(
@@ -303,6 +410,159 @@ export class GitHubProvider implements SCMProvider {
     });
   }
 
+  async submitReview(review: ReviewSubmission): Promise<void> {
+    if (!this.context.isPR) {
+      throw new Error("Reviews can only be submitted on pull requests");
+    }
+
+    await submitPullRequestReview(this.octokit.rest, {
+      owner: this.context.repository.owner,
+      repo: this.context.repository.repo,
+      pullNumber: this.context.entityNumber,
+      ...review,
+    });
+  }
+
+  /**
+   * Issue parameters for the current issue or pull request; pull requests
+   * are issues for labels and assignees
+   */
+  private issueParams(action: string) {
+    if (!this.context.entityNumber) {
+      throw new Error(`Cannot ${action} without an issue or pull request`);
+    }
+    return {
+      owner: this.context.repository.owner,
+      repo: this.context.repository.repo,
+      issue_number: this.context.entityNumber,
+    };
+  }
+
+  private pullParams(action: string) {
+    if (!this.context.isPR) {
+      throw new Error(`Cannot ${action} outside a pull request`);
+    }
+    return {
+      owner: this.context.repository.owner,
+      repo: this.context.repository.repo,
+      pull_number: this.context.entityNumber,
+    };
+  }
+
+  async getLabels(): Promise<string[]> {
+    const { data: labels } = await this.octokit.rest.issues.listLabelsOnIssue({
+      ...this.issueParams("read labels"),
+      per_page: 100,
+    });
+    return labels.map((label) => label.name);
+  }
+
+  async getAvailableLabels(): Promise<string[]> {
+    const labels = await this.octokit.rest.paginate(
+      this.octokit.rest.issues.listLabelsForRepo,
+      {
+        owner: this.context.repository.owner,
+        repo: this.context.repository.repo,
+        per_page: 100,
+      },
+    );
+    return labels.map((label) => label.name);
+  }
+
+  async addLabels(labels: string[]): Promise<void> {
+    await this.octokit.rest.issues.addLabels({
+      ...this.issueParams("add labels"),
+      labels,
+    });
+  }
+
+  async removeLabels(labels: string[]): Promise<void> {
+    const params = this.issueParams("remove labels");
+    for (const name of labels) {
+      try {
+        await this.octokit.rest.issues.removeLabel({ ...params, name });
+      } catch (error: any) {
+        // The label wasn't set, which is what was asked for
+        if (error.status !== 404) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getAssignees(): Promise<string[]> {
+    const { data: issue } = await this.octokit.rest.issues.get(
+      this.issueParams("read assignees"),
+    );
+    return (issue.assignees ?? []).map((user) => user.login);
+  }
+
+  async addAssignees(usernames: string[]): Promise<void> {
+    await this.octokit.rest.issues.addAssignees({
+      ...this.issueParams("add assignees"),
+      assignees: usernames,
+    });
+  }
+
+  async removeAssignees(usernames: string[]): Promise<void> {
+    await this.octokit.rest.issues.removeAssignees({
+      ...this.issueParams("remove assignees"),
+      assignees: usernames,
+    });
+  }
+
+  async getRequestedReviewers(): Promise<string[]> {
+    const { data } = await this.octokit.rest.pulls.listRequestedReviewers(
+      this.pullParams("read reviewers"),
+    );
+    return [
+      ...data.users.map((user) => user.login),
+      ...data.teams.map(
+        (team) => `${this.context.repository.owner}/${team.slug}`,
+      ),
+    ];
+  }
+
+  async requestReviewers(usernames: string[]): Promise<void> {
+    // Teams come as org/team, e.g. from CODEOWNERS
+    const teams = usernames.filter((name) => name.includes("/"));
+    await this.octokit.rest.pulls.requestReviewers({
+      ...this.pullParams("request reviewers"),
+      reviewers: usernames.filter((name) => !name.includes("/")),
+      team_reviewers: teams.map((team) => team.split("/").pop()!),
+    });
+  }
+
+  async getApprovalState(): Promise<ApprovalState> {
+    const reviews = await this.octokit.rest.paginate(
+      this.octokit.rest.pulls.listReviews,
+      { ...this.pullParams("read approvals"), per_page: 100 },
+    );
+
+    // Each reviewer's latest verdict counts; comments don't change it
+    const verdicts = new Map<string, string>();
+    for (const review of reviews) {
+      if (
+        review.user &&
+        ["APPROVED", "CHANGES_REQUESTED", "DISMISSED"].includes(review.state)
+      ) {
+        verdicts.set(review.user.login, review.state);
+      }
+    }
+    const withVerdict = (state: string) =>
+      [...verdicts].filter(([, s]) => s === state).map(([login]) => login);
+
+    const approvedBy = withVerdict("APPROVED");
+    const changesRequestedBy = withVerdict("CHANGES_REQUESTED");
+    return {
+      approved: approvedBy.length > 0 && changesRequestedBy.length === 0,
+      approvedBy,
+      changesRequestedBy,
+      // Required approvals live in branch protection, which needs admin access
+      approvalsRequired: 0,
+    };
+  }
+
   getJobUrl(): string {
     return `https://github.com/${this.context.repository.owner}/${this.context.repository.repo}/actions/runs/${this.context.runId}`;
   }
@@ -314,7 +574,7 @@ export class GitHubProvider implements SCMProvider {
     return checkTriggerAction(this.context);
   }
 
-  async fetchContextData(): Promise<any> {
+  async fetchContextData(): Promise<FetchDataResult> {
     return fetchGitHubData({
       octokits: this.octokit,
       repository: `${this.context.repository.owner}/${this.context.repository.repo}`,
@@ -14,6 +14,8 @@ import type {
   CommentInfo,
   FileChange,
   BranchInfo,
+  ReviewSubmission,
+  ApprovalState,
   GitLabProviderOptions,
 } from "./scm-provider";
 import {
@@ -26,6 +28,10 @@ import {
   fetchGitLabMRData,
   fetchGitLabIssueData,
 } from "../gitlab/data/fetcher";
+import {
+  fetchLatestPipelineSummary,
+  type GitLabPipelineSummary,
+} from "../gitlab/pipelines";
 import type {
   GitLabUser,
   GitLabMergeRequest,
@@ -37,6 +43,9 @@ import type {
   GitLabCommit,
   GitLabProject,
   GitLabRepositoryFile,
+  GitLabIssue,
+  GitLabLabel,
+  GitLabMergeRequestApprovals,
 } from "../types/gitbeaker";
 
 export class GitLabProvider implements SCMProvider {
@@ -408,6 +417,18 @@ export class GitLabProvider implements SCMProvider {
     }
   }
 
+  async createTrackingComment(): Promise<number> {
+    return this.createComment(`🤖 Claude is working on this...
+
+[View job details](${this.getJobUrl()})
+
+---
+- [ ] Setting up workspace
+- [ ] Analyzing request
+- [ ] Implementing changes
+- [ ] Running tests`);
+  }
+
   async updateComment(commentId: number, body: string): Promise<void> {
     if (this.context.mrIid) {
       // Update comment on merge request
@@ -437,10 +458,7 @@ export class GitLabProvider implements SCMProvider {
       throw new Error("Not in a merge request context");
     }
 
-    // GitLab changes endpoint needs special handling
-    const mr = (await (this.api as any).requester.get(
-      `/projects/${this.context.projectId}/merge_requests/${parseInt(this.context.mrIid)}/changes`,
-    )) as GitLabMergeRequestChanges;
+    const mr = await this.getMergeRequestChanges(this.context.mrIid);
 
     // Combine all file diffs
     return mr.changes
@@ -451,6 +469,15 @@ export class GitLabProvider implements SCMProvider {
       .join("\n");
   }
 
+  private async getMergeRequestChanges(
+    mrIid: string,
+  ): Promise<GitLabMergeRequestChanges> {
+    // GitLab changes endpoint needs special handling
+    return (await (this.api as any).requester.get(
+      `/projects/${this.context.projectId}/merge_requests/${parseInt(mrIid)}/changes`,
+    )) as GitLabMergeRequestChanges;
+  }
+
   async getFileContent(path: string, ref: string): Promise<string> {
     try {
       const file = (await this.api.RepositoryFiles.show(
@@ -494,10 +521,7 @@ export class GitLabProvider implements SCMProvider {
       throw new Error("Not in a merge request context");
     }
 
-    // GitLab changes endpoint needs special handling
-    const mr = (await (this.api as any).requester.get(
-      `/projects/${this.context.projectId}/merge_requests/${parseInt(this.context.mrIid)}/changes`,
-    )) as GitLabMergeRequestChanges;
+    const mr = await this.getMergeRequestChanges(this.context.mrIid);
 
     return mr.changes.map((change) => {
       // More robust diff parsing that ignores diff headers
@@ -626,6 +650,231 @@ ${s.suggestion}
     }
   }
 
+  async submitReview(review: ReviewSubmission): Promise<void> {
+    if (!this.context.mrIid) {
+      throw new Error("Reviews can only be submitted on merge requests");
+    }
+
+    const mrIid = parseInt(this.context.mrIid);
+    const mr = await this.getMergeRequestChanges(this.context.mrIid);
+    if (!mr.diff_refs) {
+      throw new Error("Merge request has no diff to review");
+    }
+    const { base_sha, start_sha, head_sha } = mr.diff_refs;
+    // Renamed files need their old path for lines on the LEFT side
+    const oldPaths = new Map(
+      mr.changes.map((change) => [change.new_path, change.old_path]),
+    );
+
+    // GitLab has no single review object, so batch the comments as draft
+    // notes and publish them together to produce one review notification
+    const draftIds: number[] = [];
+    try {
+      for (const comment of review.comments) {
+        const position: any = {
+          baseSha: base_sha,
+          startSha: start_sha,
+          headSha: head_sha,
+          oldPath: oldPaths.get(comment.path) ?? comment.path,
+          newPath: comment.path,
+          positionType: "text",
+          ...(comment.side === "LEFT"
+            ? { oldLine: comment.line.toString() }
+            : { newLine: comment.line.toString() }),
+        };
+
+        const draft = await this.api.MergeRequestDraftNotes.create(
+          this.context.projectId,
+          mrIid,
+          comment.body,
+          { position },
+        );
+        draftIds.push(draft.id);
+      }
+
+      const verdict =
+        review.event === "REQUEST_CHANGES"
+          ? "**Verdict:** Changes requested"
+          : "**Verdict:** Comments only";
+
+      await this.api.MergeRequestDraftNotes.create(
+        this.context.projectId,
+        mrIid,
+        `${review.body}\n\n${verdict}`,
+      );
+    } catch (error) {
+      // Don't leave a half-written review pending on the merge request
+      await Promise.allSettled(
+        draftIds.map((id) =>
+          this.api.MergeRequestDraftNotes.remove(
+            this.context.projectId,
+            mrIid,
+            id,
+          ),
+        ),
+      );
+      throw error;
+    }
+
+    await this.api.MergeRequestDraftNotes.publishBulk(
+      this.context.projectId,
+      mrIid,
+    );
+  }
+
+  /**
+   * The merge request or issue triage operations apply to
+   */
+  private async getTriageTarget(
+    action: string,
+  ): Promise<GitLabMergeRequest | GitLabIssue> {
+    if (this.context.mrIid) {
+      return (await this.api.MergeRequests.show(
+        this.context.projectId,
+        parseInt(this.context.mrIid),
+      )) as unknown as GitLabMergeRequest;
+    }
+    if (this.context.issueIid) {
+      return (await this.api.Issues.show(parseInt(this.context.issueIid), {
+        projectId: this.context.projectId,
+      })) as unknown as GitLabIssue;
+    }
+    throw new Error(`Cannot ${action} without an issue or merge request`);
+  }
+
+  private async editTriageTarget(
+    action: string,
+    options: Record<string, unknown>,
+  ): Promise<void> {
+    if (this.context.mrIid) {
+      await this.api.MergeRequests.edit(
+        this.context.projectId,
+        parseInt(this.context.mrIid),
+        options,
+      );
+    } else if (this.context.issueIid) {
+      await this.api.Issues.edit(
+        this.context.projectId,
+        parseInt(this.context.issueIid),
+        options,
+      );
+    } else {
+      throw new Error(`Cannot ${action} without an issue or merge request`);
+    }
+  }
+
+  /**
+   * Resolves usernames to user IDs, which assignee and reviewer updates need
+   */
+  private async getUserIds(usernames: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      const [user] = (await this.api.Users.all({
+        username,
+      })) as unknown as GitLabUser[];
+      if (!user) {
+        throw new Error(`GitLab user not found: ${username}`);
+      }
+      ids.push(user.id);
+    }
+    return ids;
+  }
+
+  async getLabels(): Promise<string[]> {
+    return (await this.getTriageTarget("read labels")).labels;
+  }
+
+  async getAvailableLabels(): Promise<string[]> {
+    const labels = (await this.api.ProjectLabels.all(this.context.projectId, {
+      includeAncestorGroups: true,
+    })) as unknown as GitLabLabel[];
+    return labels.map((label) => label.name);
+  }
+
+  async addLabels(labels: string[]): Promise<void> {
+    await this.editTriageTarget("add labels", {
+      addLabels: labels.join(","),
+    });
+  }
+
+  async removeLabels(labels: string[]): Promise<void> {
+    await this.editTriageTarget("remove labels", {
+      removeLabels: labels.join(","),
+    });
+  }
+
+  async getAssignees(): Promise<string[]> {
+    const target = await this.getTriageTarget("read assignees");
+    return (target.assignees ?? []).map((user) => user.username);
+  }
+
+  async addAssignees(usernames: string[]): Promise<void> {
+    const target = await this.getTriageTarget("add assignees");
+    const current = (target.assignees ?? []).map((user) => user.id);
+    const added = await this.getUserIds(usernames);
+    await this.editTriageTarget("add assignees", {
+      assigneeIds: [...new Set([...current, ...added])],
+    });
+  }
+
+  async removeAssignees(usernames: string[]): Promise<void> {
+    const target = await this.getTriageTarget("remove assignees");
+    const remaining = (target.assignees ?? [])
+      .filter((user) => !usernames.includes(user.username))
+      .map((user) => user.id);
+    // GitLab reads an empty list as "leave unchanged", 0 unassigns everyone
+    await this.editTriageTarget("remove assignees", {
+      assigneeIds: remaining.length ? remaining : [0],
+    });
+  }
+
+  async getRequestedReviewers(): Promise<string[]> {
+    if (!this.context.mrIid) {
+      throw new Error("Cannot read reviewers outside a merge request");
+    }
+    const mr = (await this.getTriageTarget(
+      "read reviewers",
+    )) as GitLabMergeRequest;
+    return (mr.reviewers ?? []).map((user) => user.username);
+  }
+
+  async requestReviewers(usernames: string[]): Promise<void> {
+    if (!this.context.mrIid) {
+      throw new Error("Cannot request reviewers outside a merge request");
+    }
+    const mr = (await this.getTriageTarget(
+      "request reviewers",
+    )) as GitLabMergeRequest;
+    const current = (mr.reviewers ?? []).map((user) => user.id);
+    const added = await this.getUserIds(usernames);
+    await this.editTriageTarget("request reviewers", {
+      reviewerIds: [...new Set([...current, ...added])],
+    });
+  }
+
+  async getApprovalState(): Promise<ApprovalState> {
+    if (!this.context.mrIid) {
+      throw new Error("Cannot read approvals outside a merge request");
+    }
+    const approvals = (await this.api.MergeRequestApprovals.showConfiguration(
+      this.context.projectId,
+      { mergerequestIId: parseInt(this.context.mrIid) },
+    )) as unknown as GitLabMergeRequestApprovals;
+
+    const approvedBy = (approvals.approved_by ?? []).map(
+      (approval) => approval.user.username,
+    );
+    return {
+      approved:
+        approvals.approved ??
+        (approvals.approvals_left === 0 && approvedBy.length > 0),
+      approvedBy,
+      // The approvals API has no notion of requested changes
+      changesRequestedBy: [],
+      approvalsRequired: approvals.approvals_required,
+    };
+  }
+
   getJobUrl(): string {
     return (
       this.context.pipelineUrl ||
@@ -633,6 +882,21 @@ ${s.suggestion}
     );
   }
 
+  /**
+   * Get the latest merge request pipeline with its failed jobs and test report
+   */
+  async getPipelineSummary(): Promise<GitLabPipelineSummary | null> {
+    if (!this.context.mrIid) {
+      return null;
+    }
+
+    return fetchLatestPipelineSummary(
+      this.api,
+      this.context.projectId,
+      parseInt(this.context.mrIid),
+    );
+  }
+
   async checkTrigger(
     triggerPhrase: string,
     directPrompt?: string,
@@ -6,14 +6,35 @@
 
 import { GitHubProvider } from "./github-provider";
 import { GitLabProvider } from "./gitlab-provider";
+import { BitbucketProvider } from "./bitbucket-provider";
+import { GiteaProvider } from "./gitea-provider";
+import { AzureDevOpsProvider } from "./azure-devops-provider";
 import type {
   SCMProvider,
   GitHubProviderOptions,
   GitLabProviderOptions,
+  BitbucketProviderOptions,
+  GiteaProviderOptions,
+  AzureDevOpsProviderOptions,
 } from "./scm-provider";
+import {
+  getWebhookPullRequest,
+  parseBitbucketWebhookPayload,
+} from "../bitbucket/context";
+import { isGiteaActions, parseGiteaContext } from "../gitea/context";
+import {
+  parseAzureDevOpsContext,
+  parseAzureDevOpsWebhookPayload,
+  getWebhookPullRequest as getAzureDevOpsWebhookPullRequest,
+} from "../azure-devops/context";
 import * as core from "@actions/core";
 
-export type ProviderType = "github" | "gitlab";
+export type ProviderType =
+  | "github"
+  | "gitlab"
+  | "bitbucket"
+  | "gitea"
+  | "azure-devops";
 
 export interface ProviderFactoryOptions {
   platform?: ProviderType;
@@ -28,7 +49,13 @@ export interface ProviderFactoryOptions {
 export function detectPlatform(): ProviderType {
   // Check for explicit platform setting
   const explicitPlatform = process.env.CI_PLATFORM as ProviderType;
-  if (explicitPlatform === "gitlab" || explicitPlatform === "github") {
+  if (
+    explicitPlatform === "gitlab" ||
+    explicitPlatform === "github" ||
+    explicitPlatform === "bitbucket" ||
+    explicitPlatform === "gitea" ||
+    explicitPlatform === "azure-devops"
+  ) {
     return explicitPlatform;
   }
 
@@ -37,18 +64,46 @@ export function detectPlatform(): ProviderType {
     return "gitlab";
   }
 
+  // Gitea and Forgejo runners also set GITHUB_ACTIONS=true
+  if (isGiteaActions()) {
+    return "gitea";
+  }
+
   if (process.env.GITHUB_ACTIONS === "true") {
     return "github";
   }
 
+  if (process.env.BITBUCKET_BUILD_NUMBER) {
+    return "bitbucket";
+  }
+
+  // Azure Pipelines sets TF_BUILD to "True"
+  if (process.env.TF_BUILD?.toLowerCase() === "true") {
+    return "azure-devops";
+  }
+
   // Default to GitHub for backward compatibility
   console.log("Could not detect CI platform, defaulting to GitHub");
   return "github";
 }
 
+type ProviderByPlatform = {
+  github: GitHubProvider;
+  gitlab: GitLabProvider;
+  bitbucket: BitbucketProvider;
+  gitea: GiteaProvider;
+  "azure-devops": AzureDevOpsProvider;
+};
+
 /**
- * Creates an SCM provider instance based on the detected or specified platform
+ * Creates an SCM provider instance based on the detected or specified platform.
+ * Specifying the platform returns that platform's provider, which also has
+ * the operations only it supports.
  */
+export function createProvider<P extends ProviderType>(
+  options: ProviderFactoryOptions & { platform: P },
+): ProviderByPlatform[P];
+export function createProvider(options: ProviderFactoryOptions): SCMProvider;
 export function createProvider(options: ProviderFactoryOptions): SCMProvider {
   const platform = options.platform || detectPlatform();
 
@@ -137,6 +192,82 @@ export function createProvider(options: ProviderFactoryOptions): SCMProvider {
       return new GitHubProvider(githubOptions);
     }
 
+    case "bitbucket": {
+      // Get Bitbucket-specific configuration
+      const workspace =
+        process.env.BITBUCKET_WORKSPACE || process.env.BITBUCKET_PROJECT_KEY;
+      const repoSlug = process.env.BITBUCKET_REPO_SLUG;
+
+      // Pull request pipelines set BITBUCKET_PR_ID; webhook-triggered custom
+      // pipelines only carry the pull request in the payload
+      const prId =
+        process.env.BITBUCKET_PR_ID ||
+        getWebhookPullRequest(parseBitbucketWebhookPayload())?.id?.toString();
+
+      if (!workspace || !repoSlug) {
+        throw new Error(
+          "Bitbucket workspace and repository are required (BITBUCKET_WORKSPACE and BITBUCKET_REPO_SLUG)",
+        );
+      }
+
+      const bitbucketOptions: BitbucketProviderOptions = {
+        token: options.token,
+        workspace,
+        repoSlug,
+        prId,
+        host: process.env.BITBUCKET_HOST || "https://bitbucket.org",
+        buildUrl: process.env.BITBUCKET_BUILD_URL,
+        triggerPhrase: options.triggerPhrase,
+        directPrompt: options.directPrompt,
+      };
+
+      return new BitbucketProvider(bitbucketOptions);
+    }
+
+    case "gitea": {
+      // Gitea runners set the GitHub variables and a GitHub-style event file
+      const context = parseGiteaContext();
+
+      const giteaOptions: GiteaProviderOptions = {
+        token: options.token,
+        owner: context.owner,
+        repo: context.repo,
+        serverUrl: context.serverUrl,
+        entityNumber: context.entityNumber,
+        isPR: context.isPR,
+        triggerPhrase: options.triggerPhrase,
+        directPrompt: options.directPrompt,
+      };
+
+      return new GiteaProvider(giteaOptions);
+    }
+
+    case "azure-devops": {
+      // Get Azure DevOps-specific configuration
+      const context = parseAzureDevOpsContext();
+
+      // Pull request validation builds set SYSTEM_PULLREQUEST_PULLREQUESTID;
+      // pipelines queued by a service hook only carry it in the payload
+      const prId =
+        context.prId ||
+        getAzureDevOpsWebhookPullRequest(
+          parseAzureDevOpsWebhookPayload(),
+        )?.pullRequestId?.toString();
+
+      const azureDevOpsOptions: AzureDevOpsProviderOptions = {
+        token: options.token,
+        collectionUri: context.collectionUri,
+        project: context.project,
+        repository: context.repository,
+        prId,
+        buildId: context.buildId,
+        triggerPhrase: options.triggerPhrase,
+        directPrompt: options.directPrompt,
+      };
+
+      return new AzureDevOpsProvider(azureDevOpsOptions);
+    }
+
     default:
       throw new Error(`Unsupported platform: ${platform}`);
   }
@@ -192,6 +323,52 @@ export function getToken(): string {
     return token;
   }
 
+  if (platform === "bitbucket") {
+    // Access tokens (repository, project or workspace) are preferred
+    const accessToken = process.env.BITBUCKET_ACCESS_TOKEN;
+    if (accessToken) {
+      return accessToken;
+    }
+
+    // App passwords authenticate together with their username
+    const username = process.env.BITBUCKET_USERNAME;
+    const appPassword = process.env.BITBUCKET_APP_PASSWORD;
+    if (username && appPassword) {
+      return `${username}:${appPassword}`;
+    }
+
+    throw new Error(
+      "Bitbucket authentication required (BITBUCKET_ACCESS_TOKEN, or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD)",
+    );
+  }
+
+  if (platform === "gitea") {
+    // The workflow's own token (github.token) is a Gitea token on Gitea runners
+    const token =
+      process.env.GITEA_TOKEN ||
+      process.env.OVERRIDE_GITHUB_TOKEN ||
+      process.env.GITHUB_TOKEN ||
+      process.env.ACTIONS_TOKEN;
+    if (!token) {
+      throw new Error(
+        "Gitea authentication required (GITEA_TOKEN or github_token input)",
+      );
+    }
+    return token;
+  }
+
+  if (platform === "azure-devops") {
+    // A personal access token, or the pipeline's $(System.AccessToken)
+    const token =
+      process.env.AZURE_DEVOPS_TOKEN || process.env.SYSTEM_ACCESSTOKEN;
+    if (!token) {
+      throw new Error(
+        "Azure DevOps authentication required (AZURE_DEVOPS_TOKEN or SYSTEM_ACCESSTOKEN)",
+      );
+    }
+    return token;
+  }
+
   // For GitHub, check OAuth token first
   const oauthToken =
     process.env.CLAUDE_CODE_OAUTH_TOKEN ||
@@ -219,5 +396,11 @@ export function getToken(): string {
 /**
  * Export all providers for direct access if needed
  */
-export { GitHubProvider, GitLabProvider };
+export {
+  GitHubProvider,
+  GitLabProvider,
+  BitbucketProvider,
+  GiteaProvider,
+  AzureDevOpsProvider,
+};
 export type { SCMProvider } from "./scm-provider";
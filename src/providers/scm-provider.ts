@@ -2,9 +2,11 @@
  * SCM Provider Interface
  *
  * Abstracts source control management operations to support multiple platforms
- * (GitHub, GitLab, etc.) with a unified interface.
+ * (GitHub, GitLab, Bitbucket, Gitea, Azure DevOps) with a unified interface.
  */
 
+import type { GitLabPipelineSummary } from "../gitlab/pipelines";
+
 export interface RepoInfo {
   owner: string;
   repo: string;
@@ -45,8 +47,29 @@ export interface BranchInfo {
   protected: boolean;
 }
 
+export interface ReviewComment {
+  path: string;
+  line: number;
+  startLine?: number;
+  side?: "LEFT" | "RIGHT";
+  body: string;
+}
+
+export interface ReviewSubmission {
+  body: string;
+  event: "COMMENT" | "REQUEST_CHANGES";
+  comments: ReviewComment[];
+}
+
+export interface ApprovalState {
+  approved: boolean;
+  approvedBy: string[];
+  changesRequestedBy: string[];
+  approvalsRequired: number; // 0 when the platform doesn't enforce a minimum
+}
+
 export interface SCMContext {
-  platform: "github" | "gitlab";
+  platform: "github" | "gitlab" | "bitbucket" | "gitea" | "azure-devops";
   isPR: boolean;
   entityNumber: number; // PR/Issue number or MR IID
   actor: string;
@@ -58,7 +81,7 @@ export interface SCMProvider {
   /**
    * Get the platform name
    */
-  getPlatform(): "github" | "gitlab";
+  getPlatform(): "github" | "gitlab" | "bitbucket" | "gitea" | "azure-devops";
 
   /**
    * Get repository information
@@ -95,6 +118,12 @@ export interface SCMProvider {
    */
   createComment(body: string): Promise<number>;
 
+  /**
+   * Create the comment Claude reports its progress and results in, linking
+   * to the job run
+   */
+  createTrackingComment(): Promise<number>;
+
   /**
    * Update an existing comment
    */
@@ -149,7 +178,7 @@ export interface SCMProvider {
 
   /**
    * Apply suggestions/patches to the code
-   * This is platform-specific (GitHub reviews vs GitLab suggestions)
+   * This is platform-specific (GitHub reviews vs GitLab/Bitbucket suggestions)
    */
   applySuggestions(
     suggestions: Array<{
@@ -160,6 +189,12 @@ export interface SCMProvider {
     }>,
   ): Promise<void>;
 
+  /**
+   * Submit a review with line-anchored comments and a summary verdict
+   * This is platform-specific (GitHub PR reviews vs GitLab draft note batches)
+   */
+  submitReview(review: ReviewSubmission): Promise<void>;
+
   /**
    * Get platform-specific job/pipeline URL
    */
@@ -175,8 +210,88 @@ export interface SCMProvider {
    * (PR/MR details, files, discussions, etc.)
    */
   fetchContextData(): Promise<any>;
+
+  // Triage operations on the current issue or pull/merge request. Only
+  // GitHub and GitLab implement these, so check for them before calling.
+
+  /**
+   * Get the labels on the issue or pull/merge request
+   */
+  getLabels?(): Promise<string[]>;
+
+  /**
+   * Get the labels defined in the repository
+   */
+  getAvailableLabels?(): Promise<string[]>;
+
+  /**
+   * Add labels to the issue or pull/merge request
+   */
+  addLabels?(labels: string[]): Promise<void>;
+
+  /**
+   * Remove labels from the issue or pull/merge request
+   */
+  removeLabels?(labels: string[]): Promise<void>;
+
+  /**
+   * Get the usernames assigned to the issue or pull/merge request
+   */
+  getAssignees?(): Promise<string[]>;
+
+  /**
+   * Assign users in addition to the current assignees
+   */
+  addAssignees?(usernames: string[]): Promise<void>;
+
+  /**
+   * Unassign users
+   */
+  removeAssignees?(usernames: string[]): Promise<void>;
+
+  /**
+   * Get the reviewers requested on the pull/merge request
+   */
+  getRequestedReviewers?(): Promise<string[]>;
+
+  /**
+   * Request reviews in addition to the current reviewers
+   * Teams are given as `org/team` where the platform supports them
+   */
+  requestReviewers?(usernames: string[]): Promise<void>;
+
+  /**
+   * Get who approved the pull/merge request and whether that is enough
+   */
+  getApprovalState?(): Promise<ApprovalState>;
+
+  /**
+   * Get the latest pipeline of the merge request with its failed jobs and
+   * test report, or null when none has run. Only GitLab implements this.
+   */
+  getPipelineSummary?(): Promise<GitLabPipelineSummary | null>;
 }
 
+/**
+ * A provider that implements every triage operation
+ */
+export type TriageProvider = SCMProvider &
+  Required<
+    Pick<
+      SCMProvider,
+      | "getLabels"
+      | "getAvailableLabels"
+      | "addLabels"
+      | "removeLabels"
+      | "getAssignees"
+      | "addAssignees"
+      | "removeAssignees"
+      | "getRequestedReviewers"
+      | "requestReviewers"
+      | "getApprovalState"
+    >
+  >;
+
 /**
  * Provider options shared across platforms
  */
@@ -209,3 +324,36 @@ export interface GitLabProviderOptions extends ProviderOptions {
   host: string;
   pipelineUrl?: string;
 }
+
+/**
+ * Bitbucket-specific provider options
+ */
+export interface BitbucketProviderOptions extends ProviderOptions {
+  workspace: string; // Workspace on Cloud, project key on Data Center
+  repoSlug: string;
+  prId?: string;
+  host: string;
+  buildUrl?: string;
+}
+
+/**
+ * Gitea-specific provider options (also used for Forgejo)
+ */
+export interface GiteaProviderOptions extends ProviderOptions {
+  owner: string;
+  repo: string;
+  serverUrl: string;
+  entityNumber?: number; // Issue or pull request number
+  isPR: boolean;
+}
+
+/**
+ * Azure DevOps-specific provider options
+ */
+export interface AzureDevOpsProviderOptions extends ProviderOptions {
+  collectionUri: string; // e.g. https://dev.azure.com/acme
+  project: string;
+  repository: string;
+  prId?: string;
+  buildId?: string;
+}
@@ -0,0 +1,122 @@
+/**
+ * Type definitions for Azure DevOps REST API (7.1) responses
+ */
+
+export interface AzureDevOpsList<T> {
+  count: number;
+  value: T[];
+}
+
+export interface AzureDevOpsIdentityRef {
+  id: string;
+  displayName: string;
+  uniqueName: string; // Email or DOMAIN\user
+  descriptor?: string;
+  isContainer?: boolean;
+}
+
+export interface AzureDevOpsRepository {
+  id: string;
+  name: string;
+  defaultBranch?: string; // refs/heads/main
+  remoteUrl: string;
+  webUrl: string;
+  project: { id: string; name: string };
+}
+
+export interface AzureDevOpsPullRequest {
+  pullRequestId: number;
+  title: string;
+  description?: string;
+  status: "active" | "abandoned" | "completed";
+  isDraft: boolean;
+  createdBy: AzureDevOpsIdentityRef;
+  sourceRefName: string;
+  targetRefName: string;
+  lastMergeSourceCommit: { commitId: string };
+  lastMergeTargetCommit: { commitId: string };
+}
+
+export interface AzureDevOpsComment {
+  id: number;
+  parentCommentId: number;
+  content: string;
+  author: AzureDevOpsIdentityRef;
+  publishedDate: string;
+  commentType: "text" | "codeChange" | "system" | "unknown";
+  isDeleted?: boolean;
+}
+
+export interface AzureDevOpsThreadPosition {
+  line: number;
+  offset: number;
+}
+
+export interface AzureDevOpsThreadContext {
+  filePath: string;
+  leftFileStart?: AzureDevOpsThreadPosition;
+  leftFileEnd?: AzureDevOpsThreadPosition;
+  rightFileStart?: AzureDevOpsThreadPosition;
+  rightFileEnd?: AzureDevOpsThreadPosition;
+}
+
+export interface AzureDevOpsThread {
+  id: number;
+  comments: AzureDevOpsComment[];
+  status?: "active" | "fixed" | "wontFix" | "closed" | "byDesign" | "pending";
+  threadContext?: AzureDevOpsThreadContext | null;
+  isDeleted: boolean;
+}
+
+export interface AzureDevOpsIteration {
+  id: number;
+  sourceRefCommit: { commitId: string };
+  targetRefCommit: { commitId: string };
+}
+
+export interface AzureDevOpsChangeEntry {
+  changeType: string; // e.g. "add", "edit", "delete", "rename", "edit, rename"
+  item: { path: string; isFolder?: boolean };
+  originalPath?: string;
+}
+
+export interface AzureDevOpsIterationChanges {
+  changeEntries: AzureDevOpsChangeEntry[];
+  nextSkip?: number;
+}
+
+export interface AzureDevOpsRef {
+  name: string; // refs/heads/main
+  objectId: string;
+  isLocked?: boolean;
+}
+
+export interface AzureDevOpsPush {
+  pushId: number;
+  commits: Array<{ commitId: string }>;
+}
+
+export interface AzureDevOpsIdentity {
+  id: string;
+  descriptor: string; // e.g. Microsoft.IdentityModel.Claims.ClaimsIdentity;...
+  providerDisplayName: string;
+  isActive: boolean;
+  properties?: Record<string, { $value: string }>;
+}
+
+export interface AzureDevOpsAccessControlList {
+  token: string;
+  acesDictionary: Record<
+    string,
+    {
+      descriptor: string;
+      allow: number;
+      deny: number;
+      extendedInfo?: { effectiveAllow?: number; effectiveDeny?: number };
+    }
+  >;
+}
+
+export interface AzureDevOpsConnectionData {
+  authenticatedUser: { id: string; providerDisplayName: string };
+}
@@ -0,0 +1,104 @@
+/**
+ * Type definitions for Bitbucket REST API responses
+ * Cloud (API 2.0) and Data Center (REST API 1.0) use different shapes
+ */
+
+// Pagination
+export interface BitbucketCloudPage<T> {
+  values: T[];
+  next?: string;
+}
+
+export interface BitbucketDataCenterPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+// Cloud types
+export interface BitbucketCloudUser {
+  uuid: string;
+  nickname?: string;
+  display_name: string;
+  type: string; // "user" for people, "app_user" for bots and access tokens
+  account_status?: string;
+}
+
+export interface BitbucketCloudRepository {
+  full_name: string;
+  mainbranch?: { name: string };
+}
+
+export interface BitbucketCloudPullRequest {
+  id: number;
+  title: string;
+  description?: string;
+  state: "OPEN" | "MERGED" | "DECLINED" | "SUPERSEDED";
+  draft?: boolean;
+  author: BitbucketCloudUser;
+  source: { branch: { name: string }; commit: { hash: string } };
+  destination: { branch: { name: string }; commit: { hash: string } };
+}
+
+export interface BitbucketCloudComment {
+  id: number;
+  content: { raw: string };
+  user: BitbucketCloudUser;
+  created_on: string;
+  deleted?: boolean;
+  inline?: { path: string; from?: number | null; to?: number | null };
+}
+
+export interface BitbucketCloudBranch {
+  name: string;
+  target: { hash: string };
+}
+
+export interface BitbucketCloudRepositoryPermission {
+  permission: "read" | "write" | "admin";
+  user: BitbucketCloudUser;
+}
+
+// Data Center types
+export interface BitbucketDataCenterUser {
+  name: string;
+  slug: string;
+  displayName?: string;
+  type: "NORMAL" | "SERVICE";
+  active: boolean;
+}
+
+export interface BitbucketDataCenterRef {
+  id: string;
+  displayId: string;
+  latestCommit: string;
+}
+
+export interface BitbucketDataCenterPullRequest {
+  id: number;
+  title: string;
+  description?: string;
+  state: "OPEN" | "MERGED" | "DECLINED";
+  draft?: boolean;
+  author: { user: BitbucketDataCenterUser };
+  fromRef: BitbucketDataCenterRef;
+  toRef: BitbucketDataCenterRef;
+}
+
+export interface BitbucketDataCenterComment {
+  id: number;
+  version: number;
+  text: string;
+  author: BitbucketDataCenterUser;
+  createdDate: number;
+}
+
+export interface BitbucketDataCenterActivity {
+  action: string;
+  comment?: BitbucketDataCenterComment;
+}
+
+export interface BitbucketDataCenterPermission {
+  user: BitbucketDataCenterUser;
+  permission: string; // e.g. REPO_WRITE, PROJECT_ADMIN
+}
@@ -264,3 +264,74 @@ export interface GitLabIssue {
   moved_to_id?: number;
   service_desk_reply_to?: string;
 }
+
+// Label types
+export interface GitLabLabel {
+  id: number;
+  name: string;
+  color: string;
+  description?: string;
+}
+
+// Merge request approval types
+export interface GitLabMergeRequestApprovals {
+  approved?: boolean;
+  approvals_required: number;
+  approvals_left: number;
+  approved_by?: Array<{ user: GitLabUser }>;
+}
+
+// Pipeline types
+export interface GitLabPipeline {
+  id: number;
+  iid?: number;
+  sha: string;
+  ref: string;
+  status: string;
+  source?: string;
+  web_url: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GitLabJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: string;
+  allow_failure: boolean;
+  failure_reason?: string;
+  web_url: string;
+  duration?: number | null;
+  started_at?: string | null;
+  finished_at?: string | null;
+}
+
+export interface GitLabTestCase {
+  status: string;
+  name: string;
+  classname: string;
+  file?: string | null;
+  execution_time: number;
+  system_output?: string | null;
+  stack_trace?: string | null;
+}
+
+export interface GitLabTestSuite {
+  name: string;
+  total_count: number;
+  success_count: number;
+  failed_count: number;
+  skipped_count: number;
+  error_count: number;
+  test_cases: GitLabTestCase[];
+}
+
+export interface GitLabTestReport {
+  total_count: number;
+  success_count: number;
+  failed_count: number;
+  skipped_count: number;
+  error_count: number;
+  test_suites: GitLabTestSuite[];
+}
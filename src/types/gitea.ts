@@ -0,0 +1,74 @@
+/**
+ * Type definitions for Gitea REST API (v1) responses
+ * Forgejo serves the same API, so these cover both
+ */
+
+export interface GiteaUser {
+  id: number;
+  login: string;
+  full_name?: string;
+  email?: string;
+}
+
+export interface GiteaRepository {
+  full_name: string;
+  default_branch: string;
+  html_url: string;
+}
+
+export interface GiteaPullRequest {
+  number: number;
+  title: string;
+  body: string;
+  state: "open" | "closed";
+  merged: boolean;
+  draft?: boolean; // Only reported by recent versions, older ones use a WIP: title prefix
+  html_url: string;
+  user: GiteaUser;
+  head: { ref: string; sha: string };
+  base: { ref: string; sha: string };
+}
+
+export interface GiteaIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: "open" | "closed";
+  html_url: string;
+  user: GiteaUser;
+  labels: Array<{ name: string }>;
+}
+
+export interface GiteaComment {
+  id: number;
+  body: string;
+  user: GiteaUser;
+  created_at: string;
+}
+
+export interface GiteaBranch {
+  name: string;
+  commit: { id: string };
+  protected: boolean;
+}
+
+export interface GiteaContentsResponse {
+  sha: string;
+  path: string;
+  type: "file" | "dir" | "symlink" | "submodule";
+}
+
+export interface GiteaFileOperation {
+  operation: "create" | "update" | "delete";
+  path: string;
+  content?: string; // Base64 encoded
+  sha?: string; // Required to update or delete an existing file
+}
+
+export interface GiteaFilesResponse {
+  commit: { sha: string };
+}
+
+export interface GiteaRepoPermission {
+  permission: "none" | "read" | "write" | "admin" | "owner";
+}
@@ -0,0 +1,219 @@
+/**
+ * Execute and update phases shared by the entrypoints that run the whole
+ * flow in a single CI job on platforms without a GitHub Action runner
+ * (Bitbucket Pipelines, Azure Pipelines)
+ */
+
+import { $ } from "bun";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  getClaudePromptsDirectory,
+  getClaudeExecutionOutputPath,
+} from "./temp-directory";
+import type { SCMProvider } from "../providers/scm-provider";
+import {
+  BUDGET_EXCEEDED_SUBTYPE,
+  updateCommentBody,
+} from "../github/operations/comment-logic";
+
+export interface PhaseResult {
+  success: boolean;
+  error?: string;
+  commentId?: number;
+  branch?: string;
+  mcpConfig?: string;
+}
+
+/**
+ * Checks out the pull request's branch, installs Claude Code and runs it
+ * through base-action with the prompt written by the prepare phase
+ * @param tools Tools added to the ALLOWED_TOOLS and DISALLOWED_TOOLS settings
+ */
+export async function runExecutePhase(
+  prepareResult: PhaseResult,
+  tools: { allowed: string[]; disallowed: string[] } = {
+    allowed: [],
+    disallowed: [],
+  },
+): Promise<PhaseResult> {
+  try {
+    console.log("=========================================");
+    console.log("Phase 2: Setting up working branch...");
+    console.log("=========================================");
+
+    // Pull request pipelines build a merge with the destination branch, so
+    // check out the source branch itself to push Claude's changes to it
+    if (prepareResult.branch) {
+      await $`git fetch origin ${prepareResult.branch}`.quiet();
+      await $`git checkout -B ${prepareResult.branch} origin/${prepareResult.branch}`.quiet();
+      console.log(`✅ Currently on branch: ${prepareResult.branch}`);
+    }
+
+    console.log("=========================================");
+    console.log("Phase 3: Installing Claude Code...");
+    console.log("=========================================");
+
+    await $`bun install -g @anthropic-ai/claude-code@2.1.15`;
+
+    const baseActionPath = path.join(
+      path.dirname(__dirname),
+      "..",
+      "base-action",
+    );
+    await $`cd ${baseActionPath} && bun install`;
+
+    console.log("=========================================");
+    console.log("Phase 4: Running Claude Code...");
+    console.log("=========================================");
+
+    const env = {
+      ...process.env,
+      CLAUDE_CODE_ACTION: "1",
+      INPUT_PROMPT_FILE: `${getClaudePromptsDirectory()}/claude-prompt.txt`,
+      INPUT_TIMEOUT_MINUTES: process.env.TIMEOUT_MINUTES || "30",
+      INPUT_MCP_CONFIG: prepareResult.mcpConfig || "",
+      INPUT_SETTINGS: "",
+      INPUT_SYSTEM_PROMPT: "",
+      INPUT_APPEND_SYSTEM_PROMPT: "",
+      INPUT_ALLOWED_TOOLS: [...tools.allowed, process.env.ALLOWED_TOOLS]
+        .filter(Boolean)
+        .join(","),
+      INPUT_DISALLOWED_TOOLS: [
+        ...tools.disallowed,
+        process.env.DISALLOWED_TOOLS,
+      ]
+        .filter(Boolean)
+        .join(","),
+      INPUT_MAX_TURNS: process.env.MAX_TURNS || "",
+      INPUT_CLAUDE_ENV: process.env.CLAUDE_ENV || "",
+      INPUT_FALLBACK_MODEL: process.env.FALLBACK_MODEL || "",
+      INPUT_SESSION_DIR: process.env.CLAUDE_SESSION_DIR || "",
+      INPUT_SESSION_KEY: process.env.CLAUDE_SESSION_KEY || "",
+      INPUT_MAX_SESSION_AGE_HOURS: process.env.MAX_SESSION_AGE_HOURS || "",
+      INPUT_MAX_COST_USD: process.env.MAX_COST_USD || "",
+      INPUT_MAX_TOKENS: process.env.MAX_TOKENS || "",
+      INPUT_PROGRESS_COMMAND:
+        prepareResult.commentId && process.env.SHOW_PROGRESS !== "false"
+          ? `bun run ${path.join(__dirname, "..", "entrypoints", "update-progress.ts")}`
+          : "",
+      CLAUDE_COMMENT_ID: prepareResult.commentId?.toString() || "",
+      ANTHROPIC_MODEL: process.env.CLAUDE_MODEL || "sonnet",
+    };
+
+    const baseActionScript = path.join(baseActionPath, "src", "index.ts");
+    const executeResult = await $`bun run ${baseActionScript}`
+      .env(env)
+      .nothrow();
+
+    return {
+      ...prepareResult,
+      success: executeResult.exitCode === 0,
+      error:
+        executeResult.exitCode !== 0 ? "Claude execution failed" : undefined,
+    };
+  } catch (error) {
+    console.error("Error in execute phase:", error);
+    return {
+      ...prepareResult,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// base-action leaves its raw output in the working directory
+const BASE_ACTION_OUTPUT = ":(exclude)output.txt";
+
+/**
+ * Commits whatever Claude changed and pushes it to the pull request's
+ * source branch
+ * @returns Whether anything was pushed
+ */
+async function pushChanges(branch: string): Promise<boolean> {
+  const status = (
+    await $`git status --porcelain -- . ${BASE_ACTION_OUTPUT}`.quiet()
+  ).stdout
+    .toString()
+    .trim();
+  if (!status) {
+    console.log("No changes to commit");
+    return false;
+  }
+
+  console.log("Files changed:");
+  console.log(status);
+
+  await $`git add -A -- . ${BASE_ACTION_OUTPUT}`.quiet();
+  await $`git commit -m ${"Apply Claude's changes"}`.quiet();
+  await $`git push origin ${branch}`.quiet();
+  console.log(`✅ Pushed changes to ${branch}`);
+  return true;
+}
+
+/**
+ * Reads the result message from the execution file written by base-action
+ */
+function readExecutionResult(): Record<string, any> | undefined {
+  const outputFile = getClaudeExecutionOutputPath();
+  if (!fs.existsSync(outputFile)) {
+    console.warn(`Execution output not found at ${outputFile}`);
+    return undefined;
+  }
+  try {
+    const messages = JSON.parse(fs.readFileSync(outputFile, "utf-8"));
+    return Array.isArray(messages)
+      ? messages.findLast((message) => message.type === "result")
+      : undefined;
+  } catch (error) {
+    console.error("Error reading execution output:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Pushes Claude's changes when the run has a branch to push to, and writes
+ * the result to the tracking comment, or to the log without one
+ */
+export async function runUpdatePhase(
+  provider: SCMProvider,
+  executeResult: PhaseResult,
+): Promise<void> {
+  console.log("=========================================");
+  console.log("Phase 5: Updating pull request...");
+  console.log("=========================================");
+
+  let pushed = false;
+  if (executeResult.branch) {
+    try {
+      pushed = await pushChanges(executeResult.branch);
+    } catch (error) {
+      console.error("Error pushing changes:", error);
+    }
+  }
+
+  const result = readExecutionResult();
+  const resultText = typeof result?.result === "string" ? result.result : "";
+
+  if (!executeResult.commentId) {
+    console.log(resultText || "No result found in Claude's output");
+    return;
+  }
+
+  const body = updateCommentBody({
+    currentBody: resultText,
+    actionFailed: !executeResult.success,
+    executionDetails: result
+      ? { cost_usd: result.cost_usd, duration_ms: result.duration_ms }
+      : null,
+    jobUrl: provider.getJobUrl(),
+    branchName: pushed ? executeResult.branch : undefined,
+    triggerUsername: provider.getContext().actor,
+    errorDetails: executeResult.error,
+    budgetExceeded:
+      result?.subtype === BUDGET_EXCEEDED_SUBTYPE ? resultText : undefined,
+  });
+
+  await provider.updateComment(executeResult.commentId, body);
+  console.log("✅ Updated tracking comment");
+}
@@ -0,0 +1,99 @@
+/**
+ * Base for the minimal fetch-based REST clients of the platforms without an
+ * official JS SDK we can use (Bitbucket, Gitea, Azure DevOps)
+ */
+
+export class RestApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "RestApiError";
+  }
+}
+
+export abstract class RestClient {
+  constructor(readonly apiUrl: string) {}
+
+  /**
+   * Platform name used in error messages, e.g. "Gitea"
+   */
+  protected abstract readonly apiName: string;
+
+  /**
+   * Value of the Authorization header sent with every request
+   */
+  protected abstract get authorization(): string;
+
+  /**
+   * Creates the error thrown for a failed request, so that callers can check
+   * the platform's error class
+   */
+  protected abstract createError(message: string, status: number): RestApiError;
+
+  /**
+   * Resolves a path relative to the API root. Absolute URLs, e.g. pagination
+   * links, are used as they are.
+   */
+  protected resolveUrl(path: string): string {
+    return /^https?:\/\//.test(path) ? path : `${this.apiUrl}${path}`;
+  }
+
+  async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(this.resolveUrl(path), {
+      ...init,
+      headers: {
+        Authorization: this.authorization,
+        Accept: "application/json",
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw this.createError(
+        `${this.apiName} API error: ${response.status} ${response.statusText} - ${errorText}`,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  async get<T>(path: string): Promise<T> {
+    return (await this.request(path)).json() as Promise<T>;
+  }
+
+  async getText(path: string): Promise<string> {
+    return (
+      await this.request(path, { headers: { Accept: "text/plain" } })
+    ).text();
+  }
+
+  async post<T>(path: string, body?: unknown): Promise<T> {
+    return this.send<T>("POST", path, body);
+  }
+
+  async put<T>(path: string, body: unknown): Promise<T> {
+    return this.send<T>("PUT", path, body);
+  }
+
+  async patch<T>(path: string, body: unknown): Promise<T> {
+    return this.send<T>("PATCH", path, body);
+  }
+
+  private async send<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const response = await this.request(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    // Some endpoints answer with an empty body or 204 No Content
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+}
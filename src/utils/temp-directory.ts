@@ -86,6 +86,14 @@ export function getGitHubCILogsDirectory(): string {
   return getTempSubdirectory("github-ci-logs");
 }
 
+/**
+ * Get the path for GitLab CI job logs directory (used in MCP server)
+ * @returns The path to the logs directory
+ */
+export function getGitLabCILogsDirectory(): string {
+  return getTempSubdirectory("gitlab-ci-logs");
+}
+
 /**
  * Detect the current CI platform
  * @returns 'github' | 'gitlab' | 'unknown'
@@ -0,0 +1,260 @@
+/**
+ * Test report parsing
+ *
+ * Turns JUnit XML and TAP output into failing-test records so CI tools can
+ * point at the failing test instead of returning whole logs
+ */
+
+export interface FailedTest {
+  name: string;
+  suite?: string;
+  file?: string;
+  line?: number;
+  message?: string;
+  stack?: string;
+  source: "junit" | "tap" | "annotation";
+}
+
+// Longer stack traces are cut; the job log still has the full output
+const MAX_STACK_LINES = 30;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith("#x") || code.startsWith("#X")) {
+        return String.fromCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith("#")) {
+        return String.fromCodePoint(parseInt(code.slice(1), 10));
+      }
+      return XML_ENTITIES[code] ?? entity;
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(
+    /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g,
+  )) {
+    attributes[match[1]!] = decodeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+function truncateStack(stack: string): string {
+  const lines = stack.trim().split("\n");
+  if (lines.length <= MAX_STACK_LINES) {
+    return lines.join("\n");
+  }
+  return [
+    ...lines.slice(0, MAX_STACK_LINES),
+    `... (${lines.length - MAX_STACK_LINES} more lines)`,
+  ].join("\n");
+}
+
+/**
+ * Finds the `file:line` a failure points at in a stack trace or location
+ * string, preferring frames in the given file and skipping dependencies
+ */
+export function findLocation(
+  text: string,
+  file?: string,
+): { file: string; line: number } | undefined {
+  const frames = [
+    ...text.matchAll(/((?:[A-Za-z]:)?[\w@./\\-]*\.[A-Za-z]\w*):(\d+)/g),
+  ]
+    .map((match) => ({ file: match[1]!, line: parseInt(match[2]!, 10) }))
+    .filter((frame) => !/node_modules|site-packages/.test(frame.file));
+
+  if (file) {
+    return frames.find(
+      (frame) => frame.file.endsWith(file) || file.endsWith(frame.file),
+    );
+  }
+  return frames[0];
+}
+
+/**
+ * Parses a JUnit XML report, returning the failed and errored test cases
+ */
+export function parseJUnitXml(xml: string): FailedTest[] {
+  const suites = [...xml.matchAll(/<testsuite\b([^>]*)>/g)].map((match) => ({
+    index: match.index!,
+    attributes: parseAttributes(match[1]!),
+  }));
+
+  const failures: FailedTest[] = [];
+  for (const testCase of xml.matchAll(
+    /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g,
+  )) {
+    const body = testCase[2];
+    const failure = body?.match(
+      /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/,
+    );
+    if (!failure) {
+      continue;
+    }
+
+    const attributes = parseAttributes(testCase[1]!);
+    const failureAttributes = parseAttributes(failure[2]!);
+    const stack = decodeXml(failure[3] ?? "").trim();
+    const suite = suites
+      .filter((s) => s.index < testCase.index!)
+      .pop()?.attributes;
+
+    const file = attributes.file || suite?.file;
+    const location =
+      file && attributes.line
+        ? { file, line: parseInt(attributes.line, 10) }
+        : findLocation(stack, file);
+
+    failures.push({
+      name: attributes.classname
+        ? `${attributes.classname} ${attributes.name}`
+        : attributes.name || "(unnamed test)",
+      ...(suite?.name && { suite: suite.name }),
+      ...(location
+        ? { file: location.file, line: location.line }
+        : file && { file }),
+      message:
+        failureAttributes.message ||
+        stack.split("\n")[0] ||
+        failureAttributes.type ||
+        failure[1]!,
+      ...(stack && { stack: truncateStack(stack) }),
+      source: "junit",
+    });
+  }
+
+  return failures;
+}
+
+function unquoteYaml(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  return trimmed;
+}
+
+// Reads the top-level keys of a TAP YAML diagnostic block, including block
+// scalars (`stack: |-`); nested mappings are kept as raw text
+function parseTapDiagnostics(lines: string[]): Record<string, string> {
+  const indent = Math.min(
+    ...lines
+      .filter((line) => line.trim())
+      .map((line) => line.length - line.trimStart().length),
+  );
+  const diagnostics: Record<string, string> = {};
+  let key: string | undefined;
+  let block: string[] = [];
+
+  const flush = () => {
+    if (key && block.length > 0) {
+      diagnostics[key] = block.join("\n").trim();
+    }
+    block = [];
+  };
+
+  for (const line of lines) {
+    const match = line.match(/^(\s*)([\w-]+):\s*(.*)$/);
+    if (match && match[1]!.length === indent) {
+      flush();
+      key = match[2]!;
+      const value = match[3]!;
+      if (value && !/^[|>][-+]?$/.test(value)) {
+        diagnostics[key] = unquoteYaml(value);
+        key = undefined;
+      }
+    } else if (key) {
+      block.push(line.slice(indent + 2));
+    }
+  }
+  flush();
+
+  return diagnostics;
+}
+
+/**
+ * Parses TAP output, returning the `not ok` tests that aren't marked TODO
+ * or SKIP. YAML diagnostics supply the message, location and stack.
+ */
+export function parseTap(text: string): FailedTest[] {
+  const lines = text.split(/\r?\n/);
+  const failures: FailedTest[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i]!.match(/^\s*not ok\b\s*\d*\s*(?:-\s*)?(.*)$/);
+    if (!match || /#\s*(?:TODO|SKIP)\b/i.test(match[1]!)) {
+      continue;
+    }
+
+    let diagnostics: Record<string, string> = {};
+    if (lines[i + 1]?.trim() === "---") {
+      const end = lines.findIndex(
+        (line, index) => index > i + 1 && line.trim() === "...",
+      );
+      if (end !== -1) {
+        diagnostics = parseTapDiagnostics(lines.slice(i + 2, end));
+        i = end;
+      }
+    }
+
+    const stack = diagnostics.stack || "";
+    const location =
+      diagnostics.file && diagnostics.line
+        ? { file: diagnostics.file, line: parseInt(diagnostics.line, 10) }
+        : findLocation(
+            diagnostics.location || diagnostics.at || stack,
+            diagnostics.file,
+          );
+
+    failures.push({
+      name: match[1]!.replace(/\s+#.*$/, "").trim() || "(unnamed test)",
+      ...(location && { file: location.file, line: location.line }),
+      ...((diagnostics.message || diagnostics.error) && {
+        message: diagnostics.message || diagnostics.error,
+      }),
+      ...(stack && { stack: truncateStack(stack) }),
+      source: "tap",
+    });
+  }
+
+  return failures;
+}
+
+/**
+ * Parses a test report file by its name and content. Returns null for files
+ * that are neither JUnit XML nor TAP.
+ */
+export function parseTestReport(
+  fileName: string,
+  content: string,
+): FailedTest[] | null {
+  if (fileName.endsWith(".xml") && /<testsuites?\b|<testcase\b/.test(content)) {
+    return parseJUnitXml(content);
+  }
+  if (
+    fileName.endsWith(".tap") ||
+    /^TAP version \d+/m.test(content.slice(0, 200))
+  ) {
+    return parseTap(content);
+  }
+  return null;
+}
@@ -0,0 +1,131 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import {
+  collectAgentOutputs,
+  getResultText,
+} from "../src/github/operations/agent-outputs";
+import type { Octokits } from "../src/github/api/client";
+
+describe("getResultText", () => {
+  test("returns the result of the final result message", () => {
+    const log = [
+      { type: "system", subtype: "init" },
+      { type: "result", result: "Updated 3 dependencies", cost_usd: 0.1 },
+    ];
+    expect(getResultText(log)).toBe("Updated 3 dependencies");
+  });
+
+  test("returns an empty string for missing or malformed logs", () => {
+    expect(getResultText(null)).toBe("");
+    expect(getResultText([])).toBe("");
+    expect(getResultText([{ type: "assistant" }])).toBe("");
+  });
+});
+
+describe("collectAgentOutputs", () => {
+  let consoleLogSpy: any;
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  const createMockOctokit = (options: {
+    totalCommits: number;
+    files?: string[];
+    pulls?: { number: number; html_url: string }[];
+  }): Octokits => {
+    return {
+      rest: {
+        repos: {
+          getBranch: async () => ({ data: {} }),
+          compareCommitsWithBasehead: async () => ({
+            data: {
+              total_commits: options.totalCommits,
+              files: (options.files ?? []).map((filename) => ({ filename })),
+            },
+          }),
+        },
+        git: {
+          deleteRef: async () => ({ data: {} }),
+        },
+        pulls: {
+          list: async () => ({ data: options.pulls ?? [] }),
+        },
+      },
+    } as any as Octokits;
+  };
+
+  test("reports the created branch, changed files and pull request", async () => {
+    const octokit = createMockOctokit({
+      totalCommits: 1,
+      files: ["package.json", "bun.lock"],
+      pulls: [{ number: 7, html_url: "https://github.com/owner/repo/pull/7" }],
+    });
+
+    const outputs = await collectAgentOutputs(octokit, {
+      owner: "owner",
+      repo: "repo",
+      executionLog: [{ type: "result", result: "Done" }],
+      startSha: "abc123",
+      claudeBranch: "claude/agent-20240101-1200",
+      currentBranch: "claude/agent-20240101-1200",
+      baseBranch: "main",
+      useCommitSigning: true,
+    });
+
+    expect(outputs).toEqual({
+      result: "Done",
+      changedFiles: ["package.json", "bun.lock"],
+      branch: "claude/agent-20240101-1200",
+      prNumber: 7,
+      prUrl: "https://github.com/owner/repo/pull/7",
+    });
+  });
+
+  test("reports no branch when Claude made no commits", async () => {
+    const octokit = createMockOctokit({ totalCommits: 0 });
+
+    const outputs = await collectAgentOutputs(octokit, {
+      owner: "owner",
+      repo: "repo",
+      executionLog: [{ type: "result", result: "Nothing to do" }],
+      startSha: "abc123",
+      claudeBranch: "claude/agent-20240101-1200",
+      baseBranch: "main",
+      useCommitSigning: true,
+    });
+
+    expect(outputs).toEqual({
+      result: "Nothing to do",
+      changedFiles: [],
+      branch: "",
+    });
+  });
+
+  test("reports changed files on an existing branch", async () => {
+    const octokit = createMockOctokit({
+      totalCommits: 1,
+      files: ["src/index.ts"],
+    });
+
+    const outputs = await collectAgentOutputs(octokit, {
+      owner: "owner",
+      repo: "repo",
+      executionLog: [],
+      startSha: "abc123",
+      currentBranch: "feature",
+      baseBranch: "main",
+      useCommitSigning: false,
+    });
+
+    expect(outputs.changedFiles).toEqual(["src/index.ts"]);
+    expect(outputs.branch).toBe("");
+    expect(outputs.prNumber).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  getWebhookActor,
+  getWebhookCommentText,
+  getWebhookPullRequest,
+  parseAzureDevOpsContext,
+  parseAzureDevOpsWebhookPayload,
+} from "../../src/azure-devops/context";
+
+describe("parseAzureDevOpsContext", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("SYSTEM_") || key.startsWith("BUILD_")) {
+        delete process.env[key];
+      }
+    }
+    delete process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("parses context from pipeline variables", () => {
+    process.env.SYSTEM_COLLECTIONURI = "https://dev.azure.com/acme/";
+    process.env.SYSTEM_TEAMPROJECT = "Platform Team";
+    process.env.BUILD_REPOSITORY_NAME = "widgets";
+    process.env.SYSTEM_PULLREQUEST_PULLREQUESTID = "17";
+    process.env.BUILD_BUILDID = "345";
+    process.env.BUILD_REQUESTEDFOREMAIL = "jdoe@example.com";
+
+    expect(parseAzureDevOpsContext()).toEqual({
+      collectionUri: "https://dev.azure.com/acme",
+      project: "Platform Team",
+      repository: "widgets",
+      prId: "17",
+      buildId: "345",
+      buildUrl:
+        "https://dev.azure.com/acme/Platform%20Team/_build/results?buildId=345",
+      requestedFor: "jdoe@example.com",
+    });
+  });
+
+  test("falls back to the legacy collection URI and repository ID", () => {
+    process.env.SYSTEM_TEAMFOUNDATIONCOLLECTIONURI =
+      "https://tfs.example.com/DefaultCollection/";
+    process.env.SYSTEM_TEAMPROJECT = "platform";
+    process.env.BUILD_REPOSITORY_ID = "3b1c6f0e-0000-4000-8000-000000000000";
+
+    const context = parseAzureDevOpsContext();
+
+    expect(context.collectionUri).toBe(
+      "https://tfs.example.com/DefaultCollection",
+    );
+    expect(context.repository).toBe("3b1c6f0e-0000-4000-8000-000000000000");
+    expect(context.prId).toBeUndefined();
+    expect(context.buildUrl).toBeUndefined();
+  });
+
+  test("prefers explicit options over pipeline variables", () => {
+    process.env.SYSTEM_COLLECTIONURI = "https://dev.azure.com/other";
+    process.env.SYSTEM_TEAMPROJECT = "other";
+    process.env.BUILD_REPOSITORY_NAME = "other";
+
+    const context = parseAzureDevOpsContext({
+      collectionUri: "https://dev.azure.com/acme",
+      project: "platform",
+      repository: "widgets",
+      prId: "5",
+    });
+
+    expect(context).toMatchObject({
+      collectionUri: "https://dev.azure.com/acme",
+      project: "platform",
+      repository: "widgets",
+      prId: "5",
+    });
+  });
+
+  test("throws without an organization URL", () => {
+    process.env.SYSTEM_TEAMPROJECT = "platform";
+    process.env.BUILD_REPOSITORY_NAME = "widgets";
+
+    expect(() => parseAzureDevOpsContext()).toThrow(
+      "Azure DevOps organization URL is required (SYSTEM_COLLECTIONURI)",
+    );
+  });
+
+  test("throws without a project", () => {
+    process.env.SYSTEM_COLLECTIONURI = "https://dev.azure.com/acme";
+    process.env.BUILD_REPOSITORY_NAME = "widgets";
+
+    expect(() => parseAzureDevOpsContext()).toThrow(
+      "Azure DevOps project is required (SYSTEM_TEAMPROJECT)",
+    );
+  });
+
+  test("throws without a repository", () => {
+    process.env.SYSTEM_COLLECTIONURI = "https://dev.azure.com/acme";
+    process.env.SYSTEM_TEAMPROJECT = "platform";
+
+    expect(() => parseAzureDevOpsContext()).toThrow(
+      "Azure DevOps repository is required (BUILD_REPOSITORY_NAME or BUILD_REPOSITORY_ID)",
+    );
+  });
+});
+
+describe("Azure DevOps webhook payload", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("returns null without a payload", () => {
+    delete process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD;
+    expect(parseAzureDevOpsWebhookPayload()).toBeNull();
+  });
+
+  test("returns null for invalid JSON", () => {
+    process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD = "{not json";
+    const originalError = console.error;
+    console.error = () => {};
+
+    expect(parseAzureDevOpsWebhookPayload()).toBeNull();
+
+    console.error = originalError;
+  });
+
+  test("reads the comment, actor and pull request of comment events", () => {
+    process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD = JSON.stringify({
+      eventType: "ms.vss-code.git-pullrequest-comment-event",
+      resource: {
+        comment: {
+          id: 1,
+          content: "@claude fix the tests",
+          author: { uniqueName: "jdoe@example.com" },
+        },
+        pullRequest: { pullRequestId: 17, title: "Add widgets" },
+      },
+    });
+    const payload = parseAzureDevOpsWebhookPayload();
+
+    expect(getWebhookCommentText(payload)).toBe("@claude fix the tests");
+    expect(getWebhookActor(payload)).toBe("jdoe@example.com");
+    expect(getWebhookPullRequest(payload)).toEqual({
+      pullRequestId: 17,
+      title: "Add widgets",
+    });
+  });
+
+  test("reads the pull request and creator of pull request events", () => {
+    const payload = {
+      eventType: "git.pullrequest.created",
+      resource: {
+        pullRequestId: 18,
+        title: "Fix login",
+        description: "@claude review this",
+        createdBy: { uniqueName: "jdoe@example.com" },
+      },
+    };
+
+    expect(getWebhookCommentText(payload)).toBeUndefined();
+    expect(getWebhookActor(payload)).toBe("jdoe@example.com");
+    expect(getWebhookPullRequest(payload)).toEqual({
+      pullRequestId: 18,
+      title: "Fix login",
+      description: "@claude review this",
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect } from "bun:test";
+import {
+  checkAzureDevOpsTriggerAction,
+  parseTriggerCommand,
+} from "../../src/azure-devops/validation/trigger";
+
+describe("checkAzureDevOpsTriggerAction", () => {
+  test("returns true when directPrompt is provided", async () => {
+    const result = await checkAzureDevOpsTriggerAction({
+      payload: null,
+      triggerPhrase: "@claude",
+      directPrompt: "Fix the bug in auth module",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("returns false without a payload", async () => {
+    const result = await checkAzureDevOpsTriggerAction({
+      payload: null,
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+
+  test("triggers on comment containing trigger phrase", async () => {
+    const result = await checkAzureDevOpsTriggerAction({
+      payload: {
+        eventType: "ms.vss-code.git-pullrequest-comment-event",
+        resource: {
+          comment: { id: 1, content: "Can you take a look, @claude?" },
+          pullRequest: { pullRequestId: 17, title: "Add widgets" },
+        },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("only checks the comment for comment events", async () => {
+    const result = await checkAzureDevOpsTriggerAction({
+      payload: {
+        resource: {
+          comment: { id: 1, content: "Thanks!" },
+          pullRequest: { pullRequestId: 17, title: "@claude fix this" },
+        },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+
+  test("triggers on pull request description or title containing trigger phrase", async () => {
+    const fromDescription = await checkAzureDevOpsTriggerAction({
+      payload: {
+        eventType: "git.pullrequest.created",
+        resource: {
+          pullRequestId: 18,
+          title: "Fix login",
+          description: "@claude add tests",
+        },
+      },
+      triggerPhrase: "@claude",
+    });
+    const fromTitle = await checkAzureDevOpsTriggerAction({
+      payload: {
+        eventType: "git.pullrequest.updated",
+        resource: { pullRequestId: 18, title: "@claude: fix login" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(fromDescription).toBe(true);
+    expect(fromTitle).toBe(true);
+  });
+
+  test("does not match the trigger phrase inside other words", async () => {
+    const result = await checkAzureDevOpsTriggerAction({
+      payload: {
+        resource: {
+          comment: { id: 1, content: "email me at dev@claude.example" },
+          pullRequest: { pullRequestId: 17 },
+        },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+});
+
+describe("parseTriggerCommand", () => {
+  test("parses a slash command from the comment", () => {
+    const command = parseTriggerCommand(
+      {
+        resource: {
+          comment: { id: 1, content: "@claude /review focus on security" },
+          pullRequest: { pullRequestId: 17 },
+        },
+      },
+      "@claude",
+    );
+
+    expect(command).toMatchObject({ name: "review" });
+  });
+
+  test("returns null without a slash command", () => {
+    expect(
+      parseTriggerCommand(
+        { resource: { comment: { id: 1, content: "@claude hi" } } },
+        "@claude",
+      ),
+    ).toBeNull();
+  });
+});
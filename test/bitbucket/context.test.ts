@@ -0,0 +1,171 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  getWebhookActor,
+  getWebhookCommentText,
+  getWebhookPullRequest,
+  isBitbucketCloud,
+  parseBitbucketContext,
+  parseBitbucketWebhookPayload,
+} from "../../src/bitbucket/context";
+
+describe("parseBitbucketContext", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("BITBUCKET_")) {
+        delete process.env[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("parses context from Bitbucket Pipelines variables", () => {
+    process.env.BITBUCKET_WORKSPACE = "acme";
+    process.env.BITBUCKET_REPO_SLUG = "widgets";
+    process.env.BITBUCKET_PR_ID = "12";
+    process.env.BITBUCKET_BUILD_NUMBER = "345";
+    process.env.BITBUCKET_COMMIT = "abc123";
+    process.env.BITBUCKET_BRANCH = "feature";
+    process.env.BITBUCKET_PR_DESTINATION_BRANCH = "main";
+    process.env.BITBUCKET_STEP_TRIGGERER_UUID = "{user-uuid}";
+
+    expect(parseBitbucketContext()).toEqual({
+      workspace: "acme",
+      repoSlug: "widgets",
+      prId: "12",
+      host: "https://bitbucket.org",
+      isCloud: true,
+      buildUrl: "https://bitbucket.org/acme/widgets/pipelines/results/345",
+      buildNumber: "345",
+      commitSha: "abc123",
+      branch: "feature",
+      destinationBranch: "main",
+      triggererUuid: "{user-uuid}",
+    });
+  });
+
+  test("parses Data Center context with a project key", () => {
+    process.env.BITBUCKET_PROJECT_KEY = "ACME";
+    process.env.BITBUCKET_REPO_SLUG = "widgets";
+    process.env.BITBUCKET_HOST = "https://bitbucket.example.com/";
+    process.env.BITBUCKET_BUILD_NUMBER = "345";
+
+    const context = parseBitbucketContext();
+
+    expect(context.workspace).toBe("ACME");
+    expect(context.host).toBe("https://bitbucket.example.com");
+    expect(context.isCloud).toBe(false);
+    // Data Center has no Pipelines results page to link to
+    expect(context.buildUrl).toBeUndefined();
+  });
+
+  test("explicit parameters override environment variables", () => {
+    process.env.BITBUCKET_WORKSPACE = "acme";
+    process.env.BITBUCKET_REPO_SLUG = "widgets";
+    process.env.BITBUCKET_BUILD_URL = "https://ci.example.com/job/1";
+
+    const context = parseBitbucketContext({
+      workspace: "other",
+      repoSlug: "repo",
+      prId: "7",
+      buildUrl: "https://ci.example.com/job/2",
+    });
+
+    expect(context).toMatchObject({
+      workspace: "other",
+      repoSlug: "repo",
+      prId: "7",
+      buildUrl: "https://ci.example.com/job/2",
+    });
+  });
+
+  test("throws when the workspace is missing", () => {
+    process.env.BITBUCKET_REPO_SLUG = "widgets";
+
+    expect(() => parseBitbucketContext()).toThrow(
+      "Bitbucket workspace is required (BITBUCKET_WORKSPACE or BITBUCKET_PROJECT_KEY)",
+    );
+  });
+
+  test("throws when the repository slug is missing", () => {
+    process.env.BITBUCKET_WORKSPACE = "acme";
+
+    expect(() => parseBitbucketContext()).toThrow(
+      "Bitbucket repository slug is required (BITBUCKET_REPO_SLUG)",
+    );
+  });
+});
+
+describe("isBitbucketCloud", () => {
+  test("recognizes Bitbucket Cloud hosts", () => {
+    expect(isBitbucketCloud("https://bitbucket.org")).toBe(true);
+    expect(isBitbucketCloud("https://api.bitbucket.org/2.0")).toBe(true);
+  });
+
+  test("treats other hosts as Data Center", () => {
+    expect(isBitbucketCloud("https://bitbucket.example.com")).toBe(false);
+    expect(isBitbucketCloud("https://notbitbucket.org")).toBe(false);
+    expect(isBitbucketCloud("not a url")).toBe(false);
+  });
+});
+
+describe("parseBitbucketWebhookPayload", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("returns null when no payload is set", () => {
+    delete process.env.BITBUCKET_WEBHOOK_PAYLOAD;
+    expect(parseBitbucketWebhookPayload()).toBeNull();
+  });
+
+  test("returns null for invalid JSON", () => {
+    process.env.BITBUCKET_WEBHOOK_PAYLOAD = "{invalid";
+    const originalError = console.error;
+    console.error = () => {};
+
+    expect(parseBitbucketWebhookPayload()).toBeNull();
+
+    console.error = originalError;
+  });
+
+  test("reads Cloud comment events", () => {
+    process.env.BITBUCKET_WEBHOOK_PAYLOAD = JSON.stringify({
+      actor: { nickname: "jdoe", uuid: "{1}" },
+      pullrequest: { id: 3, title: "Add widgets" },
+      comment: { id: 9, content: { raw: "@claude fix this" } },
+    });
+
+    const payload = parseBitbucketWebhookPayload();
+
+    expect(getWebhookActor(payload)).toBe("jdoe");
+    expect(getWebhookPullRequest(payload)?.id).toBe(3);
+    expect(getWebhookCommentText(payload)).toBe("@claude fix this");
+  });
+
+  test("reads Data Center comment events", () => {
+    process.env.BITBUCKET_WEBHOOK_PAYLOAD = JSON.stringify({
+      eventKey: "pr:comment:added",
+      actor: { name: "jdoe", slug: "jdoe" },
+      pullRequest: { id: 4, title: "Add widgets" },
+      comment: { id: 10, text: "@claude fix this" },
+    });
+
+    const payload = parseBitbucketWebhookPayload();
+
+    expect(getWebhookActor(payload)).toBe("jdoe");
+    expect(getWebhookPullRequest(payload)?.id).toBe(4);
+    expect(getWebhookCommentText(payload)).toBe("@claude fix this");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from "bun:test";
+import {
+  checkBitbucketTriggerAction,
+  parseTriggerCommand,
+} from "../../src/bitbucket/validation/trigger";
+
+describe("checkBitbucketTriggerAction", () => {
+  test("returns true when directPrompt is provided", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: null,
+      triggerPhrase: "@claude",
+      directPrompt: "Fix the bug in auth module",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("returns false without a payload", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: null,
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+
+  test("triggers on Cloud comment containing trigger phrase", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: {
+        pullrequest: { id: 1, title: "Update" },
+        comment: { content: { raw: "@claude please review this" } },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("triggers on Data Center comment containing trigger phrase", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: {
+        eventKey: "pr:comment:added",
+        pullRequest: { id: 1, title: "Update" },
+        comment: { text: "Can you help, @claude?" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("only checks the comment for comment events", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: {
+        pullrequest: { id: 1, title: "@claude update", description: "" },
+        comment: { content: { raw: "Looks good" } },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+
+  test("triggers on pull request description", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: {
+        pullrequest: {
+          id: 1,
+          title: "Add feature",
+          description: "@claude implement the tests",
+        },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("triggers on pull request title", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: { pullRequest: { id: 1, title: "@claude add docs" } },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("does not trigger on partial matches", async () => {
+    const result = await checkBitbucketTriggerAction({
+      payload: { comment: { content: { raw: "email@claude.com" } } },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+});
+
+describe("parseTriggerCommand", () => {
+  test("parses a slash command from a comment", () => {
+    const command = parseTriggerCommand(
+      { comment: { content: { raw: "@claude /review focus on security" } } },
+      "@claude",
+    );
+
+    expect(command?.name).toBe("review");
+  });
+
+  test("parses a slash command from the pull request description", () => {
+    const command = parseTriggerCommand(
+      { pullRequest: { id: 1, description: "@claude /help" } },
+      "@claude",
+    );
+
+    expect(command?.name).toBe("help");
+  });
+
+  test("returns null without a slash command", () => {
+    expect(
+      parseTriggerCommand(
+        { comment: { text: "@claude fix the build" } },
+        "@claude",
+      ),
+    ).toBeNull();
+  });
+});
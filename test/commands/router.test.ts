@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { parseSlashCommand, routeCommand } from "../../src/commands/router";
+import {
+  clearCustomCommands,
+  formatHelp,
+  getCommand,
+  registerCommand,
+} from "../../src/commands/registry";
+
+describe("parseSlashCommand", () => {
+  it("parses a command directly after the trigger phrase", () => {
+    expect(parseSlashCommand("@claude /review", "@claude")).toEqual({
+      name: "review",
+      args: [],
+      rawArgs: "",
+    });
+  });
+
+  it("parses arguments until the end of the line", () => {
+    expect(
+      parseSlashCommand(
+        "Hey @claude /explain src/index.ts please\nthanks!",
+        "@claude",
+      ),
+    ).toEqual({
+      name: "explain",
+      args: ["src/index.ts", "please"],
+      rawArgs: "src/index.ts please",
+    });
+  });
+
+  it("ignores the trigger phrase case and lowercases the command", () => {
+    expect(parseSlashCommand("@Claude /Fix-CI", "@claude")?.name).toBe(
+      "fix-ci",
+    );
+  });
+
+  it("returns null for a mention without a command", () => {
+    expect(parseSlashCommand("@claude please fix /this", "@claude")).toBeNull();
+    expect(parseSlashCommand("@claude /src/index.ts", "@claude")).toBeNull();
+    expect(parseSlashCommand("/review", "@claude")).toBeNull();
+  });
+});
+
+describe("routeCommand", () => {
+  afterEach(() => {
+    clearCustomCommands();
+  });
+
+  const options = { triggerPhrase: "@claude", isPR: true };
+
+  it("routes /review to review mode with the arguments as focus", () => {
+    const route = routeCommand(
+      parseSlashCommand("@claude /review focus on security", "@claude")!,
+      options,
+    );
+    expect(route).toMatchObject({
+      type: "run",
+      mode: "review",
+      prompt: "focus on security",
+    });
+  });
+
+  it("leaves the prompt unset when a command renders to nothing", () => {
+    const route = routeCommand(
+      parseSlashCommand("@claude /review", "@claude")!,
+      options,
+    );
+    expect(route?.type === "run" && route.prompt).toBeUndefined();
+  });
+
+  it("substitutes $ARGS and applies the command's tools", () => {
+    const route = routeCommand(
+      parseSlashCommand("@claude /explain src/app.ts", "@claude")!,
+      options,
+    );
+    expect(route?.type).toBe("run");
+    if (route?.type === "run") {
+      expect(route.mode).toBe("tag");
+      expect(route.prompt).toContain(
+        "Explain the following to the user: src/app.ts",
+      );
+      expect(route.disallowedTools).toContain("Edit");
+      expect(route.allowedTools).toEqual([]);
+    }
+  });
+
+  it("replies with the command list for /help", () => {
+    const route = routeCommand(
+      parseSlashCommand("@claude /help", "@claude")!,
+      options,
+    );
+    expect(route).toEqual({
+      type: "reply",
+      command: getCommand("help")!,
+      body: formatHelp("@claude"),
+    });
+    if (route?.type === "reply") {
+      expect(route.body).toContain("`@claude /review [focus]`");
+      expect(route.body).toContain("`@claude /rebase`");
+    }
+  });
+
+  it("replies with an error for pull request commands on issues", () => {
+    const route = routeCommand(
+      parseSlashCommand("@claude /rebase", "@claude")!,
+      { triggerPhrase: "@claude", isPR: false },
+    );
+    expect(route).toMatchObject({
+      type: "reply",
+      body: "`/rebase` can only be used on pull requests and merge requests.",
+    });
+  });
+
+  it("replies when the platform does not support the command's mode", () => {
+    const supportedModes = ["tag"];
+    expect(
+      routeCommand(parseSlashCommand("@claude /review", "@claude")!, {
+        ...options,
+        supportedModes,
+      }),
+    ).toMatchObject({
+      type: "reply",
+      body: "`/review` is not supported on this platform.",
+    });
+    expect(
+      routeCommand(parseSlashCommand("@claude /explain", "@claude")!, {
+        ...options,
+        supportedModes,
+      }),
+    ).toMatchObject({ type: "run", mode: "tag" });
+  });
+
+  it("returns null for unknown commands", () => {
+    expect(
+      routeCommand(parseSlashCommand("@claude /deploy", "@claude")!, options),
+    ).toBeNull();
+  });
+
+  it("routes registered commands and lists them in /help", () => {
+    registerCommand({
+      name: "changelog",
+      description: "Update the changelog",
+      mode: "tag",
+      prompt: "Add a changelog entry for $ARGS",
+    });
+
+    const route = routeCommand(
+      parseSlashCommand("@claude /changelog v1.2.0", "@claude")!,
+      options,
+    );
+    expect(route).toMatchObject({
+      type: "run",
+      prompt: "Add a changelog entry for v1.2.0",
+    });
+    expect(formatHelp("@claude")).toContain(
+      "- `@claude /changelog`: Update the changelog",
+    );
+  });
+
+  it("rejects commands that are already registered", () => {
+    expect(() =>
+      registerCommand({ name: "review", description: "Another review" }),
+    ).toThrow("Slash command '/review' is already registered.");
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { mkdir, mkdtemp, readdir, rm, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { withCommentLock } from "../src/github/operations/comments/lock";
+
+describe("withCommentLock", () => {
+  let runnerTemp: string;
+  const originalRunnerTemp = process.env.RUNNER_TEMP;
+
+  beforeEach(async () => {
+    runnerTemp = await mkdtemp(join(tmpdir(), "comment-lock-"));
+    process.env.RUNNER_TEMP = runnerTemp;
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    process.env.RUNNER_TEMP = originalRunnerTemp;
+    await rm(runnerTemp, { recursive: true, force: true });
+  });
+
+  test("serializes writers to the same comment", async () => {
+    const events: string[] = [];
+    const write = (name: string, delayMs: number) =>
+      withCommentLock(123, async () => {
+        events.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        events.push(`${name}:end`);
+      });
+
+    await Promise.all([write("progress", 50), write("claude", 0)]);
+
+    expect(events).toEqual([
+      "progress:start",
+      "progress:end",
+      "claude:start",
+      "claude:end",
+    ]);
+  });
+
+  test("returns the result and releases the lock on errors", async () => {
+    await expect(
+      withCommentLock(123, async () => {
+        throw new Error("API error");
+      }),
+    ).rejects.toThrow("API error");
+
+    expect(await withCommentLock(123, async () => "updated")).toBe("updated");
+    expect(await readdir(runnerTemp)).toEqual([]);
+  });
+
+  test("does not block writers to other comments", async () => {
+    await withCommentLock(123, () =>
+      withCommentLock(456, async () => "nested"),
+    );
+  });
+
+  test("takes over a lock left behind by a crashed writer", async () => {
+    const lockPath = join(runnerTemp, "claude-comment-123.lock");
+    await mkdir(lockPath);
+    const longAgo = new Date(Date.now() - 5 * 60_000);
+    await utimes(lockPath, longAgo, longAgo);
+
+    expect(await withCommentLock(123, async () => "updated")).toBe("updated");
+  });
+
+  test("waits for a lock a writer just crashed with to go stale", async () => {
+    await mkdir(join(runnerTemp, "claude-comment-123.lock"));
+    // Each clock reading moves a second ahead, so the wait takes moments
+    let now = Date.now();
+    spyOn(Date, "now").mockImplementation(() => (now += 1000));
+
+    expect(await withCommentLock(123, async () => "updated")).toBe("updated");
+  });
+});
@@ -61,6 +61,26 @@ describe("updateCommentBody", () => {
       expect(errorIndex).toBeGreaterThan(headerIndex);
     });
 
+    it("includes budget exhausted header instead of the error", () => {
+      const input = {
+        ...baseInput,
+        currentBody: "Claude Code is working...",
+        actionFailed: true,
+        executionDetails: { duration_ms: 90000, cost_usd: 2.51 },
+        budgetExceeded:
+          "Cost budget of $2.50 exhausted (estimated $2.51, 1,234,567 tokens)",
+      };
+
+      const result = updateCommentBody(input);
+      expect(result).toContain(
+        "**Claude stopped: budget exhausted after 1m 30s**",
+      );
+      expect(result).toContain(
+        "Cost budget of $2.50 exhausted (estimated $2.51, 1,234,567 tokens). The work below may be incomplete.",
+      );
+      expect(result).not.toContain("Claude encountered an error");
+    });
+
     it("handles username extraction from content when not provided", () => {
       const input = {
         ...baseInput,
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatProgress,
+  PROGRESS_END_MARKER,
+  PROGRESS_START_MARKER,
+  stripProgress,
+  withProgress,
+  type RunProgress,
+} from "../src/github/operations/comments/progress";
+import { updateCommentBody } from "../src/github/operations/comment-logic";
+
+const progress: RunProgress = {
+  startedAt: "2025-01-01T12:00:00.000Z",
+  updatedAt: "2025-01-01T12:03:15.000Z",
+  elapsedMs: 195_000,
+  currentTool: {
+    name: "Bash",
+    summary: "npm test -- `unit`",
+    startedAt: "2025-01-01T12:02:40.000Z",
+  },
+  toolCalls: 14,
+  filesRead: ["src/index.ts"],
+  filesEdited: ["src/utils.ts", "src/api.ts"],
+  tokens: 182_340,
+  costUsd: 0.4213,
+};
+
+describe("formatProgress", () => {
+  test("describes the current tool, files and usage", () => {
+    expect(formatProgress(progress)).toBe(
+      [
+        "**Activity** (3m 15s elapsed · 182,340 tokens · ~$0.42)",
+        "",
+        "- Running `Bash`: `npm test -- 'unit'` (for 35s)",
+        "- 14 tool calls so far",
+        "- Edited: `src/utils.ts`, `src/api.ts`",
+        "- Read: `src/index.ts`",
+      ].join("\n"),
+    );
+  });
+
+  test("shows thinking between tool calls and shortens long file lists", () => {
+    const result = formatProgress({
+      ...progress,
+      currentTool: undefined,
+      toolCalls: 1,
+      filesRead: Array.from({ length: 13 }, (_, i) => `file${i}.ts`),
+      filesEdited: [],
+    });
+
+    expect(result).toContain("- Thinking…");
+    expect(result).toContain("- 1 tool call so far");
+    expect(result).toContain("`file9.ts` and 3 more");
+    expect(result).not.toContain("Edited:");
+  });
+});
+
+describe("withProgress", () => {
+  test("appends the activity log after Claude's own content", () => {
+    const body = withProgress("### Todo\n- [x] Read code", progress);
+
+    expect(body.startsWith("### Todo\n- [x] Read code\n\n")).toBe(true);
+    expect(body).toContain(PROGRESS_START_MARKER);
+    expect(body.endsWith(PROGRESS_END_MARKER)).toBe(true);
+  });
+
+  test("replaces an earlier activity log", () => {
+    const first = withProgress("Working", progress);
+    const second = withProgress(first, { ...progress, toolCalls: 20 });
+
+    expect(second.split(PROGRESS_START_MARKER).length).toBe(2);
+    expect(second).toContain("20 tool calls");
+    expect(second).not.toContain("14 tool calls");
+  });
+
+  test("is removed again by stripProgress", () => {
+    expect(stripProgress(withProgress("Working", progress))).toBe("Working");
+  });
+});
+
+describe("updateCommentBody", () => {
+  test("removes the activity log from the final comment", () => {
+    const result = updateCommentBody({
+      currentBody: withProgress(
+        "Claude Code is working…\n\n### Todo\n- [x] Done",
+        progress,
+      ),
+      actionFailed: false,
+      executionDetails: null,
+      jobUrl: "https://github.com/owner/repo/actions/runs/123",
+      triggerUsername: "octocat",
+    });
+
+    expect(result).not.toContain(PROGRESS_START_MARKER);
+    expect(result).not.toContain("**Activity**");
+    expect(result).toContain("- [x] Done");
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildBudgetedContext,
+  estimateTokens,
+} from "../src/create-prompt/context-budget";
+import type { GitHubComment, GitHubReview } from "../src/github/types";
+import type { GitHubFileWithSHA } from "../src/github/data/fetcher";
+
+function createComment(id: number, body: string): GitHubComment {
+  return {
+    id: `comment-${id}`,
+    databaseId: id,
+    body,
+    author: { login: `user${id}` },
+    createdAt: `2024-01-${String(id).padStart(2, "0")}T00:00:00Z`,
+  };
+}
+
+function createReview(id: number, body: string): GitHubReview {
+  return {
+    id: `review-${id}`,
+    databaseId: id,
+    author: { login: `reviewer${id}` },
+    body,
+    state: "COMMENTED",
+    submittedAt: `2024-02-${String(id).padStart(2, "0")}T00:00:00Z`,
+    comments: { nodes: [] },
+  };
+}
+
+function createFile(path: string, changes: number): GitHubFileWithSHA {
+  return {
+    path,
+    additions: changes,
+    deletions: 0,
+    changeType: "MODIFIED",
+    sha: "abc123",
+  };
+}
+
+describe("estimateTokens", () => {
+  test("estimates about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("buildBudgetedContext", () => {
+  test("returns the full sections when they fit", () => {
+    const result = buildBudgetedContext({
+      comments: [createComment(1, "First"), createComment(2, "Second")],
+      reviewData: { nodes: [createReview(1, "Nice")] },
+      changedFiles: [createFile("src/a.ts", 1)],
+      isPR: true,
+      tokenBudget: 10_000,
+    });
+
+    expect(result.comments).toBe(
+      "[user1 at 2024-01-01T00:00:00Z]: First\n\n[user2 at 2024-01-02T00:00:00Z]: Second",
+    );
+    expect(result.reviewComments).toBe(
+      "[Review by reviewer1 at 2024-02-01T00:00:00Z]: COMMENTED\nNice",
+    );
+    expect(result.changedFiles).toBe("- src/a.ts (MODIFIED) +1/-0 SHA: abc123");
+    expect(result.omittedContext).toBe("");
+  });
+
+  test("keeps the trigger comment and recent discussion, shortening older comments", () => {
+    const comments = Array.from({ length: 20 }, (_, i) =>
+      createComment(i + 1, `Comment ${i + 1} ${"x".repeat(2000)}`),
+    );
+
+    const result = buildBudgetedContext({
+      comments,
+      reviewData: null,
+      changedFiles: [],
+      isPR: false,
+      triggerCommentId: "3",
+      tokenBudget: 2_000,
+    });
+
+    expect(estimateTokens(result.comments)).toBeLessThanOrEqual(2_000);
+    // Trigger comment and the newest comment are kept in full
+    expect(result.comments).toContain(`Comment 3 ${"x".repeat(2000)}`);
+    expect(result.comments).toContain(`Comment 20 ${"x".repeat(2000)}`);
+    // Older comments are summarized or left out
+    expect(result.comments).not.toContain(`Comment 1 ${"x".repeat(2000)}`);
+    expect(result.comments).toContain("… [truncated]");
+    // Comments stay in chronological order
+    expect(result.comments.indexOf("Comment 3 ")).toBeLessThan(
+      result.comments.indexOf("Comment 20 "),
+    );
+    expect(result.omittedContext).toContain("<omitted_context>");
+    expect(result.omittedContext).toMatch(
+      /\d+ comments were shortened and \d+ older comments were left out \(<comments>\)/,
+    );
+  });
+
+  test("truncates a trigger comment that exceeds the budget on its own", () => {
+    const result = buildBudgetedContext({
+      comments: [createComment(1, "y".repeat(10_000))],
+      reviewData: null,
+      changedFiles: [],
+      isPR: false,
+      triggerCommentId: "1",
+      tokenBudget: 100,
+    });
+
+    expect(result.comments.startsWith("[user1 at")).toBe(true);
+    expect(result.comments.endsWith("… [truncated]")).toBe(true);
+    expect(result.comments.length).toBeLessThan(500);
+  });
+
+  test("lists the largest changed files and groups the rest by directory", () => {
+    const changedFiles = [
+      createFile("README.md", 500),
+      ...Array.from({ length: 300 }, (_, i) =>
+        createFile(`packages/app/src/file${i}.ts`, 1),
+      ),
+      ...Array.from({ length: 50 }, (_, i) =>
+        createFile(`packages/lib/file${i}.ts`, 2),
+      ),
+    ];
+
+    const result = buildBudgetedContext({
+      comments: [],
+      reviewData: null,
+      changedFiles,
+      isPR: true,
+      tokenBudget: 500,
+    });
+
+    expect(estimateTokens(result.changedFiles)).toBeLessThanOrEqual(500);
+    expect(result.changedFiles).toContain(
+      "- README.md (MODIFIED) +500/-0 SHA: abc123",
+    );
+    expect(result.changedFiles).toMatch(
+      /- packages\/app\/ \(\d+ more files\) \+\d+\/-0/,
+    );
+    expect(result.changedFiles).toMatch(
+      /- packages\/lib\/ \(\d+ more files\) \+\d+\/-0/,
+    );
+    expect(result.omittedContext).toMatch(
+      /\d+ of 351 changed files are only counted per directory/,
+    );
+    expect(result.omittedContext).toContain("git diff");
+  });
+
+  test("gives unused budget to the sections that need it", () => {
+    const comments = [createComment(1, "Short")];
+    const changedFiles = Array.from({ length: 40 }, (_, i) =>
+      createFile(`src/file${i}.ts`, 1),
+    );
+
+    const result = buildBudgetedContext({
+      comments,
+      reviewData: null,
+      changedFiles,
+      isPR: true,
+      tokenBudget: 500,
+    });
+
+    // Comments and (empty) reviews leave almost the whole budget to changed files
+    expect(result.comments).toBe("[user1 at 2024-01-01T00:00:00Z]: Short");
+    expect(result.changedFiles.split("\n").length).toBeGreaterThan(20);
+  });
+
+  test("summarizes older reviews first", () => {
+    const reviews = Array.from({ length: 10 }, (_, i) =>
+      createReview(i + 1, `Review ${i + 1} ${"z".repeat(1000)}`),
+    );
+
+    const result = buildBudgetedContext({
+      comments: [],
+      reviewData: { nodes: reviews },
+      changedFiles: [],
+      isPR: true,
+      tokenBudget: 800,
+    });
+
+    expect(result.reviewComments).toContain(`Review 10 ${"z".repeat(1000)}`);
+    expect(result.reviewComments).not.toContain(`Review 1 ${"z".repeat(1000)}`);
+    expect(result.omittedContext).toContain("(<review_comments>)");
+  });
+});
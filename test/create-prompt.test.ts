@@ -51,7 +51,7 @@ describe("generatePrompt", () => {
         nodes: [
           {
             id: "comment1",
-            databaseId: "123456",
+            databaseId: 123456,
             body: "First comment",
             author: { login: "user1" },
             createdAt: "2023-01-01T01:00:00Z",
@@ -76,14 +76,14 @@ describe("generatePrompt", () => {
     comments: [
       {
         id: "comment1",
-        databaseId: "123456",
+        databaseId: 123456,
         body: "First comment",
         author: { login: "user1" },
         createdAt: "2023-01-01T01:00:00Z",
       },
       {
         id: "comment2",
-        databaseId: "123457",
+        databaseId: 123457,
         body: "@claude help me",
         author: { login: "user2" },
         createdAt: "2023-01-01T01:30:00Z",
@@ -103,7 +103,7 @@ describe("generatePrompt", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "400001",
+          databaseId: 400001,
           author: { login: "reviewer1" },
           body: "LGTM",
           state: "APPROVED",
@@ -148,6 +148,53 @@ describe("generatePrompt", () => {
     expect(prompt).not.toContain("filename\tstatus\tadditions\tdeletions\tsha"); // since it's not a PR
   });
 
+  test("should shorten context and note what was omitted when over the token budget", () => {
+    const envVars: PreparedContext = {
+      repository: "owner/repo",
+      claudeCommentId: "12345",
+      triggerPhrase: "@claude",
+      contextTokenBudget: 20,
+      eventData: {
+        eventName: "issue_comment",
+        commentId: "123457",
+        isPR: false,
+        baseBranch: "main",
+        claudeBranch: "claude/issue-67890-20240101-1200",
+        issueNumber: "67890",
+        commentBody: "@claude help me",
+      },
+    };
+
+    const prompt = generatePrompt(envVars, mockGitHubData, false);
+
+    expect(prompt).toContain(
+      "[user2 at 2023-01-01T01:30:00Z]: @claude help me",
+    );
+    expect(prompt).not.toContain(
+      "[user1 at 2023-01-01T01:00:00Z]: First comment",
+    );
+    expect(prompt).toContain("<omitted_context>");
+    expect(prompt).toContain("1 older comment was left out (<comments>)");
+  });
+
+  test("should not include omitted context when everything fits", () => {
+    const envVars: PreparedContext = {
+      repository: "owner/repo",
+      claudeCommentId: "12345",
+      triggerPhrase: "@claude",
+      eventData: {
+        eventName: "pull_request_review",
+        isPR: true,
+        prNumber: "456",
+        commentBody: "@claude please fix this bug",
+      },
+    };
+
+    const prompt = generatePrompt(envVars, mockGitHubData, false);
+
+    expect(prompt).not.toContain("<omitted_context>");
+  });
+
   test("should generate prompt for pull_request_review event", () => {
     const envVars: PreparedContext = {
       repository: "owner/repo",
@@ -443,6 +490,47 @@ describe("generatePrompt", () => {
     expect(prompt).toBe("PR: 123, Issue: , Comment: ");
   });
 
+  test("should substitute dispatch payload variables in override_prompt", () => {
+    const envVars: PreparedContext = {
+      repository: "owner/repo",
+      claudeCommentId: "12345",
+      triggerPhrase: "@claude",
+      overridePrompt:
+        "Handle $EVENT_TYPE ($EVENT_ACTION) for PR #$PR_NUMBER with $CLIENT_PAYLOAD",
+      eventData: {
+        eventName: "repository_dispatch",
+        eventAction: "deploy-failed",
+        isPR: true,
+        prNumber: "42",
+        clientPayload: { pr_number: 42 },
+      },
+    };
+
+    const prompt = generatePrompt(envVars, mockGitHubData, false);
+
+    expect(prompt).toBe(
+      `Handle repository_dispatch (deploy-failed) for PR #42 with {\n  "pr_number": 42\n}`,
+    );
+  });
+
+  test("should substitute workflow inputs in override_prompt", () => {
+    const envVars: PreparedContext = {
+      repository: "owner/repo",
+      claudeCommentId: "12345",
+      triggerPhrase: "@claude",
+      overridePrompt: "Inputs: $WORKFLOW_INPUTS, Issue: $ISSUE_NUMBER",
+      eventData: {
+        eventName: "workflow_dispatch",
+        isPR: false,
+        inputs: { task: "cleanup" },
+      },
+    };
+
+    const prompt = generatePrompt(envVars, mockGitHubData, false);
+
+    expect(prompt).toBe(`Inputs: {\n  "task": "cleanup"\n}, Issue: `);
+  });
+
   test("should not substitute variables when override_prompt is not provided", () => {
     const envVars: PreparedContext = {
       repository: "owner/repo",
@@ -880,6 +968,52 @@ describe("getEventTypeAndContext", () => {
     expect(result.eventType).toBe("ISSUE_ASSIGNED");
     expect(result.triggerContext).toBe("issue assigned event");
   });
+  test("should return correct type and context for dispatch and scheduled events", () => {
+    const base = {
+      repository: "owner/repo",
+      claudeCommentId: "",
+      triggerPhrase: "@claude",
+    };
+
+    expect(
+      getEventTypeAndContext({
+        ...base,
+        eventData: {
+          eventName: "repository_dispatch",
+          eventAction: "nightly-cleanup",
+          isPR: false,
+          clientPayload: {},
+        },
+      }),
+    ).toEqual({
+      eventType: "REPOSITORY_DISPATCH",
+      triggerContext: "repository dispatch 'nightly-cleanup'",
+    });
+
+    expect(
+      getEventTypeAndContext({
+        ...base,
+        eventData: { eventName: "workflow_dispatch", isPR: false, inputs: {} },
+      }),
+    ).toEqual({
+      eventType: "WORKFLOW_DISPATCH",
+      triggerContext: "manual workflow dispatch",
+    });
+
+    expect(
+      getEventTypeAndContext({
+        ...base,
+        eventData: {
+          eventName: "schedule",
+          isPR: false,
+          schedule: "0 3 * * *",
+        },
+      }),
+    ).toEqual({
+      eventType: "SCHEDULE",
+      triggerContext: "scheduled run (0 3 * * *)",
+    });
+  });
 });
 
 describe("buildAllowedToolsString", () => {
@@ -958,6 +1092,7 @@ describe("buildAllowedToolsString", () => {
     expect(result).toContain("mcp__github_ci__get_ci_status");
     expect(result).toContain("mcp__github_ci__get_workflow_run_details");
     expect(result).toContain("mcp__github_ci__download_job_log");
+    expect(result).toContain("mcp__github_ci__get_failed_tests");
   });
 
   test("should include both custom and Actions tools when both provided", () => {
@@ -975,6 +1110,19 @@ describe("buildAllowedToolsString", () => {
     expect(result).toContain("mcp__github_ci__get_ci_status");
     expect(result).toContain("mcp__github_ci__get_workflow_run_details");
     expect(result).toContain("mcp__github_ci__download_job_log");
+    expect(result).toContain("mcp__github_ci__get_failed_tests");
+  });
+
+  test("should include GitHub Actions write tools only when includeActionsWriteTools is true", () => {
+    const readOnly = buildAllowedToolsString([], true);
+    expect(readOnly).not.toContain("mcp__github_ci__rerun_failed_jobs");
+    expect(readOnly).not.toContain("mcp__github_ci__wait_for_ci");
+
+    const result = buildAllowedToolsString([], true, false, true);
+    expect(result).toContain("mcp__github_ci__get_ci_status");
+    expect(result).toContain("mcp__github_ci__rerun_failed_jobs");
+    expect(result).toContain("mcp__github_ci__trigger_workflow");
+    expect(result).toContain("mcp__github_ci__wait_for_ci");
   });
 
   test("should include commit signing tools when useCommitSigning is true", () => {
@@ -148,14 +148,14 @@ describe("formatComments", () => {
     const comments: GitHubComment[] = [
       {
         id: "1",
-        databaseId: "100001",
+        databaseId: 100001,
         body: "First comment",
         author: { login: "user1" },
         createdAt: "2023-01-01T00:00:00Z",
       },
       {
         id: "2",
-        databaseId: "100002",
+        databaseId: 100002,
         body: "Second comment",
         author: { login: "user2" },
         createdAt: "2023-01-02T00:00:00Z",
@@ -177,14 +177,14 @@ describe("formatComments", () => {
     const comments: GitHubComment[] = [
       {
         id: "1",
-        databaseId: "100001",
+        databaseId: 100001,
         body: "Check out this screenshot: ![screenshot](https://github.com/user-attachments/assets/screenshot.png)",
         author: { login: "user1" },
         createdAt: "2023-01-01T00:00:00Z",
       },
       {
         id: "2",
-        databaseId: "100002",
+        databaseId: 100002,
         body: "Here's another image: ![bug](https://github.com/user-attachments/assets/bug-report.jpg)",
         author: { login: "user2" },
         createdAt: "2023-01-02T00:00:00Z",
@@ -212,7 +212,7 @@ describe("formatComments", () => {
     const comments: GitHubComment[] = [
       {
         id: "1",
-        databaseId: "100001",
+        databaseId: 100001,
         body: "Two images: ![first](https://github.com/user-attachments/assets/first.png) and ![second](https://github.com/user-attachments/assets/second.png)",
         author: { login: "user1" },
         createdAt: "2023-01-01T00:00:00Z",
@@ -240,7 +240,7 @@ describe("formatComments", () => {
     const comments: GitHubComment[] = [
       {
         id: "1",
-        databaseId: "100001",
+        databaseId: 100001,
         body: "Image: ![test](https://github.com/user-attachments/assets/test.png)",
         author: { login: "user1" },
         createdAt: "2023-01-01T00:00:00Z",
@@ -260,7 +260,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300001",
+          databaseId: 300001,
           author: { login: "reviewer1" },
           body: "This is a great PR! LGTM.",
           state: "APPROVED",
@@ -269,7 +269,7 @@ describe("formatReviewComments", () => {
             nodes: [
               {
                 id: "comment1",
-                databaseId: "200001",
+                databaseId: 200001,
                 body: "Nice implementation",
                 author: { login: "reviewer1" },
                 createdAt: "2023-01-01T00:00:00Z",
@@ -278,7 +278,7 @@ describe("formatReviewComments", () => {
               },
               {
                 id: "comment2",
-                databaseId: "200002",
+                databaseId: 200002,
                 body: "Consider adding error handling",
                 author: { login: "reviewer1" },
                 createdAt: "2023-01-01T00:00:00Z",
@@ -302,7 +302,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300002",
+          databaseId: 300002,
           author: { login: "reviewer1" },
           body: "Looks good to me!",
           state: "APPROVED",
@@ -325,7 +325,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300003",
+          databaseId: 300003,
           author: { login: "reviewer1" },
           body: "",
           state: "COMMENTED",
@@ -334,7 +334,7 @@ describe("formatReviewComments", () => {
             nodes: [
               {
                 id: "comment1",
-                databaseId: "200003",
+                databaseId: 200003,
                 body: "Small suggestion here",
                 author: { login: "reviewer1" },
                 createdAt: "2023-01-01T00:00:00Z",
@@ -358,7 +358,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300004",
+          databaseId: 300004,
           author: { login: "reviewer1" },
           body: "Needs changes",
           state: "CHANGES_REQUESTED",
@@ -369,7 +369,7 @@ describe("formatReviewComments", () => {
         },
         {
           id: "review2",
-          databaseId: "300005",
+          databaseId: 300005,
           author: { login: "reviewer2" },
           body: "LGTM",
           state: "APPROVED",
@@ -402,7 +402,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300001",
+          databaseId: 300001,
           author: { login: "reviewer1" },
           body: "Review with image: ![review-img](https://github.com/user-attachments/assets/review.png)",
           state: "APPROVED",
@@ -411,7 +411,7 @@ describe("formatReviewComments", () => {
             nodes: [
               {
                 id: "comment1",
-                databaseId: "200001",
+                databaseId: 200001,
                 body: "Comment with image: ![comment-img](https://github.com/user-attachments/assets/comment.png)",
                 author: { login: "reviewer1" },
                 createdAt: "2023-01-01T00:00:00Z",
@@ -446,7 +446,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300001",
+          databaseId: 300001,
           author: { login: "reviewer1" },
           body: "Good work",
           state: "APPROVED",
@@ -455,7 +455,7 @@ describe("formatReviewComments", () => {
             nodes: [
               {
                 id: "comment1",
-                databaseId: "200001",
+                databaseId: 200001,
                 body: "Two issues: ![issue1](https://github.com/user-attachments/assets/issue1.png) and ![issue2](https://github.com/user-attachments/assets/issue2.png)",
                 author: { login: "reviewer1" },
                 createdAt: "2023-01-01T00:00:00Z",
@@ -490,7 +490,7 @@ describe("formatReviewComments", () => {
       nodes: [
         {
           id: "review1",
-          databaseId: "300001",
+          databaseId: 300001,
           author: { login: "reviewer1" },
           body: "Review body",
           state: "APPROVED",
@@ -499,7 +499,7 @@ describe("formatReviewComments", () => {
             nodes: [
               {
                 id: "comment1",
-                databaseId: "200001",
+                databaseId: 200001,
                 body: "Image: ![test](https://github.com/user-attachments/assets/test.png)",
                 author: { login: "reviewer1" },
                 createdAt: "2023-01-01T00:00:00Z",
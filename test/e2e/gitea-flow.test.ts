@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { $ } from "bun";
+import { FakeProvider } from "../fakes/fake-provider";
+import { cleanupFlows, runGiteaFlow } from "./harness";
+
+const FIXED_MATH = "export const add = (a: number, b: number) => a + b;\n";
+
+function createProvider(options: { pullRequest: boolean }) {
+  return new FakeProvider({
+    platform: "gitea",
+    actor: "jdoe",
+    files: {
+      "src/math.ts": "export const add = (a: number, b: number) => a - b;\n",
+    },
+    ...(options.pullRequest
+      ? {
+          pullRequest: {
+            number: 3,
+            title: "Add README",
+            headBranch: "docs/readme",
+            files: { "README.md": "# Widgets\n" },
+          },
+        }
+      : { issue: { number: 12, title: "add subtracts" } }),
+    triggerText: "@claude please fix add",
+  });
+}
+
+describe("Gitea trigger flow", () => {
+  afterEach(cleanupFlows);
+
+  it("pushes Claude's changes to the pull request branch", async () => {
+    const provider = createProvider({ pullRequest: true });
+
+    const result = await runGiteaFlow({
+      provider,
+      transcript: "fix-applied.jsonl",
+      edits: { "src/math.ts": FIXED_MATH },
+    });
+
+    expect(result.prepareExitCode).toBeUndefined();
+    expect(result.claudeExitCode).toBe(0);
+    expect(result.updateExitCode).toBe(0);
+    expect(result.outputs.CURRENT_BRANCH).toBe("docs/readme");
+    expect(result.prompt).toContain("@claude please fix add");
+
+    const pushed = await $`git show docs/readme:src/math.ts`
+      .cwd(result.origin!)
+      .text();
+    expect(pushed).toBe(FIXED_MATH);
+    const files = await $`git ls-tree -r --name-only docs/readme`
+      .cwd(result.origin!)
+      .text();
+    expect(files.split("\n")).not.toContain("output.txt");
+
+    const comment = provider.comments[0]!;
+    expect(comment.body).toContain(
+      "Fixed `add` to return the sum of its arguments.",
+    );
+    expect(comment.body).toContain(
+      "[`docs/readme`](https://scm.example.com/acme/widgets/tree/docs/readme)",
+    );
+    expect(comment.body).not.toContain("Create PR");
+  });
+
+  it("pushes a new branch for an issue and links a pull request", async () => {
+    const provider = createProvider({ pullRequest: false });
+
+    const result = await runGiteaFlow({
+      provider,
+      transcript: "fix-applied.jsonl",
+      edits: { "src/math.ts": FIXED_MATH },
+    });
+
+    const branch = result.outputs.CLAUDE_BRANCH!;
+    expect(branch).toStartWith("claude/issue-12-");
+    const pushed = await $`git show ${branch}:src/math.ts`
+      .cwd(result.origin!)
+      .text();
+    expect(pushed).toBe(FIXED_MATH);
+
+    const comment = provider.comments[0]!;
+    expect(comment.body).toContain(
+      `[Create PR ➔](https://scm.example.com/acme/widgets/compare/main...${branch})`,
+    );
+  });
+
+  it("leaves the branch alone when Claude changes nothing", async () => {
+    const provider = createProvider({ pullRequest: true });
+
+    const result = await runGiteaFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    const head = await $`git rev-parse docs/readme`.cwd(result.origin!).text();
+    expect(head.trim()).toBe(result.outputs.START_SHA!);
+    expect(provider.comments[0]!.body).not.toContain("tree/docs/readme");
+  });
+});
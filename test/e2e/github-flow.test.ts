@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { FakeProvider } from "../fakes/fake-provider";
+import { cleanupFlows, runGitHubFlow } from "./harness";
+
+function createPullRequestProvider(
+  options: { triggerText?: string; writers?: string[] } = {},
+) {
+  return new FakeProvider({
+    platform: "github",
+    actor: "jdoe",
+    writers: options.writers,
+    files: { "src/math.ts": "export const add = (a: number, b: number) => a;" },
+    pullRequest: {
+      number: 7,
+      title: "Add math helpers",
+      body: "Adds `add`.",
+      headBranch: "feature/math",
+      files: {
+        "src/math.ts": "export const add = (a: number, b: number) => a - b;",
+      },
+    },
+    triggerText: options.triggerText ?? "@claude is add correct?",
+  });
+}
+
+describe("GitHub trigger flow", () => {
+  afterEach(cleanupFlows);
+
+  it("answers a pull request mention in the tracking comment", async () => {
+    const provider = createPullRequestProvider();
+
+    const result = await runGitHubFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prepareExitCode).toBeUndefined();
+    expect(result.claudeExitCode).toBe(0);
+    expect(result.updateExitCode).toBe(0);
+
+    expect(result.outputs).toMatchObject({
+      platform: "github",
+      contains_trigger: "true",
+      GITHUB_TOKEN: "fake-token",
+      claude_comment_id: String(provider.comments[0]!.id),
+    });
+    expect(result.outputs.mcp_config).toBeDefined();
+
+    expect(result.prompt).toContain("PR Title: Add math helpers");
+    expect(result.prompt).toContain("PR Branch: feature/math -> main");
+    expect(result.prompt).toContain("- src/math.ts (MODIFIED) +1/-1");
+    expect(result.prompt).toContain(
+      "<trigger_comment>\n@claude is add correct?\n</trigger_comment>",
+    );
+    expect(result.prompt).toContain(
+      `<claude_comment_id>${result.outputs.claude_comment_id}</claude_comment_id>`,
+    );
+    expect(result.claudeArgs).toEqual(
+      expect.arrayContaining(["-p", "--output-format", "stream-json"]),
+    );
+
+    // Claude works on the pull request branch
+    expect(result.outputs.CLAUDE_BRANCH).toBeUndefined();
+
+    expect(provider.comments).toHaveLength(1);
+    const [comment] = provider.comments;
+    const history = provider.commentHistory.get(comment!.id)!;
+    expect(history[0]).toContain("Claude Code is working");
+    expect(comment!.body).toContain("**Claude finished @jdoe's task");
+    expect(comment!.body).toContain(
+      "https://github.com/acme/widgets/actions/runs/1",
+    );
+  });
+
+  it("marks the comment as failed when Claude fails", async () => {
+    const provider = createPullRequestProvider();
+
+    const result = await runGitHubFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+      claudeExitCode: 1,
+    });
+
+    expect(result.claudeExitCode).toBe(1);
+    expect(provider.comments[0]!.body).toContain(
+      "**Claude encountered an error",
+    );
+  });
+
+  it("stops before running Claude without a trigger phrase", async () => {
+    const provider = createPullRequestProvider({
+      triggerText: "Looks good to me",
+    });
+
+    const result = await runGitHubFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prepareExitCode).toBeUndefined();
+    expect(result.outputs.contains_trigger).toBe("false");
+    expect(result.claudeExitCode).toBeUndefined();
+    expect(provider.comments).toHaveLength(0);
+  });
+
+  it("fails prepare for actors without write access", async () => {
+    const provider = createPullRequestProvider({ writers: ["maintainer"] });
+
+    const result = await runGitHubFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prepareExitCode).toBe(1);
+    expect(result.outputs.prepare_error).toBe(
+      "Actor does not have write permissions to the repository",
+    );
+    expect(result.claudeExitCode).toBeUndefined();
+    expect(provider.comments).toHaveLength(0);
+  });
+
+  it("replies to /help without running Claude", async () => {
+    const provider = createPullRequestProvider({
+      triggerText: "@claude /help",
+    });
+
+    const result = await runGitHubFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.outputs.contains_trigger).toBe("false");
+    expect(result.claudeExitCode).toBeUndefined();
+    expect(provider.comments).toHaveLength(1);
+    expect(provider.comments[0]!.body).toContain("/review");
+  });
+});
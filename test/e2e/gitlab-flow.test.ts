@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { GitLabPipelineSummary } from "../../src/gitlab/pipelines";
+import { FakeProvider } from "../fakes/fake-provider";
+import { cleanupFlows, runGitLabFlow } from "./harness";
+
+function createMergeRequestProvider(
+  options: {
+    triggerText?: string;
+    writers?: string[];
+    pipeline?: GitLabPipelineSummary;
+  } = {},
+) {
+  return new FakeProvider({
+    platform: "gitlab",
+    actor: "jdoe",
+    writers: options.writers,
+    pipeline: options.pipeline,
+    files: { "src/math.ts": "export const add = (a: number, b: number) => a;" },
+    pullRequest: {
+      number: 7,
+      title: "Add math helpers",
+      body: "Adds `add`.",
+      headBranch: "feature/math",
+      files: {
+        "src/math.ts": "export const add = (a: number, b: number) => a - b;",
+      },
+    },
+    triggerText: options.triggerText ?? "@claude is add correct?",
+  });
+}
+
+describe("GitLab trigger flow", () => {
+  afterEach(cleanupFlows);
+
+  it("answers a merge request mention in the tracking comment", async () => {
+    const provider = createMergeRequestProvider();
+
+    const result = await runGitLabFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prepareExitCode).toBeUndefined();
+    expect(result.claudeExitCode).toBe(0);
+    expect(result.updateExitCode).toBeUndefined();
+
+    expect(result.prompt).toContain("**Title:** Add math helpers");
+    expect(result.prompt).toContain(
+      "**Source Branch:** feature/math → **Target Branch:** main",
+    );
+    expect(result.prompt).toContain(
+      "+export const add = (a: number, b: number) => a - b;",
+    );
+    expect(result.prompt).toContain(
+      'The user mentioned you with: "@claude is add correct?"',
+    );
+    // No pipeline has run on the merge request
+    expect(result.prompt).not.toContain("## Pipeline Status");
+    expect(result.claudeArgs).toEqual(
+      expect.arrayContaining(["-p", "--output-format", "stream-json"]),
+    );
+    expect(provider.gitAuthTokens).toEqual(["fake-token"]);
+
+    expect(provider.comments).toHaveLength(1);
+    const [comment] = provider.comments;
+    const history = provider.commentHistory.get(comment!.id)!;
+    expect(history[0]).toContain("🤖 Claude is working on this...");
+    expect(comment!.body).toContain("✅ Claude's work is complete");
+    expect(comment!.body).toContain("- [x] Setting up workspace");
+    expect(comment!.body).toContain("Estimated cost: $0.0123");
+    expect(comment!.body).toContain(
+      "https://gitlab.example.com/42/-/pipelines/1001",
+    );
+  });
+
+  it("summarizes a failed pipeline in the prompt", async () => {
+    const provider = createMergeRequestProvider({
+      triggerText: "@claude fix the pipeline",
+      pipeline: {
+        id: 99,
+        status: "failed",
+        ref: "feature/math",
+        sha: "0123456789abcdef",
+        webUrl: "https://gitlab.example.com/acme/widgets/-/pipelines/99",
+        failedJobs: [
+          {
+            id: 501,
+            name: "unit-tests",
+            stage: "test",
+            failureReason: "script_failure",
+            webUrl: "https://gitlab.example.com/acme/widgets/-/jobs/501",
+          },
+        ],
+        tests: {
+          total: 3,
+          failed: 1,
+          errors: 0,
+          skipped: 0,
+          failedTests: [
+            {
+              suite: "math",
+              name: "adds numbers",
+              classname: "math.test",
+              status: "failed",
+              file: "test/math.test.ts",
+            },
+          ],
+        },
+      },
+    });
+
+    const result = await runGitLabFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prompt).toContain("## Pipeline Status");
+    expect(result.prompt).toContain(
+      "**Latest Pipeline:** [#99](https://gitlab.example.com/acme/widgets/-/pipelines/99) — failed",
+    );
+    expect(result.prompt).toContain(
+      "- `unit-tests` (stage: test, job ID: 501) — script_failure",
+    );
+    expect(result.prompt).toContain(
+      "- failed: `math.test.adds numbers` (test/math.test.ts)",
+    );
+  });
+
+  it("marks the comment as failed when Claude fails", async () => {
+    const provider = createMergeRequestProvider();
+
+    const result = await runGitLabFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+      claudeExitCode: 1,
+    });
+
+    expect(result.claudeExitCode).toBe(1);
+    expect(provider.comments[0]!.body).toContain("❌ Claude's work failed");
+  });
+
+  it("stops before running Claude without a trigger phrase", async () => {
+    const provider = createMergeRequestProvider({
+      triggerText: "Looks good to me",
+    });
+
+    const result = await runGitLabFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prepareExitCode).toBeUndefined();
+    expect(result.claudeExitCode).toBeUndefined();
+    expect(provider.comments).toHaveLength(0);
+  });
+
+  it("fails prepare for actors without write access", async () => {
+    const provider = createMergeRequestProvider({ writers: ["maintainer"] });
+
+    const result = await runGitLabFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.prepareExitCode).toBe(1);
+    expect(result.claudeExitCode).toBeUndefined();
+    expect(provider.comments).toHaveLength(0);
+  });
+
+  it("replies to /help without running Claude", async () => {
+    const provider = createMergeRequestProvider({
+      triggerText: "@claude /help",
+    });
+
+    const result = await runGitLabFlow({
+      provider,
+      transcript: "review-comment.jsonl",
+    });
+
+    expect(result.claudeExitCode).toBeUndefined();
+    expect(provider.comments).toHaveLength(1);
+    expect(provider.comments[0]!.body).toContain("/review");
+  });
+});
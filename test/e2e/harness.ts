@@ -0,0 +1,531 @@
+/**
+ * End-to-end harness for the trigger flows
+ *
+ * Runs a platform's prepare entrypoint, base-action and the comment update
+ * entrypoint in sequence, the way the CI templates chain them. The SCM is a
+ * FakeProvider, and the `claude` binary is a stub that records the prompt
+ * and arguments it gets and replays a recorded stream-json transcript.
+ * GitHub runs the real GitHubProvider instead, with its API requests
+ * answered from the FakeProvider's state.
+ */
+
+import { spyOn } from "bun:test";
+import { $ } from "bun";
+import * as github from "@actions/github";
+import { Context } from "@actions/github/lib/context";
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import * as providerFactory from "../../src/providers/provider-factory";
+import type { SCMProvider } from "../../src/providers/scm-provider";
+import { FakeGitHubApi } from "../fakes/fake-github-api";
+import type { FakeProvider } from "../fakes/fake-provider";
+
+const REPO_ROOT = join(import.meta.dir, "..", "..");
+const BASE_ACTION = join(REPO_ROOT, "base-action", "src", "index.ts");
+const TRANSCRIPTS = join(REPO_ROOT, "test", "fixtures", "transcripts");
+const CLAUDE_TIMEOUT_MS = 60 * 1000;
+
+// Kept before any flow replaces it, for flows that run a platform's provider
+const { createProvider: createPlatformProvider } = providerFactory;
+
+// Saves what it was asked, lets the run "edit" the workspace, then replays
+const CLAUDE_STUB = `#!/bin/sh
+cat > "$CLAUDE_STUB_DIR/prompt.txt"
+printf '%s\\n' "$@" > "$CLAUDE_STUB_DIR/args.txt"
+if [ -d "$CLAUDE_STUB_DIR/edits" ]; then
+  cp -R "$CLAUDE_STUB_DIR/edits/." .
+fi
+cat "$CLAUDE_TRANSCRIPT"
+exit "\${CLAUDE_STUB_EXIT_CODE:-0}"
+`;
+
+export type FlowOptions = {
+  provider: FakeProvider;
+  transcript: string; // File name in test/fixtures/transcripts
+  env?: Record<string, string>;
+  edits?: Record<string, string>; // Files the run writes to the workspace
+  claudeExitCode?: number;
+};
+
+export type FlowResult = {
+  prepareExitCode?: number; // Code the prepare step exited with, if any
+  updateExitCode?: number;
+  claudeExitCode?: number; // Unset when prepare didn't get as far as a prompt
+  prompt?: string; // What the claude binary read from stdin
+  claudeArgs: string[];
+  outputs: Record<string, string>; // Step outputs written to GITHUB_OUTPUT
+  workspace: string;
+  origin?: string; // Bare repository the workspace pushes to
+};
+
+type FlowState = {
+  root: string;
+  runnerTemp: string;
+  workspace: string;
+  stubDir: string;
+  binDir: string;
+  exitCodes: number[];
+};
+
+/**
+ * Parses a GitHub Actions command file (GITHUB_OUTPUT or GITHUB_ENV)
+ */
+function readCommandFile(path: string): Record<string, string> {
+  if (!existsSync(path)) {
+    return {};
+  }
+  const values: Record<string, string> = {};
+  const lines = readFileSync(path, "utf8").split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const heredoc = lines[i]!.match(/^([^=<]+)<<(.+)$/);
+    if (heredoc) {
+      const end = lines.indexOf(heredoc[2]!, i + 1);
+      values[heredoc[1]!] = lines.slice(i + 1, end).join("\n");
+      i = end;
+    } else if (lines[i]!.includes("=")) {
+      const [name, ...value] = lines[i]!.split("=");
+      values[name!] = value.join("=");
+    }
+  }
+  return values;
+}
+
+const flowRoots: string[] = [];
+
+/**
+ * Removes the directories flows left for tests to inspect
+ */
+export function cleanupFlows(): void {
+  for (const root of flowRoots.splice(0)) {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Sets up the temp directories, environment and spies a flow runs with,
+ * and puts everything back afterwards. The directories stay until
+ * cleanupFlows() so tests can look at the workspace and origin.
+ * @param createProvider What the entrypoints get from createProvider, the
+ * FakeProvider itself by default
+ */
+async function withFlow<T>(
+  options: FlowOptions,
+  fn: (state: FlowState) => Promise<T>,
+  createProvider: (
+    options: providerFactory.ProviderFactoryOptions,
+  ) => SCMProvider = () => options.provider,
+): Promise<T> {
+  const root = mkdtempSync(join(tmpdir(), "claude-e2e-"));
+  flowRoots.push(root);
+  const state: FlowState = {
+    root,
+    runnerTemp: join(root, "runner-temp"),
+    workspace: join(root, "workspace"),
+    stubDir: join(root, "claude-stub"),
+    binDir: join(root, "bin"),
+    exitCodes: [],
+  };
+  for (const dir of [
+    state.runnerTemp,
+    state.workspace,
+    state.stubDir,
+    state.binDir,
+    join(root, "home"),
+  ]) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  writeFileSync(join(state.binDir, "claude"), CLAUDE_STUB);
+  chmodSync(join(state.binDir, "claude"), 0o755);
+  for (const [path, content] of Object.entries(options.edits ?? {})) {
+    const file = join(state.stubDir, "edits", path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+  }
+
+  const savedEnv = { ...process.env };
+  const savedCwd = process.cwd();
+  const savedExitCode = process.exitCode;
+  Object.assign(process.env, {
+    HOME: join(root, "home"),
+    RUNNER_TEMP: state.runnerTemp,
+    ...options.env,
+  });
+
+  const spies = [
+    spyOn(providerFactory, "createProvider").mockImplementation(
+      createProvider as typeof providerFactory.createProvider,
+    ),
+    spyOn(providerFactory, "getToken").mockReturnValue("fake-token"),
+    spyOn(process, "exit").mockImplementation((code) => {
+      state.exitCodes.push(Number(code ?? 0));
+      return undefined as never;
+    }),
+    spyOn(console, "log").mockImplementation(() => {}),
+  ];
+
+  try {
+    return await fn(state);
+  } finally {
+    spies.forEach((spy) => spy.mockRestore());
+    process.chdir(savedCwd);
+    // Bun ignores undefined, which would leave a failed step's code behind
+    process.exitCode = savedExitCode ?? 0;
+    for (const key of Object.keys(process.env)) {
+      if (!(key in savedEnv)) {
+        delete process.env[key];
+      }
+    }
+    Object.assign(process.env, savedEnv);
+  }
+}
+
+/**
+ * Runs base-action against the stub claude binary, as the execute step does
+ */
+async function runClaude(
+  state: FlowState,
+  options: FlowOptions,
+  env: Record<string, string>,
+): Promise<Pick<FlowResult, "claudeExitCode" | "prompt" | "claudeArgs">> {
+  const proc = Bun.spawn(["bun", "run", BASE_ACTION], {
+    cwd: process.cwd(),
+    env: {
+      ...process.env,
+      PATH: `${state.binDir}:${process.env.PATH}`,
+      ANTHROPIC_API_KEY: "fake-api-key",
+      INPUT_PROMPT_FILE: join(
+        state.runnerTemp,
+        "claude-prompts",
+        "claude-prompt.txt",
+      ),
+      CLAUDE_STUB_DIR: state.stubDir,
+      CLAUDE_TRANSCRIPT: join(TRANSCRIPTS, options.transcript),
+      CLAUDE_STUB_EXIT_CODE: String(options.claudeExitCode ?? 0),
+      ...env,
+    },
+    stdout: "ignore",
+    stderr: "ignore",
+    timeout: CLAUDE_TIMEOUT_MS,
+  });
+  const claudeExitCode = await proc.exited;
+
+  const argsFile = join(state.stubDir, "args.txt");
+  const promptFile = join(state.stubDir, "prompt.txt");
+  return {
+    claudeExitCode,
+    prompt: existsSync(promptFile)
+      ? readFileSync(promptFile, "utf8")
+      : undefined,
+    claudeArgs: existsSync(argsFile)
+      ? readFileSync(argsFile, "utf8").trim().split("\n")
+      : [],
+  };
+}
+
+/**
+ * GitLab: prepare, execute and update-comment-gitlab, with the trigger
+ * arriving as a webhook payload. Claude pushes its own changes on GitLab,
+ * so there is no repository to push to.
+ */
+export async function runGitLabFlow(options: FlowOptions): Promise<FlowResult> {
+  return withFlow(options, async (state) => {
+    const { provider } = options;
+    const context = provider.getContext();
+    Object.assign(process.env, {
+      CI_PLATFORM: "gitlab",
+      CI_PROJECT_ID: "42",
+      CI_SERVER_URL: "https://gitlab.example.com",
+      CI_PIPELINE_ID: "1001",
+      GITLAB_WEBHOOK_PAYLOAD: JSON.stringify({
+        object_kind: "note",
+        user: { username: context.actor },
+        object_attributes: {
+          note: provider.triggerText,
+          noteable_type: context.isPR ? "MergeRequest" : "Issue",
+        },
+      }),
+      ...(context.isPR
+        ? { CI_MERGE_REQUEST_IID: String(context.entityNumber) }
+        : { CLAUDE_RESOURCE_ID: String(context.entityNumber) }),
+      ...options.env,
+    });
+    delete process.env.CLAUDE_COMMENT_ID;
+    process.chdir(state.workspace);
+
+    const prepare = await import("../../src/entrypoints/prepare");
+    await prepare.run();
+    const result: FlowResult = {
+      prepareExitCode: state.exitCodes.shift(),
+      claudeArgs: [],
+      outputs: {},
+      workspace: state.workspace,
+    };
+    if (
+      result.prepareExitCode ||
+      !existsSync(join(state.runnerTemp, "claude-prompts", "claude-prompt.txt"))
+    ) {
+      return result;
+    }
+
+    Object.assign(
+      result,
+      await runClaude(state, options, {
+        INPUT_ALLOWED_TOOLS: process.env.ALLOWED_TOOLS || "",
+        INPUT_DISALLOWED_TOOLS: process.env.DISALLOWED_TOOLS || "",
+      }),
+    );
+
+    // Review mode posts a review instead of a tracking comment
+    if (process.env.CLAUDE_COMMENT_ID) {
+      process.env.CLAUDE_SUCCESS = String(result.claudeExitCode === 0);
+      process.env.OUTPUT_FILE = join(
+        state.runnerTemp,
+        "claude-execution-output.json",
+      );
+      const update = await import(
+        "../../src/entrypoints/update-comment-gitlab"
+      );
+      await update.run();
+      result.updateExitCode = state.exitCodes.shift();
+    }
+    return result;
+  });
+}
+
+/**
+ * Bun's shell can keep an environment from before other tests replaced
+ * process.env, so the commit identity goes in the repository config rather
+ * than in GIT_* variables
+ */
+async function setGitIdentity(repository: string): Promise<void> {
+  await $`git config user.name Claude`.cwd(repository).quiet();
+  await $`git config user.email claude@example.com`.cwd(repository).quiet();
+}
+
+/**
+ * Builds a bare origin with the fake's default branch (and pull request
+ * head branch) and clones it as the workspace, checked out on the default
+ * branch like a comment-triggered workflow
+ */
+async function createRepository(
+  state: FlowState,
+  provider: FakeProvider,
+): Promise<string> {
+  const origin = join(state.root, "origin.git");
+  const seed = join(state.root, "seed");
+  const { defaultBranch } = await provider.getRepoInfo();
+  const branches = [defaultBranch];
+  if (provider.getContext().isPR) {
+    branches.push((await provider.getPullRequestInfo()).headBranch);
+  }
+
+  await $`git init --quiet --bare ${origin}`.quiet();
+  await $`git init --quiet -b ${defaultBranch} ${seed}`.quiet();
+  await setGitIdentity(seed);
+  for (const branch of branches) {
+    await $`git checkout --quiet -B ${branch}`.cwd(seed).quiet();
+    for (const [path, content] of Object.entries(provider.tree(branch))) {
+      mkdirSync(dirname(join(seed, path)), { recursive: true });
+      writeFileSync(join(seed, path), content);
+    }
+    await $`git add -A`.cwd(seed).quiet();
+    await $`git commit --quiet --allow-empty -m ${branch}`.cwd(seed).quiet();
+    await $`git push --quiet file://${origin} ${branch}`.cwd(seed).quiet();
+  }
+
+  rmSync(state.workspace, { recursive: true, force: true });
+  await $`git clone --quiet -b ${defaultBranch} file://${origin} ${state.workspace}`.quiet();
+  await setGitIdentity(state.workspace);
+  return origin;
+}
+
+/**
+ * Writes the issue_comment event that triggers the run and the command
+ * files steps write their outputs and variables to, and points the
+ * Actions environment at them
+ */
+function writeCommentEvent(
+  state: FlowState,
+  provider: FakeProvider,
+): { outputPath: string; envPath: string } {
+  const context = provider.getContext();
+  const eventPath = join(state.root, "event.json");
+  const outputPath = join(state.root, "github-output");
+  const envPath = join(state.root, "github-env");
+
+  writeFileSync(
+    eventPath,
+    JSON.stringify({
+      action: "created",
+      issue: {
+        number: context.entityNumber,
+        pull_request: context.isPR ? {} : null,
+      },
+      comment: {
+        id: 1,
+        body: provider.triggerText,
+        user: { login: context.actor },
+      },
+      sender: { login: context.actor },
+    }),
+  );
+  writeFileSync(outputPath, "");
+  writeFileSync(envPath, "");
+  Object.assign(process.env, {
+    GITHUB_EVENT_PATH: eventPath,
+    GITHUB_EVENT_NAME: "issue_comment",
+    GITHUB_OUTPUT: outputPath,
+    GITHUB_ENV: envPath,
+    GITHUB_ACTOR: context.actor,
+  });
+  return { outputPath, envPath };
+}
+
+/**
+ * Gitea: prepare, execute and update-comment-gitea in a clone of a local
+ * origin, with step outputs and exported variables passed between steps
+ * through GITHUB_OUTPUT and GITHUB_ENV like the composite action does
+ */
+export async function runGiteaFlow(options: FlowOptions): Promise<FlowResult> {
+  return withFlow(options, async (state) => {
+    const { provider } = options;
+    const context = provider.getContext();
+    const origin = await createRepository(state, provider);
+    const { outputPath, envPath } = writeCommentEvent(state, provider);
+    Object.assign(process.env, {
+      CI_PLATFORM: "gitea",
+      ...options.env,
+    });
+    process.chdir(state.workspace);
+
+    const prepare = await import("../../src/entrypoints/prepare");
+    await prepare.run();
+    const result: FlowResult = {
+      prepareExitCode: state.exitCodes.shift(),
+      claudeArgs: [],
+      outputs: readCommandFile(outputPath),
+      workspace: state.workspace,
+      origin,
+    };
+    const { outputs } = result;
+    if (result.prepareExitCode || outputs.contains_trigger !== "true") {
+      return result;
+    }
+
+    const exported = readCommandFile(envPath);
+    Object.assign(
+      result,
+      await runClaude(state, options, {
+        INPUT_ALLOWED_TOOLS: exported.ALLOWED_TOOLS ?? "",
+        INPUT_DISALLOWED_TOOLS: exported.DISALLOWED_TOOLS ?? "",
+      }),
+    );
+
+    if (outputs.claude_comment_id) {
+      Object.assign(process.env, {
+        CLAUDE_COMMENT_ID: outputs.claude_comment_id,
+        CURRENT_BRANCH: outputs.CURRENT_BRANCH ?? "",
+        BASE_BRANCH: outputs.BASE_BRANCH ?? "",
+        START_SHA: outputs.START_SHA ?? "",
+        CLAUDE_SUCCESS: String(result.claudeExitCode === 0),
+        TRIGGER_USERNAME: context.actor,
+        OUTPUT_FILE: join(state.runnerTemp, "claude-execution-output.json"),
+      });
+      if (outputs.CLAUDE_BRANCH) {
+        process.env.CLAUDE_BRANCH = outputs.CLAUDE_BRANCH;
+      }
+      const update = await import("../../src/entrypoints/update-comment-gitea");
+      await update.run();
+      result.updateExitCode = state.exitCodes.shift();
+    }
+    return result;
+  });
+}
+
+/**
+ * GitHub: prepare, execute and update-comment-link like the Gitea flow, but
+ * through GitHubProvider. The Actions context is rebuilt from the event,
+ * and GitHub's REST and GraphQL requests are answered by FakeGitHubApi.
+ */
+export async function runGitHubFlow(options: FlowOptions): Promise<FlowResult> {
+  return withFlow(
+    options,
+    async (state) => {
+      const { provider } = options;
+      const { owner, repo } = await provider.getRepoInfo();
+      const origin = await createRepository(state, provider);
+      const { outputPath, envPath } = writeCommentEvent(state, provider);
+      Object.assign(process.env, {
+        CI_PLATFORM: "github",
+        GITHUB_REPOSITORY: `${owner}/${repo}`,
+        GITHUB_RUN_ID: "1",
+        OVERRIDE_GITHUB_TOKEN: "fake-token",
+        ...options.env,
+      });
+      process.chdir(state.workspace);
+
+      // @actions/github reads the context once, when it is first imported
+      const savedContext = { ...github.context };
+      Object.assign(github.context, new Context());
+      const api = new FakeGitHubApi(provider);
+      try {
+        const prepare = await import("../../src/entrypoints/prepare");
+        await prepare.run();
+        const result: FlowResult = {
+          prepareExitCode: state.exitCodes.shift(),
+          claudeArgs: [],
+          outputs: readCommandFile(outputPath),
+          workspace: state.workspace,
+          origin,
+        };
+        const { outputs } = result;
+        if (result.prepareExitCode || outputs.contains_trigger !== "true") {
+          return result;
+        }
+
+        const exported = readCommandFile(envPath);
+        Object.assign(
+          result,
+          await runClaude(state, options, {
+            INPUT_ALLOWED_TOOLS: exported.ALLOWED_TOOLS ?? "",
+            INPUT_DISALLOWED_TOOLS: exported.DISALLOWED_TOOLS ?? "",
+          }),
+        );
+
+        if (outputs.claude_comment_id) {
+          Object.assign(process.env, {
+            CLAUDE_COMMENT_ID: outputs.claude_comment_id,
+            GITHUB_TOKEN: outputs.GITHUB_TOKEN ?? "",
+            BASE_BRANCH: outputs.BASE_BRANCH ?? "",
+            CLAUDE_SUCCESS: String(result.claudeExitCode === 0),
+            TRIGGER_USERNAME: provider.getContext().actor,
+            OUTPUT_FILE: join(state.runnerTemp, "claude-execution-output.json"),
+          });
+          if (outputs.CLAUDE_BRANCH) {
+            process.env.CLAUDE_BRANCH = outputs.CLAUDE_BRANCH;
+          }
+          const update = await import(
+            "../../src/entrypoints/update-comment-link"
+          );
+          await update.run();
+          result.updateExitCode = state.exitCodes.shift();
+        }
+        return result;
+      } finally {
+        api.spy.mockRestore();
+        Object.assign(github.context, savedContext);
+      }
+    },
+    createPlatformProvider,
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * Stand-in for the global fetch in tests of the fetch-based REST clients
+ *
+ * Answers requests from canned responses keyed by `<METHOD> <url>`, with a
+ * 404 for anything else, and records every request so tests can assert on
+ * what was sent.
+ */
+
+import { spyOn } from "bun:test";
+
+export type RecordedRequest = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  // Parsed from JSON, or as sent for other bodies such as FormData
+  body?: unknown;
+};
+
+const { preconnect } = fetch;
+
+export type CannedResponse = () => Response;
+
+export function json(body: unknown, status = 200): CannedResponse {
+  return () => new Response(JSON.stringify(body), { status });
+}
+
+export class FakeFetch {
+  readonly requests: RecordedRequest[] = [];
+  readonly responses: Record<string, CannedResponse> = {};
+  readonly spy = spyOn(globalThis, "fetch");
+
+  /**
+   * Replaces the global fetch until `mock.restore()` is called
+   * @param normalizeUrl Applied to request URLs before they are recorded and
+   * matched, e.g. to drop a query parameter sent with every request
+   */
+  constructor(normalizeUrl: (url: string) => string = (url) => url) {
+    const fakeFetch = async (
+      input: string | URL | Request,
+      init: RequestInit = {},
+    ): Promise<Response> => {
+      const method = init.method || "GET";
+      const url = normalizeUrl(
+        input instanceof Request ? input.url : input.toString(),
+      );
+      this.requests.push({
+        url,
+        method,
+        headers: init.headers as Record<string, string>,
+        body: typeof init.body === "string" ? JSON.parse(init.body) : init.body,
+      });
+      const respond = this.responses[`${method} ${url}`];
+      return respond
+        ? respond()
+        : new Response("Not found", { status: 404, statusText: "Not Found" });
+    };
+    this.spy.mockImplementation(Object.assign(fakeFetch, { preconnect }));
+  }
+}
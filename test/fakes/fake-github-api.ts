@@ -0,0 +1,252 @@
+/**
+ * GitHub's REST and GraphQL APIs answered from a FakeProvider
+ *
+ * Stands in for the global fetch so a real GitHubProvider can run a trigger
+ * flow offline: the requests it makes read and write the fake's comments,
+ * branches and pull request or issue. Anything else gets a 404.
+ */
+
+import { spyOn } from "bun:test";
+import {
+  ISSUE_QUERY,
+  PR_QUERY,
+  USER_QUERY,
+} from "../../src/github/api/queries/github";
+import type { CommentInfo } from "../../src/providers/scm-provider";
+import type { FakeProvider } from "./fake-provider";
+
+export type GitHubApiRequest = {
+  method: string;
+  path: string;
+  body?: any;
+};
+
+type Handler = (params: string[], body: any) => Promise<unknown>;
+
+const { preconnect } = fetch;
+
+// Tracking comments are posted by the GitHub App
+const BOT_USER_ID = 209825114;
+
+class NotFoundError extends Error {}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function toCommentNode(comment: CommentInfo) {
+  return {
+    id: `IC_${comment.id}`,
+    databaseId: comment.id,
+    body: comment.body,
+    author: { login: comment.author },
+    createdAt: comment.createdAt,
+  };
+}
+
+export class FakeGitHubApi {
+  readonly requests: GitHubApiRequest[] = [];
+  readonly spy = spyOn(globalThis, "fetch");
+
+  private routes: Array<[string, RegExp, Handler]> = [
+    [
+      "GET",
+      /^\/repos\/[^/]+\/[^/]+\/collaborators\/([^/]+)\/permission$/,
+      async ([username]) => ({
+        permission: (await this.provider.hasWritePermission(username!))
+          ? "write"
+          : "read",
+      }),
+    ],
+    [
+      "GET",
+      /^\/users\/([^/]+)$/,
+      async ([username]) => ({
+        login: username,
+        type: (await this.provider.isHumanActor(username!)) ? "User" : "Bot",
+      }),
+    ],
+    [
+      "GET",
+      /^\/repos\/[^/]+\/[^/]+$/,
+      async () => ({
+        default_branch: (await this.provider.getRepoInfo()).defaultBranch,
+      }),
+    ],
+    [
+      "GET",
+      /^\/repos\/[^/]+\/[^/]+\/branches\/(.+)$/,
+      async ([name]) => {
+        const branch = await this.provider.getBranch(name!);
+        if (!branch) {
+          throw new NotFoundError();
+        }
+        return { name, commit: { sha: branch.sha } };
+      },
+    ],
+    [
+      "GET",
+      /^\/repos\/[^/]+\/[^/]+\/git\/ref\/heads\/(.+)$/,
+      async ([name]) => {
+        const branch = await this.provider.getBranch(name!);
+        if (!branch) {
+          throw new NotFoundError();
+        }
+        return { ref: `refs/heads/${name}`, object: { sha: branch.sha } };
+      },
+    ],
+    [
+      "POST",
+      /^\/repos\/[^/]+\/[^/]+\/issues\/\d+\/comments$/,
+      async (_, body) =>
+        this.toComment(await this.provider.createComment(body.body)),
+    ],
+    [
+      "GET",
+      /^\/repos\/[^/]+\/[^/]+\/issues\/comments\/(\d+)$/,
+      async ([id]) => this.toComment(Number(id)),
+    ],
+    [
+      "PATCH",
+      /^\/repos\/[^/]+\/[^/]+\/issues\/comments\/(\d+)$/,
+      async ([id], body) => {
+        await this.provider.updateComment(Number(id), body.body);
+        return this.toComment(Number(id));
+      },
+    ],
+    ["POST", /^(?:\/api)?\/graphql$/, (_, body) => this.graphql(body)],
+  ];
+
+  constructor(private provider: FakeProvider) {
+    const fakeFetch = async (
+      input: string | URL | Request,
+      init: RequestInit = {},
+    ): Promise<Response> => {
+      const method = init.method || "GET";
+      const url = new URL(input instanceof Request ? input.url : input);
+      const body =
+        typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+      this.requests.push({ method, path: url.pathname, body });
+
+      for (const [routeMethod, pattern, handle] of this.routes) {
+        const match = url.pathname.match(pattern);
+        if (routeMethod !== method || !match) {
+          continue;
+        }
+        try {
+          return jsonResponse(
+            await handle(match.slice(1).map(decodeURIComponent), body),
+          );
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            break;
+          }
+          throw error;
+        }
+      }
+      return jsonResponse({ message: "Not Found" }, 404);
+    };
+    this.spy.mockImplementation(Object.assign(fakeFetch, { preconnect }));
+  }
+
+  private async toComment(id: number) {
+    const comment = (await this.provider.getComments()).find(
+      (item) => item.id === id,
+    );
+    if (!comment) {
+      throw new NotFoundError();
+    }
+    return {
+      id: comment.id,
+      body: comment.body,
+      user: { login: comment.author, id: BOT_USER_ID, type: "Bot" },
+      created_at: comment.createdAt,
+    };
+  }
+
+  /**
+   * Answers the queries in src/github/api/queries/github.ts
+   */
+  private async graphql(body: { query: string; variables: any }) {
+    const data = await this.provider.fetchContextData();
+    const comments = { nodes: data.comments?.map(toCommentNode) };
+
+    switch (body.query) {
+      case PR_QUERY: {
+        const commit = this.provider.commits.get(data.headSha)!;
+        return {
+          data: {
+            repository: {
+              pullRequest: {
+                title: data.title,
+                body: data.body,
+                author: { login: data.author },
+                baseRefName: data.baseBranch,
+                headRefName: data.headBranch,
+                headRefOid: data.headSha,
+                createdAt: "2024-01-01T00:00:00Z",
+                additions: data.changes.reduce(
+                  (sum: number, file: any) => sum + file.additions,
+                  0,
+                ),
+                deletions: data.changes.reduce(
+                  (sum: number, file: any) => sum + file.deletions,
+                  0,
+                ),
+                state: "OPEN",
+                commits: {
+                  totalCount: 1,
+                  nodes: [
+                    {
+                      commit: {
+                        oid: commit.sha,
+                        message: commit.message,
+                        author: { name: data.author, email: "" },
+                      },
+                    },
+                  ],
+                },
+                files: {
+                  nodes: data.changes.map((file: any) => ({
+                    path: file.path,
+                    additions: file.additions,
+                    deletions: file.deletions,
+                    changeType: !file.deletions
+                      ? "ADDED"
+                      : !file.additions
+                        ? "DELETED"
+                        : "MODIFIED",
+                  })),
+                },
+                comments,
+                reviews: { nodes: [] },
+              },
+            },
+          },
+        };
+      }
+      case ISSUE_QUERY:
+        return {
+          data: {
+            repository: {
+              issue: {
+                title: data.title,
+                body: data.body,
+                author: { login: data.author },
+                createdAt: "2024-01-01T00:00:00Z",
+                state: "OPEN",
+                comments,
+              },
+            },
+          },
+        };
+      case USER_QUERY:
+        return { data: { user: { name: body.variables.login } } };
+      default:
+        throw new Error(`Unexpected GraphQL query: ${body.query}`);
+    }
+  }
+}
@@ -0,0 +1,517 @@
+/**
+ * In-memory SCMProvider for tests
+ *
+ * Keeps comments, branches, commits, the pull request or issue and review
+ * discussions as plain state, so whole trigger flows can run against it
+ * offline and tests can assert on what the flow left behind.
+ */
+
+import { createHash } from "crypto";
+import type {
+  SCMProvider,
+  SCMContext,
+  RepoInfo,
+  PullRequestInfo,
+  CommentInfo,
+  FileChange,
+  BranchInfo,
+  ReviewSubmission,
+} from "../../src/providers/scm-provider";
+import { escapeRegExp } from "../../src/gitlab/validation/trigger";
+import type { GitLabPipelineSummary } from "../../src/gitlab/pipelines";
+
+export type FakePlatform = SCMContext["platform"];
+
+export type FakeCommit = {
+  sha: string;
+  parent?: string;
+  message: string;
+  files: Record<string, string>; // Full snapshot of the tree
+};
+
+export type FakeDiscussion = {
+  id: number;
+  path?: string;
+  line?: number;
+  startLine?: number;
+  side?: "LEFT" | "RIGHT";
+  body: string;
+  author: string;
+};
+
+export type FakePullRequestOptions = {
+  number: number;
+  title?: string;
+  body?: string;
+  author?: string;
+  headBranch: string;
+  baseBranch?: string;
+  isDraft?: boolean;
+  files: Record<string, string>; // Changes on the head branch
+};
+
+export type FakeIssueOptions = {
+  number: number;
+  title?: string;
+  body?: string;
+  author?: string;
+  labels?: string[];
+};
+
+export type FakeProviderOptions = {
+  platform?: FakePlatform;
+  owner?: string;
+  repo?: string;
+  actor?: string;
+  writers?: string[]; // Users with write access, the actor by default
+  bots?: string[];
+  defaultBranch?: string;
+  files?: Record<string, string>; // Tree of the default branch
+  pullRequest?: FakePullRequestOptions;
+  issue?: FakeIssueOptions;
+  pipeline?: GitLabPipelineSummary; // Latest pipeline of the pull request
+  triggerText?: string; // Comment or description the run was started with
+  triggerEvent?: string;
+  botName?: string;
+};
+
+const CREATED_AT = "2024-01-01T00:00:00Z";
+
+/**
+ * Whole-file unified diff between two versions of a file
+ */
+function diffFile(path: string, before?: string, after?: string): FileChange {
+  const oldLines = before === undefined ? [] : before.split("\n");
+  const newLines = after === undefined ? [] : after.split("\n");
+  const patch = [
+    `@@ -${oldLines.length ? 1 : 0},${oldLines.length} +${newLines.length ? 1 : 0},${newLines.length} @@`,
+    ...oldLines.map((line) => `-${line}`),
+    ...newLines.map((line) => `+${line}`),
+  ].join("\n");
+
+  return {
+    path,
+    additions: newLines.length,
+    deletions: oldLines.length,
+    changes: newLines.length + oldLines.length,
+    patch,
+  };
+}
+
+export class FakeProvider implements SCMProvider {
+  readonly comments: CommentInfo[] = [];
+  /** Every body each comment had, oldest first */
+  readonly commentHistory = new Map<number, string[]>();
+  readonly branches = new Map<string, string>();
+  readonly protectedBranches = new Set<string>();
+  readonly commits = new Map<string, FakeCommit>();
+  readonly discussions: FakeDiscussion[] = [];
+  readonly reviews: ReviewSubmission[] = [];
+  readonly gitAuthTokens: string[] = [];
+
+  private nextId = 1;
+  private options: Required<
+    Omit<
+      FakeProviderOptions,
+      "pullRequest" | "issue" | "pipeline" | "triggerText"
+    >
+  > &
+    Pick<
+      FakeProviderOptions,
+      "pullRequest" | "issue" | "pipeline" | "triggerText"
+    >;
+
+  constructor(options: FakeProviderOptions = {}) {
+    const actor = options.actor ?? "jdoe";
+    this.options = {
+      ...options,
+      platform: options.platform ?? "gitlab",
+      owner: options.owner ?? "acme",
+      repo: options.repo ?? "widgets",
+      actor,
+      writers: options.writers ?? [actor],
+      bots: options.bots ?? [],
+      defaultBranch: options.defaultBranch ?? "main",
+      files: options.files ?? {},
+      triggerEvent: options.triggerEvent ?? "note",
+      botName: options.botName ?? "claude[bot]",
+    };
+
+    const { defaultBranch, pullRequest } = this.options;
+    const root = this.commit(undefined, "Initial commit", this.options.files);
+    this.branches.set(defaultBranch, root);
+    this.protectedBranches.add(defaultBranch);
+
+    if (pullRequest) {
+      const baseBranch = pullRequest.baseBranch ?? defaultBranch;
+      if (!this.branches.has(baseBranch)) {
+        this.branches.set(baseBranch, root);
+      }
+      this.branches.set(
+        pullRequest.headBranch,
+        this.commit(root, pullRequest.title ?? "Changes", {
+          ...this.options.files,
+          ...pullRequest.files,
+        }),
+      );
+    }
+  }
+
+  private commit(
+    parent: string | undefined,
+    message: string,
+    files: Record<string, string>,
+  ): string {
+    const sha = createHash("sha1")
+      .update(`${parent ?? ""}\n${message}\n${JSON.stringify(files)}`)
+      .digest("hex");
+    this.commits.set(sha, { sha, parent, message, files: { ...files } });
+    return sha;
+  }
+
+  /**
+   * Resolves a branch name or commit SHA to its commit
+   */
+  private resolve(ref: string): FakeCommit {
+    const commit = this.commits.get(this.branches.get(ref) ?? ref);
+    if (!commit) {
+      throw new Error(`Unknown ref: ${ref}`);
+    }
+    return commit;
+  }
+
+  /** Comment or description the run was started with */
+  get triggerText(): string {
+    return this.options.triggerText ?? "";
+  }
+
+  /**
+   * Files at a branch or commit
+   */
+  tree(ref: string): Record<string, string> {
+    return { ...this.resolve(ref).files };
+  }
+
+  private requirePullRequest(): FakePullRequestOptions {
+    if (!this.options.pullRequest) {
+      throw new Error("Not in a pull request context");
+    }
+    return this.options.pullRequest;
+  }
+
+  private get entityNumber(): number {
+    return this.options.pullRequest?.number ?? this.options.issue?.number ?? 0;
+  }
+
+  getPlatform(): FakePlatform {
+    return this.options.platform;
+  }
+
+  async getRepoInfo(): Promise<RepoInfo> {
+    return {
+      owner: this.options.owner,
+      repo: this.options.repo,
+      defaultBranch: this.options.defaultBranch,
+    };
+  }
+
+  getContext(): SCMContext {
+    return {
+      platform: this.options.platform,
+      isPR: !!this.options.pullRequest,
+      entityNumber: this.entityNumber,
+      actor: this.options.actor,
+      runId: "1",
+      triggerEvent: this.options.triggerEvent,
+    };
+  }
+
+  async hasWritePermission(username: string): Promise<boolean> {
+    return this.options.writers.includes(username);
+  }
+
+  async isHumanActor(username: string): Promise<boolean> {
+    return !this.options.bots.includes(username);
+  }
+
+  async getPullRequestInfo(): Promise<PullRequestInfo> {
+    const pr = this.requirePullRequest();
+    const baseBranch = pr.baseBranch ?? this.options.defaultBranch;
+    return {
+      number: pr.number,
+      headSha: this.resolve(pr.headBranch).sha,
+      baseSha: this.resolve(baseBranch).sha,
+      headBranch: pr.headBranch,
+      baseBranch,
+      author: pr.author ?? this.options.actor,
+      title: pr.title ?? "Changes",
+      body: pr.body ?? "",
+      isDraft: pr.isDraft ?? false,
+      state: "open",
+    };
+  }
+
+  async getComments(): Promise<CommentInfo[]> {
+    return this.comments.map((comment) => ({ ...comment }));
+  }
+
+  async createComment(body: string): Promise<number> {
+    const id = this.nextId++;
+    this.comments.push({
+      id,
+      author: this.options.botName,
+      body,
+      createdAt: CREATED_AT,
+    });
+    this.commentHistory.set(id, [body]);
+    return id;
+  }
+
+  async createTrackingComment(): Promise<number> {
+    return this.createComment(
+      this.options.platform === "gitlab"
+        ? `🤖 Claude is working on this...\n\n[View job details](${this.getJobUrl()})\n\n---\n- [ ] Setting up workspace\n- [ ] Analyzing request\n- [ ] Implementing changes\n- [ ] Running tests`
+        : `Claude Code is working…\n\n[View job run](${this.getJobUrl()})`,
+    );
+  }
+
+  async updateComment(commentId: number, body: string): Promise<void> {
+    const comment = this.comments.find((c) => c.id === commentId);
+    if (!comment) {
+      throw new Error(`Comment ${commentId} not found`);
+    }
+    comment.body = body;
+    this.commentHistory.get(commentId)!.push(body);
+  }
+
+  async getDiff(): Promise<string> {
+    return (await this.getChangedFiles())
+      .map(
+        (file) =>
+          `diff --git a/${file.path} b/${file.path}\n--- a/${file.path}\n+++ b/${file.path}\n${file.patch}`,
+      )
+      .join("\n");
+  }
+
+  async getFileContent(path: string, ref: string): Promise<string> {
+    const content = this.resolve(ref).files[path];
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async getFilesContent(
+    paths: string[],
+    ref: string,
+  ): Promise<Record<string, string>> {
+    const files = this.resolve(ref).files;
+    return Object.fromEntries(
+      paths
+        .filter((path) => files[path] !== undefined)
+        .map((path) => [path, files[path]!]),
+    );
+  }
+
+  async getChangedFiles(): Promise<FileChange[]> {
+    const pr = await this.getPullRequestInfo();
+    const base = this.resolve(pr.baseSha).files;
+    const head = this.resolve(pr.headSha).files;
+
+    return [...new Set([...Object.keys(base), ...Object.keys(head)])]
+      .filter((path) => base[path] !== head[path])
+      .sort()
+      .map((path) => diffFile(path, base[path], head[path]));
+  }
+
+  async createBranch(name: string, baseSha: string): Promise<void> {
+    if (this.branches.has(name)) {
+      throw new Error(`Branch already exists: ${name}`);
+    }
+    this.branches.set(name, this.resolve(baseSha).sha);
+  }
+
+  async pushChanges(
+    branch: string,
+    message: string,
+    files: Record<string, string>,
+  ): Promise<string> {
+    const head = this.resolve(branch);
+    const sha = this.commit(head.sha, message, { ...head.files, ...files });
+    this.branches.set(branch, sha);
+    return sha;
+  }
+
+  async getBranch(name: string): Promise<BranchInfo | null> {
+    const sha = this.branches.get(name);
+    return sha
+      ? { name, sha, protected: this.protectedBranches.has(name) }
+      : null;
+  }
+
+  async setupGitAuth(token: string): Promise<void> {
+    this.gitAuthTokens.push(token);
+  }
+
+  async applySuggestions(
+    suggestions: Array<{
+      file: string;
+      line: number;
+      suggestion: string;
+      description?: string;
+    }>,
+  ): Promise<void> {
+    this.requirePullRequest();
+    for (const s of suggestions) {
+      this.discussions.push({
+        id: this.nextId++,
+        path: s.file,
+        line: s.line,
+        body: `${s.description || "Suggestion"}\n\n\`\`\`suggestion\n${s.suggestion}\n\`\`\``,
+        author: this.options.botName,
+      });
+    }
+  }
+
+  async submitReview(review: ReviewSubmission): Promise<void> {
+    this.requirePullRequest();
+    this.reviews.push(review);
+    for (const comment of review.comments) {
+      this.discussions.push({
+        id: this.nextId++,
+        path: comment.path,
+        line: comment.line,
+        startLine: comment.startLine,
+        side: comment.side,
+        body: comment.body,
+        author: this.options.botName,
+      });
+    }
+  }
+
+  async getPipelineSummary(): Promise<GitLabPipelineSummary | null> {
+    this.requirePullRequest();
+    return this.options.pipeline ?? null;
+  }
+
+  getJobUrl(): string {
+    return `https://ci.example.com/${this.options.owner}/${this.options.repo}/jobs/1`;
+  }
+
+  getBranchUrl(branch: string): string {
+    return `https://scm.example.com/${this.options.owner}/${this.options.repo}/tree/${branch}`;
+  }
+
+  getCompareUrl(baseBranch: string, branch: string): string {
+    return `https://scm.example.com/${this.options.owner}/${this.options.repo}/compare/${baseBranch}...${branch}`;
+  }
+
+  async checkTrigger(
+    triggerPhrase: string,
+    directPrompt?: string,
+  ): Promise<boolean> {
+    if (directPrompt) {
+      return true;
+    }
+    return new RegExp(
+      `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
+      "i",
+    ).test(this.options.triggerText ?? "");
+  }
+
+  /**
+   * Context in the shape the platform's own provider returns, since the
+   * prompts are built from it
+   */
+  async fetchContextData(): Promise<any> {
+    const { owner, repo, pullRequest, issue } = this.options;
+    const webUrl = `https://scm.example.com/${owner}/${repo}/${pullRequest ? "pulls" : "issues"}/${this.entityNumber}`;
+
+    if (this.options.platform === "gitlab") {
+      const author = (username: string) => ({ username, name: username });
+      const discussions = this.comments.map((comment) => ({
+        id: `discussion-${comment.id}`,
+        notes: [
+          {
+            id: comment.id,
+            body: comment.body,
+            author: author(comment.author),
+            created_at: comment.createdAt,
+          },
+        ],
+      }));
+
+      if (pullRequest) {
+        const pr = await this.getPullRequestInfo();
+        return {
+          iid: pr.number,
+          title: pr.title,
+          description: pr.body,
+          state: "opened",
+          sourceBranch: pr.headBranch,
+          targetBranch: pr.baseBranch,
+          author: author(pr.author),
+          changes: (await this.getChangedFiles()).map((file) => ({
+            old_path: file.path,
+            new_path: file.path,
+            new_file: file.deletions === 0,
+            renamed_file: false,
+            deleted_file: file.additions === 0,
+            diff: file.patch,
+          })),
+          discussions,
+          diffRefs: {
+            base_sha: pr.baseSha,
+            head_sha: pr.headSha,
+            start_sha: pr.baseSha,
+          },
+          projectId: `${owner}/${repo}`,
+          webUrl,
+        };
+      }
+
+      if (issue) {
+        return {
+          iid: issue.number,
+          title: issue.title ?? "Issue",
+          description: issue.body ?? "",
+          state: "opened",
+          author: author(issue.author ?? this.options.actor),
+          labels: issue.labels ?? [],
+          discussions,
+          projectId: `${owner}/${repo}`,
+          webUrl,
+        };
+      }
+
+      return { projectId: `${owner}/${repo}`, host: "https://scm.example.com" };
+    }
+
+    const repository = { owner, repo, serverUrl: "https://scm.example.com" };
+    if (pullRequest) {
+      return {
+        ...repository,
+        ...(await this.getPullRequestInfo()),
+        webUrl,
+        comments: await this.getComments(),
+        changes: await this.getChangedFiles(),
+      };
+    }
+
+    if (issue) {
+      return {
+        ...repository,
+        number: issue.number,
+        title: issue.title ?? "Issue",
+        body: issue.body ?? "",
+        state: "open",
+        author: issue.author ?? this.options.actor,
+        labels: issue.labels ?? [],
+        webUrl,
+        comments: await this.getComments(),
+      };
+    }
+
+    return repository;
+  }
+}
@@ -0,0 +1,186 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getEventCommentText,
+  getEventEntity,
+  isGiteaActions,
+  parseGiteaContext,
+  parseGiteaEventPayload,
+} from "../../src/gitea/context";
+
+describe("parseGiteaContext", () => {
+  const originalEnv = process.env;
+  let eventDir: string;
+
+  function writeEvent(payload: unknown): void {
+    const eventPath = join(eventDir, "event.json");
+    writeFileSync(eventPath, JSON.stringify(payload));
+    process.env.GITHUB_EVENT_PATH = eventPath;
+  }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("GITHUB_") || key.startsWith("GITEA_")) {
+        delete process.env[key];
+      }
+    }
+    eventDir = mkdtempSync(join(tmpdir(), "gitea-context-"));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(eventDir, { recursive: true, force: true });
+  });
+
+  test("parses context from runner variables and the event file", () => {
+    process.env.GITHUB_SERVER_URL = "https://git.example.com/";
+    process.env.GITHUB_REPOSITORY = "acme/widgets";
+    process.env.GITHUB_RUN_ID = "1234";
+    process.env.GITHUB_RUN_NUMBER = "56";
+    process.env.GITHUB_ACTOR = "jdoe";
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    writeEvent({
+      action: "created",
+      issue: { number: 7, pull_request: { merged: false } },
+      comment: { id: 99, body: "@claude help" },
+    });
+
+    expect(parseGiteaContext()).toEqual({
+      serverUrl: "https://git.example.com",
+      apiUrl: "https://git.example.com/api/v1",
+      owner: "acme",
+      repo: "widgets",
+      entityNumber: 7,
+      isPR: true,
+      runId: "1234",
+      runNumber: "56",
+      actor: "jdoe",
+      eventName: "issue_comment",
+    });
+  });
+
+  test("treats issues without pull_request as issues", () => {
+    process.env.GITHUB_SERVER_URL = "https://git.example.com";
+    process.env.GITHUB_REPOSITORY = "acme/widgets";
+    writeEvent({
+      action: "opened",
+      issue: { number: 3, pull_request: null },
+      sender: { login: "jdoe" },
+    });
+
+    const context = parseGiteaContext();
+
+    expect(context.entityNumber).toBe(3);
+    expect(context.isPR).toBe(false);
+    expect(context.actor).toBe("jdoe");
+  });
+
+  test("falls back to the GITEA_ variables", () => {
+    process.env.GITEA_SERVER_URL = "https://forgejo.example.com";
+    process.env.GITEA_REPOSITORY = "acme/widgets";
+
+    const context = parseGiteaContext();
+
+    expect(context.serverUrl).toBe("https://forgejo.example.com");
+    expect(context.owner).toBe("acme");
+    expect(context.entityNumber).toBeUndefined();
+  });
+
+  test("prefers explicit options", () => {
+    process.env.GITHUB_SERVER_URL = "https://git.example.com";
+    process.env.GITHUB_REPOSITORY = "acme/widgets";
+
+    const context = parseGiteaContext({
+      owner: "other",
+      repo: "repo",
+      entityNumber: 5,
+      isPR: true,
+    });
+
+    expect(context).toMatchObject({
+      owner: "other",
+      repo: "repo",
+      entityNumber: 5,
+      isPR: true,
+    });
+  });
+
+  test("throws without a repository", () => {
+    process.env.GITHUB_SERVER_URL = "https://git.example.com";
+
+    expect(() => parseGiteaContext()).toThrow(
+      "Gitea repository must be in format owner/repo",
+    );
+  });
+
+  test("throws without a server URL", () => {
+    process.env.GITHUB_REPOSITORY = "acme/widgets";
+
+    expect(() => parseGiteaContext()).toThrow(
+      "Gitea server URL is required (GITHUB_SERVER_URL)",
+    );
+  });
+});
+
+describe("isGiteaActions", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GITEA_ACTIONS;
+    delete process.env.FORGEJO_ACTIONS;
+    delete process.env.GITEA_ACTIONS_RUNNER_VERSION;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test("detects Gitea and Forgejo runners", () => {
+    expect(isGiteaActions()).toBe(false);
+
+    process.env.GITEA_ACTIONS_RUNNER_VERSION = "v0.2.11";
+    expect(isGiteaActions()).toBe(true);
+
+    delete process.env.GITEA_ACTIONS_RUNNER_VERSION;
+    process.env.FORGEJO_ACTIONS = "true";
+    expect(isGiteaActions()).toBe(true);
+  });
+});
+
+describe("event payload helpers", () => {
+  test("parseGiteaEventPayload returns null without an event file", () => {
+    const eventPath = process.env.GITHUB_EVENT_PATH;
+    delete process.env.GITHUB_EVENT_PATH;
+
+    expect(parseGiteaEventPayload()).toBeNull();
+
+    if (eventPath !== undefined) {
+      process.env.GITHUB_EVENT_PATH = eventPath;
+    }
+  });
+
+  test("getEventCommentText reads comments and reviews", () => {
+    expect(
+      getEventCommentText({ comment: { id: 1, body: "@claude hi" } }),
+    ).toBe("@claude hi");
+    expect(getEventCommentText({ review: { body: "@claude fix" } })).toBe(
+      "@claude fix",
+    );
+    expect(getEventCommentText({ issue: { number: 1 } })).toBeUndefined();
+  });
+
+  test("getEventEntity prefers the pull request", () => {
+    expect(
+      getEventEntity({
+        issue: { number: 1 },
+        pull_request: { number: 2, title: "PR" },
+      }),
+    ).toEqual({ number: 2, title: "PR" });
+    expect(getEventEntity({ issue: { number: 1 } })).toEqual({ number: 1 });
+    expect(getEventEntity(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from "bun:test";
+import {
+  checkGiteaTriggerAction,
+  parseTriggerCommand,
+} from "../../src/gitea/validation/trigger";
+
+describe("checkGiteaTriggerAction", () => {
+  test("returns true when directPrompt is provided", async () => {
+    const result = await checkGiteaTriggerAction({
+      payload: null,
+      triggerPhrase: "@claude",
+      directPrompt: "Fix the bug in auth module",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("returns false without a payload", async () => {
+    const result = await checkGiteaTriggerAction({
+      payload: null,
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+
+  test("triggers on comment containing trigger phrase", async () => {
+    const result = await checkGiteaTriggerAction({
+      payload: {
+        action: "created",
+        issue: { number: 3, title: "Broken login" },
+        comment: { id: 9, body: "Can you take a look, @claude?" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("only checks the comment for comment events", async () => {
+    const result = await checkGiteaTriggerAction({
+      payload: {
+        action: "created",
+        issue: { number: 3, title: "@claude fix this" },
+        comment: { id: 9, body: "Thanks!" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+
+  test("triggers on review body containing trigger phrase", async () => {
+    const result = await checkGiteaTriggerAction({
+      payload: {
+        pull_request: { number: 4 },
+        review: { body: "@claude address these comments" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(true);
+  });
+
+  test("triggers on issue body or title containing trigger phrase", async () => {
+    const fromBody = await checkGiteaTriggerAction({
+      payload: {
+        action: "opened",
+        issue: { number: 3, title: "Broken login", body: "@claude fix it" },
+      },
+      triggerPhrase: "@claude",
+    });
+    const fromTitle = await checkGiteaTriggerAction({
+      payload: {
+        action: "opened",
+        pull_request: { number: 4, title: "@claude: add tests" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(fromBody).toBe(true);
+    expect(fromTitle).toBe(true);
+  });
+
+  test("does not match the trigger phrase inside other words", async () => {
+    const result = await checkGiteaTriggerAction({
+      payload: {
+        issue: { number: 3 },
+        comment: { id: 9, body: "email me at dev@claude.example" },
+      },
+      triggerPhrase: "@claude",
+    });
+
+    expect(result).toBe(false);
+  });
+});
+
+describe("parseTriggerCommand", () => {
+  test("parses a slash command from the comment", () => {
+    const command = parseTriggerCommand(
+      {
+        issue: { number: 3 },
+        comment: { id: 9, body: "@claude /review focus on security" },
+      },
+      "@claude",
+    );
+
+    expect(command).toMatchObject({ name: "review" });
+  });
+
+  test("returns null without a slash command", () => {
+    expect(
+      parseTriggerCommand(
+        { issue: { number: 3 }, comment: { id: 9, body: "@claude hi" } },
+        "@claude",
+      ),
+    ).toBeNull();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from "bun:test";
 import {
   parseMultilineInput,
   parseAdditionalPermissions,
+  getDispatchTarget,
 } from "../../src/github/context";
 
 describe("parseMultilineInput", () => {
@@ -113,3 +114,32 @@ packages: write`;
     expect(result.size).toBe(1);
   });
 });
+
+describe("getDispatchTarget", () => {
+  it("should route to a pull request when pr_number is set", () => {
+    expect(getDispatchTarget({ pr_number: 12, issue_number: 3 })).toEqual({
+      entityNumber: 12,
+      isPR: true,
+    });
+  });
+
+  it("should route to an issue when issue_number is set", () => {
+    // workflow_dispatch inputs are always strings
+    expect(getDispatchTarget({ issue_number: "34" })).toEqual({
+      entityNumber: 34,
+      isPR: false,
+    });
+  });
+
+  it("should return no target for missing or invalid numbers", () => {
+    expect(getDispatchTarget(null)).toEqual({ entityNumber: 0, isPR: false });
+    expect(getDispatchTarget({ pr_number: "" })).toEqual({
+      entityNumber: 0,
+      isPR: false,
+    });
+    expect(getDispatchTarget({ issue_number: "abc" })).toEqual({
+      entityNumber: 0,
+      isPR: false,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import {
+  prepareGitLabMcpConfig,
+  type GitLabMcpConfigParams,
+} from "../../src/gitlab/mcp-config";
+
+const baseParams: GitLabMcpConfigParams = {
+  token: "glpat-test",
+  projectId: "42",
+  host: "https://gitlab.example.com",
+  mrIid: "7",
+  commentId: "1001",
+  branch: "feature/math",
+  baseBranch: "main",
+  repoDir: "/builds/acme/widgets",
+  isReviewMode: false,
+  triageCapabilities: [],
+};
+
+function parse(params: GitLabMcpConfigParams) {
+  const { mcpConfig, allowedTools } = prepareGitLabMcpConfig(params);
+  return { servers: JSON.parse(mcpConfig).mcpServers, allowedTools };
+}
+
+describe("prepareGitLabMcpConfig", () => {
+  test("installs the comment, file ops and CI servers", () => {
+    const { servers, allowedTools } = parse(baseParams);
+
+    expect(Object.keys(servers).sort()).toEqual([
+      "gitlab_ci",
+      "gitlab_comment",
+      "gitlab_file_ops",
+    ]);
+    expect(servers.gitlab_comment.env).toMatchObject({
+      GITLAB_TOKEN: "glpat-test",
+      CI_PROJECT_ID: "42",
+      CI_SERVER_URL: "https://gitlab.example.com",
+      MR_IID: "7",
+      CLAUDE_COMMENT_ID: "1001",
+    });
+    expect(servers.gitlab_file_ops.env).toMatchObject({
+      BRANCH_NAME: "feature/math",
+      BASE_BRANCH: "main",
+      REPO_DIR: "/builds/acme/widgets",
+    });
+    expect(servers.gitlab_file_ops.args[1]).toEndWith(
+      "src/mcp/gitlab-file-ops-server.ts",
+    );
+    expect(allowedTools).toEqual([
+      "mcp__gitlab_comment__update_claude_comment",
+      "mcp__gitlab_file_ops__commit_files",
+      "mcp__gitlab_file_ops__delete_files",
+      "mcp__gitlab_file_ops__move_files",
+      "mcp__gitlab_ci__get_ci_status",
+      "mcp__gitlab_ci__get_pipeline_details",
+      "mcp__gitlab_ci__download_job_log",
+      "mcp__gitlab_ci__get_test_report",
+    ]);
+  });
+
+  test("targets the issue note outside a merge request", () => {
+    const { servers } = parse({
+      ...baseParams,
+      mrIid: undefined,
+      issueIid: "12",
+    });
+
+    expect(servers.gitlab_comment.env.ISSUE_IID).toBe("12");
+    expect(servers.gitlab_comment.env.MR_IID).toBeUndefined();
+    expect(servers.gitlab_ci.env.BRANCH_NAME).toBe("feature/math");
+  });
+
+  test("skips the comment server without a tracking comment", () => {
+    const { servers, allowedTools } = parse({
+      ...baseParams,
+      commentId: undefined,
+    });
+
+    expect(servers.gitlab_comment).toBeUndefined();
+    expect(allowedTools).not.toContain(
+      "mcp__gitlab_comment__update_claude_comment",
+    );
+  });
+
+  test("review mode gets the review and CI servers only", () => {
+    const { servers, allowedTools } = parse({
+      ...baseParams,
+      isReviewMode: true,
+      triageCapabilities: ["labels"],
+    });
+
+    expect(Object.keys(servers).sort()).toEqual(["gitlab_ci", "gitlab_review"]);
+    expect(allowedTools).not.toContain("mcp__gitlab_file_ops__commit_files");
+  });
+
+  test("adds the triage server for granted capabilities", () => {
+    const { servers, allowedTools } = parse({
+      ...baseParams,
+      triageCapabilities: ["labels", "reviewers"],
+    });
+
+    expect(servers.scm_triage.env).toMatchObject({
+      SCM_PLATFORM: "gitlab",
+      SCM_TOKEN: "glpat-test",
+      TRIAGE_CAPABILITIES: "labels,reviewers",
+      MR_IID: "7",
+    });
+    expect(allowedTools).toContain("mcp__scm_triage__request_reviewers");
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, test, expect, mock } from "bun:test";
+import { GitbeakerRequestError, GitbeakerTimeoutError } from "@gitbeaker/rest";
+import {
+  fetchLatestPipelineSummary,
+  formatPipelineSummary,
+  getFailedTestCases,
+  isGitLabApiError,
+  stripAnsi,
+  type GitLabPipelineSummary,
+} from "../../src/gitlab/pipelines";
+import type { GitLabTestReport } from "../../src/types/gitbeaker";
+
+const testReport: GitLabTestReport = {
+  total_count: 4,
+  success_count: 2,
+  failed_count: 1,
+  skipped_count: 0,
+  error_count: 1,
+  test_suites: [
+    {
+      name: "rspec",
+      total_count: 4,
+      success_count: 2,
+      failed_count: 1,
+      skipped_count: 0,
+      error_count: 1,
+      test_cases: [
+        {
+          status: "success",
+          name: "creates a user",
+          classname: "UserSpec",
+          execution_time: 0.1,
+        },
+        {
+          status: "failed",
+          name: "rejects a blank email",
+          classname: "UserSpec",
+          file: "spec/user_spec.rb",
+          execution_time: 0.2,
+          system_output: "expected false, got true",
+          stack_trace: "spec/user_spec.rb:12",
+        },
+        {
+          status: "error",
+          name: "connects",
+          classname: "DbSpec",
+          execution_time: 0,
+          system_output: null,
+        },
+        {
+          status: "success",
+          name: "disconnects",
+          classname: "DbSpec",
+          execution_time: 0.1,
+        },
+      ],
+    },
+  ],
+};
+
+describe("stripAnsi", () => {
+  test("removes color codes", () => {
+    expect(stripAnsi("\x1b[32;1mPASS\x1b[0;m done")).toBe("PASS done");
+  });
+
+  test("removes GitLab section markers", () => {
+    const trace =
+      "\x1b[0Ksection_start:1700000000:step_script[collapsed=true]\r\x1b[0K\x1b[0K\x1b[36;1mExecuting step\x1b[0;m\r\n" +
+      "npm test\r\n" +
+      "\x1b[0Ksection_end:1700000010:step_script\r\x1b[0K";
+
+    expect(stripAnsi(trace)).toBe("Executing step\nnpm test\n");
+  });
+});
+
+describe("getFailedTestCases", () => {
+  test("returns failed and errored cases with their suite", () => {
+    expect(getFailedTestCases(testReport)).toEqual([
+      {
+        suite: "rspec",
+        name: "rejects a blank email",
+        classname: "UserSpec",
+        status: "failed",
+        file: "spec/user_spec.rb",
+        output: "expected false, got true",
+        stackTrace: "spec/user_spec.rb:12",
+      },
+      {
+        suite: "rspec",
+        name: "connects",
+        classname: "DbSpec",
+        status: "error",
+      },
+    ]);
+  });
+});
+
+describe("fetchLatestPipelineSummary", () => {
+  function createApi(pipelines: unknown[], report: Promise<unknown>) {
+    return {
+      MergeRequests: { allPipelines: mock(async () => pipelines) },
+      Jobs: {
+        all: mock(async () => [
+          {
+            id: 11,
+            name: "test",
+            stage: "test",
+            status: "failed",
+            allow_failure: false,
+            failure_reason: "script_failure",
+            web_url: "https://gitlab.com/jobs/11",
+          },
+          {
+            id: 12,
+            name: "lint",
+            stage: "test",
+            status: "failed",
+            allow_failure: true,
+            web_url: "https://gitlab.com/jobs/12",
+          },
+        ]),
+      },
+      Pipelines: { showTestReport: mock(() => report) },
+    };
+  }
+
+  test("summarizes the newest pipeline", async () => {
+    const api = createApi(
+      [
+        {
+          id: 2,
+          status: "failed",
+          ref: "feature",
+          sha: "abcdef1234567890",
+          web_url: "https://gitlab.com/pipelines/2",
+        },
+        { id: 1, status: "success", ref: "feature", sha: "0", web_url: "" },
+      ],
+      Promise.resolve(testReport),
+    );
+
+    const summary = await fetchLatestPipelineSummary(api as any, "123", 5);
+
+    expect(api.Jobs.all).toHaveBeenCalledWith("123", {
+      pipelineId: 2,
+      scope: "failed",
+    });
+    expect(summary?.id).toBe(2);
+    expect(summary?.failedJobs).toEqual([
+      {
+        id: 11,
+        name: "test",
+        stage: "test",
+        failureReason: "script_failure",
+        webUrl: "https://gitlab.com/jobs/11",
+      },
+    ]);
+    expect(summary?.tests?.failed).toBe(1);
+    expect(summary?.tests?.failedTests).toHaveLength(2);
+  });
+
+  test("returns null without pipelines", async () => {
+    const api = createApi([], Promise.resolve(testReport));
+
+    expect(await fetchLatestPipelineSummary(api as any, "123", 5)).toBeNull();
+  });
+
+  test("leaves out the test report when it cannot be fetched", async () => {
+    const api = createApi(
+      [{ id: 2, status: "failed", ref: "feature", sha: "abc", web_url: "" }],
+      Promise.reject(new Error("404 Not Found")),
+    );
+
+    const summary = await fetchLatestPipelineSummary(api as any, "123", 5);
+
+    expect(summary?.tests).toBeNull();
+    expect(summary?.failedJobs).toHaveLength(1);
+  });
+});
+
+describe("formatPipelineSummary", () => {
+  test("lists failed jobs and tests", () => {
+    const summary: GitLabPipelineSummary = {
+      id: 2,
+      status: "failed",
+      ref: "feature",
+      sha: "abcdef1234567890",
+      webUrl: "https://gitlab.com/pipelines/2",
+      failedJobs: [
+        {
+          id: 11,
+          name: "test",
+          stage: "test",
+          failureReason: "script_failure",
+          webUrl: "https://gitlab.com/jobs/11",
+        },
+      ],
+      tests: {
+        total: 4,
+        failed: 1,
+        errors: 1,
+        skipped: 0,
+        failedTests: getFailedTestCases(testReport),
+      },
+    };
+
+    const formatted = formatPipelineSummary(summary);
+
+    expect(formatted).toContain(
+      "**Latest Pipeline:** [#2](https://gitlab.com/pipelines/2) — failed",
+    );
+    expect(formatted).toContain("commit `abcdef12`");
+    expect(formatted).toContain(
+      "- `test` (stage: test, job ID: 11) — script_failure",
+    );
+    expect(formatted).toContain(
+      "**Test Report:** 4 tests, 1 failed, 1 errors, 0 skipped",
+    );
+    expect(formatted).toContain(
+      "- failed: `UserSpec.rejects a blank email` (spec/user_spec.rb)",
+    );
+    expect(formatted).toContain("get_test_report");
+  });
+
+  test("omits the investigation hint for a passing pipeline", () => {
+    const formatted = formatPipelineSummary({
+      id: 3,
+      status: "success",
+      ref: "feature",
+      sha: "abcdef1234567890",
+      webUrl: "https://gitlab.com/pipelines/3",
+      failedJobs: [],
+      tests: null,
+    });
+
+    expect(formatted).toContain("— success");
+    expect(formatted).not.toContain("Failed Jobs");
+    expect(formatted).not.toContain("download_job_log");
+  });
+
+  test("reports a merge request without pipelines", () => {
+    expect(formatPipelineSummary(null)).toBe(
+      "No pipelines have run for this merge request.",
+    );
+  });
+});
+
+describe("isGitLabApiError", () => {
+  test("matches errors from GitLab requests only", () => {
+    expect(isGitLabApiError(new GitbeakerRequestError("Forbidden"))).toBe(true);
+    expect(isGitLabApiError(new GitbeakerTimeoutError("Timed out"))).toBe(true);
+    expect(
+      isGitLabApiError(new TypeError("summary.failedJobs is undefined")),
+    ).toBe(false);
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, test, expect } from "bun:test";
-import { checkGitLabTriggerAction } from "../../src/gitlab/validation/trigger";
+import {
+  checkContainsReviewTrigger,
+  checkGitLabTriggerAction,
+  parseTriggerCommand,
+} from "../../src/gitlab/validation/trigger";
 
 describe("checkGitLabTriggerAction", () => {
   describe("Direct prompt mode", () => {
@@ -436,3 +440,85 @@ Thanks!`,
     });
   });
 });
+
+describe("checkContainsReviewTrigger", () => {
+  test("triggers on opened and updated merge requests", () => {
+    for (const action of ["open", "reopen", "update"]) {
+      expect(
+        checkContainsReviewTrigger({
+          object_kind: "merge_request",
+          object_attributes: { action },
+        }),
+      ).toBe(true);
+    }
+  });
+
+  test("triggers on merge request pipelines", () => {
+    expect(checkContainsReviewTrigger(null, "merge_request_event")).toBe(true);
+  });
+
+  test("does not trigger on other events", () => {
+    expect(
+      checkContainsReviewTrigger({
+        object_kind: "merge_request",
+        object_attributes: { action: "close" },
+      }),
+    ).toBe(false);
+    expect(
+      checkContainsReviewTrigger({
+        object_kind: "note",
+        object_attributes: { note: "@claude review" },
+      }),
+    ).toBe(false);
+    expect(checkContainsReviewTrigger(null, "push")).toBe(false);
+  });
+});
+
+describe("parseTriggerCommand", () => {
+  test("parses a slash command from a note", () => {
+    expect(
+      parseTriggerCommand(
+        {
+          object_kind: "note",
+          object_attributes: {
+            note: "@claude /fix-ci the lint job",
+            noteable_type: "MergeRequest",
+          },
+        },
+        "@claude",
+      ),
+    ).toEqual({
+      name: "fix-ci",
+      args: ["the", "lint", "job"],
+      rawArgs: "the lint job",
+    });
+  });
+
+  test("parses a slash command from an issue description", () => {
+    expect(
+      parseTriggerCommand(
+        {
+          object_kind: "issue",
+          object_attributes: {
+            title: "Logging",
+            description: "@claude /explain src/logger.ts",
+          },
+        },
+        "@claude",
+      )?.name,
+    ).toBe("explain");
+  });
+
+  test("returns null without a command or payload", () => {
+    expect(
+      parseTriggerCommand(
+        {
+          object_kind: "note",
+          object_attributes: { note: "@claude please help" },
+        },
+        "@claude",
+      ),
+    ).toBeNull();
+    expect(parseTriggerCommand(null, "@claude")).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import * as core from "@actions/core";
+import { GitLabProvider } from "../../src/providers/gitlab-provider";
+import { run } from "../../src/entrypoints/update-comment-gitlab";
+
+describe("update-comment-gitlab", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      CI_PLATFORM: "gitlab",
+      CI_PROJECT_ID: "42",
+      CI_SERVER_URL: "https://gitlab.example.com",
+      CI_PIPELINE_ID: "1001",
+      CI_MERGE_REQUEST_IID: "7",
+      CLAUDE_COMMENT_ID: "200",
+      GITLAB_TOKEN: "test-token",
+    };
+    for (const name of [
+      "CI_ISSUE_IID",
+      "CLAUDE_RESOURCE_ID",
+      "CLAUDE_RESOURCE_TYPE",
+      "CLAUDE_CODE_GL_ACCESS_TOKEN",
+      "CLAUDE_CODE_OAUTH_TOKEN",
+      "PREPARE_SUCCESS",
+      "PREPARE_ERROR",
+      "CLAUDE_SUCCESS",
+      "OUTPUT_FILE",
+    ]) {
+      delete process.env[name];
+    }
+
+    spyOn(GitLabProvider.prototype, "getComments").mockResolvedValue([
+      {
+        id: 100,
+        author: "jdoe",
+        body: "@claude is add correct?",
+        createdAt: "2025-01-01T12:00:00Z",
+      },
+      {
+        id: 200,
+        author: "claude-bot",
+        body: "🤖 Claude is working on this...\n\n- [ ] Read the changes",
+        createdAt: "2025-01-01T12:00:05Z",
+      },
+    ]);
+    spyOn(process, "exit").mockImplementation(() => undefined as never);
+    spyOn(core, "warning").mockImplementation(() => {});
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    mock.restore();
+  });
+
+  it("finalizes the tracking note through the provider", async () => {
+    const updateComment = spyOn(
+      GitLabProvider.prototype,
+      "updateComment",
+    ).mockResolvedValue();
+
+    await run();
+
+    expect(updateComment).toHaveBeenCalledTimes(1);
+    const [commentId, body] = updateComment.mock.calls[0]!;
+    expect(commentId).toBe(200);
+    expect(body).toBe(
+      "✅ Claude's work is complete\n\n- [x] Read the changes\n\n[View job details](https://gitlab.example.com/42/-/pipelines/1001)",
+    );
+    expect(core.warning).not.toHaveBeenCalled();
+  });
+
+  it("reports failures of issue runs started by the webhook server", async () => {
+    delete process.env.CI_MERGE_REQUEST_IID;
+    process.env.CLAUDE_RESOURCE_TYPE = "issue";
+    process.env.CLAUDE_RESOURCE_ID = "9";
+    process.env.CLAUDE_SUCCESS = "false";
+    const updateComment = spyOn(
+      GitLabProvider.prototype,
+      "updateComment",
+    ).mockResolvedValue();
+
+    await run();
+
+    expect(updateComment.mock.calls[0]![1]).toStartWith(
+      "❌ Claude's work failed",
+    );
+  });
+
+  it("warns without failing the job when the note is missing", async () => {
+    process.env.CLAUDE_COMMENT_ID = "999";
+    const updateComment = spyOn(
+      GitLabProvider.prototype,
+      "updateComment",
+    ).mockResolvedValue();
+
+    await run();
+
+    expect(updateComment).not.toHaveBeenCalled();
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining("Could not find GitLab note ID 999"),
+    );
+    expect(process.exit).toHaveBeenCalledWith(0);
+  });
+});
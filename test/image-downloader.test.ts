@@ -77,7 +77,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "123",
+        id: 123,
         body: "This is a comment without images",
       },
     ];
@@ -120,7 +120,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "123",
+        id: 123,
         body: `Here's an image: ![test](${imageUrl})`,
       },
     ];
@@ -180,7 +180,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "review_comment",
-        id: "456",
+        id: 456,
         body: `Review comment with image: ![review](${imageUrl})`,
       },
     ];
@@ -226,7 +226,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "review_body",
-        id: "789",
+        id: 789,
         pullNumber: "100",
         body: `Review body: ![body](${imageUrl})`,
       },
@@ -373,7 +373,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "999",
+        id: 999,
         body: `Two images: ![img1](${imageUrl1}) and ![img2](${imageUrl2})`,
       },
     ];
@@ -419,12 +419,12 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "111",
+        id: 111,
         body: `First: ![dup](${imageUrl})`,
       },
       {
         type: "issue_comment",
-        id: "222",
+        id: 222,
         body: `Second: ![dup](${imageUrl})`,
       },
     ];
@@ -457,7 +457,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "333",
+        id: 333,
         body: `Missing HTML: ![missing](${imageUrl})`,
       },
     ];
@@ -497,7 +497,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "444",
+        id: 444,
         body: `Error image: ![error](${imageUrl})`,
       },
     ];
@@ -528,7 +528,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "555",
+        id: 555,
         body: `API error: ![api-error](${imageUrl})`,
       },
     ];
@@ -598,7 +598,7 @@ describe("downloadCommentImages", () => {
       const comments: CommentWithImages[] = [
         {
           type: "issue_comment",
-          id: `${1000 + callIndex}`,
+          id: 1000 + callIndex,
           body: `Test: ![test](${url})`,
         },
       ];
@@ -643,7 +643,7 @@ describe("downloadCommentImages", () => {
     const comments: CommentWithImages[] = [
       {
         type: "issue_comment",
-        id: "666",
+        id: 666,
         body: `Two images: ![img1](${imageUrl1}) ![img2](${imageUrl2})`,
       },
     ];
@@ -33,10 +33,12 @@ describe("prepareMcpConfig", () => {
       customInstructions: "",
       directPrompt: "",
       overridePrompt: "",
+      overridePromptFile: "",
       branchPrefix: "",
       useStickyComment: false,
       additionalPermissions: new Map(),
       useCommitSigning: false,
+      contextTokenBudget: 50000,
     },
   };
 
@@ -52,6 +54,7 @@ describe("prepareMcpConfig", () => {
     inputs: {
       ...mockContext.inputs,
       useCommitSigning: true,
+      contextTokenBudget: 50000,
     },
   };
 
@@ -60,6 +63,7 @@ describe("prepareMcpConfig", () => {
     inputs: {
       ...mockPRContext.inputs,
       useCommitSigning: true,
+      contextTokenBudget: 50000,
     },
   };
 
@@ -113,6 +117,7 @@ describe("prepareMcpConfig", () => {
       inputs: {
         ...mockContext.inputs,
         useCommitSigning: true,
+        contextTokenBudget: 50000,
       },
     };
 
@@ -171,6 +176,7 @@ describe("prepareMcpConfig", () => {
       inputs: {
         ...mockContext.inputs,
         useCommitSigning: true,
+        contextTokenBudget: 50000,
       },
     };
 
@@ -556,6 +562,7 @@ describe("prepareMcpConfig", () => {
         ...mockPRContext.inputs,
         additionalPermissions: new Map([["actions", "read"]]),
         useCommitSigning: true,
+        contextTokenBudget: 50000,
       },
     };
 
@@ -573,11 +580,47 @@ describe("prepareMcpConfig", () => {
     expect(parsed.mcpServers.github_ci).toBeDefined();
     expect(parsed.mcpServers.github_ci.env.GITHUB_TOKEN).toBe("workflow-token");
     expect(parsed.mcpServers.github_ci.env.PR_NUMBER).toBe("456");
+    expect(parsed.mcpServers.github_ci.env.ACTIONS_WRITE).toBe("false");
     expect(parsed.mcpServers.github_file_ops).toBeDefined();
 
     process.env.ACTIONS_TOKEN = oldEnv;
   });
 
+  test("should enable github_ci write tools when actions:write permission is granted", async () => {
+    const oldEnv = process.env.ACTIONS_TOKEN;
+    const oldRunId = process.env.GITHUB_RUN_ID;
+    process.env.ACTIONS_TOKEN = "workflow-token";
+    process.env.GITHUB_RUN_ID = "987";
+
+    const contextWithPermissions = {
+      ...mockPRContext,
+      inputs: {
+        ...mockPRContext.inputs,
+        additionalPermissions: new Map([["actions", "write"]]),
+        useCommitSigning: true,
+        contextTokenBudget: 50000,
+      },
+    };
+
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      context: contextWithPermissions,
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.github_ci).toBeDefined();
+    expect(parsed.mcpServers.github_ci.env.ACTIONS_WRITE).toBe("true");
+    expect(parsed.mcpServers.github_ci.env.GITHUB_RUN_ID).toBe("987");
+
+    process.env.ACTIONS_TOKEN = oldEnv;
+    process.env.GITHUB_RUN_ID = oldRunId;
+  });
+
   test("should not include github_ci server when context.isPR is false", async () => {
     const result = await prepareMcpConfig({
       githubToken: "test-token",
@@ -679,4 +722,123 @@ describe("prepareMcpConfig", () => {
 
     process.env.ACTIONS_TOKEN = oldTokenEnv;
   });
+
+  test("should include github_review server in review mode on pull requests", async () => {
+    const reviewContext: ParsedGitHubContext = {
+      ...mockPRContext,
+      inputs: {
+        ...mockPRContext.inputs,
+        mode: "review",
+      },
+    };
+
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      context: reviewContext,
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.github_review).toBeDefined();
+    expect(parsed.mcpServers.github_review.args[1]).toContain(
+      "github-review-server.ts",
+    );
+    expect(parsed.mcpServers.github_review.env.PR_NUMBER).toBe("456");
+  });
+
+  test("should not include github_review server in tag mode", async () => {
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      context: mockPRContext,
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.github_review).not.toBeDefined();
+  });
+
+  test("should include the triage server with the capabilities granted by additional permissions", async () => {
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      context: {
+        ...mockPRContext,
+        inputs: {
+          ...mockPRContext.inputs,
+          additionalPermissions: new Map([
+            ["issues", "write"],
+            ["pull-requests", "write"],
+          ]),
+        },
+      },
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.scm_triage).toBeDefined();
+    expect(parsed.mcpServers.scm_triage.env).toMatchObject({
+      SCM_PLATFORM: "github",
+      SCM_TOKEN: "test-token",
+      TRIAGE_CAPABILITIES: "labels,assignees,reviewers",
+      GITHUB_REPOSITORY: "test-owner/test-repo",
+    });
+  });
+
+  test("should not offer reviewers on issues", async () => {
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      context: {
+        ...mockContext,
+        inputs: {
+          ...mockContext.inputs,
+          additionalPermissions: new Map([
+            ["issues", "write"],
+            ["pull-requests", "write"],
+          ]),
+        },
+      },
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.scm_triage.env.TRIAGE_CAPABILITIES).toBe(
+      "labels,assignees",
+    );
+  });
+
+  test("should not include the triage server without write permissions", async () => {
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      context: {
+        ...mockPRContext,
+        inputs: {
+          ...mockPRContext.inputs,
+          additionalPermissions: new Map([["issues", "read"]]),
+        },
+      },
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.scm_triage).not.toBeDefined();
+  });
 });
@@ -69,7 +69,7 @@ Direction override test: ‮reversed‬ text should be normalized.`;
     const comments: GitHubComment[] = [
       {
         id: "1",
-        databaseId: "100001",
+        databaseId: 100001,
         body: `Great idea! Here are my thoughts:
 
 1. We should consider the performance impact
@@ -86,7 +86,7 @@ Note: Implementation​should​follow​best​practices.`,
       },
       {
         id: "2",
-        databaseId: "100002",
+        databaseId: 100002,
         body: `Thanks for the feedback! 
 
 <!-- Internal note: discussed with team -->
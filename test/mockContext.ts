@@ -18,6 +18,7 @@ const defaultInputs = {
   customInstructions: "",
   directPrompt: "",
   overridePrompt: "",
+  overridePromptFile: "",
   useBedrock: false,
   useVertex: false,
   timeoutMinutes: 30,
@@ -25,6 +26,7 @@ const defaultInputs = {
   useStickyComment: false,
   additionalPermissions: new Map<string, string>(),
   useCommitSigning: false,
+  contextTokenBudget: 50000,
 };
 
 const defaultRepository = {
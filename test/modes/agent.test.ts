@@ -0,0 +1,57 @@
+import { describe, test, expect } from "bun:test";
+import { agentMode } from "../../src/modes/agent";
+import { createMockContext } from "../mockContext";
+
+describe("Agent Mode", () => {
+  test("agent mode has correct properties", () => {
+    expect(agentMode.name).toBe("agent");
+    expect(agentMode.description).toBe(
+      "Automation mode that runs from a configured prompt on any event",
+    );
+    expect(agentMode.shouldCreateTrackingComment()).toBe(false);
+  });
+
+  test("shouldTrigger ignores the trigger phrase and requires a prompt", () => {
+    const withDirectPrompt = createMockContext({
+      eventName: "schedule",
+      inputs: {
+        ...createMockContext().inputs,
+        directPrompt: "Update dependencies",
+      },
+    });
+    expect(agentMode.shouldTrigger(withDirectPrompt)).toBe(true);
+
+    const withOverridePrompt = createMockContext({
+      eventName: "workflow_dispatch",
+      inputs: {
+        ...createMockContext().inputs,
+        overridePrompt: "Summarize $REPOSITORY",
+      },
+    });
+    expect(agentMode.shouldTrigger(withOverridePrompt)).toBe(true);
+
+    const withoutPrompt = createMockContext({ eventName: "push" });
+    expect(agentMode.shouldTrigger(withoutPrompt)).toBe(false);
+  });
+
+  test("prepareContext includes all required data", () => {
+    const mockContext = createMockContext({ eventName: "schedule" });
+    const context = agentMode.prepareContext(mockContext, {
+      baseBranch: "main",
+      claudeBranch: "claude/agent-20240101-1200",
+    });
+
+    expect(context.mode).toBe("agent");
+    expect(context.githubContext).toBe(mockContext);
+    expect(context.commentId).toBeUndefined();
+    expect(context.baseBranch).toBe("main");
+    expect(context.claudeBranch).toBe("claude/agent-20240101-1200");
+  });
+
+  test("getDisallowedTools blocks the tracking comment tool", () => {
+    expect(agentMode.getAllowedTools()).toEqual([]);
+    expect(agentMode.getDisallowedTools()).toEqual([
+      "mcp__github_comment__update_claude_comment",
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+import type { IssueCommentEvent } from "@octokit/webhooks-types";
+import { loadCustomModes, parseCustomMode } from "../../src/modes/custom";
+import {
+  clearCustomModes,
+  getMode,
+  isValidMode,
+  loadRepositoryModes,
+  registerMode,
+} from "../../src/modes/registry";
+import { createMockContext } from "../mockContext";
+
+describe("Custom modes", () => {
+  let repoDir: string;
+  let modesDir: string;
+
+  beforeEach(async () => {
+    repoDir = await mkdtemp(path.join(tmpdir(), "claude-modes-"));
+    modesDir = path.join(repoDir, ".claude", "modes");
+    await mkdir(modesDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    clearCustomModes();
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  describe("parseCustomMode", () => {
+    test("applies defaults to a minimal definition", () => {
+      const mode = parseCustomMode(
+        { name: "docs-bot", description: "Keeps docs in sync" },
+        "docs-bot.json",
+      );
+
+      expect(mode.name).toBe("docs-bot");
+      expect(mode.description).toBe("Keeps docs in sync");
+      expect(mode.getAllowedTools()).toEqual([]);
+      expect(mode.getDisallowedTools()).toEqual([]);
+      expect(mode.shouldCreateTrackingComment()).toBe(true);
+      expect(mode.getPromptTemplate?.()).toBeUndefined();
+    });
+
+    test("reports every invalid field", () => {
+      expect(() =>
+        parseCustomMode(
+          { name: "Docs Bot", allowedTools: "Edit", extra: true },
+          "docs.json",
+        ),
+      ).toThrow(
+        /Invalid custom mode in docs\.json: name: must start.*description: Required.*allowedTools/,
+      );
+    });
+
+    test("requires a prompt when tracking comments are disabled", () => {
+      expect(() =>
+        parseCustomMode(
+          { name: "silent", description: "No comment", trackingComment: false },
+          "silent.json",
+        ),
+      ).toThrow("prompt: prompt is required when trackingComment is false");
+    });
+  });
+
+  describe("shouldTrigger", () => {
+    const commentContext = (body: string) =>
+      createMockContext({
+        eventName: "issue_comment",
+        eventAction: "created",
+        payload: { comment: { body } } as IssueCommentEvent,
+      });
+
+    test("uses the mode's trigger phrase", () => {
+      const mode = parseCustomMode(
+        {
+          name: "docs-bot",
+          description: "Docs",
+          trigger: { phrase: "@docs-bot" },
+        },
+        "docs-bot.json",
+      );
+
+      expect(
+        mode.shouldTrigger(commentContext("@docs-bot update README")),
+      ).toBe(true);
+      expect(mode.shouldTrigger(commentContext("@claude update README"))).toBe(
+        false,
+      );
+    });
+
+    test("triggers on matching events when no phrase is set", () => {
+      const mode = parseCustomMode(
+        {
+          name: "triage",
+          description: "Triage new issues",
+          trigger: { events: ["issues.opened"] },
+        },
+        "triage.json",
+      );
+
+      expect(
+        mode.shouldTrigger(
+          createMockContext({ eventName: "issues", eventAction: "opened" }),
+        ),
+      ).toBe(true);
+      expect(
+        mode.shouldTrigger(
+          createMockContext({ eventName: "issues", eventAction: "closed" }),
+        ),
+      ).toBe(false);
+    });
+
+    test("does not trigger without an issue or PR when a tracking comment is needed", () => {
+      const mode = parseCustomMode(
+        {
+          name: "triage",
+          description: "Triage",
+          trigger: { events: ["schedule"] },
+        },
+        "triage.json",
+      );
+
+      expect(
+        mode.shouldTrigger(
+          createMockContext({ eventName: "schedule", entityNumber: 0 }),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("loadCustomModes", () => {
+    test("returns no modes when the directory does not exist", async () => {
+      expect(await loadCustomModes(path.join(repoDir, "missing"))).toEqual([]);
+    });
+
+    test("loads JSON and YAML modes", async () => {
+      await writeFile(
+        path.join(modesDir, "docs-bot.json"),
+        JSON.stringify({
+          name: "docs-bot",
+          description: "Docs",
+          prompt: "Update docs for $REPOSITORY",
+          trackingComment: false,
+        }),
+      );
+      await writeFile(
+        path.join(modesDir, "release.yml"),
+        `name: release
+description: Release notes
+allowedTools:
+  - "Bash(gh release:*)"
+trigger:
+  events: [release]
+`,
+      );
+      await writeFile(path.join(modesDir, "README.md"), "# Modes");
+
+      const modes = await loadCustomModes(modesDir);
+
+      expect(modes.map((mode) => mode.name)).toEqual(["docs-bot", "release"]);
+      expect(modes[0]!.getPromptTemplate?.()).toBe(
+        "Update docs for $REPOSITORY",
+      );
+      expect(modes[1]!.getAllowedTools()).toEqual(["Bash(gh release:*)"]);
+      expect(
+        modes[1]!.shouldTrigger(
+          createMockContext({ eventName: "release", entityNumber: 1 }),
+        ),
+      ).toBe(true);
+    });
+
+    test("never imports code files", async () => {
+      const marker = path.join(repoDir, "imported");
+      await writeFile(
+        path.join(modesDir, "evil.ts"),
+        `import { writeFileSync } from "fs";
+writeFileSync(${JSON.stringify(marker)}, "yes");
+export default { name: "evil", description: "Runs code" };
+`,
+      );
+
+      expect(await loadCustomModes(modesDir)).toEqual([]);
+      expect(await Bun.file(marker).exists()).toBe(false);
+    });
+
+    test("rejects a shouldTrigger field", () => {
+      expect(() =>
+        parseCustomMode(
+          { name: "docs-bot", description: "Docs", shouldTrigger: "true" },
+          "docs-bot.yml",
+        ),
+      ).toThrow(/Unrecognized key.*shouldTrigger/);
+    });
+
+    test("reports malformed JSON with the file path", async () => {
+      await writeFile(path.join(modesDir, "broken.json"), "{ name: ");
+
+      await expect(loadCustomModes(modesDir)).rejects.toThrow(
+        /Failed to parse custom mode .*broken\.json/,
+      );
+    });
+  });
+
+  describe("registry", () => {
+    test("registers repository modes and resolves them with getMode", async () => {
+      await writeFile(
+        path.join(modesDir, "docs-bot.json"),
+        JSON.stringify({ name: "docs-bot", description: "Docs" }),
+      );
+
+      await loadRepositoryModes(repoDir);
+
+      expect(isValidMode("docs-bot")).toBe(true);
+      expect(getMode("docs-bot").name).toBe("docs-bot");
+      expect(() => getMode("other")).toThrow(
+        "Invalid mode 'other'. Valid modes are: 'tag', 'review', 'agent', 'docs-bot'. Please check your workflow configuration.",
+      );
+    });
+
+    test("rejects modes that shadow built-in or registered modes", () => {
+      const docs = parseCustomMode(
+        { name: "docs-bot", description: "Docs" },
+        "docs-bot.json",
+      );
+      registerMode(docs);
+
+      expect(() => registerMode(docs)).toThrow(
+        "Custom mode 'docs-bot' is defined more than once.",
+      );
+      expect(() =>
+        registerMode(
+          parseCustomMode({ name: "review", description: "Mine" }, "r.json"),
+        ),
+      ).toThrow("Custom mode 'review' conflicts with a built-in mode.");
+    });
+  });
+});
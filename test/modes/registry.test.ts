@@ -1,6 +1,8 @@
 import { describe, test, expect } from "bun:test";
 import { getMode, isValidMode, type ModeName } from "../../src/modes/registry";
 import { tagMode } from "../../src/modes/tag";
+import { reviewMode } from "../../src/modes/review";
+import { agentMode } from "../../src/modes/agent";
 
 describe("Mode Registry", () => {
   test("getMode returns tag mode by default", () => {
@@ -9,20 +11,33 @@ describe("Mode Registry", () => {
     expect(mode.name).toBe("tag");
   });
 
+  test("getMode returns review mode", () => {
+    const mode = getMode("review");
+    expect(mode).toBe(reviewMode);
+    expect(mode.name).toBe("review");
+  });
+
+  test("getMode returns agent mode", () => {
+    const mode = getMode("agent");
+    expect(mode).toBe(agentMode);
+    expect(mode.name).toBe("agent");
+  });
+
   test("getMode throws error for invalid mode", () => {
     const invalidMode = "invalid" as unknown as ModeName;
     expect(() => getMode(invalidMode)).toThrow(
-      "Invalid mode 'invalid'. Valid modes are: 'tag'. Please check your workflow configuration.",
+      "Invalid mode 'invalid'. Valid modes are: 'tag', 'review', 'agent'. Please check your workflow configuration.",
     );
   });
 
-  test("isValidMode returns true for tag mode", () => {
+  test("isValidMode returns true for all registered modes", () => {
     expect(isValidMode("tag")).toBe(true);
+    expect(isValidMode("review")).toBe(true);
+    expect(isValidMode("agent")).toBe(true);
   });
 
   test("isValidMode returns false for invalid mode", () => {
     expect(isValidMode("invalid")).toBe(false);
-    expect(isValidMode("review")).toBe(false);
     expect(isValidMode("freeform")).toBe(false);
   });
 });
@@ -0,0 +1,67 @@
+import { describe, test, expect } from "bun:test";
+import { reviewMode } from "../../src/modes/review";
+import {
+  createMockContext,
+  mockIssueCommentContext,
+  mockPullRequestOpenedContext,
+} from "../mockContext";
+
+describe("Review Mode", () => {
+  test("review mode has correct properties", () => {
+    expect(reviewMode.name).toBe("review");
+    expect(reviewMode.description).toBe(
+      "Automated code review mode triggered by pull request updates",
+    );
+    expect(reviewMode.shouldCreateTrackingComment()).toBe(false);
+  });
+
+  test("shouldTrigger returns true for opened and synchronized pull requests", () => {
+    expect(reviewMode.shouldTrigger(mockPullRequestOpenedContext)).toBe(true);
+    expect(
+      reviewMode.shouldTrigger({
+        ...mockPullRequestOpenedContext,
+        eventAction: "synchronize",
+      }),
+    ).toBe(true);
+  });
+
+  test("shouldTrigger returns false for other events", () => {
+    expect(
+      reviewMode.shouldTrigger({
+        ...mockPullRequestOpenedContext,
+        eventAction: "closed",
+      }),
+    ).toBe(false);
+    expect(reviewMode.shouldTrigger(mockIssueCommentContext)).toBe(false);
+  });
+
+  test("prepareContext includes all required data", () => {
+    const mockContext = createMockContext({
+      eventName: "pull_request",
+      isPR: true,
+    });
+
+    const context = reviewMode.prepareContext(mockContext, {
+      baseBranch: "main",
+      claudeBranch: undefined,
+    });
+
+    expect(context.mode).toBe("review");
+    expect(context.githubContext).toBe(mockContext);
+    expect(context.commentId).toBeUndefined();
+    expect(context.baseBranch).toBe("main");
+  });
+
+  test("getAllowedTools includes the review tool", () => {
+    expect(reviewMode.getAllowedTools()).toContain(
+      "mcp__github_review__submit_review",
+    );
+  });
+
+  test("getDisallowedTools blocks file modifications", () => {
+    const disallowed = reviewMode.getDisallowedTools();
+    expect(disallowed).toContain("Edit");
+    expect(disallowed).toContain("Write");
+    expect(disallowed).toContain("mcp__github_file_ops__commit_files");
+  });
+});
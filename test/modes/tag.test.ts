@@ -56,6 +56,19 @@ describe("Tag Mode", () => {
     expect(tagMode.shouldTrigger(contextWithoutTrigger)).toBe(false);
   });
 
+  test("shouldTrigger returns false without an issue or PR", () => {
+    const dispatchContext = createMockContext({
+      eventName: "workflow_dispatch",
+      entityNumber: 0,
+      inputs: {
+        ...createMockContext().inputs,
+        directPrompt: "Fix the flaky test",
+      },
+    });
+
+    expect(tagMode.shouldTrigger(dispatchContext)).toBe(false);
+  });
+
   test("prepareContext includes all required data", () => {
     const data = {
       commentId: 123,
@@ -69,10 +69,12 @@ describe("checkWritePermissions", () => {
       customInstructions: "",
       directPrompt: "",
       overridePrompt: "",
+      overridePromptFile: "",
       branchPrefix: "claude/",
       useStickyComment: false,
       additionalPermissions: new Map(),
       useCommitSigning: false,
+      contextTokenBudget: 50000,
     },
   });
 
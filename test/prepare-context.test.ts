@@ -300,6 +300,121 @@ describe("parseEnvVarsWithContext", () => {
     });
   });
 
+  describe("dispatch and scheduled events", () => {
+    test("should parse repository_dispatch with a target PR", () => {
+      process.env = BASE_ENV;
+      const dispatchContext = createMockContext({
+        eventName: "repository_dispatch",
+        entityNumber: 42,
+        isPR: true,
+        payload: {
+          action: "fix-build",
+          client_payload: { pr_number: 42, job: "lint" },
+          sender: { login: "deploy-bot" },
+        } as any,
+      });
+      const result = prepareContext(dispatchContext, "12345");
+
+      expect(result.triggerUsername).toBe("deploy-bot");
+      expect(result.eventData).toEqual({
+        eventName: "repository_dispatch",
+        eventAction: "fix-build",
+        isPR: true,
+        prNumber: "42",
+        clientPayload: { pr_number: 42, job: "lint" },
+      });
+    });
+
+    test("should parse workflow_dispatch without a target", () => {
+      process.env = BASE_ENV;
+      const dispatchContext = createMockContext({
+        eventName: "workflow_dispatch",
+        entityNumber: 0,
+        payload: {
+          inputs: { task: "cleanup" },
+          ref: "refs/heads/main",
+          sender: { login: "octocat" },
+        } as any,
+      });
+      const result = prepareContext(dispatchContext, "", "main");
+
+      expect(result.eventData).toEqual({
+        eventName: "workflow_dispatch",
+        isPR: false,
+        inputs: { task: "cleanup" },
+        baseBranch: "main",
+      });
+    });
+
+    test("should parse schedule events", () => {
+      process.env = BASE_ENV;
+      const scheduleContext = createMockContext({
+        eventName: "schedule",
+        entityNumber: 0,
+        payload: { schedule: "0 3 * * *" } as any,
+      });
+      const result = prepareContext(scheduleContext, "");
+
+      expect(result.eventData).toEqual({
+        eventName: "schedule",
+        isPR: false,
+        schedule: "0 3 * * *",
+      });
+    });
+  });
+
+  describe("agent mode", () => {
+    test("should accept events without an issue or PR", () => {
+      process.env = BASE_ENV;
+      const pushContext = createMockContext({
+        eventName: "push",
+        entityNumber: 0,
+        inputs: {
+          ...createMockContext().inputs,
+          mode: "agent",
+          directPrompt: "Update dependencies",
+        },
+      });
+      const result = prepareContext(
+        pushContext,
+        "",
+        "main",
+        "claude/agent-20240101-1200",
+      );
+
+      expect(result.eventData).toEqual({
+        eventName: "automation",
+        triggerEvent: "push",
+        isPR: false,
+        claudeBranch: "claude/agent-20240101-1200",
+        baseBranch: "main",
+      });
+      expect(result.directPrompt).toBe("Update dependencies");
+    });
+
+    test("should keep the PR number for pull request events", () => {
+      process.env = BASE_ENV;
+      const prContext = createMockContext({
+        eventName: "pull_request",
+        entityNumber: 42,
+        isPR: true,
+        inputs: {
+          ...createMockContext().inputs,
+          mode: "agent",
+          directPrompt: "Fix lint errors",
+        },
+      });
+      const result = prepareContext(prContext, "");
+
+      expect(result.eventData).toEqual({
+        eventName: "automation",
+        triggerEvent: "pull_request",
+        isPR: true,
+        prNumber: "42",
+      });
+    });
+  });
+
   test("should throw error for unsupported event type", () => {
     process.env = BASE_ENV;
     const unsupportedContext = createMockContext({
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+import {
+  createFilePartialLoader,
+  renderTemplate,
+  TemplateError,
+} from "../src/create-prompt/template";
+import {
+  buildTemplateVariables,
+  renderPromptTemplate,
+} from "../src/create-prompt";
+import type { PreparedContext } from "../src/create-prompt";
+import type { FetchDataResult } from "../src/github/data/fetcher";
+
+describe("renderTemplate", () => {
+  test("substitutes $VAR, ${VAR} and {{VAR}}", () => {
+    expect(
+      renderTemplate("$NAME / ${NAME}_EXTRA / {{ NAME }}", { NAME: "x" }),
+    ).toBe("x / x_EXTRA / x");
+  });
+
+  test("does not let a shorter variable match a longer name", () => {
+    expect(renderTemplate("PR $PR_NUMBER_EXTRA", { PR_NUMBER: "1" })).toBe(
+      "PR $PR_NUMBER_EXTRA",
+    );
+  });
+
+  test("leaves lowercase $words and escaped delimiters alone", () => {
+    expect(
+      renderTemplate("cost: $5, $path, \\$HOME, $$NAME, \\{{ NAME }}", {
+        NAME: "x",
+      }),
+    ).toBe("cost: $5, $path, $HOME, $NAME, {{ NAME }}");
+  });
+
+  test("keeps unknown $NAME and ${NAME} variables as written", () => {
+    expect(
+      renderTemplate("Run in $HOME with ${GITHUB_SHA} on $PATH", {
+        PR_NUMBER: "1",
+      }),
+    ).toBe("Run in $HOME with ${GITHUB_SHA} on $PATH");
+  });
+
+  test("reports misspelled variables with a suggestion", () => {
+    expect(() =>
+      renderTemplate("PR #$PR_NUMEBR", { PR_NUMBER: "1", PR_TITLE: "x" }),
+    ).toThrow(
+      "Unknown variable 'PR_NUMEBR' at line 1, column 5, did you mean 'PR_NUMBER'?",
+    );
+    expect(() =>
+      renderTemplate("${PR_TITL}", { PR_NUMBER: "1", PR_TITLE: "x" }),
+    ).toThrow("did you mean 'PR_TITLE'?");
+  });
+
+  test("renders conditionals and drops standalone block lines", () => {
+    const template = `Header
+{{#if IS_PR}}
+PR #$PR_NUMBER
+{{else}}
+Issue #$ISSUE_NUMBER
+{{/if}}
+{{#unless COMMENTS}}
+No comments
+{{/unless}}
+Footer`;
+    const variables = {
+      PR_NUMBER: "5",
+      ISSUE_NUMBER: "",
+      COMMENTS: [],
+    };
+
+    expect(renderTemplate(template, { ...variables, IS_PR: true })).toBe(
+      "Header\nPR #5\nNo comments\nFooter",
+    );
+    expect(
+      renderTemplate(template, {
+        ...variables,
+        IS_PR: false,
+        ISSUE_NUMBER: "7",
+        COMMENTS: [{ body: "hi" }],
+      }),
+    ).toBe("Header\nIssue #7\nFooter");
+  });
+
+  test("loops over lists with an alias and loop variables", () => {
+    const template = `{{#each FILES as file}}
+- {{file.path}} (+{{file.additions}}){{#unless @last}},{{/unless}}
+{{/each}}`;
+
+    expect(
+      renderTemplate(template, {
+        FILES: [
+          { path: "a.ts", additions: 1 },
+          { path: "b.ts", additions: 2 },
+        ],
+      }),
+    ).toBe("- a.ts (+1),\n- b.ts (+2)\n");
+  });
+
+  test("binds loop items to this without an alias", () => {
+    expect(
+      renderTemplate("{{#each LIST}}[{{@index}}:{{this}}]{{/each}}", {
+        LIST: ["a", "b"],
+      }),
+    ).toBe("[0:a][1:b]");
+  });
+
+  test("reports unknown variables and properties", () => {
+    expect(() => renderTemplate("\n  {{MISSING}}", {})).toThrow(
+      "Unknown variable 'MISSING' at line 2, column 3",
+    );
+    expect(() =>
+      renderTemplate("{{#each LIST as item}}{{item.nope}}{{/each}}", {
+        LIST: [{ path: "a" }],
+      }),
+    ).toThrow("Unknown property 'nope' in 'item.nope'");
+    expect(() => renderTemplate("{{#if A}}{{/if}}", {})).toThrow(TemplateError);
+  });
+
+  test("reports unbalanced blocks", () => {
+    expect(() => renderTemplate("{{#if A}}\nx", { A: true })).toThrow(
+      "Unclosed {{#if}} block at line 1, column 1",
+    );
+    expect(() => renderTemplate("{{#if A}}{{/each}}", { A: true })).toThrow(
+      "Expected {{/if}} to close the block opened at line 1, column 1, found {{/each}} at line 1, column 10",
+    );
+    expect(() => renderTemplate("{{else}}", {})).toThrow("Unexpected {{else}}");
+  });
+
+  test("ignores comments", () => {
+    expect(renderTemplate("a\n{{! note }}\nb", {})).toBe("a\nb");
+  });
+});
+
+describe("createFilePartialLoader", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "prompt-template-"));
+    await mkdir(path.join(root, "prompts", "shared"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("includes partials relative to the including file", async () => {
+    await writeFile(
+      path.join(root, "prompts", "shared", "header.md"),
+      "Repository: $REPOSITORY\n{{> footer.md}}",
+    );
+    await writeFile(path.join(root, "prompts", "shared", "footer.md"), "Bye");
+
+    const loadPartial = createFilePartialLoader(root);
+    expect(
+      renderTemplate(
+        "{{> prompts/shared/header.md}}\nTask",
+        { REPOSITORY: "owner/repo" },
+        { loadPartial },
+      ),
+    ).toBe("Repository: owner/repo\nByeTask");
+  });
+
+  test("reports errors with the partial's file name", async () => {
+    const partial = path.join(root, "prompts", "broken.md");
+    await writeFile(partial, "{{UNKNOWN}}");
+
+    expect(() =>
+      renderTemplate(
+        "{{> prompts/broken.md}}",
+        {},
+        { loadPartial: createFilePartialLoader(root) },
+      ),
+    ).toThrow(`Unknown variable 'UNKNOWN' ${partial} at line 1, column 1`);
+  });
+
+  test("rejects missing partials and paths outside the root", () => {
+    const loadPartial = createFilePartialLoader(root);
+    expect(() =>
+      renderTemplate("{{> missing.md}}", {}, { loadPartial }),
+    ).toThrow("Partial 'missing.md' not found");
+    expect(() =>
+      renderTemplate("{{> ../../etc/passwd}}", {}, { loadPartial }),
+    ).toThrow("Partial '../../etc/passwd' is outside of");
+  });
+});
+
+describe("renderPromptTemplate", () => {
+  const context: PreparedContext = {
+    repository: "owner/repo",
+    claudeCommentId: "12345",
+    triggerPhrase: "@claude",
+    eventData: {
+      eventName: "pull_request",
+      eventAction: "opened",
+      isPR: true,
+      prNumber: "42",
+    },
+  };
+
+  const githubData: FetchDataResult = {
+    contextData: {
+      title: "Add feature",
+      body: "",
+      author: { login: "author" },
+    } as FetchDataResult["contextData"],
+    comments: [
+      {
+        id: "1",
+        databaseId: 1,
+        body: "Looks good",
+        author: { login: "reviewer" },
+        createdAt: "2024-01-01T00:00:00Z",
+      },
+    ],
+    changedFiles: [],
+    changedFilesWithSHA: [
+      {
+        path: "src/feature.ts",
+        additions: 10,
+        deletions: 2,
+        changeType: "MODIFIED",
+        sha: "abc123",
+      },
+    ],
+    reviewData: null,
+    imageUrlMap: new Map(),
+  };
+
+  test("exposes lists and typed flags", () => {
+    const variables = buildTemplateVariables(context, githubData);
+    expect(variables.IS_PR).toBe(true);
+    expect(variables.COMMENT_LIST).toEqual([
+      {
+        author: "reviewer",
+        body: "Looks good",
+        createdAt: "2024-01-01T00:00:00Z",
+      },
+    ]);
+    expect(variables.REVIEW_LIST).toEqual([]);
+  });
+
+  test("renders conditionals and loops over event data", () => {
+    const template = `PR #$PR_NUMBER: $PR_TITLE
+{{#if PR_BODY}}
+$PR_BODY
+{{/if}}
+{{#each CHANGED_FILE_LIST as file}}
+- {{file.path}} ({{file.changeType}})
+{{/each}}
+{{#each COMMENT_LIST as comment}}
+{{comment.author}}: {{comment.body}}
+{{/each}}`;
+
+    expect(renderPromptTemplate(template, context, githubData)).toBe(
+      "PR #42: Add feature\n- src/feature.ts (MODIFIED)\nreviewer: Looks good\n",
+    );
+  });
+
+  test("renders without GitHub data", () => {
+    expect(
+      renderPromptTemplate(
+        "{{#each COMMENT_LIST}}x{{/each}}Run on $EVENT_TYPE",
+        context,
+      ),
+    ).toBe("Run on pull_request");
+  });
+});
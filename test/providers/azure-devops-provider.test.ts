@@ -0,0 +1,540 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  mock,
+  spyOn,
+} from "bun:test";
+import { AzureDevOpsProvider } from "../../src/providers/azure-devops-provider";
+import type { AzureDevOpsProviderOptions } from "../../src/providers/scm-provider";
+import {
+  FakeFetch,
+  json,
+  type CannedResponse,
+  type RecordedRequest,
+} from "../fakes/fake-fetch";
+
+describe("AzureDevOpsProvider", () => {
+  const originalEnv = process.env;
+  const options: AzureDevOpsProviderOptions = {
+    token: "test-token",
+    collectionUri: "https://dev.azure.com/acme",
+    project: "platform",
+    repository: "widgets",
+    prId: "17",
+    buildId: "345",
+    triggerPhrase: "@claude",
+  };
+  const repoUrl =
+    "https://dev.azure.com/acme/platform/_apis/git/repositories/widgets";
+  const prUrl = `${repoUrl}/pullRequests/17`;
+  const repository = {
+    id: "repo-id",
+    name: "widgets",
+    defaultBranch: "refs/heads/main",
+    remoteUrl: "https://acme@dev.azure.com/acme/platform/_git/widgets",
+    webUrl: "https://dev.azure.com/acme/platform/_git/widgets",
+    project: { id: "project-id", name: "platform" },
+  };
+
+  let fakeFetch: FakeFetch;
+  let requests: RecordedRequest[];
+  let responses: Record<string, CannedResponse>;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD;
+    delete process.env.CC_SKIP_PRE_CHECK;
+    delete process.env.BUILD_REASON;
+    delete process.env.BUILD_REQUESTEDFOREMAIL;
+    delete process.env.BUILD_REQUESTEDFOR;
+
+    // Every request carries the API version, so leave it out of the keys
+    fakeFetch = new FakeFetch((url) =>
+      url.replace(/[?&]api-version=[^&]*$/, ""),
+    );
+    ({ requests, responses } = fakeFetch);
+
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    mock.restore();
+  });
+
+  describe("Platform identification", () => {
+    test("getPlatform returns azure-devops", () => {
+      expect(new AzureDevOpsProvider(options).getPlatform()).toBe(
+        "azure-devops",
+      );
+    });
+  });
+
+  describe("Context management", () => {
+    test("getContext returns SCM context for pull request", () => {
+      process.env.BUILD_REQUESTEDFOREMAIL = "jdoe@example.com";
+      process.env.BUILD_REASON = "PullRequest";
+
+      expect(new AzureDevOpsProvider(options).getContext()).toEqual({
+        platform: "azure-devops",
+        isPR: true,
+        entityNumber: 17,
+        actor: "jdoe@example.com",
+        runId: "345",
+        triggerEvent: "PullRequest",
+      });
+    });
+
+    test("getContext prefers the webhook actor and pull request", () => {
+      process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD = JSON.stringify({
+        eventType: "ms.vss-code.git-pullrequest-comment-event",
+        resource: {
+          comment: { content: "@claude", author: { uniqueName: "ann" } },
+          pullRequest: { pullRequestId: 5 },
+        },
+      });
+      const provider = new AzureDevOpsProvider({
+        ...options,
+        prId: undefined,
+      });
+
+      expect(provider.getContext()).toMatchObject({
+        isPR: true,
+        entityNumber: 5,
+        actor: "ann",
+        triggerEvent: "ms.vss-code.git-pullrequest-comment-event",
+      });
+    });
+
+    test("getJobUrl returns the build results URL", () => {
+      expect(new AzureDevOpsProvider(options).getJobUrl()).toBe(
+        "https://dev.azure.com/acme/platform/_build/results?buildId=345",
+      );
+    });
+
+    test("getPullRequestUrl links to the pull request", () => {
+      expect(new AzureDevOpsProvider(options).getPullRequestUrl()).toBe(
+        "https://dev.azure.com/acme/platform/_git/widgets/pullrequest/17",
+      );
+    });
+  });
+
+  describe("Pull requests", () => {
+    test("sends the token with basic auth and the API version", async () => {
+      responses[`POST ${prUrl}/threads`] = json({ id: 99 });
+
+      expect(
+        await new AzureDevOpsProvider(options).createComment("Hello"),
+      ).toBe(99);
+
+      expect(fakeFetch.spy.mock.calls[0]![0]).toBe(
+        `${prUrl}/threads?api-version=7.1`,
+      );
+      expect(requests[0]!.headers.Authorization).toBe(
+        `Basic ${Buffer.from(":test-token").toString("base64")}`,
+      );
+      expect(requests[0]!.body).toEqual({
+        comments: [{ parentCommentId: 0, content: "Hello", commentType: 1 }],
+      });
+    });
+
+    test("updateComment edits the first comment of the thread", async () => {
+      responses[`PATCH ${prUrl}/threads/99/comments/1`] = json({ id: 1 });
+
+      await new AzureDevOpsProvider(options).updateComment(99, "Updated");
+
+      expect(requests[0]!.body).toEqual({ content: "Updated" });
+    });
+
+    test("getPullRequestInfo maps the pull request", async () => {
+      responses[`GET ${prUrl}`] = json({
+        pullRequestId: 17,
+        title: "Add widgets",
+        description: "Adds widgets",
+        status: "completed",
+        isDraft: false,
+        createdBy: { uniqueName: "jdoe@example.com" },
+        sourceRefName: "refs/heads/feature/widgets",
+        targetRefName: "refs/heads/main",
+        lastMergeSourceCommit: { commitId: "head" },
+        lastMergeTargetCommit: { commitId: "base" },
+      });
+
+      expect(
+        await new AzureDevOpsProvider(options).getPullRequestInfo(),
+      ).toEqual({
+        number: 17,
+        headSha: "head",
+        baseSha: "base",
+        headBranch: "feature/widgets",
+        baseBranch: "main",
+        author: "jdoe@example.com",
+        title: "Add widgets",
+        body: "Adds widgets",
+        isDraft: false,
+        state: "merged",
+      });
+    });
+
+    test("getComments lists text threads by their first comment", async () => {
+      responses[`GET ${prUrl}/threads`] = json({
+        count: 3,
+        value: [
+          {
+            id: 1,
+            isDeleted: false,
+            comments: [
+              {
+                id: 1,
+                content: "@claude help",
+                commentType: "text",
+                author: { uniqueName: "jdoe@example.com" },
+                publishedDate: "2024-01-01T00:00:00Z",
+              },
+              {
+                id: 2,
+                content: "Reply",
+                commentType: "text",
+                author: { uniqueName: "ann@example.com" },
+                publishedDate: "2024-01-02T00:00:00Z",
+              },
+            ],
+          },
+          {
+            id: 2,
+            isDeleted: false,
+            comments: [{ id: 1, content: "Voted", commentType: "system" }],
+          },
+          { id: 3, isDeleted: true, comments: [] },
+        ],
+      });
+
+      expect(await new AzureDevOpsProvider(options).getComments()).toEqual([
+        {
+          id: 1,
+          author: "jdoe@example.com",
+          body: "@claude help",
+          createdAt: "2024-01-01T00:00:00Z",
+        },
+      ]);
+    });
+
+    test("getComments returns nothing outside a pull request", async () => {
+      expect(
+        await new AzureDevOpsProvider({
+          ...options,
+          prId: undefined,
+        }).getComments(),
+      ).toEqual([]);
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe("Permissions", () => {
+    const identityUrl = `https://vssps.dev.azure.com/acme/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent("jdoe@example.com")}&queryMembership=None`;
+    const aclUrl = `https://dev.azure.com/acme/_apis/accesscontrollists/2e9eb7ed-3c0a-47d4-87c1-0ffdd275fd87?token=${encodeURIComponent("repoV2/project-id/repo-id")}&descriptors=${encodeURIComponent("Microsoft.IdentityModel.Claims.ClaimsIdentity;jdoe")}&includeExtendedInfo=true`;
+
+    function withAcl(effectiveAllow: number): void {
+      responses[`GET ${identityUrl}`] = json({
+        count: 1,
+        value: [
+          {
+            id: "user-id",
+            descriptor: "Microsoft.IdentityModel.Claims.ClaimsIdentity;jdoe",
+            providerDisplayName: "Jane Doe",
+            isActive: true,
+          },
+        ],
+      });
+      responses[`GET ${repoUrl}`] = json(repository);
+      responses[`GET ${aclUrl}`] = json({
+        count: 1,
+        value: [
+          {
+            token: "repoV2/project-id/repo-id",
+            acesDictionary: {
+              jdoe: {
+                descriptor: "jdoe",
+                allow: 0,
+                deny: 0,
+                extendedInfo: { effectiveAllow },
+              },
+            },
+          },
+        ],
+      });
+    }
+
+    test("hasWritePermission checks the effective Contribute permission", async () => {
+      withAcl(2 | 4);
+
+      expect(
+        await new AzureDevOpsProvider(options).hasWritePermission(
+          "jdoe@example.com",
+        ),
+      ).toBe(true);
+    });
+
+    test("hasWritePermission rejects read-only users", async () => {
+      withAcl(2);
+
+      expect(
+        await new AzureDevOpsProvider(options).hasWritePermission(
+          "jdoe@example.com",
+        ),
+      ).toBe(false);
+    });
+
+    test("hasWritePermission is skipped with CC_SKIP_PRE_CHECK", async () => {
+      process.env.CC_SKIP_PRE_CHECK = "1";
+
+      expect(
+        await new AzureDevOpsProvider(options).hasWritePermission("anyone"),
+      ).toBe(true);
+      expect(requests).toEqual([]);
+    });
+
+    test("isHumanActor rejects service identities", async () => {
+      responses[
+        `GET https://vssps.dev.azure.com/acme/_apis/identities?searchFilter=General&filterValue=build&queryMembership=None`
+      ] = json({
+        count: 1,
+        value: [
+          {
+            id: "build-id",
+            descriptor: "Microsoft.TeamFoundation.ServiceIdentity;build",
+            providerDisplayName: "Build Service",
+            isActive: true,
+          },
+        ],
+      });
+
+      expect(await new AzureDevOpsProvider(options).isHumanActor("build")).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("Repository content", () => {
+    test("getFileContent reads the item at a commit", async () => {
+      const sha = "a".repeat(40);
+      responses[
+        `GET ${repoUrl}/items?path=src%2Fa.ts&versionDescriptor.version=${sha}&versionDescriptor.versionType=commit`
+      ] = () => new Response("const a = 1;");
+
+      expect(
+        await new AzureDevOpsProvider(options).getFileContent("src/a.ts", sha),
+      ).toBe("const a = 1;");
+    });
+
+    test("getFileContent throws for missing files", async () => {
+      await expect(
+        new AzureDevOpsProvider(options).getFileContent("missing.ts", "main"),
+      ).rejects.toThrow("File not found: missing.ts");
+    });
+
+    test("getBranch matches the exact ref", async () => {
+      responses[
+        `GET ${repoUrl}/refs?filter=${encodeURIComponent("heads/main")}`
+      ] = json({
+        count: 2,
+        value: [
+          { name: "refs/heads/main-old", objectId: "old" },
+          { name: "refs/heads/main", objectId: "abc", isLocked: true },
+        ],
+      });
+
+      expect(await new AzureDevOpsProvider(options).getBranch("main")).toEqual({
+        name: "main",
+        sha: "abc",
+        protected: true,
+      });
+    });
+
+    test("getBranch returns null for missing branches", async () => {
+      responses[
+        `GET ${repoUrl}/refs?filter=${encodeURIComponent("heads/missing")}`
+      ] = json({ count: 0, value: [] });
+
+      expect(
+        await new AzureDevOpsProvider(options).getBranch("missing"),
+      ).toBeNull();
+    });
+
+    test("createBranch creates the ref from the base commit", async () => {
+      responses[`POST ${repoUrl}/refs`] = json({
+        count: 1,
+        value: [{ success: true }],
+      });
+
+      await new AzureDevOpsProvider(options).createBranch("claude/fix", "abc");
+
+      expect(requests[0]!.body).toEqual([
+        {
+          name: "refs/heads/claude/fix",
+          oldObjectId: "0".repeat(40),
+          newObjectId: "abc",
+        },
+      ]);
+    });
+
+    test("pushChanges adds and edits files in one push", async () => {
+      responses[
+        `GET ${repoUrl}/refs?filter=${encodeURIComponent("heads/feature")}`
+      ] = json({
+        count: 1,
+        value: [{ name: "refs/heads/feature", objectId: "head" }],
+      });
+      responses[
+        `GET ${repoUrl}/items?path=src%2Fa.ts&versionDescriptor.version=head&versionDescriptor.versionType=branch`
+      ] = () => new Response("old");
+      responses[`POST ${repoUrl}/pushes`] = json({
+        pushId: 1,
+        commits: [{ commitId: "new-sha" }],
+      });
+
+      const sha = await new AzureDevOpsProvider(options).pushChanges(
+        "feature",
+        "Update files",
+        { "src/a.ts": "a", "src/b.ts": "b" },
+      );
+
+      expect(sha).toBe("new-sha");
+      const push = requests.find((r) => r.method === "POST")!.body;
+      expect(push).toMatchObject({
+        refUpdates: [{ name: "refs/heads/feature", oldObjectId: "head" }],
+        commits: [
+          {
+            comment: "Update files",
+            changes: [
+              {
+                changeType: "edit",
+                item: { path: "/src/a.ts" },
+                newContent: { content: "a", contentType: "rawtext" },
+              },
+              {
+                changeType: "add",
+                item: { path: "/src/b.ts" },
+                newContent: { content: "b", contentType: "rawtext" },
+              },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe("Reviews", () => {
+    test("applySuggestions posts suggestion threads on the changed lines", async () => {
+      responses[`POST ${prUrl}/threads`] = json({ id: 1 });
+
+      await new AzureDevOpsProvider(options).applySuggestions([
+        {
+          file: "src/a.ts",
+          line: 3,
+          suggestion: "const a = 1;",
+          description: "Use const",
+        },
+      ]);
+
+      expect(requests[0]!.body).toEqual({
+        comments: [
+          {
+            parentCommentId: 0,
+            content: "Use const\n\n```suggestion\nconst a = 1;\n```",
+            commentType: 1,
+          },
+        ],
+        status: "active",
+        threadContext: {
+          filePath: "/src/a.ts",
+          rightFileStart: { line: 3, offset: 1 },
+          rightFileEnd: { line: 3, offset: 1 },
+        },
+      });
+    });
+
+    test("submitReview posts line threads, a summary and votes", async () => {
+      responses[`POST ${prUrl}/threads`] = json({ id: 1 });
+      responses[`GET https://dev.azure.com/acme/_apis/connectionData`] = json({
+        authenticatedUser: { id: "bot-id", providerDisplayName: "Bot" },
+      });
+      responses[`PUT ${prUrl}/reviewers/bot-id`] = json({ vote: -5 });
+
+      await new AzureDevOpsProvider(options).submitReview({
+        body: "Found an issue",
+        event: "REQUEST_CHANGES",
+        comments: [
+          {
+            path: "src/a.ts",
+            line: 6,
+            startLine: 5,
+            side: "LEFT",
+            body: "Removed too much",
+          },
+        ],
+      });
+
+      expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+        `POST ${prUrl}/threads`,
+        `POST ${prUrl}/threads`,
+        `GET https://dev.azure.com/acme/_apis/connectionData`,
+        `PUT ${prUrl}/reviewers/bot-id`,
+      ]);
+      expect(requests[0]!.body).toMatchObject({
+        threadContext: {
+          filePath: "/src/a.ts",
+          leftFileStart: { line: 5, offset: 1 },
+          leftFileEnd: { line: 6, offset: 1 },
+        },
+      });
+      expect(requests[1]!.body).toMatchObject({
+        comments: [
+          { content: "Found an issue\n\n**Verdict:** Changes requested" },
+        ],
+      });
+      expect(requests[3]!.body).toEqual({ vote: -5 });
+    });
+
+    test("submitReview does not vote on comment-only reviews", async () => {
+      responses[`POST ${prUrl}/threads`] = json({ id: 1 });
+
+      await new AzureDevOpsProvider(options).submitReview({
+        body: "Looks good",
+        event: "COMMENT",
+        comments: [],
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]!.body).toMatchObject({
+        comments: [{ content: "Looks good\n\n**Verdict:** Comments only" }],
+      });
+    });
+  });
+
+  describe("Trigger detection", () => {
+    test("checkTrigger uses the direct prompt without a payload", async () => {
+      const provider = new AzureDevOpsProvider(options);
+
+      expect(await provider.checkTrigger("@claude", "Review this")).toBe(true);
+      expect(await provider.checkTrigger("@claude")).toBe(false);
+    });
+
+    test("checkTrigger reads the webhook comment", async () => {
+      process.env.AZURE_DEVOPS_WEBHOOK_PAYLOAD = JSON.stringify({
+        resource: {
+          comment: { content: "@claude please fix" },
+          pullRequest: { pullRequestId: 17 },
+        },
+      });
+
+      expect(
+        await new AzureDevOpsProvider(options).checkTrigger("@claude"),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { GitHubProvider } from "../../src/providers/github-provider";
+import * as githubContext from "../../src/github/context";
+import * as initialComment from "../../src/github/operations/comments/create-initial";
+import * as gitConfig from "../../src/github/operations/git-config";
+import * as branch from "../../src/github/operations/branch";
+import * as branchCleanup from "../../src/github/operations/branch-cleanup";
+import * as claudeComment from "../../src/github/operations/comments/update-claude-comment";
+import {
+  mockIssueCommentContext,
+  mockPullRequestReviewCommentContext,
+} from "../mockContext";
+
+describe("GitHubProvider", () => {
+  let provider: GitHubProvider;
+  let spies: Array<{ mockRestore: () => void }> = [];
+
+  beforeEach(() => {
+    spies = [
+      spyOn(githubContext, "parseGitHubContext").mockReturnValue(
+        mockIssueCommentContext,
+      ),
+    ];
+    provider = new GitHubProvider({
+      token: "test-token",
+      runId: "1234567890",
+      actor: "contributor-user",
+      eventName: "issue_comment",
+      repository: { owner: "test-owner", repo: "test-repo" },
+    });
+  });
+
+  afterEach(() => {
+    spies.forEach((spy) => spy.mockRestore());
+  });
+
+  test("getContext maps the Actions context", () => {
+    expect(provider.getContext()).toEqual({
+      platform: "github",
+      isPR: false,
+      entityNumber: 55,
+      actor: "contributor-user",
+      runId: "1234567890",
+      triggerEvent: "issue_comment",
+    });
+    expect(provider.getGitHubContext()).toBe(mockIssueCommentContext);
+  });
+
+  test("setupGitAuth authors commits as the tracking comment's user", async () => {
+    const createSpy = spyOn(
+      initialComment,
+      "createInitialComment",
+    ).mockResolvedValue({
+      id: 42,
+      user: { login: "claude[bot]", id: 209825114 },
+    } as any);
+    const authSpy = spyOn(gitConfig, "configureGitAuth").mockResolvedValue();
+    spies.push(createSpy, authSpy);
+
+    expect(await provider.createTrackingComment()).toBe(42);
+    await provider.setupGitAuth("test-token");
+
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(authSpy).toHaveBeenCalledWith(
+      "test-token",
+      mockIssueCommentContext,
+      { login: "claude[bot]", id: 209825114 },
+    );
+  });
+
+  test("setupGitAuth falls back to the default bot without a tracking comment", async () => {
+    const createSpy = spyOn(initialComment, "createInitialComment");
+    const authSpy = spyOn(gitConfig, "configureGitAuth").mockResolvedValue();
+    spies.push(createSpy, authSpy);
+
+    await provider.setupGitAuth("test-token");
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(authSpy).toHaveBeenCalledWith(
+      "test-token",
+      mockIssueCommentContext,
+      null,
+    );
+  });
+
+  test("setupBranch sets up the branch for the provider's context", async () => {
+    const branchSpy = spyOn(branch, "setupBranch").mockResolvedValue({
+      baseBranch: "main",
+      claudeBranch: "claude/issue-55-20250101-0000",
+      currentBranch: "claude/issue-55-20250101-0000",
+    });
+    spies.push(branchSpy);
+
+    const branchInfo = await provider.setupBranch(undefined);
+
+    expect(branchInfo.claudeBranch).toBe("claude/issue-55-20250101-0000");
+    expect(branchSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      undefined,
+      mockIssueCommentContext,
+    );
+  });
+
+  test("updateTrackingComment updates an issue comment outside review threads", async () => {
+    const updateSpy = spyOn(
+      claudeComment,
+      "updateClaudeComment",
+    ).mockResolvedValue({ id: 42, html_url: "", updated_at: "" });
+    spies.push(updateSpy);
+
+    await provider.updateTrackingComment(42, "Done");
+
+    expect(updateSpy).toHaveBeenCalledWith(expect.anything(), {
+      owner: "test-owner",
+      repo: "test-repo",
+      commentId: 42,
+      body: "Done",
+      isPullRequestReviewComment: false,
+    });
+  });
+
+  test("updateTrackingComment updates the reply when triggered from a review comment", async () => {
+    spies[0]!.mockRestore();
+    spies = [
+      spyOn(githubContext, "parseGitHubContext").mockReturnValue(
+        mockPullRequestReviewCommentContext,
+      ),
+    ];
+    const updateSpy = spyOn(
+      claudeComment,
+      "updateClaudeComment",
+    ).mockResolvedValue({ id: 42, html_url: "", updated_at: "" });
+    spies.push(updateSpy);
+
+    await new GitHubProvider({
+      token: "test-token",
+      runId: "1234567890",
+      actor: "contributor-user",
+      eventName: "pull_request_review_comment",
+      repository: { owner: "test-owner", repo: "test-repo" },
+    }).updateTrackingComment(42, "Done");
+
+    expect(updateSpy.mock.calls[0]![1].isPullRequestReviewComment).toBe(true);
+  });
+
+  test("cleanupBranch applies the commit signing input", async () => {
+    const cleanupSpy = spyOn(
+      branchCleanup,
+      "checkAndCommitOrDeleteBranch",
+    ).mockResolvedValue({ shouldDeleteBranch: true, branchLink: "" });
+    spies.push(cleanupSpy);
+
+    expect(await provider.cleanupBranch("claude/issue-55", "main")).toEqual({
+      shouldDeleteBranch: true,
+      branchLink: "",
+    });
+    expect(cleanupSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      "test-owner",
+      "test-repo",
+      "claude/issue-55",
+      "main",
+      mockIssueCommentContext.inputs.useCommitSigning,
+    );
+  });
+});
@@ -179,6 +179,227 @@ describe("GitLabProvider", () => {
     });
   });
 
+  describe("Reviews", () => {
+    function mockReviewApi(failOnDraft?: number) {
+      let nextId = 0;
+      const api = {
+        requester: {
+          get: mock(() =>
+            Promise.resolve({
+              diff_refs: {
+                base_sha: "base",
+                start_sha: "start",
+                head_sha: "head",
+              },
+              changes: [
+                { old_path: "src/old.ts", new_path: "src/new.ts" },
+                { old_path: "src/same.ts", new_path: "src/same.ts" },
+              ],
+            }),
+          ),
+        },
+        MergeRequestDraftNotes: {
+          create: mock(() => {
+            nextId++;
+            return nextId === failOnDraft
+              ? Promise.reject(new Error("400 Bad Request"))
+              : Promise.resolve({ id: nextId });
+          }),
+          remove: mock(() => Promise.resolve()),
+          publishBulk: mock(() => Promise.resolve([])),
+        },
+      };
+      (provider as any).api = api;
+      return api;
+    }
+
+    const review = {
+      body: "Found an issue",
+      event: "REQUEST_CHANGES" as const,
+      comments: [
+        { path: "src/new.ts", line: 3, side: "LEFT" as const, body: "Old" },
+        { path: "src/same.ts", line: 5, body: "New" },
+      ],
+    };
+
+    test("submitReview positions notes with the merge request's diff refs", async () => {
+      const api = mockReviewApi();
+
+      await provider.submitReview(review);
+
+      expect(api.MergeRequestDraftNotes.create).toHaveBeenNthCalledWith(
+        1,
+        "123",
+        45,
+        "Old",
+        {
+          position: {
+            baseSha: "base",
+            startSha: "start",
+            headSha: "head",
+            oldPath: "src/old.ts",
+            newPath: "src/new.ts",
+            positionType: "text",
+            oldLine: "3",
+          },
+        },
+      );
+      expect(api.MergeRequestDraftNotes.create).toHaveBeenNthCalledWith(
+        2,
+        "123",
+        45,
+        "New",
+        {
+          position: expect.objectContaining({
+            oldPath: "src/same.ts",
+            newPath: "src/same.ts",
+            newLine: "5",
+          }),
+        },
+      );
+      expect(api.MergeRequestDraftNotes.publishBulk).toHaveBeenCalledWith(
+        "123",
+        45,
+      );
+    });
+
+    test("submitReview deletes its drafts when one fails", async () => {
+      const api = mockReviewApi(2);
+
+      await expect(provider.submitReview(review)).rejects.toThrow(
+        "400 Bad Request",
+      );
+
+      expect(api.MergeRequestDraftNotes.remove).toHaveBeenCalledTimes(1);
+      expect(api.MergeRequestDraftNotes.remove).toHaveBeenCalledWith(
+        "123",
+        45,
+        1,
+      );
+      expect(api.MergeRequestDraftNotes.publishBulk).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Triage", () => {
+    const mergeRequest = {
+      labels: ["bug"],
+      assignees: [{ id: 1, username: "alice" }],
+      reviewers: [{ id: 3, username: "carol" }],
+    };
+
+    function mockTriageApi() {
+      const api = {
+        MergeRequests: {
+          show: mock(() => Promise.resolve(mergeRequest)),
+          edit: mock(() => Promise.resolve({})),
+        },
+        Issues: {
+          show: mock(() =>
+            Promise.resolve({ labels: ["question"], assignees: [] }),
+          ),
+          edit: mock(() => Promise.resolve({})),
+        },
+        Users: {
+          all: mock(({ username }: { username: string }) =>
+            Promise.resolve(
+              username === "bob" ? [{ id: 2, username: "bob" }] : [],
+            ),
+          ),
+        },
+        MergeRequestApprovals: {
+          showConfiguration: mock(() =>
+            Promise.resolve({
+              approvals_required: 2,
+              approvals_left: 1,
+              approved_by: [{ user: { username: "carol" } }],
+            }),
+          ),
+        },
+      };
+      (provider as any).api = api;
+      return api;
+    }
+
+    test("addLabels edits the merge request with a comma-separated list", async () => {
+      const api = mockTriageApi();
+
+      await provider.addLabels(["bug", "team::backend"]);
+
+      expect(api.MergeRequests.edit).toHaveBeenCalledWith("123", 45, {
+        addLabels: "bug,team::backend",
+      });
+    });
+
+    test("label changes target the issue outside a merge request", async () => {
+      const issueProvider = new GitLabProvider({
+        ...options,
+        mrIid: undefined,
+        issueIid: "9",
+      });
+      const api = mockTriageApi();
+      (issueProvider as any).api = api;
+
+      expect(await issueProvider.getLabels()).toEqual(["question"]);
+      await issueProvider.removeLabels(["question"]);
+
+      expect(api.Issues.edit).toHaveBeenCalledWith("123", 9, {
+        removeLabels: "question",
+      });
+      await expect(issueProvider.requestReviewers(["bob"])).rejects.toThrow(
+        "Cannot request reviewers outside a merge request",
+      );
+    });
+
+    test("addAssignees keeps the current assignees", async () => {
+      const api = mockTriageApi();
+
+      await provider.addAssignees(["bob"]);
+
+      expect(api.MergeRequests.edit).toHaveBeenCalledWith("123", 45, {
+        assigneeIds: [1, 2],
+      });
+    });
+
+    test("addAssignees rejects unknown users", async () => {
+      mockTriageApi();
+
+      await expect(provider.addAssignees(["nobody"])).rejects.toThrow(
+        "GitLab user not found: nobody",
+      );
+    });
+
+    test("removing the last assignee unassigns everyone", async () => {
+      const api = mockTriageApi();
+
+      await provider.removeAssignees(["alice"]);
+
+      expect(api.MergeRequests.edit).toHaveBeenCalledWith("123", 45, {
+        assigneeIds: [0],
+      });
+    });
+
+    test("requestReviewers keeps the current reviewers", async () => {
+      const api = mockTriageApi();
+
+      await provider.requestReviewers(["bob"]);
+
+      expect(api.MergeRequests.edit).toHaveBeenCalledWith("123", 45, {
+        reviewerIds: [3, 2],
+      });
+    });
+
+    test("getApprovalState reports approvals from the approvals API", async () => {
+      mockTriageApi();
+
+      expect(await provider.getApprovalState()).toEqual({
+        approved: false,
+        approvedBy: ["carol"],
+        changesRequestedBy: [],
+        approvalsRequired: 2,
+      });
+    });
+  });
+
   describe("Trigger validation", () => {
     test("checkTrigger returns true for direct prompt", async () => {
       const providerWithPrompt = new GitLabProvider({
@@ -60,8 +60,57 @@ describe("detectPlatform", () => {
     console.log = originalLog;
   });
 
+  test("detects Bitbucket from BITBUCKET_BUILD_NUMBER variable", () => {
+    delete process.env.GITLAB_CI;
+    delete process.env.CI_PROJECT_ID;
+    delete process.env.GITHUB_ACTIONS;
+    delete process.env.CI_PLATFORM;
+    process.env.BITBUCKET_BUILD_NUMBER = "42";
+    expect(detectPlatform()).toBe("bitbucket");
+  });
+
+  test("respects explicit CI_PLATFORM setting for bitbucket", () => {
+    process.env.CI_PLATFORM = "bitbucket";
+    process.env.GITHUB_ACTIONS = "true"; // Should be ignored
+    expect(detectPlatform()).toBe("bitbucket");
+  });
+
+  test("detects Gitea before GitHub on Gitea runners", () => {
+    delete process.env.GITLAB_CI;
+    delete process.env.CI_PROJECT_ID;
+    delete process.env.CI_PLATFORM;
+    process.env.GITHUB_ACTIONS = "true"; // Gitea runners set this too
+    process.env.GITEA_ACTIONS = "true";
+    expect(detectPlatform()).toBe("gitea");
+  });
+
+  test("detects Forgejo runners as Gitea", () => {
+    delete process.env.GITLAB_CI;
+    delete process.env.CI_PROJECT_ID;
+    delete process.env.CI_PLATFORM;
+    delete process.env.GITEA_ACTIONS;
+    process.env.FORGEJO_ACTIONS = "true";
+    expect(detectPlatform()).toBe("gitea");
+  });
+
+  test("detects Azure Pipelines from TF_BUILD variable", () => {
+    delete process.env.GITLAB_CI;
+    delete process.env.CI_PROJECT_ID;
+    delete process.env.GITHUB_ACTIONS;
+    delete process.env.BITBUCKET_BUILD_NUMBER;
+    delete process.env.CI_PLATFORM;
+    process.env.TF_BUILD = "True";
+    expect(detectPlatform()).toBe("azure-devops");
+  });
+
+  test("respects explicit CI_PLATFORM setting for azure-devops", () => {
+    process.env.CI_PLATFORM = "azure-devops";
+    process.env.GITHUB_ACTIONS = "true"; // Should be ignored
+    expect(detectPlatform()).toBe("azure-devops");
+  });
+
   test("ignores invalid CI_PLATFORM values", () => {
-    process.env.CI_PLATFORM = "bitbucket"; // Not supported
+    process.env.CI_PLATFORM = "jenkins"; // Not supported
     process.env.GITLAB_CI = "true";
     expect(detectPlatform()).toBe("gitlab");
   });
@@ -99,6 +148,92 @@ describe("getToken", () => {
     });
   });
 
+  describe("Bitbucket token retrieval", () => {
+    beforeEach(() => {
+      process.env.CI_PLATFORM = "bitbucket";
+      delete process.env.BITBUCKET_ACCESS_TOKEN;
+      delete process.env.BITBUCKET_USERNAME;
+      delete process.env.BITBUCKET_APP_PASSWORD;
+    });
+
+    test("gets token from BITBUCKET_ACCESS_TOKEN environment variable", () => {
+      process.env.BITBUCKET_ACCESS_TOKEN = "env-bitbucket-token";
+
+      expect(getToken()).toBe("env-bitbucket-token");
+    });
+
+    test("combines username and app password", () => {
+      process.env.BITBUCKET_USERNAME = "claude-bot";
+      process.env.BITBUCKET_APP_PASSWORD = "app-password";
+
+      expect(getToken()).toBe("claude-bot:app-password");
+    });
+
+    test("throws error when no Bitbucket token found", () => {
+      expect(() => getToken()).toThrow(
+        "Bitbucket authentication required (BITBUCKET_ACCESS_TOKEN, or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD)",
+      );
+    });
+  });
+
+  describe("Gitea token retrieval", () => {
+    beforeEach(() => {
+      process.env.CI_PLATFORM = "gitea";
+      delete process.env.GITEA_TOKEN;
+      delete process.env.OVERRIDE_GITHUB_TOKEN;
+      delete process.env.GITHUB_TOKEN;
+      delete process.env.ACTIONS_TOKEN;
+    });
+
+    test("prefers GITEA_TOKEN over the workflow token", () => {
+      process.env.GITEA_TOKEN = "env-gitea-token";
+      process.env.ACTIONS_TOKEN = "workflow-token";
+
+      expect(getToken()).toBe("env-gitea-token");
+    });
+
+    test("falls back to the github_token input and the workflow token", () => {
+      process.env.ACTIONS_TOKEN = "workflow-token";
+      expect(getToken()).toBe("workflow-token");
+
+      process.env.OVERRIDE_GITHUB_TOKEN = "input-token";
+      expect(getToken()).toBe("input-token");
+    });
+
+    test("throws error when no Gitea token found", () => {
+      expect(() => getToken()).toThrow(
+        "Gitea authentication required (GITEA_TOKEN or github_token input)",
+      );
+    });
+  });
+
+  describe("Azure DevOps token retrieval", () => {
+    beforeEach(() => {
+      process.env.CI_PLATFORM = "azure-devops";
+      delete process.env.AZURE_DEVOPS_TOKEN;
+      delete process.env.SYSTEM_ACCESSTOKEN;
+    });
+
+    test("prefers AZURE_DEVOPS_TOKEN over the pipeline token", () => {
+      process.env.AZURE_DEVOPS_TOKEN = "env-ado-token";
+      process.env.SYSTEM_ACCESSTOKEN = "pipeline-token";
+
+      expect(getToken()).toBe("env-ado-token");
+    });
+
+    test("falls back to SYSTEM_ACCESSTOKEN", () => {
+      process.env.SYSTEM_ACCESSTOKEN = "pipeline-token";
+
+      expect(getToken()).toBe("pipeline-token");
+    });
+
+    test("throws error when no Azure DevOps token found", () => {
+      expect(() => getToken()).toThrow(
+        "Azure DevOps authentication required (AZURE_DEVOPS_TOKEN or SYSTEM_ACCESSTOKEN)",
+      );
+    });
+  });
+
   describe("GitHub token retrieval", () => {
     test("gets token from GITHUB_TOKEN environment variable", () => {
       process.env.GITHUB_ACTIONS = "true";
@@ -0,0 +1,153 @@
+import { describe, test, expect } from "bun:test";
+import {
+  findLocation,
+  parseJUnitXml,
+  parseTap,
+  parseTestReport,
+} from "../src/utils/test-reports";
+
+describe("parseJUnitXml", () => {
+  test("returns failed and errored test cases", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="auth" tests="3" failures="1" errors="1">
+    <testcase classname="LoginTest" name="accepts valid password" time="0.01"/>
+    <testcase classname="LoginTest" name="rejects &quot;empty&quot; password" file="test/login.test.ts" time="0.02">
+      <failure message="expected 401, got 200" type="AssertionError"><![CDATA[AssertionError: expected 401, got 200
+    at Object.<anonymous> (/home/runner/work/app/node_modules/expect/build/index.js:10:5)
+    at Object.<anonymous> (/home/runner/work/app/test/login.test.ts:42:7)]]></failure>
+    </testcase>
+    <testcase classname="SessionTest" name="expires" time="0">
+      <error type="TimeoutError">Timed out after 5000ms</error>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+    expect(parseJUnitXml(xml)).toEqual([
+      {
+        name: 'LoginTest rejects "empty" password',
+        suite: "auth",
+        file: "/home/runner/work/app/test/login.test.ts",
+        line: 42,
+        message: "expected 401, got 200",
+        stack: [
+          "AssertionError: expected 401, got 200",
+          "    at Object.<anonymous> (/home/runner/work/app/node_modules/expect/build/index.js:10:5)",
+          "    at Object.<anonymous> (/home/runner/work/app/test/login.test.ts:42:7)",
+        ].join("\n"),
+        source: "junit",
+      },
+      {
+        name: "SessionTest expires",
+        suite: "auth",
+        message: "Timed out after 5000ms",
+        stack: "Timed out after 5000ms",
+        source: "junit",
+      },
+    ]);
+  });
+
+  test("uses file and line attributes when present", () => {
+    const xml = `<testsuite name="pytest" file="tests/test_math.py">
+  <testcase classname="tests.test_math" name="test_add" line="7">
+    <failure message="assert 3 == 4"/>
+  </testcase>
+</testsuite>`;
+
+    expect(parseJUnitXml(xml)).toEqual([
+      {
+        name: "tests.test_math test_add",
+        suite: "pytest",
+        file: "tests/test_math.py",
+        line: 7,
+        message: "assert 3 == 4",
+        source: "junit",
+      },
+    ]);
+  });
+
+  test("keeps each test case with its own suite", () => {
+    const xml = `<testsuites>
+  <testsuite name="first"><testcase name="a"><failure message="a failed"/></testcase></testsuite>
+  <testsuite name="second"><testcase name="b"><failure message="b failed"/></testcase></testsuite>
+</testsuites>`;
+
+    expect(parseJUnitXml(xml).map((test) => test.suite)).toEqual([
+      "first",
+      "second",
+    ]);
+  });
+});
+
+describe("parseTap", () => {
+  test("reads YAML diagnostics of failing tests", () => {
+    const tap = `TAP version 13
+ok 1 - adds numbers
+not ok 2 - subtracts numbers
+  ---
+  duration_ms: 1.2
+  location: '/repo/test/math.test.js:12:1'
+  error: 'Expected values to be strictly equal'
+  stack: |-
+    TestContext.<anonymous> (/repo/test/math.test.js:14:10)
+    Test.runInAsyncScope (node:async_hooks:206:9)
+  ...
+not ok 3 - divides numbers # TODO not implemented
+not ok 4 - multiplies numbers # SKIP
+1..4`;
+
+    expect(parseTap(tap)).toEqual([
+      {
+        name: "subtracts numbers",
+        file: "/repo/test/math.test.js",
+        line: 12,
+        message: "Expected values to be strictly equal",
+        stack: [
+          "TestContext.<anonymous> (/repo/test/math.test.js:14:10)",
+          "Test.runInAsyncScope (node:async_hooks:206:9)",
+        ].join("\n"),
+        source: "tap",
+      },
+    ]);
+  });
+
+  test("handles failures without diagnostics", () => {
+    expect(parseTap("not ok 1 should connect\n1..1")).toEqual([
+      { name: "should connect", source: "tap" },
+    ]);
+  });
+});
+
+describe("findLocation", () => {
+  test("prefers frames in the test file", () => {
+    const stack = [
+      "at helper (/repo/src/helper.ts:3:1)",
+      "at test (/repo/test/app.test.ts:20:5)",
+    ].join("\n");
+
+    expect(findLocation(stack, "test/app.test.ts")).toEqual({
+      file: "/repo/test/app.test.ts",
+      line: 20,
+    });
+    expect(findLocation(stack)).toEqual({
+      file: "/repo/src/helper.ts",
+      line: 3,
+    });
+  });
+});
+
+describe("parseTestReport", () => {
+  test("detects the report format", () => {
+    expect(
+      parseTestReport(
+        "junit.xml",
+        '<testsuite><testcase name="a"><failure message="x"/></testcase></testsuite>',
+      ),
+    ).toHaveLength(1);
+    expect(
+      parseTestReport("results.txt", "TAP version 13\nnot ok 1 - a\n1..1"),
+    ).toHaveLength(1);
+    expect(parseTestReport("pom.xml", "<project></project>")).toBeNull();
+    expect(parseTestReport("notes.txt", "not ok")).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getTriageAllowedTools,
+  getTriageCapabilities,
+} from "../src/mcp/triage-tools";
+
+describe("getTriageCapabilities", () => {
+  test("grants labels and assignees with issues: write", () => {
+    expect(
+      getTriageCapabilities(new Map([["issues", "write"]]), false),
+    ).toEqual(["labels", "assignees"]);
+  });
+
+  test("grants reviewers with pull-requests: write on pull requests only", () => {
+    const permissions = new Map([["pull-requests", "write"]]);
+
+    expect(getTriageCapabilities(permissions, true)).toEqual(["reviewers"]);
+    expect(getTriageCapabilities(permissions, false)).toEqual([]);
+  });
+
+  test("ignores read permissions", () => {
+    const permissions = new Map([
+      ["issues", "read"],
+      ["pull-requests", "read"],
+      ["actions", "read"],
+    ]);
+
+    expect(getTriageCapabilities(permissions, true)).toEqual([]);
+  });
+});
+
+describe("getTriageAllowedTools", () => {
+  test("returns no tools without capabilities", () => {
+    expect(getTriageAllowedTools([])).toEqual([]);
+  });
+
+  test("allows reading state and the granted write tools", () => {
+    expect(getTriageAllowedTools(["labels", "reviewers"])).toEqual([
+      "mcp__scm_triage__get_triage_state",
+      "mcp__scm_triage__add_labels",
+      "mcp__scm_triage__remove_labels",
+      "mcp__scm_triage__request_reviewers",
+    ]);
+  });
+});
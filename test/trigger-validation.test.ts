@@ -1,6 +1,7 @@
 import {
   checkContainsTrigger,
   escapeRegExp,
+  parseTriggerCommand,
 } from "../src/github/validation/trigger";
 import { describe, it, expect } from "bun:test";
 import {
@@ -34,6 +35,7 @@ describe("checkContainsTrigger", () => {
           labelTrigger: "",
           directPrompt: "Fix the bug in the login form",
           overridePrompt: "",
+          overridePromptFile: "",
           allowedTools: [],
           disallowedTools: [],
           customInstructions: "",
@@ -41,6 +43,7 @@ describe("checkContainsTrigger", () => {
           useStickyComment: false,
           additionalPermissions: new Map(),
           useCommitSigning: false,
+          contextTokenBudget: 50000,
         },
       });
       expect(checkContainsTrigger(context)).toBe(true);
@@ -67,6 +70,7 @@ describe("checkContainsTrigger", () => {
           labelTrigger: "",
           directPrompt: "",
           overridePrompt: "",
+          overridePromptFile: "",
           allowedTools: [],
           disallowedTools: [],
           customInstructions: "",
@@ -74,6 +78,7 @@ describe("checkContainsTrigger", () => {
           useStickyComment: false,
           additionalPermissions: new Map(),
           useCommitSigning: false,
+          contextTokenBudget: 50000,
         },
       });
       expect(checkContainsTrigger(context)).toBe(false);
@@ -284,6 +289,7 @@ describe("checkContainsTrigger", () => {
           labelTrigger: "",
           directPrompt: "",
           overridePrompt: "",
+          overridePromptFile: "",
           allowedTools: [],
           disallowedTools: [],
           customInstructions: "",
@@ -291,6 +297,7 @@ describe("checkContainsTrigger", () => {
           useStickyComment: false,
           additionalPermissions: new Map(),
           useCommitSigning: false,
+          contextTokenBudget: 50000,
         },
       });
       expect(checkContainsTrigger(context)).toBe(true);
@@ -318,6 +325,7 @@ describe("checkContainsTrigger", () => {
           labelTrigger: "",
           directPrompt: "",
           overridePrompt: "",
+          overridePromptFile: "",
           allowedTools: [],
           disallowedTools: [],
           customInstructions: "",
@@ -325,6 +333,7 @@ describe("checkContainsTrigger", () => {
           useStickyComment: false,
           additionalPermissions: new Map(),
           useCommitSigning: false,
+          contextTokenBudget: 50000,
         },
       });
       expect(checkContainsTrigger(context)).toBe(true);
@@ -352,6 +361,7 @@ describe("checkContainsTrigger", () => {
           labelTrigger: "",
           directPrompt: "",
           overridePrompt: "",
+          overridePromptFile: "",
           allowedTools: [],
           disallowedTools: [],
           customInstructions: "",
@@ -359,6 +369,7 @@ describe("checkContainsTrigger", () => {
           useStickyComment: false,
           additionalPermissions: new Map(),
           useCommitSigning: false,
+          contextTokenBudget: 50000,
         },
       });
       expect(checkContainsTrigger(context)).toBe(false);
@@ -503,3 +514,42 @@ describe("escapeRegExp", () => {
     expect(escapeRegExp("test[123]")).toBe("test\\[123\\]");
   });
 });
+
+describe("parseTriggerCommand", () => {
+  it("should parse a slash command from a comment", () => {
+    const context = {
+      ...mockIssueCommentContext,
+      payload: {
+        ...mockIssueCommentContext.payload,
+        comment: {
+          ...(mockIssueCommentContext.payload as IssueCommentEvent).comment,
+          body: "@claude /explain src/logger.ts",
+        },
+      },
+    } as ParsedGitHubContext;
+    expect(parseTriggerCommand(context)).toEqual({
+      name: "explain",
+      args: ["src/logger.ts"],
+      rawArgs: "src/logger.ts",
+    });
+  });
+
+  it("should parse a slash command from a pull request review", () => {
+    const context = {
+      ...mockPullRequestReviewContext,
+      payload: {
+        ...mockPullRequestReviewContext.payload,
+        review: {
+          ...(mockPullRequestReviewContext.payload as PullRequestReviewEvent)
+            .review,
+          body: "Looks close. @claude /rebase",
+        },
+      },
+    } as ParsedGitHubContext;
+    expect(parseTriggerCommand(context)?.name).toBe("rebase");
+  });
+
+  it("should return null for a mention without a command", () => {
+    expect(parseTriggerCommand(mockIssueCommentContext)).toBeNull();
+  });
+});